@@ -0,0 +1,244 @@
+import React from 'react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import App from './App';
+import { registerProvider } from './services/providers/registry';
+import { openDb, transactionDone } from './services/db';
+import { SafetyBlockError } from './services/errors';
+import { saveCreation } from './services/historyStore';
+import { interfaceLanguage } from './services/i18n';
+import { downloadBlob } from './utils/blob';
+import { createFakeProvider, createTestImage } from './test/fakes';
+
+const testImage = createTestImage([0, 255, 0]);
+const uploadedBlob = new Blob([Uint8Array.from(atob(testImage.data), c => c.charCodeAt(0))], { type: 'image/png' });
+
+// jsdom cannot decode or draw images, so uploads come out as a fixed PNG and
+// exports as the image unchanged; everything around them is the real code.
+vi.mock('./services/imagePreprocess', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./services/imagePreprocess')>(),
+  loadOrientedImage: vi.fn(async () => document.createElement('canvas')),
+  renderUpload: vi.fn(async () => uploadedBlob),
+}));
+
+vi.mock('./services/exportImage', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./services/exportImage')>(),
+  exportImage: vi.fn(async () => uploadedBlob),
+}));
+
+vi.mock('./services/animation', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./services/animation')>(),
+  // jsdom has no encoders, so only the GIF writer written here counts as supported.
+  isAnimationFormatSupported: vi.fn((format: string) => format === 'gif'),
+  encodeAnimation: vi.fn(async () => new Blob(['GIF89a'], { type: 'image/gif' })),
+}));
+
+// jsdom has no canvas to read or stamp a watermark with, so images leave the app unlabelled.
+vi.mock('./services/provenance', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./services/provenance')>(),
+  recordProvenance: vi.fn(async (creation: unknown) => creation),
+  labelImage: vi.fn(async (imageUrl: string) => imageUrl),
+  stampBadge: vi.fn(async (imageUrl: string) => imageUrl),
+}));
+
+// Saving goes to the real store unless a test makes it fail.
+vi.mock('./services/historyStore', async (importOriginal) => {
+  const original = await importOriginal<typeof import('./services/historyStore')>();
+  return { ...original, saveCreation: vi.fn(original.saveCreation) };
+});
+
+// fetch() hands back Node's Blob, which jsdom's FileReader cannot read, so data URLs are decoded by hand.
+vi.mock('./utils/blob', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./utils/blob')>(),
+  dataUrlToBlob: vi.fn(async (dataUrl: string) => {
+    const [header, data] = dataUrl.split(',');
+    return new Blob([Uint8Array.from(atob(data), c => c.charCodeAt(0))], { type: header.slice(5, header.indexOf(';')) });
+  }),
+  downloadBlob: vi.fn(),
+}));
+
+let provider: ReturnType<typeof createFakeProvider>;
+
+// Empties every store, since the app keeps one connection open across tests.
+const clearDatabase = async () => {
+  const db = await openDb();
+  const tx = db.transaction(Array.from(db.objectStoreNames), 'readwrite');
+  for (const name of Array.from(db.objectStoreNames)) tx.objectStore(name).clear();
+  await transactionDone(tx);
+};
+
+const renderApp = () => {
+  const user = userEvent.setup();
+  render(<App />);
+  return user;
+};
+
+const generateCartoon = async (user: ReturnType<typeof userEvent.setup>, description: string) => {
+  const textarea = screen.getByPlaceholderText('e.g., A programmer arguing with a rubber duck');
+  await user.clear(textarea);
+  await user.type(textarea, description);
+  await user.click(screen.getByRole('button', { name: 'Generate Cartoon' }));
+  await screen.findByRole('button', { name: 'Generate Cartoon' });
+};
+
+beforeEach(async () => {
+  vi.mocked(downloadBlob).mockClear();
+  provider = createFakeProvider();
+  registerProvider(provider);
+  localStorage.setItem('expresstoons.provider', JSON.stringify({ providerId: provider.id, model: 'fake-model' }));
+  window.history.replaceState(null, '', '/');
+  interfaceLanguage.set('en');
+  await clearDatabase();
+});
+
+describe('App', () => {
+  it('generates a cartoon and adds it to the history', async () => {
+    const user = renderApp();
+    await generateCartoon(user, 'A cat using a laptop');
+
+    expect(provider.generateCartoon).toHaveBeenCalledTimes(1);
+    expect(provider.generateCartoon.mock.calls[0][0].prompt).toContain('The scene is: A cat using a laptop.');
+    expect(await screen.findByRole('img', { name: 'Generated Cartoon' })).toBeInTheDocument();
+    expect(await screen.findAllByAltText('Previously generated cartoon')).toHaveLength(1);
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+  });
+
+  it('keeps a cartoon that could not be saved and says it will be lost', async () => {
+    vi.mocked(saveCreation).mockRejectedValueOnce(new Error('Quota exceeded'));
+    const user = renderApp();
+    await generateCartoon(user, 'A cat using a laptop');
+
+    expect(await screen.findByRole('img', { name: 'Generated Cartoon' })).toBeInTheDocument();
+    expect(screen.getByRole('alert')).toHaveTextContent('This result could not be saved and will be gone after a reload.');
+  });
+
+  it('shows an error banner when generation fails, and clears it on the next try', async () => {
+    provider.generateCartoon.mockRejectedValueOnce(new SafetyBlockError('Blocked.', 422, 'SAFETY'));
+    const user = renderApp();
+    await generateCartoon(user, 'Something questionable');
+
+    expect(screen.getByRole('alert')).toHaveTextContent('The safety filters blocked this request (SAFETY).');
+    expect(screen.queryByAltText('Previously generated cartoon')).not.toBeInTheDocument();
+
+    await generateCartoon(user, 'Something harmless');
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+  });
+
+  it('asks for a description before calling the provider', async () => {
+    const user = renderApp();
+    await user.clear(screen.getByPlaceholderText('e.g., A programmer arguing with a rubber duck'));
+    await user.click(screen.getByRole('button', { name: 'Generate Cartoon' }));
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Please provide a description and a style.');
+    expect(provider.generateCartoon).not.toHaveBeenCalled();
+  });
+
+  it('reopens an earlier cartoon from the history', async () => {
+    const user = renderApp();
+    await generateCartoon(user, 'First idea');
+    await generateCartoon(user, 'Second idea');
+    const history = await screen.findAllByAltText('Previously generated cartoon');
+    expect(history).toHaveLength(2);
+
+    // Newest first, so the second thumbnail is the first cartoon.
+    await user.click(history[1]);
+    expect(screen.getByPlaceholderText('e.g., A programmer arguing with a rubber duck')).toHaveValue('First idea');
+    expect(history[1]).toHaveClass('border-purple-400');
+    expect(history[0]).not.toHaveClass('border-purple-400');
+  });
+
+  it('downloads the cartoon through the export dialog', async () => {
+    const user = renderApp();
+    // With no signature or caption there is no text to bake in, which would need a real canvas.
+    await user.clear(screen.getByPlaceholderText('e.g., Your Name'));
+    await generateCartoon(user, 'A cat using a laptop');
+    await user.click(screen.getByRole('button', { name: 'Download' }));
+
+    const dialog = await screen.findByRole('dialog', { name: 'Export image' });
+    await user.click(within(dialog).getByRole('button', { name: 'Download' }));
+
+    await waitFor(() => expect(downloadBlob).toHaveBeenCalledWith(uploadedBlob, 'cartoon.png'));
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+  });
+
+  it('switches the interface language without changing the output language', async () => {
+    const user = renderApp();
+    await user.selectOptions(screen.getByRole('combobox', { name: 'Interface language' }), 'fr');
+
+    expect(screen.getByRole('button', { name: 'Générateur de dessins' })).toBeInTheDocument();
+    expect(document.documentElement).toHaveAttribute('lang', 'fr');
+    expect(document.documentElement).toHaveAttribute('dir', 'ltr');
+    const outputLanguage = screen.getByLabelText('Langue du dessin');
+    expect(outputLanguage).toHaveValue('en');
+
+    await user.selectOptions(outputLanguage, 'de');
+    await user.click(screen.getByRole('button', { name: 'Générer le dessin' }));
+    await screen.findByRole('button', { name: 'Générer le dessin' });
+    expect(provider.generateCartoon.mock.calls[0][0].prompt).toContain('such as signs and labels, in German');
+  });
+
+  it('draws each animation frame from the one before, and exports them', async () => {
+    const user = renderApp();
+    await user.click(screen.getByRole('radio', { name: 'Animated' }));
+    await user.click(screen.getByRole('button', { name: 'Generate Animation' }));
+    await screen.findByRole('button', { name: 'Generate Animation' });
+
+    // The default script has three keyframes: one generated, two edited from the frame before.
+    expect(provider.generateCartoon).toHaveBeenCalledTimes(1);
+    expect(provider.editImage).toHaveBeenCalledTimes(2);
+    // The fake provider's edits come back blue, so the third frame is drawn from a blue second one.
+    expect(provider.editImage.mock.calls[1][0].image).toEqual(createTestImage([0, 0, 255]));
+    expect(await screen.findByRole('img', { name: 'Animation frame 1 of 3' })).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'Regenerate frame 3' }));
+    await waitFor(() => expect(provider.editImage).toHaveBeenCalledTimes(3));
+    expect(provider.editImage.mock.calls[2][0].prompt).toContain('Redraw it as frame 3');
+
+    await user.click(screen.getByRole('button', { name: 'Move frame 3 earlier' }));
+    expect(screen.getAllByPlaceholderText('What happens in this frame')[1]).toHaveValue('The glass tips over the edge and the cat looks straight at the viewer');
+
+    await user.click(screen.getByRole('button', { name: 'Export animation' }));
+    await waitFor(() => expect(downloadBlob).toHaveBeenCalledWith(expect.any(Blob), 'animated-toon.gif'));
+  });
+
+  it('edits an uploaded image', async () => {
+    const user = renderApp();
+    await user.click(screen.getByRole('button', { name: 'Image Editor' }));
+    const input = screen.getByText('Upload Image to Edit').parentElement!.querySelector('input[type="file"]') as HTMLInputElement;
+    await user.upload(input, new File([uploadedBlob], 'photo.png', { type: 'image/png' }));
+
+    const instruction = await screen.findByPlaceholderText('e.g., Make it black and white');
+    await user.clear(instruction);
+    await user.type(instruction, 'Make it blue');
+    await user.click(screen.getByRole('button', { name: 'Apply Edit' }));
+    await screen.findByRole('button', { name: 'Apply Edit' });
+
+    expect(provider.editImage).toHaveBeenCalledWith(expect.objectContaining({ prompt: 'Make it blue', image: testImage }));
+    expect(await screen.findByText('Make it blue', { selector: 'p' })).toBeInTheDocument();
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+  });
+
+  it('drops an edit that was cancelled while the provider was still answering', async () => {
+    // A provider that ignores the signal and answers anyway.
+    let answer!: () => void;
+    provider.editImage.mockImplementationOnce(() => new Promise(resolve => {
+      answer = () => resolve({ image: createTestImage([0, 0, 255]) });
+    }));
+    const user = renderApp();
+    await user.click(screen.getByRole('button', { name: 'Image Editor' }));
+    const input = screen.getByText('Upload Image to Edit').parentElement!.querySelector('input[type="file"]') as HTMLInputElement;
+    await user.upload(input, new File([uploadedBlob], 'photo.png', { type: 'image/png' }));
+    const instruction = await screen.findByPlaceholderText('e.g., Make it black and white');
+    await user.clear(instruction);
+    await user.type(instruction, 'Make it blue');
+    await user.click(screen.getByRole('button', { name: 'Apply Edit' }));
+
+    await waitFor(() => expect(provider.editImage).toHaveBeenCalled());
+    await user.click(screen.getByRole('button', { name: 'Cancel' }));
+    answer();
+    await screen.findByRole('button', { name: 'Apply Edit' });
+    expect(screen.queryByText('Make it blue', { selector: 'p' })).not.toBeInTheDocument();
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+  });
+});
@@ -1,8 +1,80 @@
-import React, { useState, useCallback } from 'react';
-import type { ActiveTab, StyleType } from './types';
-import { generateCartoon, editImage } from './services/geminiService';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import type { ActiveTab, AnimationFormat, AnimationParams, StyleType, ColorOption, Language, OutputFormat, RestyleCreation, RestyleParams, CartoonMode, CartoonCreation, CartoonParams, EditParams, EditCreation, EditMask, SavedMask, StripParams, StyleDefinition, Character, Creation, CreationKind, GagConcept, Preset, Project, ProviderSelection, SessionState, SignatureMode, StripCreation, TextOverlay } from './types';
+import { generateCartoon, editImage, restyleImage, writeGags } from './services/geminiService';
+import { createId } from './services/historyStore';
+import { describeError, isAbortError } from './services/errors';
+import { useCreations } from './hooks/useCreations';
+import { useProviderSelection } from './hooks/useProviderSelection';
+import { useComicStrip } from './hooks/useComicStrip';
+import { useAnimation } from './hooks/useAnimation';
+import { useJobQueue } from './hooks/useJobQueue';
+import { useEditTree } from './hooks/useEditTree';
+import { useSavedMasks } from './hooks/useSavedMasks';
+import { useStyleLibrary } from './hooks/useStyleLibrary';
+import { useCharacterRoster } from './hooks/useCharacterRoster';
+import { useImageUpload } from './hooks/useImageUpload';
+import { useExportSettings } from './hooks/useExportSettings';
+import { DEFAULT_TEMPLATE, usePromptTemplates } from './hooks/usePromptTemplates';
+import { useRoute } from './hooks/useRoute';
+import { usePresets } from './hooks/usePresets';
+import { useUsageLog } from './hooks/useUsageLog';
+import { useUsageSettings } from './hooks/useUsageSettings';
+import { useI18n } from './hooks/useI18n';
+import { useTeamName } from './hooks/useTeamName';
+import { useProvenanceSettings } from './hooks/useProvenanceSettings';
+import type { StripResult } from './hooks/useComicStrip';
+import { resolveSelection } from './services/providers/registry';
+import { createDefaultOverlay, flattenOverlay } from './services/textOverlay';
+import { getChainFilenames, getParentId, getRootId } from './services/editTree';
+import { buildMaskImage } from './services/inpainting';
+import { BUILT_IN_STYLES, resolveStyle } from './services/styleLibrary';
+import type { ExportMetadata } from './services/exportImage';
+import { getExportMetadata } from './services/exportImage';
+import type { SelectionExport } from './services/exportBundle';
+import { buildSelectionPdf, buildSelectionZip } from './services/exportBundle';
+import { PROJECT_EXTENSION, ProjectError, readProject, writeProject } from './services/projectFile';
+import { listAllMasks, saveMask } from './services/maskStore';
+import type { GeneratorLink } from './services/routing';
+import { buildRoute, toStyleSlug } from './services/routing';
+import { fillPlaceholders, getMissingPlaceholders, getPlaceholders } from './services/placeholders';
+import { CARTOON_TEMPLATE_VARIABLES, DEFAULT_CARTOON_TEMPLATE, getCartoonVariables, getReferenceGroups } from './services/prompts';
+import { validateTemplate } from './services/promptTemplate';
+import { DEFAULT_OUTPUT_FORMAT, getAspectValue } from './services/outputFormat';
+import { getProvider } from './services/providers/registry';
+import { getBudgetWarning, toUsageCsv } from './services/usage';
+import { LANGUAGES, interfaceLanguage } from './services/i18n';
+import { ANIMATION_FORMATS, clampFrameDuration, encodeAnimation } from './services/animation';
+import { labelImage, recordProvenance, stampBadge } from './services/provenance';
+import { dataUrlToBlob, blobToDataUrl, downloadBlob } from './utils/blob';
 import Spinner from './components/Spinner';
 import Header from './components/Header';
+import HistoryStrip from './components/HistoryStrip';
+import Gallery from './components/Gallery';
+import ProviderSelector from './components/ProviderSelector';
+import StripScriptEditor from './components/StripScriptEditor';
+import StripPanels from './components/StripPanels';
+import KeyframeScriptEditor from './components/KeyframeScriptEditor';
+import AnimationFrames from './components/AnimationFrames';
+import AnimationPlayer from './components/AnimationPlayer';
+import OverlayEditor from './components/OverlayEditor';
+import BatchPanel from './components/BatchPanel';
+import EditTreeView from './components/EditTreeView';
+import CompareView from './components/CompareView';
+import MaskEditor from './components/MaskEditor';
+import StyleLibraryPanel from './components/StyleLibraryPanel';
+import CharacterRoster from './components/CharacterRoster';
+import GagWriter from './components/GagWriter';
+import ImageCropper from './components/ImageCropper';
+import UploadSettingsPanel from './components/UploadSettingsPanel';
+import ExportDialog from './components/ExportDialog';
+import ProjectMenu from './components/ProjectMenu';
+import PresetPanel from './components/PresetPanel';
+import PromptTemplatePanel from './components/PromptTemplatePanel';
+import OutputFormatPanel from './components/OutputFormatPanel';
+import UsageDashboard from './components/UsageDashboard';
+import TeamGallery from './components/TeamGallery';
+import PublishDialog from './components/PublishDialog';
+import VerifyImage from './components/VerifyImage';
 
 const TabButton: React.FC<{
   label: string;
@@ -23,110 +95,328 @@ const TabButton: React.FC<{
   );
 };
 
-const ImageDisplay: React.FC<{ src: string | null; alt: string; isLoading: boolean, placeholderText: string }> = ({ src, alt, isLoading, placeholderText }) => {
+// Takes the image's own shape; until there is one, `aspectRatio` (width / height) sizes the frame.
+const ImageDisplay: React.FC<{ src: string | null; alt: string; isLoading: boolean, placeholderText: string, aspectRatio?: number }> = ({ src, alt, isLoading, placeholderText, aspectRatio = 1 }) => {
+    const showImage = src && !isLoading;
     return (
-        <div className="w-full aspect-square bg-gray-800 rounded-lg flex items-center justify-center p-4 border-2 border-dashed border-gray-600">
-            {isLoading ? <Spinner /> : src ? <img src={src} alt={alt} className="max-w-full max-h-full object-contain rounded-md" /> : <span className="text-gray-500 text-center">{placeholderText}</span>}
+        <div className="w-full bg-gray-800 rounded-lg flex items-center justify-center p-4 border-2 border-dashed border-gray-600" style={showImage ? undefined : { aspectRatio }}>
+            {isLoading ? <Spinner /> : src ? <img src={src} alt={alt} className="max-w-full max-h-[75vh] h-auto object-contain rounded-md" /> : <span className="text-gray-500 text-center">{placeholderText}</span>}
         </div>
     );
 };
 
-const magazines = [
-    'The New Yorker',
-    'Punch',
-    'Mad Magazine',
-    'Private Eye',
-    'Charlie Hebdo',
-    'The Nib',
-    'American Bystander',
-    'Funny Times',
-];
-
-const cartoonists = [
-    'Charles Addams',
-    'Gary Larson',
-    'Bill Watterson',
-    'Roz Chast',
-    'Saul Steinberg',
-    'Gahan Wilson',
-    'Matt Groening',
-    'Quentin Blake',
-    'Dr. Seuss',
-    'R. Crumb',
-];
+// How many concepts the gag writer suggests at a time.
+const GAG_CONCEPT_COUNT = 4;
+
+// How closely a style transfer follows the photo until the slider is moved.
+const DEFAULT_RESTYLE_STRENGTH = 60;
+
+// A fresh overlay for a new generation, carrying the signature and any chosen caption.
+const getInitialOverlay = (params: CartoonParams | StripParams): TextOverlay => ({
+  ...createDefaultOverlay(params.signatureMode === 'overlay' ? params.signature : undefined),
+  caption: 'caption' in params ? params.caption ?? '' : '',
+});
 
 const App: React.FC = () => {
-  const [activeTab, setActiveTab] = useState<ActiveTab>('cartoon');
+  const { t } = useI18n();
+
+  // The tab is the route, and the generator's settings live in its query string.
+  const route = useRoute();
+  const activeTab = route.tab;
+  const setActiveTab = route.navigate;
 
   // Cartoon state
+  const [cartoonMode, setCartoonMode] = useState<CartoonMode>('single');
   const [cartoonPrompt, setCartoonPrompt] = useState<string>('A cat trying to use a laptop');
+  const [cartoonCaption, setCartoonCaption] = useState<string>('');
+  // Values for {placeholder} variables in the description.
+  const [promptValues, setPromptValues] = useState<Record<string, string>>({});
   const [styleType, setStyleType] = useState<StyleType>('magazine');
-  const [magazineStyle, setMagazineStyle] = useState<string>(magazines[0]);
-  const [cartoonistStyle, setCartoonistStyle] = useState<string>(cartoonists[0]);
-  const [customStyle, setCustomStyle] = useState<string>('');
+  // The chosen style for each style type, so switching type keeps both choices.
+  const [styleIds, setStyleIds] = useState<Record<StyleType, string>>(() => ({
+    magazine: BUILT_IN_STYLES.find(style => style.styleType === 'magazine')!.id,
+    cartoonist: BUILT_IN_STYLES.find(style => style.styleType === 'cartoonist')!.id,
+  }));
   const [signature, setSignature] = useState<string>('AI Artist');
-  const [colorOption, setColorOption] = useState<'color' | 'black_and_white'>('color');
+  const [signatureMode, setSignatureMode] = useState<SignatureMode>('overlay');
+  const [cartoonOverlay, setCartoonOverlay] = useState<TextOverlay>(createDefaultOverlay);
+  const overlaySaveTimer = useRef<number | undefined>(undefined);
+  const [colorOption, setColorOption] = useState<ColorOption>('color');
+  const [outputFormat, setOutputFormat] = useState<OutputFormat>(DEFAULT_OUTPUT_FORMAT);
+  // The language of captions and drawn text. It starts as the interface language but is set separately.
+  const [outputLanguage, setOutputLanguage] = useState<Language>(interfaceLanguage.getSnapshot);
   const [generatedCartoon, setGeneratedCartoon] = useState<string | null>(null);
+  const [selectedCartoonId, setSelectedCartoonId] = useState<string | null>(null);
   const [isGeneratingCartoon, setIsGeneratingCartoon] = useState<boolean>(false);
-  const [cartoonHistory, setCartoonHistory] = useState<string[]>([]);
-  const [characterImage, setCharacterImage] = useState<File | null>(null);
+  // The in-flight cartoon, strip or animation request, so it can be cancelled.
+  const cartoonRequest = useRef<AbortController | null>(null);
+  const [characterImage, setCharacterImage] = useState<Blob | null>(null);
   const [characterImagePreview, setCharacterImagePreview] = useState<string | null>(null);
+  const strip = useComicStrip();
+  const animation = useAnimation();
+  const [isExportingAnimation, setIsExportingAnimation] = useState<boolean>(false);
+
+  const { styles, customStyles, putStyle, removeStyle } = useStyleLibrary();
+  const stylesOfType = styles.filter(style => style.styleType === styleType);
+  // Falls back to the first style of the type if the chosen one was deleted.
+  const currentStyle = stylesOfType.find(style => style.id === styleIds[styleType]) ?? stylesOfType[0] ?? null;
+
+  const { characters, putCharacter, removeCharacter } = useCharacterRoster();
+  const { presets, putPreset, removePreset } = usePresets();
+  const promptTemplates = usePromptTemplates();
+  // Stored on each cartoon so it can be regenerated the same way; the default is left out.
+  const cartoonTemplate = promptTemplates.selected.id === DEFAULT_TEMPLATE.id ? undefined : promptTemplates.selected.text;
+  const templateError = cartoonTemplate ? validateTemplate(cartoonTemplate, CARTOON_TEMPLATE_VARIABLES.map(variable => variable.name)) : null;
+  // A style named in a link that is not loaded (yet), e.g. a custom style still coming from IndexedDB.
+  const pendingLinkStyle = useRef<string | null>(null);
+  const [castIds, setCastIds] = useState<string[]>([]);
+  // Deleted characters drop out of the cast on their own.
+  const cast = characters.filter(character => castIds.includes(character.id));
+
+  // Style transfer state
+  const [restyleSource, setRestyleSource] = useState<Blob | null>(null);
+  const [restyleSourceUrl, setRestyleSourceUrl] = useState<string | null>(null);
+  const [restyleStrength, setRestyleStrength] = useState<number>(DEFAULT_RESTYLE_STRENGTH);
+  // The saved style transfer on show.
+  const [restyledId, setRestyledId] = useState<string | null>(null);
+  const [isRestyling, setIsRestyling] = useState<boolean>(false);
+  const restyleRequest = useRef<AbortController | null>(null);
 
   // Image editing state
-  const [originalImage, setOriginalImage] = useState<File | null>(null);
-  const [originalImagePreview, setOriginalImagePreview] = useState<string | null>(null);
   const [editPrompt, setEditPrompt] = useState<string>('Add a retro, 1980s style filter');
-  const [editedImage, setEditedImage] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState<string | null>(null);
+  const [isMasking, setIsMasking] = useState<boolean>(false);
+  const [paintedMask, setPaintedMask] = useState<Blob | null>(null);
+  const [maskInverted, setMaskInverted] = useState<boolean>(false);
+  const [maskFeather, setMaskFeather] = useState<number>(12);
   const [isEditingImage, setIsEditingImage] = useState<boolean>(false);
-  const [editHistory, setEditHistory] = useState<string[]>([]);
+  const editRequest = useRef<AbortController | null>(null);
 
   const [error, setError] = useState<string | null>(null);
 
+  // A strip that cannot be put back together after a change is reported like any other failure.
+  useEffect(() => {
+    if (strip.composeError) setError(strip.composeError);
+  }, [strip.composeError]);
+
+  // Every upload is validated, turned upright, optionally cropped and downscaled before use.
+  const upload = useImageUpload();
+
+  // The image waiting in the export dialog, already flattened.
+  const [exportTarget, setExportTarget] = useState<{ imageUrl: string; name: string; metadata: ExportMetadata | null } | null>(null);
+  const exportSettings = useExportSettings();
+  // The image waiting in the publish dialog, already flattened.
+  const [publishTarget, setPublishTarget] = useState<{ image: Blob; imageUrl: string; kind: CreationKind; metadata: ExportMetadata } | null>(null);
+  const teamName = useTeamName();
+  const provenance = useProvenanceSettings();
+  const [isProjectBusy, setIsProjectBusy] = useState<boolean>(false);
+
+  // Persistent history, shared by the strips and the gallery
+  const { creations, imageUrls, loadError, addCreation, updateCreation, importCreations, removeCreation } = useCreations();
+  const cartoonHistory = creations.filter(c => c.kind === 'cartoon' || c.kind === 'strip');
+  const editTree = useEditTree(creations, imageUrls);
+  const { masks: savedMasks, addMask, removeMask } = useSavedMasks(editTree.rootId);
+
+  // Painted masks belong to one upload; start blank when another is opened.
+  useEffect(() => {
+    setPaintedMask(null);
+  }, [editTree.rootId]);
+
+  const { selection: providerSelection, status: providerStatus, setProviderId, setModel } = useProviderSelection();
+
+  // Batch jobs resolve to the id of the saved creation. The queue lives here so it
+  // keeps running whichever tab is open.
+  const { queue: batchQueue, jobs: batchJobs } = useJobQueue<string>();
+  const [batchConcurrency, setBatchConcurrency] = useState<number>(batchQueue.getConcurrency);
+
+  const usage = useUsageLog();
+  const usageSettings = useUsageSettings();
+
+  // Past the soft budget, each generation asks first; it never blocks outright.
+  const confirmBudget = useCallback(() => {
+    const warning = getBudgetWarning(usage.records, usageSettings.settings, Date.now());
+    return !warning || window.confirm(warning);
+  }, [usage.records, usageSettings.settings]);
+
   const handleStyleTypeChange = (type: StyleType) => {
     setStyleType(type);
-    setCustomStyle('');
   };
 
-  const handleMagazineChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
-    setMagazineStyle(e.target.value);
-    if (e.target.value !== 'Other...') {
-      setCustomStyle('');
+  const handleStyleChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setStyleIds(prev => ({ ...prev, [styleType]: e.target.value }));
+  };
+
+  const handleUseStyle = (style: StyleDefinition) => {
+    setStyleType(style.styleType);
+    setStyleIds(prev => ({ ...prev, [style.styleType]: style.id }));
+  };
+
+  const handleDeleteStyle = (style: StyleDefinition) => {
+    if (!window.confirm(t('confirm.deleteStyle', { name: style.name }))) return;
+    removeStyle(style.id).catch(e => {
+      console.error(e);
+      setError(t('error.deleteStyle'));
+    });
+  };
+
+  const handleDeleteCharacter = (character: Character) => {
+    if (!window.confirm(t('confirm.deleteCharacter', { name: character.name }))) return;
+    removeCharacter(character.id).catch(e => {
+      console.error(e);
+      setError(t('error.deleteCharacter'));
+    });
+  };
+
+  // The generator settings as a shareable link. Only values for placeholders still in the prompt are kept.
+  const getGeneratorLink = (): GeneratorLink => ({
+    mode: cartoonMode === 'single' ? undefined : cartoonMode,
+    prompt: cartoonPrompt,
+    caption: cartoonCaption,
+    style: pendingLinkStyle.current ?? (currentStyle ? toStyleSlug(currentStyle.name) : undefined),
+    color: colorOption,
+    signature,
+    signatureMode,
+    aspect: outputFormat.aspectRatio ?? undefined,
+    size: outputFormat.imageSize ?? undefined,
+    fit: outputFormat.aspectRatio && outputFormat.fit !== DEFAULT_OUTPUT_FORMAT.fit ? outputFormat.fit : undefined,
+    lang: outputLanguage,
+    values: Object.fromEntries(getPlaceholders(cartoonPrompt).map(name => [name, promptValues[name] ?? ''])),
+  });
+
+  // Applies generator settings from the address bar, on load and on back and forward.
+  useEffect(() => {
+    const { link } = route;
+    if (link.mode) setCartoonMode(link.mode);
+    if (link.prompt !== undefined) setCartoonPrompt(link.prompt);
+    if (link.caption !== undefined) setCartoonCaption(link.caption);
+    if (link.color) setColorOption(link.color);
+    if (link.signature !== undefined) setSignature(link.signature);
+    if (link.signatureMode) setSignatureMode(link.signatureMode);
+    if (link.aspect || link.size || link.fit) {
+      setOutputFormat(prev => ({
+        aspectRatio: link.aspect ?? prev.aspectRatio,
+        imageSize: link.size ?? prev.imageSize,
+        fit: link.fit ?? prev.fit,
+      }));
+    }
+    if (link.lang) setOutputLanguage(link.lang);
+    if (link.values) setPromptValues(link.values);
+    if (link.style) pendingLinkStyle.current = link.style;
+  }, [route.link]);
+
+  useEffect(() => {
+    const slug = pendingLinkStyle.current;
+    const style = slug ? styles.find(s => toStyleSlug(s.name) === slug) : undefined;
+    if (style) {
+      pendingLinkStyle.current = null;
+      handleUseStyle(style);
     }
+  }, [styles, route.link]);
+
+  // Keeps the query string in step with the generator, so the address can be shared as it is.
+  useEffect(() => {
+    if (activeTab !== 'cartoon') return;
+    // Debounced: browsers limit how often the address can be replaced.
+    const timer = window.setTimeout(() => route.replaceLink(getGeneratorLink()), 300);
+    return () => window.clearTimeout(timer);
+  }, [activeTab, cartoonMode, cartoonPrompt, promptValues, cartoonCaption, currentStyle, colorOption, outputFormat, outputLanguage, signature, signatureMode]);
+
+  const handleCopyLink = () =>
+    navigator.clipboard.writeText(`${window.location.origin}${buildRoute('cartoon', getGeneratorLink())}`);
+
+  // Saving under an existing name replaces that preset.
+  const handleSavePreset = (name: string) => {
+    if (!currentStyle) return;
+    const existing = presets.find(preset => preset.name.toLowerCase() === name.toLowerCase());
+    putPreset({
+      id: existing?.id ?? createId(),
+      name,
+      styleType: currentStyle.styleType,
+      styleId: currentStyle.id,
+      colorOption,
+      signature,
+      signatureMode,
+      promptTemplate: cartoonPrompt,
+      output: outputFormat,
+      language: outputLanguage,
+      createdAt: existing?.createdAt ?? Date.now(),
+    }).catch(e => {
+      console.error(e);
+      setError(t('error.savePreset'));
+    });
+  };
+
+  const handleApplyPreset = (preset: Preset) => {
+    const style = styles.find(s => s.id === preset.styleId);
+    // A deleted style leaves the current choice of that type in place.
+    if (style) handleUseStyle(style);
+    else setStyleType(preset.styleType);
+    setColorOption(preset.colorOption);
+    setSignature(preset.signature);
+    setSignatureMode(preset.signatureMode);
+    if (preset.promptTemplate) setCartoonPrompt(preset.promptTemplate);
+    if (preset.output) setOutputFormat(preset.output);
+    if (preset.language) setOutputLanguage(preset.language);
   };
 
-  const handleCartoonistChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
-    setCartoonistStyle(e.target.value);
-    if (e.target.value !== 'Other...') {
-      setCustomStyle('');
+  const handleDeletePreset = (preset: Preset) => {
+    if (!window.confirm(t('confirm.deletePreset', { name: preset.name }))) return;
+    removePreset(preset.id).catch(e => {
+      console.error(e);
+      setError(t('error.deletePreset'));
+    });
+  };
+
+  // Runs the upload pipeline; null means the file was rejected or the crop was cancelled.
+  const prepareUpload = async (file: File): Promise<Blob | null> => {
+    setError(null);
+    try {
+      return await upload.prepare(file);
+    } catch (e) {
+      console.error(e);
+      setError(describeError(e));
+      return null;
     }
   };
 
-  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      setOriginalImage(file);
-      setEditedImage(null); // Clear previous edit
-      setEditHistory([]); // Clear history for the new image
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setOriginalImagePreview(reader.result as string);
-      };
-      reader.readAsDataURL(file);
+  const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const input = e.target;
+    const file = input.files?.[0];
+    if (!file) return;
+    const image = await prepareUpload(file);
+    input.value = '';
+    if (image) {
+      editTree.startTree(image);
+      setCompareId(null);
     }
   };
 
-  const handleCharacterImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      setCharacterImage(file);
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setCharacterImagePreview(reader.result as string);
-      };
-      reader.readAsDataURL(file);
+  const handleRestyleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const input = e.target;
+    const file = input.files?.[0];
+    if (!file) return;
+    const image = await prepareUpload(file);
+    input.value = '';
+    if (image) {
+      setRestyleSource(image);
+      setRestyleSourceUrl(await blobToDataUrl(image));
+      setRestyledId(null);
     }
   };
 
+  const handleCharacterImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const input = e.target;
+    const file = input.files?.[0];
+    if (!file) return;
+    const image = await prepareUpload(file);
+    if (!image) {
+      input.value = '';
+      return;
+    }
+    setCharacterImage(image);
+    setCharacterImagePreview(await blobToDataUrl(image));
+  };
+
   const handleRemoveCharacterImage = () => {
     setCharacterImage(null);
     setCharacterImagePreview(null);
@@ -162,299 +452,1459 @@ const App: React.FC = () => {
           text: text,
         });
       } else {
-        setError('Sharing files is not supported on your browser.');
+        setError(t('error.shareUnsupported'));
       }
     } catch (err) {
       // Ignore abort errors from the user closing the share sheet
       if (err instanceof Error && err.name !== 'AbortError') {
         console.error('Sharing failed:', err);
-        setError('Could not share the image. Please try downloading it instead.');
+        setError(t('error.share'));
       }
     }
   };
 
-  const handleGenerateCartoon = useCallback(async () => {
-    const isCustom = (styleType === 'magazine' && magazineStyle === 'Other...') || (styleType === 'cartoonist' && cartoonistStyle === 'Other...');
-    const styleName = isCustom ? customStyle : (styleType === 'magazine' ? magazineStyle : cartoonistStyle);
+  const handleOverlayChange = (overlay: TextOverlay) => {
+    setCartoonOverlay(overlay);
+    const id = selectedCartoonId;
+    if (!id) return;
+    // Persist after the user pauses, not on every drag step.
+    window.clearTimeout(overlaySaveTimer.current);
+    overlaySaveTimer.current = window.setTimeout(() => {
+      updateCreation(id, creation => ({ ...creation, overlay })).catch(e => console.error('Failed to save text overlay:', e));
+    }, 500);
+  };
 
-    if (!cartoonPrompt || !styleName) {
-      setError('Please provide a description and a style.');
-      return;
+  // Metadata for a saved creation, or null for images that were never saved, like an upload.
+  const findExportMetadata = (id: string | null): ExportMetadata | null => {
+    const creation = creations.find(c => c.id === id);
+    return creation ? getExportMetadata(creation) : null;
+  };
+
+  // Saved images stay as the model drew them; every copy that leaves the app
+  // carries the badge, watermark and manifest of the creation it shows.
+  const labelCreationImage = (imageUrl: string, id: string | null) =>
+    labelImage(imageUrl, creations.find(c => c.id === id), provenance.settings);
+
+  const handleExportCreation = async (imageUrl: string, id: string | null, name: string) => {
+    try {
+      setExportTarget({ imageUrl: await labelCreationImage(imageUrl, id), name, metadata: findExportMetadata(id) });
+    } catch (e) {
+      console.error(e);
+      setError(t('error.prepareDownload'));
+    }
+  };
+
+  const handleShareCreation = async (imageUrl: string, id: string | null, title: string, text: string, filename: string) => {
+    try {
+      await handleShare(await labelCreationImage(imageUrl, id), title, text, filename);
+    } catch (e) {
+      console.error(e);
+      setError(t('error.prepareShare'));
+    }
+  };
+
+  const handleDownloadCartoon = async (imageUrl: string, name: string) => {
+    try {
+      const flattened = await flattenOverlay(imageUrl, cartoonOverlay);
+      setExportTarget({ imageUrl: await labelCreationImage(flattened, selectedCartoonId), name, metadata: findExportMetadata(selectedCartoonId) });
+    } catch (e) {
+      console.error(e);
+      setError(t('error.prepareDownload'));
     }
+  };
+
+  const handleShareCartoon = async (imageUrl: string, filename: string) => {
+    try {
+      const flattened = await flattenOverlay(imageUrl, cartoonOverlay);
+      await handleShare(await labelCreationImage(flattened, selectedCartoonId), t('cartoon.shareTitle'), t('cartoon.shareText'), filename);
+    } catch (e) {
+      console.error(e);
+      setError(t('error.prepareShare'));
+    }
+  };
+
+  // Text overlays are baked in, so the team sees the image as it looks here.
+  const handlePublishCreation = async (creation: Creation, overlay = creation.overlay) => {
+    try {
+      const flattened = overlay ? await flattenOverlay(imageUrls[creation.id], overlay) : imageUrls[creation.id];
+      const imageUrl = await labelImage(flattened, creation, provenance.settings);
+      setPublishTarget({ image: await dataUrlToBlob(imageUrl), imageUrl, kind: creation.kind, metadata: getExportMetadata(creation) });
+    } catch (e) {
+      console.error(e);
+      setError(t('error.preparePublish'));
+    }
+  };
+
+  // Generates one cartoon and saves it to the gallery. Shared by the form and the batch queue.
+  const createCartoon = useCallback(async (params: CartoonParams, provider: ProviderSelection, signal?: AbortSignal) => {
+    const { description, signature, characterImage, colorOption } = params;
+    const modelSignature = params.signatureMode === 'overlay' ? '' : signature;
+    const imageUrl = await generateCartoon(description, resolveStyle(params), modelSignature, characterImage, params.characters ?? [], colorOption, params.template ?? DEFAULT_CARTOON_TEMPLATE, params.output ?? DEFAULT_OUTPUT_FORMAT, params.language ?? 'en', provider, signal);
+    if (signal?.aborted) throw new DOMException('The generation was cancelled.', 'AbortError');
+    const id = createId();
+    const overlay = getInitialOverlay(params);
+    const saved = await addCreation(await recordProvenance<CartoonCreation>({
+      id,
+      kind: 'cartoon',
+      image: await dataUrlToBlob(imageUrl),
+      createdAt: Date.now(),
+      provider,
+      overlay,
+      params,
+    }, provenance.settings));
+    if (!saved) setError(t('error.saveCreation'));
+    return { id, imageUrl, overlay };
+  }, [addCreation, provenance.settings, t]);
+
+  const runCartoonGeneration = useCallback(async (params: CartoonParams, provider: ProviderSelection) => {
     setError(null);
     setIsGeneratingCartoon(true);
     setGeneratedCartoon(null);
+    setSelectedCartoonId(null);
+    const controller = new AbortController();
+    cartoonRequest.current = controller;
     try {
-      const imageUrl = await generateCartoon(cartoonPrompt, styleType, styleName, signature, characterImage, colorOption);
+      const { id, imageUrl, overlay } = await createCartoon(params, provider, controller.signal);
+      setCartoonOverlay(overlay);
       setGeneratedCartoon(imageUrl);
-      setCartoonHistory(prev => [imageUrl, ...prev]);
+      setSelectedCartoonId(id);
     } catch (e) {
-      setError(e instanceof Error ? e.message : 'An unknown error occurred.');
-      console.error(e);
+      if (!isAbortError(e)) {
+        setError(describeError(e));
+        console.error(e);
+      }
     } finally {
+      cartoonRequest.current = null;
       setIsGeneratingCartoon(false);
     }
-  }, [cartoonPrompt, styleType, magazineStyle, cartoonistStyle, customStyle, signature, characterImage, colorOption]);
-  
-  const handleEditImage = useCallback(async () => {
-    if (!originalImage || !editPrompt) {
-      setError('Please upload an image and provide an edit instruction.');
+  }, [createCartoon]);
+
+  const handleGenerateCartoon = useCallback(async () => {
+    if (!cartoonPrompt || !currentStyle) {
+      setError(t('error.describeAndStyle'));
+      return;
+    }
+    const missing = getMissingPlaceholders(cartoonPrompt, promptValues);
+    if (missing.length > 0) {
+      setError(t('error.fillPlaceholder', { name: missing[0] }));
+      return;
+    }
+    if (templateError) {
+      setError(t('error.fixTemplate', { error: templateError }));
+      return;
+    }
+    if (!confirmBudget()) return;
+    await runCartoonGeneration({
+      description: fillPlaceholders(cartoonPrompt, promptValues),
+      styleType: currentStyle.styleType,
+      styleName: currentStyle.name,
+      style: currentStyle,
+      signature,
+      signatureMode,
+      colorOption,
+      characterImage,
+      characters: cast,
+      caption: cartoonCaption.trim() || undefined,
+      template: cartoonTemplate,
+      output: outputFormat,
+      language: outputLanguage,
+    }, providerSelection);
+  }, [cartoonPrompt, promptValues, cartoonCaption, currentStyle, signature, signatureMode, characterImage, cast, colorOption, outputFormat, outputLanguage, cartoonTemplate, templateError, providerSelection, confirmBudget, runCartoonGeneration, t]);
+
+  const handleWriteGags = (topic: string, remix: GagConcept | null, signal: AbortSignal) => {
+    if (!currentStyle) return Promise.reject(new Error(t('error.chooseStyle')));
+    return writeGags(topic, currentStyle, cast, GAG_CONCEPT_COUNT, remix, outputLanguage, providerSelection, signal);
+  };
+
+  const handleUseGag = (concept: GagConcept) => {
+    setCartoonPrompt(concept.scene);
+    setCartoonCaption(concept.caption);
+  };
+
+  // Runs a strip operation and saves the finished strip, panels included, to the gallery.
+  const runStripGeneration = useCallback(async (
+    params: StripParams,
+    provider: ProviderSelection,
+    overlay: TextOverlay,
+    run: (signal: AbortSignal) => Promise<StripResult | null>
+  ) => {
+    setError(null);
+    setIsGeneratingCartoon(true);
+    setSelectedCartoonId(null);
+    const controller = new AbortController();
+    cartoonRequest.current = controller;
+    try {
+      const result = await run(controller.signal);
+      if (!result) return;
+      const id = createId();
+      const saved = await addCreation(await recordProvenance<StripCreation>({
+        id,
+        kind: 'strip',
+        image: await dataUrlToBlob(result.composite),
+        createdAt: Date.now(),
+        provider,
+        overlay,
+        params,
+        panelImages: await Promise.all(result.panelUrls.map(dataUrlToBlob)),
+      }, provenance.settings));
+      if (!saved) setError(t('error.saveCreation'));
+      setCartoonOverlay(overlay);
+      setSelectedCartoonId(id);
+    } catch (e) {
+      if (!isAbortError(e)) {
+        setError(describeError(e));
+        console.error(e);
+      }
+    } finally {
+      cartoonRequest.current = null;
+      setIsGeneratingCartoon(false);
+    }
+  }, [addCreation, provenance.settings, t]);
+
+  const getStripParams = (): StripParams | null => {
+    if (strip.panels.some(panel => !panel.action.trim()) || !currentStyle) {
+      setError(t('error.describePanels'));
+      return null;
+    }
+    return {
+      panels: strip.panels,
+      layout: strip.layout,
+      styleType: currentStyle.styleType,
+      styleName: currentStyle.name,
+      style: currentStyle,
+      signature,
+      signatureMode,
+      colorOption,
+      characterImage,
+      characters: cast,
+      language: outputLanguage,
+    };
+  };
+
+  const handleGenerateStrip = () => {
+    const params = getStripParams();
+    if (!params || !confirmBudget()) return;
+    runStripGeneration(params, providerSelection, getInitialOverlay(params), (signal) => strip.generateAll(params, providerSelection, signal));
+  };
+
+  const handleRegeneratePanel = (index: number) => {
+    const params = getStripParams();
+    if (!params || !confirmBudget()) return;
+    // Keep the text already placed on the strip when only one panel changes.
+    runStripGeneration(params, providerSelection, cartoonOverlay, (signal) => strip.regeneratePanel(index, params, providerSelection, signal));
+  };
+
+  // Animation frames are kept in the session rather than the gallery, until they are exported.
+  const runAnimationGeneration = async (run: (signal: AbortSignal) => Promise<unknown>) => {
+    setError(null);
+    setIsGeneratingCartoon(true);
+    const controller = new AbortController();
+    cartoonRequest.current = controller;
+    try {
+      await run(controller.signal);
+    } catch (e) {
+      if (!isAbortError(e)) {
+        setError(describeError(e));
+        console.error(e);
+      }
+    } finally {
+      cartoonRequest.current = null;
+      setIsGeneratingCartoon(false);
+    }
+  };
+
+  const getAnimationParams = (): AnimationParams | null => {
+    if (animation.keyframes.some(keyframe => !keyframe.action.trim()) || !currentStyle) {
+      setError(t('error.describeKeyframes'));
+      return null;
+    }
+    return {
+      keyframes: animation.keyframes.map(keyframe => ({ ...keyframe, durationMs: clampFrameDuration(keyframe.durationMs) })),
+      loop: animation.loop,
+      styleType: currentStyle.styleType,
+      styleName: currentStyle.name,
+      style: currentStyle,
+      signature,
+      colorOption,
+      characterImage,
+      characters: cast,
+      language: outputLanguage,
+    };
+  };
+
+  const handleGenerateAnimation = () => {
+    const params = getAnimationParams();
+    if (!params || !confirmBudget()) return;
+    runAnimationGeneration((signal) => animation.generateAll(params, providerSelection, signal));
+  };
+
+  const handleRegenerateFrame = (index: number) => {
+    const params = getAnimationParams();
+    if (!params || !confirmBudget()) return;
+    runAnimationGeneration((signal) => animation.regenerateFrame(index, params, providerSelection, signal));
+  };
+
+  const handleExportAnimation = async (format: AnimationFormat) => {
+    const urls = animation.frameUrls;
+    if (urls.some(url => url === null)) return;
+    setError(null);
+    setIsExportingAnimation(true);
+    try {
+      // Animated formats cannot keep a watermark, so frames get only the visible badge.
+      const frames = await Promise.all((urls as string[]).map(async (url, i) => ({
+        url: await stampBadge(url, provenance.settings),
+        durationMs: clampFrameDuration(animation.keyframes[i].durationMs),
+      })));
+      const blob = await encodeAnimation(frames, format, animation.loop);
+      const { extension } = ANIMATION_FORMATS.find(option => option.value === format)!;
+      downloadBlob(blob, `animated-toon.${extension}`);
+    } catch (e) {
+      console.error(e);
+      setError(t('error.exportAnimation'));
+    } finally {
+      setIsExportingAnimation(false);
+    }
+  };
+
+  const handleQueueBatch = (batch: CartoonParams[]) => {
+    if (templateError) {
+      setError(t('error.fixTemplate', { error: templateError }));
       return;
     }
+    if (!confirmBudget()) return;
+    const provider = providerSelection;
+    for (const params of batch) {
+      batchQueue.enqueue(`${params.styleName}: ${params.description}`, async (signal) => {
+        const { id } = await createCartoon(params, provider, signal);
+        return id;
+      });
+    }
+  };
+
+  const handleBatchConcurrencyChange = (concurrency: number) => {
+    batchQueue.setConcurrency(concurrency);
+    setBatchConcurrency(concurrency);
+  };
+
+  const handleToggleFavorite = (creation: Creation) => {
+    updateCreation(creation.id, c => ({ ...c, favorite: !c.favorite })).catch(e => {
+      console.error(e);
+      setError(t('error.updateFavorites'));
+    });
+  };
+
+  const runImageEdit = useCallback(async (params: EditParams, provider: ProviderSelection) => {
     setError(null);
     setIsEditingImage(true);
-    setEditedImage(null);
+    const controller = new AbortController();
+    editRequest.current = controller;
     try {
-      const imageUrl = await editImage(originalImage, editPrompt);
-      setEditedImage(imageUrl);
-      setEditHistory(prev => [imageUrl, ...prev]);
+      const imageUrl = await editImage(params.sourceImage, params.editPrompt, provider, params.mask, controller.signal);
+      if (controller.signal.aborted) throw new DOMException('The generation was cancelled.', 'AbortError');
+      const id = createId();
+      const parent = creations.find(c => c.id === params.parentId);
+      const saved = await addCreation(await recordProvenance<EditCreation>({
+        id,
+        kind: 'edit',
+        image: await dataUrlToBlob(imageUrl),
+        createdAt: Date.now(),
+        provider,
+        params,
+      }, provenance.settings, parent?.provenance));
+      if (!saved) setError(t('error.saveCreation'));
+      editTree.select(id);
     } catch (e) {
-      setError(e instanceof Error ? e.message : 'An unknown error occurred.');
-      console.error(e);
+      if (!isAbortError(e)) {
+        setError(describeError(e));
+        console.error(e);
+      }
     } finally {
+      editRequest.current = null;
       setIsEditingImage(false);
     }
-  }, [originalImage, editPrompt]);
+  }, [addCreation, creations, editTree.select, provenance.settings, t]);
+
+  const runRestyle = useCallback(async (params: RestyleParams, provider: ProviderSelection) => {
+    setError(null);
+    setIsRestyling(true);
+    setRestyledId(null);
+    const controller = new AbortController();
+    restyleRequest.current = controller;
+    try {
+      const imageUrl = await restyleImage(params.sourceImage, params.style, params.colorOption, params.strength, provider, controller.signal);
+      if (controller.signal.aborted) throw new DOMException('The generation was cancelled.', 'AbortError');
+      const id = createId();
+      const saved = await addCreation(await recordProvenance<RestyleCreation>({
+        id,
+        kind: 'restyle',
+        image: await dataUrlToBlob(imageUrl),
+        createdAt: Date.now(),
+        provider,
+        params,
+      }, provenance.settings));
+      if (!saved) setError(t('error.saveCreation'));
+      setRestyledId(id);
+    } catch (e) {
+      if (!isAbortError(e)) {
+        setError(describeError(e));
+        console.error(e);
+      }
+    } finally {
+      restyleRequest.current = null;
+      setIsRestyling(false);
+    }
+  }, [addCreation, provenance.settings, t]);
+
+  const handleRestyle = () => {
+    if (!restyleSource || !currentStyle) {
+      setError(t('error.photoAndStyle'));
+      return;
+    }
+    if (!confirmBudget()) return;
+    runRestyle({
+      sourceImage: restyleSource,
+      styleType: currentStyle.styleType,
+      styleName: currentStyle.name,
+      style: currentStyle,
+      colorOption,
+      strength: restyleStrength,
+    }, providerSelection);
+  };
+
+  // Applies the instruction to the selected version, adding a child to the tree.
+  const handleEditImage = useCallback(async () => {
+    const { rootId, selectedNode } = editTree;
+    if (!rootId || !selectedNode || !editPrompt) {
+      setError(t('error.imageAndInstruction'));
+      return;
+    }
+    let mask: EditMask | undefined;
+    if (isMasking) {
+      try {
+        const image = await buildMaskImage(paintedMask, maskInverted, selectedNode.image);
+        if (!image) {
+          setError(t('error.paintMask'));
+          return;
+        }
+        mask = { image, feather: maskFeather };
+      } catch (e) {
+        console.error(e);
+        setError(t('error.prepareMask'));
+        return;
+      }
+    }
+    if (!confirmBudget()) return;
+    await runImageEdit({ editPrompt, sourceImage: selectedNode.image, rootId, parentId: selectedNode.id, mask }, providerSelection);
+  }, [editTree, editPrompt, isMasking, paintedMask, maskInverted, maskFeather, providerSelection, confirmBudget, runImageEdit, t]);
+
+  const handleSaveMask = (name: string) => {
+    if (!editTree.rootId || !paintedMask) return;
+    addMask({ id: createId(), rootId: editTree.rootId, name, image: paintedMask, inverted: maskInverted, feather: maskFeather, createdAt: Date.now() })
+      .catch(e => {
+        console.error(e);
+        setError(t('error.saveMask'));
+      });
+  };
+
+  const handleLoadMask = (mask: SavedMask) => {
+    setPaintedMask(mask.image);
+    setMaskInverted(mask.inverted);
+    setMaskFeather(mask.feather);
+  };
+
+  const handleDeleteMask = (mask: SavedMask) => {
+    removeMask(mask.id).catch(e => {
+      console.error(e);
+      setError(t('error.deleteMask'));
+    });
+  };
+
+  // Downloads every version from the upload to the selected one, numbered in order.
+  const handleExportChain = async () => {
+    const filenames = getChainFilenames(editTree.path);
+    try {
+      for (const [i, node] of editTree.path.entries()) {
+        const url = editTree.getUrl(node.id);
+        if (url) handleDownload(await labelCreationImage(url, node.id), filenames[i]);
+      }
+    } catch (e) {
+      console.error(e);
+      setError(t('error.prepareDownload'));
+    }
+  };
+
+  // Undo and redo walk the version tree while the editor is open, unless a text field has focus.
+  useEffect(() => {
+    if (activeTab !== 'edit') return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        editTree.undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        editTree.redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [activeTab, editTree.undo, editTree.redo]);
+
+  // Restores the generator form to the settings a cartoon or strip was made with.
+  const restoreStyle = (params: CartoonParams | StripParams | RestyleParams) => {
+    const style = resolveStyle(params, styles);
+    // A style that has since been deleted, or was typed in before the library existed, is added back.
+    if (!styles.some(s => s.id === style.id)) {
+      putStyle(style).catch(e => console.error('Failed to restore style:', e));
+    }
+    handleUseStyle(style);
+    setColorOption(params.colorOption);
+  };
+
+  const applyStyleParams = (params: CartoonParams | StripParams) => {
+    restoreStyle(params);
+    setSignature(params.signature);
+    setSignatureMode(params.signatureMode ?? 'model');
+    setOutputLanguage(params.language ?? 'en');
+    setCharacterImage(params.characterImage);
+    setCharacterImagePreview(null);
+    if (params.characterImage) {
+      blobToDataUrl(params.characterImage).then(setCharacterImagePreview);
+    }
+    const savedCast = params.characters ?? [];
+    for (const character of savedCast) {
+      if (!characters.some(c => c.id === character.id)) {
+        putCharacter(character).catch(e => console.error('Failed to restore character:', e));
+      }
+    }
+    setCastIds(savedCast.map(character => character.id));
+  };
+
+  const applyCartoonParams = (params: CartoonParams) => {
+    applyStyleParams(params);
+    setOutputFormat(params.output ?? DEFAULT_OUTPUT_FORMAT);
+    setCartoonPrompt(params.description);
+    setCartoonCaption(params.caption ?? '');
+    setCartoonMode('single');
+  };
+
+  const applyStripParams = async (params: StripParams, panelImages: Blob[]) => {
+    applyStyleParams(params);
+    setCartoonMode('strip');
+    strip.loadStrip(params, await Promise.all(panelImages.map(blobToDataUrl)));
+  };
+
+  const applyRestyleCreation = async (creation: RestyleCreation) => {
+    restoreStyle(creation.params);
+    setRestyleStrength(creation.params.strength);
+    setRestyleSource(creation.params.sourceImage);
+    setRestyleSourceUrl(await blobToDataUrl(creation.params.sourceImage));
+    setRestyledId(creation.id);
+  };
+
+  const applyEditCreation = (creation: EditCreation) => {
+    editTree.loadTree(creation);
+    setEditPrompt(creation.params.editPrompt);
+    setCompareId(null);
+  };
+
+  const handleOpenCreation = async (creation: Creation) => {
+    setError(null);
+    if (creation.kind !== 'edit') {
+      setCartoonOverlay(creation.overlay ?? createDefaultOverlay());
+    }
+    try {
+      if (creation.kind === 'cartoon') {
+        applyCartoonParams(creation.params);
+        setGeneratedCartoon(imageUrls[creation.id]);
+        setSelectedCartoonId(creation.id);
+        setActiveTab('cartoon');
+      } else if (creation.kind === 'strip') {
+        setSelectedCartoonId(creation.id);
+        setActiveTab('cartoon');
+        await applyStripParams(creation.params, creation.panelImages);
+      } else if (creation.kind === 'restyle') {
+        setActiveTab('restyle');
+        await applyRestyleCreation(creation);
+      } else {
+        applyEditCreation(creation);
+        setActiveTab('edit');
+      }
+    } catch (e) {
+      console.error(e);
+      setError(t('error.openCreation'));
+    }
+  };
+
+  const getSessionState = async (): Promise<SessionState> => ({
+    activeTab,
+    cartoon: {
+      mode: cartoonMode,
+      prompt: cartoonPrompt,
+      promptValues,
+      caption: cartoonCaption,
+      styleType,
+      styleIds,
+      signature,
+      signatureMode,
+      colorOption,
+      output: outputFormat,
+      language: outputLanguage,
+      characterImage,
+      castIds,
+      overlay: cartoonOverlay,
+      selectedId: selectedCartoonId,
+      panels: strip.panels,
+      layout: strip.layout,
+      panelImages: await Promise.all(strip.panelUrls.map(url => (url ? dataUrlToBlob(url) : null))),
+      keyframes: animation.keyframes,
+      loop: animation.loop,
+      frameImages: await Promise.all(animation.frameUrls.map(url => (url ? dataUrlToBlob(url) : null))),
+    },
+    restyle: {
+      source: restyleSource,
+      strength: restyleStrength,
+      selectedId: restyledId,
+    },
+    editor: {
+      prompt: editPrompt,
+      root: editTree.root,
+      selectedId: editTree.selectedNode?.id ?? null,
+      maskInverted,
+      maskFeather,
+    },
+  });
+
+  // Puts the generator and editor back as they were saved. `urls` includes the project's creations.
+  const applySession = async (project: Project, urls: Record<string, string>) => {
+    const { cartoon, restyle, editor } = project.session;
+    setCartoonMode(cartoon.mode);
+    setCartoonPrompt(cartoon.prompt);
+    setPromptValues(cartoon.promptValues);
+    setCartoonCaption(cartoon.caption);
+    setStyleType(cartoon.styleType);
+    setStyleIds(cartoon.styleIds);
+    setSignature(cartoon.signature);
+    setSignatureMode(cartoon.signatureMode);
+    setColorOption(cartoon.colorOption);
+    setOutputFormat(cartoon.output);
+    setOutputLanguage(cartoon.language);
+    setCharacterImage(cartoon.characterImage);
+    setCharacterImagePreview(cartoon.characterImage ? await blobToDataUrl(cartoon.characterImage) : null);
+    setCastIds(cartoon.castIds);
+    setCartoonOverlay(cartoon.overlay);
+    const selected = project.creations.find(creation => creation.id === cartoon.selectedId);
+    setSelectedCartoonId(selected ? selected.id : null);
+    setGeneratedCartoon(selected?.kind === 'cartoon' ? urls[selected.id] : null);
+    strip.loadStrip(cartoon, await Promise.all(cartoon.panelImages.map(image => (image ? blobToDataUrl(image) : null))));
+    animation.loadAnimation(cartoon, await Promise.all(cartoon.frameImages.map(image => (image ? blobToDataUrl(image) : null))));
+
+    setRestyleSource(restyle.source);
+    setRestyleSourceUrl(restyle.source ? await blobToDataUrl(restyle.source) : null);
+    setRestyleStrength(restyle.strength);
+    setRestyledId(project.creations.some(creation => creation.id === restyle.selectedId) ? restyle.selectedId : null);
+
+    setEditPrompt(editor.prompt);
+    setMaskInverted(editor.maskInverted);
+    setMaskFeather(editor.maskFeather);
+    setIsMasking(false);
+    setPaintedMask(null);
+    setCompareId(null);
+    if (editor.root) editTree.restoreTree(editor.root, editor.selectedId);
+
+    setActiveTab(project.session.activeTab);
+  };
+
+  const handleSaveProject = async () => {
+    setError(null);
+    setIsProjectBusy(true);
+    try {
+      const project = await writeProject({
+        session: await getSessionState(),
+        creations,
+        styles: customStyles,
+        characters,
+        masks: await listAllMasks(),
+        presets,
+      });
+      downloadBlob(project, `expresstoons-${new Date().toISOString().slice(0, 10)}${PROJECT_EXTENSION}`);
+    } catch (e) {
+      console.error(e);
+      setError(t('error.saveProject'));
+    } finally {
+      setIsProjectBusy(false);
+    }
+  };
+
+  const handleOpenProject = async (file: File) => {
+    if (!window.confirm(t('confirm.openProject'))) return;
+    setError(null);
+    setIsProjectBusy(true);
+    try {
+      const project = await readProject(file);
+      const urls = await importCreations(project.creations);
+      await Promise.all(project.styles.map(putStyle));
+      await Promise.all(project.characters.map(putCharacter));
+      await Promise.all(project.masks.map(saveMask));
+      await Promise.all(project.presets.map(putPreset));
+      await applySession(project, urls);
+    } catch (e) {
+      console.error(e);
+      setError(e instanceof ProjectError ? e.message : t('error.openProject'));
+    } finally {
+      setIsProjectBusy(false);
+    }
+  };
+
+  const handleRegenerateCreation = (creation: Creation) => {
+    if (!confirmBudget()) return;
+    // Older entries did not record a provider; use the current one for those.
+    const provider = creation.provider ? resolveSelection(creation.provider) : providerSelection;
+    if (creation.kind === 'cartoon') {
+      applyCartoonParams(creation.params);
+      setActiveTab('cartoon');
+      runCartoonGeneration(creation.params, provider);
+    } else if (creation.kind === 'strip') {
+      const { params } = creation;
+      applyStyleParams(params);
+      setCartoonMode('strip');
+      setActiveTab('cartoon');
+      runStripGeneration(params, provider, getInitialOverlay(params), (signal) => strip.generateAll(params, provider, signal));
+    } else if (creation.kind === 'restyle') {
+      applyRestyleCreation(creation).catch(e => {
+        console.error(e);
+        setError(t('error.openCreation'));
+      });
+      setActiveTab('restyle');
+      runRestyle(creation.params, provider);
+    } else {
+      applyEditCreation(creation);
+      setActiveTab('edit');
+      // Redo the edit from the same version, as a sibling of the original result.
+      runImageEdit({ ...creation.params, rootId: getRootId(creation), parentId: getParentId(creation) }, provider);
+    }
+  };
+
+  const handleExportSelection = async (selected: Creation[], target: SelectionExport) => {
+    setError(null);
+    const items = selected.map(creation => ({ creation, imageUrl: imageUrls[creation.id] })).filter(item => item.imageUrl);
+    const date = new Date().toISOString().slice(0, 10);
+    try {
+      if (target.kind === 'zip') {
+        downloadBlob(await buildSelectionZip(items, exportSettings.settings, provenance.settings), `expresstoons-${date}.zip`);
+      } else {
+        downloadBlob(await buildSelectionPdf(items, target.layout, target.paper, provenance.settings), `expresstoons-${target.layout}-${date}.pdf`);
+      }
+    } catch (e) {
+      console.error(e);
+      setError(t('error.exportSelection'));
+    }
+  };
+
+  const handleDeleteCreation = async (creation: Creation) => {
+    if (!window.confirm(t('confirm.deleteCreation'))) return;
+    try {
+      await removeCreation(creation.id);
+      if (creation.id === selectedCartoonId) {
+        setGeneratedCartoon(null);
+        setSelectedCartoonId(null);
+      }
+      if (creation.id === restyledId) {
+        setRestyledId(null);
+      }
+      if (creation.id === compareId) {
+        setCompareId(null);
+      }
+    } catch (e) {
+      console.error(e);
+      setError(t('error.deleteCreation'));
+    }
+  };
+
+  // Shared by the generator and style transfer, which use the same style and colour choice.
+  const renderStyleChooser = () => (
+    <div className="space-y-4 p-4 bg-gray-700/50 rounded-lg">
+        <label className="block text-sm font-medium text-gray-300">{t('style.chooseBy')}</label>
+        <div className="flex items-center gap-6">
+            <label className="flex items-center gap-2 cursor-pointer">
+                <input type="radio" name="styleType" value="magazine" checked={styleType === 'magazine'} onChange={() => handleStyleTypeChange('magazine')} className="form-radio h-4 w-4 text-purple-600 bg-gray-700 border-gray-600 focus:ring-purple-500" />
+                <span className="text-gray-300">{t('style.magazine')}</span>
+            </label>
+            <label className="flex items-center gap-2 cursor-pointer">
+                <input type="radio" name="styleType" value="cartoonist" checked={styleType === 'cartoonist'} onChange={() => handleStyleTypeChange('cartoonist')} className="form-radio h-4 w-4 text-purple-600 bg-gray-700 border-gray-600 focus:ring-purple-500" />
+                <span className="text-gray-300">{t('style.cartoonist')}</span>
+            </label>
+        </div>
+        <div>
+            <select value={currentStyle?.id ?? ''} onChange={handleStyleChange} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-purple-500 focus:border-purple-500 block w-full p-2.5">
+                <optgroup label={t('style.builtIn')}>
+                    {stylesOfType.filter(style => style.builtIn).map(style => <option key={style.id} value={style.id}>{style.name}</option>)}
+                </optgroup>
+                {stylesOfType.some(style => !style.builtIn) && (
+                    <optgroup label={t('style.yours')}>
+                        {stylesOfType.filter(style => !style.builtIn).map(style => <option key={style.id} value={style.id}>{style.name}</option>)}
+                    </optgroup>
+                )}
+            </select>
+        </div>
+        <StyleLibraryPanel
+          styles={styles}
+          onPrepareImage={prepareUpload}
+          selectedId={currentStyle?.id ?? null}
+          onUse={handleUseStyle}
+          onSave={putStyle}
+          onDelete={handleDeleteStyle}
+          onError={setError}
+        />
+    </div>
+  );
+
+  const renderColorChooser = () => (
+    <div>
+        <label className="block mb-2 text-sm font-medium text-gray-300">{t('color.label')}</label>
+        <div className="flex items-center gap-6">
+            <label className="flex items-center gap-2 cursor-pointer">
+                <input 
+                    type="radio" 
+                    name="colorOption" 
+                    value="color" 
+                    checked={colorOption === 'color'} 
+                    onChange={() => setColorOption('color')} 
+                    className="form-radio h-4 w-4 text-purple-600 bg-gray-700 border-gray-600 focus:ring-purple-500" 
+                />
+                <span className="text-gray-300">{t('color.color')}</span>
+            </label>
+            <label className="flex items-center gap-2 cursor-pointer">
+                <input 
+                    type="radio" 
+                    name="colorOption" 
+                    value="black_and_white" 
+                    checked={colorOption === 'black_and_white'} 
+                    onChange={() => setColorOption('black_and_white')} 
+                    className="form-radio h-4 w-4 text-purple-600 bg-gray-700 border-gray-600 focus:ring-purple-500" 
+                />
+                <span className="text-gray-300">{t('color.blackAndWhite')}</span>
+            </label>
+        </div>
+    </div>
+  );
 
   const renderCartoonGenerator = () => {
-    const isCustomStyle = (styleType === 'magazine' && magazineStyle === 'Other...') || (styleType === 'cartoonist' && cartoonistStyle === 'Other...');
+    const isStrip = cartoonMode === 'strip';
+    const isAnimation = cartoonMode === 'animation';
+    const isSingle = cartoonMode === 'single';
+    const animationFrames = animation.frameUrls.every(url => url !== null)
+      ? (animation.frameUrls as string[]).map((url, i) => ({ url, durationMs: animation.keyframes[i].durationMs }))
+      : null;
+    const displayedCartoon = isStrip ? strip.composite : isAnimation ? null : generatedCartoon;
+    const downloadName = isStrip ? 'comic-strip' : 'cartoon';
+    const displayedCreation = creations.find(creation => creation.id === selectedCartoonId);
+    const placeholders = getPlaceholders(cartoonPrompt);
+    // What the template is filled in with, for the live preview.
+    const templateVariables = currentStyle && isSingle
+      ? getCartoonVariables(
+          fillPlaceholders(cartoonPrompt, promptValues),
+          currentStyle,
+          signatureMode === 'overlay' ? '' : signature,
+          cast,
+          getReferenceGroups(characterImage, cast, currentStyle, null),
+          colorOption,
+          outputFormat.aspectRatio,
+          outputLanguage
+        )
+      : null;
 
     return (
+      <>
         <div className="grid grid-cols-1 md:grid-cols-2 gap-8 items-start">
             <div className="space-y-6">
-                <div>
-                    <label className="block mb-2 text-sm font-medium text-gray-300">Cartoon Description</label>
-                    <textarea value={cartoonPrompt} onChange={(e) => setCartoonPrompt(e.target.value)} rows={4} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-purple-500 focus:border-purple-500 block w-full p-2.5" placeholder="e.g., A programmer arguing with a rubber duck"></textarea>
+                <div className="flex items-center gap-6">
+                    <label className="flex items-center gap-2 cursor-pointer">
+                        <input type="radio" name="cartoonMode" value="single" checked={isSingle} onChange={() => setCartoonMode('single')} className="form-radio h-4 w-4 text-purple-600 bg-gray-700 border-gray-600 focus:ring-purple-500" />
+                        <span className="text-gray-300">{t('cartoon.singlePanel')}</span>
+                    </label>
+                    <label className="flex items-center gap-2 cursor-pointer">
+                        <input type="radio" name="cartoonMode" value="strip" checked={isStrip} onChange={() => setCartoonMode('strip')} className="form-radio h-4 w-4 text-purple-600 bg-gray-700 border-gray-600 focus:ring-purple-500" />
+                        <span className="text-gray-300">{t('cartoon.comicStrip')}</span>
+                    </label>
+                    <label className="flex items-center gap-2 cursor-pointer">
+                        <input type="radio" name="cartoonMode" value="animation" checked={isAnimation} onChange={() => setCartoonMode('animation')} className="form-radio h-4 w-4 text-purple-600 bg-gray-700 border-gray-600 focus:ring-purple-500" />
+                        <span className="text-gray-300">{t('cartoon.animation')}</span>
+                    </label>
                 </div>
 
+                <PresetPanel
+                  presets={presets}
+                  onApply={handleApplyPreset}
+                  onSave={handleSavePreset}
+                  onDelete={handleDeletePreset}
+                  onCopyLink={handleCopyLink}
+                  onError={setError}
+                />
+
+                {isStrip ? (
+                    <StripScriptEditor
+                        panels={strip.panels}
+                        layout={strip.layout}
+                        onPanelChange={strip.updatePanel}
+                        onAddPanel={strip.addPanel}
+                        onRemovePanel={strip.removePanel}
+                        onLayoutChange={strip.setLayout}
+                    />
+                ) : isAnimation ? (
+                    <KeyframeScriptEditor
+                        keyframes={animation.keyframes}
+                        loop={animation.loop}
+                        onKeyframeChange={animation.updateKeyframe}
+                        onAddKeyframe={animation.addKeyframe}
+                        onRemoveKeyframe={animation.removeKeyframe}
+                        onMoveKeyframe={animation.moveKeyframe}
+                        onLoopChange={animation.setLoop}
+                    />
+                ) : (
+                    <div className="space-y-4">
+                        <GagWriter
+                          styleName={currentStyle?.name ?? null}
+                          onWrite={handleWriteGags}
+                          onUse={handleUseGag}
+                          onError={setError}
+                        />
+                        <div>
+                            <label className="block mb-2 text-sm font-medium text-gray-300">{t('cartoon.description')}</label>
+                            <textarea value={cartoonPrompt} onChange={(e) => setCartoonPrompt(e.target.value)} rows={4} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-purple-500 focus:border-purple-500 block w-full p-2.5" placeholder={t('cartoon.descriptionPlaceholder')}></textarea>
+                            {placeholders.length > 0 && (
+                              <div className="mt-2 grid grid-cols-1 sm:grid-cols-2 gap-2">
+                                {placeholders.map(name => (
+                                  <label key={name} className="block text-xs text-gray-400">
+                                    {name}
+                                    <input type="text" value={promptValues[name] ?? ''} onChange={(e) => setPromptValues(prev => ({ ...prev, [name]: e.target.value }))} className="mt-1 bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-purple-500 focus:border-purple-500 block w-full p-2" />
+                                  </label>
+                                ))}
+                              </div>
+                            )}
+                        </div>
+                        <div>
+                            <label className="block mb-2 text-sm font-medium text-gray-300">{t('cartoon.caption')}</label>
+                            <input type="text" value={cartoonCaption} onChange={(e) => setCartoonCaption(e.target.value)} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-purple-500 focus:border-purple-500 block w-full p-2.5" placeholder={t('cartoon.captionPlaceholder')} />
+                        </div>
+                    </div>
+                )}
+
                 <div>
-                    <label className="block mb-2 text-sm font-medium text-gray-300">Bring Your Own Character (Optional)</label>
+                    <label className="block mb-2 text-sm font-medium text-gray-300">{t('cartoon.character')}</label>
                     <div className="flex items-center gap-4">
                         <div className="flex-grow">
-                          <input id="character-upload" type="file" accept="image/*" onChange={handleCharacterImageUpload} className="block w-full text-sm text-gray-400 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-purple-50 file:text-purple-700 hover:file:bg-purple-100" />
+                          <input id="character-upload" type="file" accept="image/*" onChange={handleCharacterImageUpload} className="block w-full text-sm text-gray-400 file:me-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-purple-50 file:text-purple-700 hover:file:bg-purple-100" />
                         </div>
                         {characterImagePreview && (
                             <div className="relative flex-shrink-0">
-                                <img src={characterImagePreview} alt="Character preview" className="w-16 h-16 object-cover rounded-md" />
-                                <button onClick={handleRemoveCharacterImage} className="absolute -top-2 -right-2 bg-red-500 text-white rounded-full p-0 w-6 h-6 flex items-center justify-center text-sm font-bold leading-none hover:bg-red-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-red-500">
+                                <img src={characterImagePreview} alt={t('cartoon.characterPreview')} className="w-16 h-16 object-cover rounded-md" />
+                                <button onClick={handleRemoveCharacterImage} aria-label={t('cartoon.removeCharacter')} className="absolute -top-2 -end-2 bg-red-500 text-white rounded-full p-0 w-6 h-6 flex items-center justify-center text-sm font-bold leading-none hover:bg-red-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-red-500">
                                     &times;
                                 </button>
                             </div>
                         )}
                     </div>
-                </div>
-
-                <div className="space-y-4 p-4 bg-gray-700/50 rounded-lg">
-                    <label className="block text-sm font-medium text-gray-300">Choose Style By</label>
-                    <div className="flex items-center space-x-6">
-                        <label className="flex items-center space-x-2 cursor-pointer">
-                            <input type="radio" name="styleType" value="magazine" checked={styleType === 'magazine'} onChange={() => handleStyleTypeChange('magazine')} className="form-radio h-4 w-4 text-purple-600 bg-gray-700 border-gray-600 focus:ring-purple-500" />
-                            <span className="text-gray-300">Magazine</span>
-                        </label>
-                        <label className="flex items-center space-x-2 cursor-pointer">
-                            <input type="radio" name="styleType" value="cartoonist" checked={styleType === 'cartoonist'} onChange={() => handleStyleTypeChange('cartoonist')} className="form-radio h-4 w-4 text-purple-600 bg-gray-700 border-gray-600 focus:ring-purple-500" />
-                            <span className="text-gray-300">Cartoonist</span>
-                        </label>
+                    <div className="mt-2">
+                        <UploadSettingsPanel settings={upload.settings} onChange={upload.setSettings} />
                     </div>
-                    {styleType === 'magazine' && (
-                        <div>
-                            <select value={magazineStyle} onChange={handleMagazineChange} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-purple-500 focus:border-purple-500 block w-full p-2.5">
-                                {magazines.map(m => <option key={m} value={m}>{m}</option>)}
-                                <option value="Other...">Other...</option>
-                            </select>
-                        </div>
-                    )}
-                    {styleType === 'cartoonist' && (
-                        <div>
-                            <select value={cartoonistStyle} onChange={handleCartoonistChange} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-purple-500 focus:border-purple-500 block w-full p-2.5">
-                                {cartoonists.map(c => <option key={c} value={c}>{c}</option>)}
-                                <option value="Other...">Other...</option>
-                            </select>
-                        </div>
-                    )}
-                    {isCustomStyle && (
-                        <div>
-                            <input type="text" value={customStyle} onChange={(e) => setCustomStyle(e.target.value)} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-purple-500 focus:border-purple-500 block w-full p-2.5 mt-2" placeholder="Enter custom style..." />
-                        </div>
-                    )}
                 </div>
 
+                <CharacterRoster
+                  characters={characters}
+                  castIds={castIds}
+                  onCastChange={setCastIds}
+                  onPrepareImage={prepareUpload}
+                  onSave={putCharacter}
+                  onDelete={handleDeleteCharacter}
+                  onError={setError}
+                />
+
+                {renderStyleChooser()}
+
                 <div>
-                    <label className="block mb-2 text-sm font-medium text-gray-300">Signature (Optional)</label>
-                    <input type="text" value={signature} onChange={(e) => setSignature(e.target.value)} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-purple-500 focus:border-purple-500 block w-full p-2.5" placeholder="e.g., Your Name"/>
+                    <label className="block mb-2 text-sm font-medium text-gray-300">{t('cartoon.signature')}</label>
+                    <input type="text" value={signature} onChange={(e) => setSignature(e.target.value)} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-purple-500 focus:border-purple-500 block w-full p-2.5" placeholder={t('cartoon.signaturePlaceholder')}/>
+                    {!isAnimation && (
+                    <label className="flex items-center gap-2 cursor-pointer mt-2">
+                        <input type="checkbox" checked={signatureMode === 'model'} onChange={(e) => setSignatureMode(e.target.checked ? 'model' : 'overlay')} className="form-checkbox h-4 w-4 text-purple-600 bg-gray-700 border-gray-600 rounded focus:ring-purple-500" />
+                        <span className="text-gray-400 text-sm">{t('cartoon.signatureByModel')}</span>
+                    </label>
+                    )}
                 </div>
 
+                {renderColorChooser()}
+
                 <div>
-                    <label className="block mb-2 text-sm font-medium text-gray-300">Color Style</label>
-                    <div className="flex items-center space-x-6">
-                        <label className="flex items-center space-x-2 cursor-pointer">
-                            <input 
-                                type="radio" 
-                                name="colorOption" 
-                                value="color" 
-                                checked={colorOption === 'color'} 
-                                onChange={() => setColorOption('color')} 
-                                className="form-radio h-4 w-4 text-purple-600 bg-gray-700 border-gray-600 focus:ring-purple-500" 
-                            />
-                            <span className="text-gray-300">Color</span>
-                        </label>
-                        <label className="flex items-center space-x-2 cursor-pointer">
-                            <input 
-                                type="radio" 
-                                name="colorOption" 
-                                value="black_and_white" 
-                                checked={colorOption === 'black_and_white'} 
-                                onChange={() => setColorOption('black_and_white')} 
-                                className="form-radio h-4 w-4 text-purple-600 bg-gray-700 border-gray-600 focus:ring-purple-500" 
-                            />
-                            <span className="text-gray-300">Black & White</span>
-                        </label>
-                    </div>
+                    <label htmlFor="output-language" className="block mb-2 text-sm font-medium text-gray-300">{t('cartoon.outputLanguage')}</label>
+                    <select id="output-language" value={outputLanguage} onChange={(e) => setOutputLanguage(e.target.value as Language)} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-purple-500 focus:border-purple-500 block w-full p-2.5">
+                        {LANGUAGES.map(option => <option key={option.value} value={option.value} lang={option.value}>{option.label}</option>)}
+                    </select>
+                    <p className="mt-2 text-xs text-gray-500">{t('cartoon.outputLanguageHint')}</p>
                 </div>
 
-                <button onClick={handleGenerateCartoon} disabled={isGeneratingCartoon} className="w-full text-white bg-purple-600 hover:bg-purple-700 focus:ring-4 focus:outline-none focus:ring-purple-800 font-medium rounded-lg text-sm px-5 py-2.5 text-center disabled:bg-gray-500 disabled:cursor-not-allowed">
-                    {isGeneratingCartoon ? 'Generating...' : 'Generate Cartoon'}
-                </button>
+                {isSingle && (
+                    <OutputFormatPanel
+                      output={outputFormat}
+                      model={getProvider(providerSelection.providerId).models.find(model => model.id === providerSelection.model)}
+                      onChange={setOutputFormat}
+                    />
+                )}
+
+                {isSingle && (
+                    <PromptTemplatePanel
+                      templates={promptTemplates.templates}
+                      selected={promptTemplates.selected}
+                      variables={templateVariables}
+                      onSelect={promptTemplates.select}
+                      onPut={promptTemplates.putTemplate}
+                      onDelete={promptTemplates.removeTemplate}
+                    />
+                )}
+
+                <div className="flex gap-2">
+                    <button onClick={isStrip ? handleGenerateStrip : isAnimation ? handleGenerateAnimation : handleGenerateCartoon} disabled={isGeneratingCartoon} className="w-full text-white bg-purple-600 hover:bg-purple-700 focus:ring-4 focus:outline-none focus:ring-purple-800 font-medium rounded-lg text-sm px-5 py-2.5 text-center disabled:bg-gray-500 disabled:cursor-not-allowed">
+                        {isGeneratingCartoon ? t('cartoon.generating') : isStrip ? t('cartoon.generateStrip') : isAnimation ? t('cartoon.generateAnimation') : t('cartoon.generateCartoon')}
+                    </button>
+                    {isGeneratingCartoon && (
+                        <button onClick={() => cartoonRequest.current?.abort()} className="flex-shrink-0 text-white bg-gray-600 hover:bg-gray-500 font-medium rounded-lg text-sm px-5 py-2.5">{t('common.cancel')}</button>
+                    )}
+                </div>
             </div>
             <div>
-                <h3 className="text-lg font-semibold mb-2 text-gray-300">Generated Cartoon</h3>
-                <ImageDisplay src={generatedCartoon} alt="Generated Cartoon" isLoading={isGeneratingCartoon} placeholderText="Your generated cartoon will appear here." />
-                {generatedCartoon && !isGeneratingCartoon && (
+                <h3 className="text-lg font-semibold mb-2 text-gray-300">{isStrip ? t('cartoon.generatedStrip') : isAnimation ? t('cartoon.generatedAnimation') : t('cartoon.generatedCartoon')}</h3>
+                {isAnimation && animationFrames ? (
+                  <AnimationPlayer frames={animationFrames} loop={animation.loop} isExporting={isExportingAnimation} onExport={handleExportAnimation} />
+                ) : displayedCartoon && !isGeneratingCartoon ? (
+                  <OverlayEditor imageUrl={displayedCartoon} alt={isStrip ? t('cartoon.stripAlt') : t('cartoon.cartoonAlt')} overlay={cartoonOverlay} onChange={handleOverlayChange} />
+                ) : (
+                  <ImageDisplay src={displayedCartoon} alt={isStrip ? t('cartoon.stripAlt') : t('cartoon.cartoonAlt')} isLoading={isGeneratingCartoon && !displayedCartoon} placeholderText={isStrip ? t('cartoon.stripPlaceholder') : isAnimation ? t('cartoon.animationPlaceholder') : t('cartoon.cartoonPlaceholder')} aspectRatio={isSingle && outputFormat.aspectRatio ? getAspectValue(outputFormat.aspectRatio) : undefined} />
+                )}
+                {displayedCartoon && !isGeneratingCartoon && (
                   <div className="mt-4 flex flex-col sm:flex-row gap-4">
                     <button
-                      onClick={() => handleDownload(generatedCartoon, 'cartoon.png')}
+                      onClick={() => handleDownloadCartoon(displayedCartoon, downloadName)}
                       className="w-full flex items-center justify-center gap-2 text-white bg-green-600 hover:bg-green-700 focus:ring-4 focus:outline-none focus:ring-green-800 font-medium rounded-lg text-sm px-5 py-2.5 text-center"
                     >
                       <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
                           <path fillRule="evenodd" d="M3 17a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zm3.293-7.707a1 1 0 011.414 0L9 10.586V3a1 1 0 112 0v7.586l1.293-1.293a1 1 0 111.414 1.414l-3 3a1 1 0 01-1.414 0l-3-3a1 1 0 010-1.414z" clipRule="evenodd" />
                       </svg>
-                      Download
+                      {t('common.download')}
                     </button>
                     {navigator.share && (
                        <button
-                        onClick={() => handleShare(generatedCartoon, 'My ExpressToon Cartoon', 'Check out this cartoon I generated with ExpressToons!', 'cartoon.png')}
+                        onClick={() => handleShareCartoon(displayedCartoon, `${downloadName}.png`)}
                         className="w-full flex items-center justify-center gap-2 text-white bg-blue-600 hover:bg-blue-700 focus:ring-4 focus:outline-none focus:ring-blue-800 font-medium rounded-lg text-sm px-5 py-2.5 text-center"
                       >
                         <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
                            <path d="M15 8a3 3 0 10-2.977-2.63l-4.94 2.47a3 3 0 100 4.319l4.94 2.47a3 3 0 10.895-1.789l-4.94-2.47a3.027 3.027 0 000-.74l4.94-2.47C13.456 7.68 14.19 8 15 8z" />
                         </svg>
-                        Share
+                        {t('common.share')}
+                      </button>
+                    )}
+                    {displayedCreation && (
+                      <button
+                        onClick={() => handlePublishCreation(displayedCreation, cartoonOverlay)}
+                        className="w-full flex items-center justify-center gap-2 text-white bg-gray-600 hover:bg-gray-500 focus:ring-4 focus:outline-none focus:ring-gray-700 font-medium rounded-lg text-sm px-5 py-2.5 text-center"
+                      >
+                        {t('common.publish')}
                       </button>
                     )}
                   </div>
                 )}
-                {cartoonHistory.length > 0 && (
-                  <div className="mt-8">
-                    <h3 className="text-lg font-semibold mb-4 text-gray-300">Your Creations</h3>
-                    <div className="flex overflow-x-auto gap-4 p-2 bg-gray-900/50 rounded-lg">
-                      {cartoonHistory.map((imgSrc) => (
-                        <img
-                          key={imgSrc}
-                          src={imgSrc}
-                          alt="Previously generated cartoon"
-                          className="w-24 h-24 object-cover rounded-md cursor-pointer border-2 border-transparent hover:border-purple-400 transition-all duration-200"
-                          onClick={() => setGeneratedCartoon(imgSrc)}
-                        />
-                      ))}
-                    </div>
-                  </div>
+                {isStrip && (
+                  <StripPanels
+                    panelUrls={strip.panelUrls}
+                    busyPanels={strip.busyPanels}
+                    disabled={isGeneratingCartoon}
+                    onRegenerate={handleRegeneratePanel}
+                  />
+                )}
+                {isAnimation && (
+                  <AnimationFrames
+                    frameUrls={animation.frameUrls}
+                    busyFrames={animation.busyFrames}
+                    disabled={isGeneratingCartoon}
+                    onRegenerate={handleRegenerateFrame}
+                  />
                 )}
+                <HistoryStrip
+                  title={t('cartoon.history')}
+                  creations={cartoonHistory}
+                  imageUrls={imageUrls}
+                  selectedId={selectedCartoonId}
+                  alt={t('cartoon.historyAlt')}
+                  onSelect={handleOpenCreation}
+                />
             </div>
         </div>
+        <BatchPanel
+          base={{ description: cartoonPrompt, caption: cartoonCaption.trim() || undefined, signature, signatureMode, colorOption, characterImage, characters: cast, template: cartoonTemplate, output: outputFormat, language: outputLanguage }}
+          currentStyle={currentStyle}
+          styles={styles}
+          jobs={batchJobs}
+          creations={creations}
+          imageUrls={imageUrls}
+          concurrency={batchConcurrency}
+          onConcurrencyChange={handleBatchConcurrencyChange}
+          onQueue={handleQueueBatch}
+          onCancel={batchQueue.cancel}
+          onCancelAll={batchQueue.cancelAll}
+          onRetry={batchQueue.retry}
+          onClearFinished={batchQueue.clearFinished}
+          onToggleFavorite={handleToggleFavorite}
+          onOpen={handleOpenCreation}
+        />
+      </>
     );
   };
 
-  const renderImageEditor = () => (
+  const renderImageEditor = () => {
+    const { selectedNode } = editTree;
+    const selectedUrl = selectedNode ? editTree.getUrl(selectedNode.id) : null;
+    const compareNode = editTree.nodes.find(node => node.id === compareId && node.id !== selectedNode?.id);
+    const compareUrl = compareNode ? editTree.getUrl(compareNode.id) : null;
+    const describeNode = (prompt: string | null) => prompt ?? t('editor.originalUpload');
+
+    return (
     <div className="space-y-8">
         <div>
-            <label className="block mb-2 text-lg font-medium text-gray-300">Upload Image to Edit</label>
-            <input type="file" accept="image/*" onChange={handleImageUpload} className="block w-full text-sm text-gray-400 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-purple-50 file:text-purple-700 hover:file:bg-purple-100" />
+            <label className="block mb-2 text-lg font-medium text-gray-300">{t('editor.upload')}</label>
+            <input type="file" accept="image/*" onChange={handleImageUpload} className="block w-full text-sm text-gray-400 file:me-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-purple-50 file:text-purple-700 hover:file:bg-purple-100" />
+            <div className="mt-2">
+                <UploadSettingsPanel settings={upload.settings} onChange={upload.setSettings} />
+            </div>
         </div>
         <div className="grid grid-cols-1 md:grid-cols-2 gap-8 items-start">
             <div>
-                <h3 className="text-lg font-semibold mb-2 text-gray-300">Original Image</h3>
-                <ImageDisplay src={originalImagePreview} alt="Original user upload" isLoading={false} placeholderText="Upload an image to see a preview."/>
-            </div>
-            <div>
-                 <h3 className="text-lg font-semibold mb-2 text-gray-300">Edited Image</h3>
-                 <ImageDisplay src={editedImage} alt="AI Edited result" isLoading={isEditingImage} placeholderText="Your edited image will appear here." />
-                 {editedImage && !isEditingImage && (
+                 <div className="flex items-center justify-between mb-2">
+                    <h3 className="text-lg font-semibold text-gray-300">{t('editor.selectedVersion')}</h3>
+                    {selectedNode && (
+                        <label className="flex items-center gap-2 cursor-pointer">
+                            <input type="checkbox" checked={isMasking} onChange={(e) => setIsMasking(e.target.checked)} className="form-checkbox h-4 w-4 text-purple-600 bg-gray-700 border-gray-600 rounded focus:ring-purple-500" />
+                            <span className="text-gray-300 text-sm">{t('editor.maskOnly')}</span>
+                        </label>
+                    )}
+                 </div>
+                 {isMasking && selectedUrl && !isEditingImage ? (
+                    <MaskEditor
+                      imageUrl={selectedUrl}
+                      alt={describeNode(selectedNode?.prompt ?? null)}
+                      mask={paintedMask}
+                      inverted={maskInverted}
+                      feather={maskFeather}
+                      savedMasks={savedMasks}
+                      onMaskChange={setPaintedMask}
+                      onInvertedChange={setMaskInverted}
+                      onFeatherChange={setMaskFeather}
+                      onSaveMask={handleSaveMask}
+                      onLoadMask={handleLoadMask}
+                      onDeleteMask={handleDeleteMask}
+                    />
+                 ) : (
+                    <ImageDisplay src={selectedUrl} alt={describeNode(selectedNode?.prompt ?? null)} isLoading={isEditingImage} placeholderText={t('editor.placeholder')} />
+                 )}
+                 {selectedNode && (
+                    <p className="mt-2 text-sm text-gray-400 truncate" title={describeNode(selectedNode.prompt)}>{describeNode(selectedNode.prompt)}</p>
+                 )}
+                 {selectedUrl && !isEditingImage && (
                     <div className="mt-4 flex flex-col sm:flex-row gap-4">
                       <button
-                        onClick={() => handleDownload(editedImage, 'edited-image.png')}
+                        onClick={() => handleExportCreation(selectedUrl, selectedNode?.id ?? null, 'edited-image')}
                         className="w-full flex items-center justify-center gap-2 text-white bg-green-600 hover:bg-green-700 focus:ring-4 focus:outline-none focus:ring-green-800 font-medium rounded-lg text-sm px-5 py-2.5 text-center"
                       >
                         <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
                             <path fillRule="evenodd" d="M3 17a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zm3.293-7.707a1 1 0 011.414 0L9 10.586V3a1 1 0 112 0v7.586l1.293-1.293a1 1 0 111.414 1.414l-3 3a1 1 0 01-1.414 0l-3-3a1 1 0 010-1.414z" clipRule="evenodd" />
                         </svg>
-                        Download
+                        {t('common.download')}
                       </button>
                       {navigator.share && (
                         <button
-                          onClick={() => handleShare(editedImage, 'My Edited Image', 'Check out this image I edited with ExpressToons!', 'edited-image.png')}
+                          onClick={() => handleShareCreation(selectedUrl, selectedNode?.id ?? null, t('editor.shareTitle'), t('editor.shareText'), 'edited-image.png')}
                           className="w-full flex items-center justify-center gap-2 text-white bg-blue-600 hover:bg-blue-700 focus:ring-4 focus:outline-none focus:ring-blue-800 font-medium rounded-lg text-sm px-5 py-2.5 text-center"
                         >
                           <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
                              <path d="M15 8a3 3 0 10-2.977-2.63l-4.94 2.47a3 3 0 100 4.319l4.94 2.47a3 3 0 10.895-1.789l-4.94-2.47a3.027 3.027 0 000-.74l4.94-2.47C13.456 7.68 14.19 8 15 8z" />
                           </svg>
-                          Share
+                          {t('common.share')}
                         </button>
                       )}
                     </div>
                   )}
-                 {editHistory.length > 0 && (
-                  <div className="mt-8">
-                    <h3 className="text-lg font-semibold mb-4 text-gray-300">Edit History</h3>
-                    <div className="flex overflow-x-auto gap-4 p-2 bg-gray-900/50 rounded-lg">
-                      {editHistory.map((imgSrc) => (
-                        <img
-                          key={imgSrc}
-                          src={imgSrc}
-                          alt="Previously edited image"
-                          className="w-24 h-24 object-cover rounded-md cursor-pointer border-2 border-transparent hover:border-purple-400 transition-all duration-200"
-                          onClick={() => setEditedImage(imgSrc)}
-                        />
-                      ))}
+                 {selectedNode && (
+                    <div className="mt-6 space-y-4">
+                         <div>
+                            <label className="block mb-2 text-sm font-medium text-gray-300">{t('editor.instruction')}</label>
+                            <input type="text" value={editPrompt} onChange={(e) => setEditPrompt(e.target.value)} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-purple-500 focus:border-purple-500 block w-full p-2.5" placeholder={t('editor.instructionPlaceholder')} />
+                            <p className="mt-2 text-xs text-gray-500">{t('editor.instructionHint')}</p>
+                        </div>
+                        <div className="flex gap-2">
+                            <button onClick={handleEditImage} disabled={isEditingImage} className="w-full text-white bg-purple-600 hover:bg-purple-700 focus:ring-4 focus:outline-none focus:ring-purple-800 font-medium rounded-lg text-sm px-5 py-2.5 text-center disabled:bg-gray-500 disabled:cursor-not-allowed">
+                                {isEditingImage ? t('editor.editing') : t('editor.apply')}
+                            </button>
+                            {isEditingImage && (
+                                <button onClick={() => editRequest.current?.abort()} className="flex-shrink-0 text-white bg-gray-600 hover:bg-gray-500 font-medium rounded-lg text-sm px-5 py-2.5">{t('common.cancel')}</button>
+                            )}
+                        </div>
                     </div>
-                  </div>
+                 )}
+            </div>
+            <div>
+                <div className="flex items-center justify-between mb-2">
+                    <h3 className="text-lg font-semibold text-gray-300">{t('editor.versionTree')}</h3>
+                    {selectedNode && (
+                        <div className="flex gap-3 text-sm">
+                            <button onClick={editTree.undo} disabled={!editTree.canUndo} className="text-purple-400 hover:text-purple-300 disabled:text-gray-600" title={t('editor.undoTitle')}>{t('editor.undo')}</button>
+                            <button onClick={editTree.redo} disabled={!editTree.canRedo} className="text-purple-400 hover:text-purple-300 disabled:text-gray-600" title={t('editor.redoTitle')}>{t('editor.redo')}</button>
+                            <button onClick={handleExportChain} disabled={editTree.path.length < 2} className="text-green-400 hover:text-green-300 disabled:text-gray-600">{t('editor.exportChain')}</button>
+                        </div>
+                    )}
+                </div>
+                {selectedNode ? (
+                    <EditTreeView
+                      nodes={editTree.nodes}
+                      selectedId={selectedNode.id}
+                      compareId={compareNode?.id ?? null}
+                      pathIds={new Set(editTree.path.map(node => node.id))}
+                      getUrl={editTree.getUrl}
+                      onSelect={editTree.select}
+                      onCompare={setCompareId}
+                    />
+                ) : (
+                    <p className="text-gray-500 text-sm">{t('editor.noVersions')}</p>
                 )}
             </div>
         </div>
-        {originalImage && (
-            <div className="space-y-4">
-                 <div>
-                    <label className="block mb-2 text-sm font-medium text-gray-300">Edit Instruction</label>
-                    <input type="text" value={editPrompt} onChange={(e) => setEditPrompt(e.target.value)} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-purple-500 focus:border-purple-500 block w-full p-2.5" placeholder="e.g., Make it black and white" />
+        {selectedNode && selectedUrl && compareNode && compareUrl && (
+            <CompareView
+              left={{ url: selectedUrl, label: describeNode(selectedNode.prompt) }}
+              right={{ url: compareUrl, label: describeNode(compareNode.prompt) }}
+              onClose={() => setCompareId(null)}
+            />
+        )}
+    </div>
+    );
+  };
+
+  const renderStyleTransfer = () => {
+    const resultUrl = restyledId ? imageUrls[restyledId] ?? null : null;
+
+    return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-8 items-start">
+        <div className="space-y-6">
+            <div>
+                <label className="block mb-2 text-lg font-medium text-gray-300">{t('restyle.upload')}</label>
+                <input type="file" accept="image/*" onChange={handleRestyleUpload} className="block w-full text-sm text-gray-400 file:me-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-purple-50 file:text-purple-700 hover:file:bg-purple-100" />
+                <div className="mt-2">
+                    <UploadSettingsPanel settings={upload.settings} onChange={upload.setSettings} />
+                </div>
+                {restyleSourceUrl && (
+                    <img src={restyleSourceUrl} alt={t('restyle.photoAlt')} className="mt-4 max-h-64 rounded-lg object-contain" />
+                )}
+            </div>
+
+            {renderStyleChooser()}
+
+            {renderColorChooser()}
+
+            <div>
+                <label htmlFor="restyle-strength" className="block mb-2 text-sm font-medium text-gray-300">{t('restyle.strength', { strength: restyleStrength })}</label>
+                <input
+                  id="restyle-strength"
+                  type="range"
+                  min={0}
+                  max={100}
+                  step={5}
+                  value={restyleStrength}
+                  onChange={(e) => setRestyleStrength(Number(e.target.value))}
+                  className="w-full accent-purple-500"
+                />
+                <div className="flex justify-between text-xs text-gray-500">
+                    <span>{t('restyle.loose')}</span>
+                    <span>{t('restyle.exact')}</span>
                 </div>
-                <button onClick={handleEditImage} disabled={isEditingImage} className="w-full text-white bg-purple-600 hover:bg-purple-700 focus:ring-4 focus:outline-none focus:ring-purple-800 font-medium rounded-lg text-sm px-5 py-2.5 text-center disabled:bg-gray-500 disabled:cursor-not-allowed">
-                    {isEditingImage ? 'Editing...' : 'Apply Edit'}
+            </div>
+
+            <div className="flex gap-2">
+                <button onClick={handleRestyle} disabled={isRestyling || !restyleSource} className="w-full text-white bg-purple-600 hover:bg-purple-700 focus:ring-4 focus:outline-none focus:ring-purple-800 font-medium rounded-lg text-sm px-5 py-2.5 text-center disabled:bg-gray-500 disabled:cursor-not-allowed">
+                    {isRestyling ? t('restyle.redrawing') : t('restyle.redraw')}
                 </button>
+                {isRestyling && (
+                    <button onClick={() => restyleRequest.current?.abort()} className="flex-shrink-0 text-white bg-gray-600 hover:bg-gray-500 font-medium rounded-lg text-sm px-5 py-2.5">{t('common.cancel')}</button>
+                )}
             </div>
-        )}
+        </div>
+        <div>
+            <h3 className="text-lg font-semibold mb-2 text-gray-300">{t('restyle.result')}</h3>
+            <ImageDisplay src={resultUrl} alt={t('restyle.resultAlt')} isLoading={isRestyling} placeholderText={t('restyle.placeholder')} />
+            {resultUrl && !isRestyling && (
+                <div className="mt-4 flex flex-col sm:flex-row gap-4">
+                  <button
+                    onClick={() => handleExportCreation(resultUrl, restyledId, 'restyled-photo')}
+                    className="w-full flex items-center justify-center gap-2 text-white bg-green-600 hover:bg-green-700 focus:ring-4 focus:outline-none focus:ring-green-800 font-medium rounded-lg text-sm px-5 py-2.5 text-center"
+                  >
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                        <path fillRule="evenodd" d="M3 17a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zm3.293-7.707a1 1 0 011.414 0L9 10.586V3a1 1 0 112 0v7.586l1.293-1.293a1 1 0 111.414 1.414l-3 3a1 1 0 01-1.414 0l-3-3a1 1 0 010-1.414z" clipRule="evenodd" />
+                    </svg>
+                    {t('common.download')}
+                  </button>
+                  {navigator.share && (
+                    <button
+                      onClick={() => handleShareCreation(resultUrl, restyledId, t('cartoon.shareTitle'), t('restyle.shareText'), 'restyled-photo.png')}
+                      className="w-full flex items-center justify-center gap-2 text-white bg-blue-600 hover:bg-blue-700 focus:ring-4 focus:outline-none focus:ring-blue-800 font-medium rounded-lg text-sm px-5 py-2.5 text-center"
+                    >
+                      <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                         <path d="M15 8a3 3 0 10-2.977-2.63l-4.94 2.47a3 3 0 100 4.319l4.94 2.47a3 3 0 10.895-1.789l-4.94-2.47a3.027 3.027 0 000-.74l4.94-2.47C13.456 7.68 14.19 8 15 8z" />
+                      </svg>
+                      {t('common.share')}
+                    </button>
+                  )}
+                </div>
+            )}
+        </div>
     </div>
+    );
+  };
+
+  const renderGallery = () => (
+    <Gallery
+      creations={creations}
+      imageUrls={imageUrls}
+      isBusy={isGeneratingCartoon || isEditingImage || isRestyling}
+      onOpen={handleOpenCreation}
+      onRegenerate={handleRegenerateCreation}
+      onDelete={handleDeleteCreation}
+      onToggleFavorite={handleToggleFavorite}
+      onExport={handleExportSelection}
+      onPublish={handlePublishCreation}
+    />
   );
 
+  const renderTeamGallery = () => <TeamGallery name={teamName.name} onNameChange={teamName.setName} />;
+
+  const handleClearUsage = () => {
+    if (!window.confirm(t('confirm.clearUsage'))) return;
+    usage.clear().catch((e) => {
+      console.error(e);
+      setError(t('error.clearUsage'));
+    });
+  };
+
+  const handleExportUsage = () => {
+    const csv = toUsageCsv(usage.records, usageSettings.settings.prices);
+    downloadBlob(new Blob([csv], { type: 'text/csv' }), `expresstoons-usage-${new Date().toISOString().slice(0, 10)}.csv`);
+  };
+
+  const renderUsage = () => (
+    <UsageDashboard
+      records={usage.records}
+      settings={usageSettings.settings}
+      loadError={usage.loadError}
+      onSettingsChange={usageSettings.setSettings}
+      onExportCsv={handleExportUsage}
+      onClear={handleClearUsage}
+    />
+  );
+
+  const renderVerify = () => (
+    <VerifyImage
+      creations={creations}
+      settings={provenance.settings}
+      onSettingsChange={provenance.setSettings}
+      onOpenCreation={handleOpenCreation}
+    />
+  );
+
+  const renderActiveTab = () => {
+    switch (activeTab) {
+      case 'cartoon':
+        return renderCartoonGenerator();
+      case 'edit':
+        return renderImageEditor();
+      case 'restyle':
+        return renderStyleTransfer();
+      case 'gallery':
+        return renderGallery();
+      case 'team':
+        return renderTeamGallery();
+      case 'usage':
+        return renderUsage();
+      case 'verify':
+        return renderVerify();
+    }
+  };
 
   return (
     <div className="min-h-screen bg-gray-900 font-sans">
       <Header />
       <main className="container mx-auto p-4 md:p-8">
+        <div className="mb-6 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <ProjectMenu isBusy={isProjectBusy} onSave={handleSaveProject} onOpen={handleOpenProject} />
+          <ProviderSelector selection={providerSelection} onProviderChange={setProviderId} onModelChange={setModel} />
+        </div>
+
+        {providerStatus && !providerStatus.available && <div className="bg-yellow-500/20 border border-yellow-500 text-yellow-200 px-4 py-3 rounded-lg relative mb-6" role="status">
+            <strong className="font-bold">{t('banner.providerUnavailable')}</strong>
+            <span className="block sm:inline">{providerStatus.message}</span>
+        </div>}
+
         <div className="mb-6">
-          <TabButton label="Cartoon Generator" isActive={activeTab === 'cartoon'} onClick={() => setActiveTab('cartoon')} />
-          <TabButton label="Image Editor" isActive={activeTab === 'edit'} onClick={() => setActiveTab('edit')} />
+          <TabButton label={t('tab.cartoon')} isActive={activeTab === 'cartoon'} onClick={() => setActiveTab('cartoon')} />
+          <TabButton label={t('tab.edit')} isActive={activeTab === 'edit'} onClick={() => setActiveTab('edit')} />
+          <TabButton label={t('tab.restyle')} isActive={activeTab === 'restyle'} onClick={() => setActiveTab('restyle')} />
+          <TabButton label={t('tab.gallery', { count: creations.length })} isActive={activeTab === 'gallery'} onClick={() => setActiveTab('gallery')} />
+          <TabButton label={t('tab.team')} isActive={activeTab === 'team'} onClick={() => setActiveTab('team')} />
+          <TabButton label={t('tab.usage')} isActive={activeTab === 'usage'} onClick={() => setActiveTab('usage')} />
+          <TabButton label={t('tab.verify')} isActive={activeTab === 'verify'} onClick={() => setActiveTab('verify')} />
         </div>
 
+        {loadError && <div className="bg-yellow-500/20 border border-yellow-500 text-yellow-200 px-4 py-3 rounded-lg relative mb-6" role="status">
+            {loadError}
+        </div>}
+
         {error && <div className="bg-red-500/20 border border-red-500 text-red-300 px-4 py-3 rounded-lg relative mb-6" role="alert">
-            <strong className="font-bold">Error: </strong>
+            <strong className="font-bold">{t('banner.error')}</strong>
             <span className="block sm:inline">{error}</span>
         </div>}
         
-        <div className="bg-gray-800 p-6 md:p-8 rounded-b-lg rounded-r-lg shadow-2xl">
-            {activeTab === 'cartoon' ? renderCartoonGenerator() : renderImageEditor()}
+        <div className="bg-gray-800 p-6 md:p-8 rounded-b-lg rounded-e-lg shadow-2xl">
+            {renderActiveTab()}
         </div>
       </main>
+      {upload.pendingCrop && (
+        <ImageCropper source={upload.pendingCrop.source} onConfirm={upload.pendingCrop.resolve} onCancel={() => upload.pendingCrop?.resolve(null)} />
+      )}
+      {exportTarget && (
+        <ExportDialog
+          imageUrl={exportTarget.imageUrl}
+          name={exportTarget.name}
+          metadata={exportTarget.metadata}
+          settings={exportSettings.settings}
+          onSettingsChange={exportSettings.setSettings}
+          onClose={() => setExportTarget(null)}
+          onError={setError}
+        />
+      )}
+      {publishTarget && (
+        <PublishDialog
+          image={publishTarget.image}
+          imageUrl={publishTarget.imageUrl}
+          kind={publishTarget.kind}
+          metadata={publishTarget.metadata}
+          author={teamName.name}
+          onAuthorChange={teamName.setName}
+          onClose={() => setPublishTarget(null)}
+          onOpenTeamGallery={() => {
+            setPublishTarget(null);
+            setActiveTab('team');
+          }}
+        />
+      )}
       <footer className="text-center p-4 mt-8 text-gray-500 text-sm">
-        <p>Powered by Gemini. Created for illustrative purposes.</p>
+        <p>{t('footer')}</p>
       </footer>
     </div>
   );
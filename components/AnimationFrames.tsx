@@ -0,0 +1,38 @@
+import React from 'react';
+import { useI18n } from '../hooks/useI18n';
+import Spinner from './Spinner';
+
+// Each frame is drawn from the one before, so a frame can only be (re)drawn once that one exists.
+const AnimationFrames: React.FC<{
+  frameUrls: (string | null)[];
+  busyFrames: number[];
+  disabled: boolean;
+  onRegenerate: (index: number) => void;
+}> = ({ frameUrls, busyFrames, disabled, onRegenerate }) => {
+  const { t } = useI18n();
+  if (frameUrls.every((url) => url === null) && busyFrames.length === 0) return null;
+
+  return (
+    <div className="mt-6">
+      <h3 className="text-lg font-semibold mb-4 text-gray-300">{t('animation.frames')}</h3>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+        {frameUrls.map((url, i) => {
+          const isBusy = busyFrames.includes(i);
+          const needsPrevious = i > 0 && frameUrls[i - 1] === null;
+          return (
+            <div key={i} className="bg-gray-900/50 rounded-lg p-2 space-y-2">
+              <div className="aspect-square flex items-center justify-center bg-gray-800 rounded-md">
+                {isBusy ? <Spinner /> : url ? <img src={url} alt={t('animation.frameNumber', { number: i + 1 })} className="max-w-full max-h-full object-contain rounded-md" /> : <span className="text-gray-500 text-xs">{t('animation.frameNumber', { number: i + 1 })}</span>}
+              </div>
+              <button onClick={() => onRegenerate(i)} disabled={disabled || isBusy || needsPrevious} title={needsPrevious ? t('animation.drawFirst', { number: i }) : undefined} className="w-full text-white bg-gray-600 hover:bg-gray-500 font-medium rounded-lg text-xs px-3 py-2 disabled:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed">
+                {url ? t('animation.regenerateFrame', { number: i + 1 }) : t('animation.generateFrame', { number: i + 1 })}
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default AnimationFrames;
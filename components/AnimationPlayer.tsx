@@ -0,0 +1,77 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { AnimationFormat } from '../types';
+import type { AnimationFrame } from '../services/animation';
+import { ANIMATION_FORMATS, clampFrameDuration, isAnimationFormatSupported } from '../services/animation';
+import { useI18n } from '../hooks/useI18n';
+
+/**
+ * Plays the drawn frames with their durations, as the exported file will,
+ * and exports them. Without `loop` playback stops on the last frame.
+ */
+const AnimationPlayer: React.FC<{
+  frames: AnimationFrame[];
+  loop: boolean;
+  isExporting: boolean;
+  onExport: (format: AnimationFormat) => void;
+}> = ({ frames, loop, isExporting, onExport }) => {
+  const { t } = useI18n();
+  const [current, setCurrent] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(true);
+  const [format, setFormat] = useState<AnimationFormat>('gif');
+  const shown = Math.min(current, frames.length - 1);
+
+  useEffect(() => {
+    if (!isPlaying || frames.length < 2) return;
+    const timer = window.setTimeout(() => {
+      if (shown < frames.length - 1) setCurrent(shown + 1);
+      else if (loop) setCurrent(0);
+      else setIsPlaying(false);
+    }, clampFrameDuration(frames[shown].durationMs));
+    return () => window.clearTimeout(timer);
+  }, [isPlaying, shown, frames, loop]);
+
+  const handlePlay = () => {
+    // Replaying a finished one-shot animation starts it over.
+    if (!isPlaying && !loop && shown === frames.length - 1) setCurrent(0);
+    setIsPlaying(!isPlaying);
+  };
+
+  const supported = useMemo(() => ANIMATION_FORMATS.filter(option => isAnimationFormatSupported(option.value)), []);
+
+  return (
+    <div className="space-y-4">
+      <div className="w-full bg-gray-800 rounded-lg flex items-center justify-center p-4 border-2 border-dashed border-gray-600">
+        <img src={frames[shown].url} alt={t('animation.frameOf', { number: shown + 1, count: frames.length })} className="max-w-full max-h-[75vh] h-auto object-contain rounded-md" />
+      </div>
+      <div className="flex items-center gap-3">
+        <button onClick={handlePlay} className="text-white bg-gray-600 hover:bg-gray-500 font-medium rounded-lg text-sm px-4 py-2">
+          {isPlaying ? t('animation.pause') : t('animation.play')}
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={frames.length - 1}
+          value={shown}
+          onChange={(e) => {
+            setIsPlaying(false);
+            setCurrent(Number(e.target.value));
+          }}
+          className="flex-grow accent-purple-500"
+          aria-label={t('animation.frame')}
+        />
+        <span className="text-sm text-gray-400 tabular-nums">{shown + 1} / {frames.length}</span>
+      </div>
+      <div className="flex flex-col sm:flex-row gap-3">
+        <select value={format} onChange={(e) => setFormat(e.target.value as AnimationFormat)} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-purple-500 focus:border-purple-500 block p-2.5" aria-label={t('animation.exportFormat')}>
+          {supported.map(option => <option key={option.value} value={option.value}>{t(option.labelKey)}</option>)}
+        </select>
+        <button onClick={() => onExport(format)} disabled={isExporting} className="w-full flex items-center justify-center gap-2 text-white bg-green-600 hover:bg-green-700 focus:ring-4 focus:outline-none focus:ring-green-800 font-medium rounded-lg text-sm px-5 py-2.5 text-center disabled:bg-gray-500 disabled:cursor-not-allowed">
+          {isExporting ? t('animation.exporting') : t('animation.export')}
+        </button>
+      </div>
+      {format === 'webm' && <p className="text-xs text-gray-500">{t('animation.webmHint')}</p>}
+    </div>
+  );
+};
+
+export default AnimationPlayer;
@@ -0,0 +1,193 @@
+import React, { useState } from 'react';
+import type { CartoonParams, Creation, StyleDefinition, StyleType } from '../types';
+import type { MessageKey } from '../locales/en';
+import type { JobSnapshot, JobStatus } from '../services/jobQueue';
+import { useI18n } from '../hooks/useI18n';
+
+// The generator settings shared by every job in a batch.
+export type BatchBase = Omit<CartoonParams, 'styleType' | 'styleName' | 'style'>;
+
+const MAX_VARIATIONS = 8;
+const MAX_CONCURRENCY = 4;
+
+const statusStyles: Record<JobStatus, string> = {
+  queued: 'bg-gray-600 text-gray-200',
+  running: 'bg-blue-600 text-white',
+  failed: 'bg-red-600 text-white',
+  done: 'bg-green-600 text-white',
+  cancelled: 'bg-gray-700 text-gray-400',
+};
+
+const STATUS_LABELS: Record<JobStatus, MessageKey> = {
+  queued: 'batch.status.queued',
+  running: 'batch.status.running',
+  failed: 'batch.status.failed',
+  done: 'batch.status.done',
+  cancelled: 'batch.status.cancelled',
+};
+
+const StyleCheckboxes: React.FC<{
+  title: string;
+  styleType: StyleType;
+  styles: StyleDefinition[];
+  selected: Set<string>;
+  onToggle: (style: StyleDefinition) => void;
+}> = ({ title, styleType, styles, selected, onToggle }) => (
+  <div>
+    <p className="text-xs font-semibold text-gray-400 uppercase mb-2">{title}</p>
+    <div className="grid grid-cols-2 gap-1">
+      {styles.filter(style => style.styleType === styleType).map(style => (
+        <label key={style.id} className="flex items-center gap-2 cursor-pointer text-sm text-gray-300">
+          <input type="checkbox" checked={selected.has(style.id)} onChange={() => onToggle(style)} className="form-checkbox h-4 w-4 text-purple-600 bg-gray-700 border-gray-600 rounded focus:ring-purple-500" />
+          <span>{style.name}</span>
+        </label>
+      ))}
+    </div>
+  </div>
+);
+
+/**
+ * Queues several cartoon generations at once, either as variations of the
+ * current settings or the same scene across many styles.
+ */
+const BatchPanel: React.FC<{
+  base: BatchBase;
+  currentStyle: StyleDefinition | null;
+  styles: StyleDefinition[];
+  jobs: JobSnapshot<string>[];
+  creations: Creation[];
+  imageUrls: Record<string, string>;
+  concurrency: number;
+  onConcurrencyChange: (concurrency: number) => void;
+  onQueue: (batch: CartoonParams[]) => void;
+  onCancel: (jobId: string) => void;
+  onCancelAll: () => void;
+  onRetry: (jobId: string) => void;
+  onClearFinished: () => void;
+  onToggleFavorite: (creation: Creation) => void;
+  onOpen: (creation: Creation) => void;
+}> = ({
+  base, currentStyle, styles: library, jobs, creations, imageUrls, concurrency,
+  onConcurrencyChange, onQueue, onCancel, onCancelAll, onRetry, onClearFinished, onToggleFavorite, onOpen,
+}) => {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [variations, setVariations] = useState<number>(4);
+  const [extraStyles, setExtraStyles] = useState<StyleDefinition[]>([]);
+
+  const selectedIds = new Set(extraStyles.map(style => style.id));
+  const styles = currentStyle && !selectedIds.has(currentStyle.id) ? [currentStyle, ...extraStyles] : extraStyles;
+  const jobCount = styles.length * variations;
+  const activeCount = jobs.filter(job => job.status === 'queued' || job.status === 'running').length;
+  const results = jobs
+    .filter(job => job.status === 'done' && job.result)
+    .map(job => creations.find(c => c.id === job.result))
+    .filter((c): c is Creation => !!c);
+
+  const toggleStyle = (style: StyleDefinition) => {
+    setExtraStyles(prev => (prev.some(s => s.id === style.id) ? prev.filter(s => s.id !== style.id) : [...prev, style]));
+  };
+
+  const handleQueue = () => {
+    const batch: CartoonParams[] = [];
+    for (const style of styles) {
+      for (let i = 0; i < variations; i++) {
+        batch.push({ ...base, styleType: style.styleType, styleName: style.name, style });
+      }
+    }
+    onQueue(batch);
+  };
+
+  return (
+    <div className="mt-8 bg-gray-700/30 rounded-lg">
+      <button onClick={() => setIsOpen(!isOpen)} className="w-full flex items-center justify-between p-4 text-start">
+        <span className="text-lg font-semibold text-gray-300">{t('batch.title')}</span>
+        <span className="text-sm text-gray-400">
+          {activeCount > 0 ? t('batch.inProgress', { count: activeCount }) : ''}{t(isOpen ? 'batch.hide' : 'batch.show')}
+        </span>
+      </button>
+
+      {isOpen && (
+        <div className="p-4 pt-0 space-y-6">
+          <p className="text-sm text-gray-400">
+            {t('batch.hint')}
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="space-y-4">
+              <label className="block text-sm font-medium text-gray-300">
+                {t('batch.variations', { count: variations })}
+                <input type="range" min={1} max={MAX_VARIATIONS} value={variations} onChange={(e) => setVariations(Number(e.target.value))} className="w-full accent-purple-500 mt-2" />
+              </label>
+              <label className="block text-sm font-medium text-gray-300">
+                {t('batch.concurrency', { count: concurrency })}
+                <input type="range" min={1} max={MAX_CONCURRENCY} value={concurrency} onChange={(e) => onConcurrencyChange(Number(e.target.value))} className="w-full accent-purple-500 mt-2" />
+              </label>
+              <p className="text-sm text-gray-400">
+                {currentStyle ? t('batch.currentStyle', { name: currentStyle.name }) : ''}{t('batch.moreStyles')}
+              </p>
+              <button onClick={handleQueue} disabled={jobCount === 0 || !base.description} className="w-full text-white bg-purple-600 hover:bg-purple-700 focus:ring-4 focus:outline-none focus:ring-purple-800 font-medium rounded-lg text-sm px-5 py-2.5 text-center disabled:bg-gray-500 disabled:cursor-not-allowed">
+                {t(jobCount === 1 ? 'batch.queueOne' : 'batch.queueMany', { count: jobCount })}
+              </button>
+            </div>
+            <div className="space-y-4 max-h-72 overflow-y-auto pe-2">
+              <StyleCheckboxes title={t('batch.magazines')} styleType="magazine" styles={library} selected={selectedIds} onToggle={toggleStyle} />
+              <StyleCheckboxes title={t('batch.cartoonists')} styleType="cartoonist" styles={library} selected={selectedIds} onToggle={toggleStyle} />
+            </div>
+          </div>
+
+          {jobs.length > 0 && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <h4 className="text-sm font-semibold text-gray-300">{t('batch.queue')}</h4>
+                <div className="flex gap-3 text-xs">
+                  <button onClick={onCancelAll} disabled={activeCount === 0} className="text-red-400 hover:text-red-300 disabled:text-gray-600">{t('batch.cancelAll')}</button>
+                  <button onClick={onClearFinished} className="text-gray-400 hover:text-gray-200">{t('batch.clearFinished')}</button>
+                </div>
+              </div>
+              <ul className="divide-y divide-gray-700 bg-gray-900/50 rounded-lg max-h-64 overflow-y-auto">
+                {jobs.map(job => (
+                  <li key={job.id} className="flex items-center gap-3 px-3 py-2 text-sm">
+                    <span className={`px-2 py-0.5 rounded text-xs font-semibold ${statusStyles[job.status]}`}>{t(STATUS_LABELS[job.status])}</span>
+                    <span className="flex-grow text-gray-300 truncate" title={job.error ?? job.label}>
+                      {job.label}
+                      {job.retryAt && <span className="text-yellow-400"> · {t('batch.retrying', { attempt: job.attempts + 1 })}</span>}
+                      {job.error && <span className="text-red-400"> · {job.error}</span>}
+                    </span>
+                    {(job.status === 'queued' || job.status === 'running') && (
+                      <button onClick={() => onCancel(job.id)} className="text-xs text-red-400 hover:text-red-300">{t('common.cancel')}</button>
+                    )}
+                    {(job.status === 'failed' || job.status === 'cancelled') && (
+                      <button onClick={() => onRetry(job.id)} className="text-xs text-purple-400 hover:text-purple-300">{t('batch.retry')}</button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {results.length > 0 && (
+            <div>
+              <h4 className="text-sm font-semibold text-gray-300 mb-2">{t('batch.results')}</h4>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                {results.map(creation => (
+                  <div key={creation.id} className="relative group">
+                    <img src={imageUrls[creation.id]} alt={t('batch.resultAlt')} onClick={() => onOpen(creation)} className={`w-full aspect-square object-cover rounded-md cursor-pointer border-2 ${creation.favorite ? 'border-yellow-400' : 'border-transparent'} hover:border-purple-400`} />
+                    <button
+                      onClick={() => onToggleFavorite(creation)}
+                      className={`absolute top-1 end-1 w-8 h-8 rounded-full bg-gray-900/70 text-lg leading-none ${creation.favorite ? 'text-yellow-400' : 'text-gray-300'}`}
+                      aria-label={t(creation.favorite ? 'gallery.unfavorite' : 'gallery.favorite')}
+                    >
+                      {creation.favorite ? '★' : '☆'}
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BatchPanel;
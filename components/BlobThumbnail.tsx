@@ -0,0 +1,14 @@
+import React, { useEffect, useState } from 'react';
+
+// Shows an image kept as a Blob, e.g. a style or character reference.
+const BlobThumbnail: React.FC<{ blob: Blob; alt: string; className?: string }> = ({ blob, alt, className = 'w-16 h-16' }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [blob]);
+  return url ? <img src={url} alt={alt} className={`${className} object-cover rounded-md`} /> : null;
+};
+
+export default BlobThumbnail;
@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import type { Character } from '../types';
+import type { MessageKey } from '../locales/en';
+import { createId } from '../services/historyStore';
+import { MAX_CAST, MAX_CHARACTER_IMAGES } from '../services/characterStore';
+import { useI18n } from '../hooks/useI18n';
+import BlobThumbnail from './BlobThumbnail';
+
+const inputClass = 'bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-purple-500 focus:border-purple-500 block w-full p-2';
+
+const suggestedLabels: MessageKey[] = ['character.front', 'character.side', 'character.expressions'];
+
+const createCharacter = (): Character => ({ id: createId(), name: '', description: '', images: [], createdAt: Date.now() });
+
+const CharacterForm: React.FC<{
+  draft: Character;
+  onChange: (draft: Character) => void;
+  onSave: () => void;
+  onCancel: () => void;
+  onPrepareImage: (file: File) => Promise<Blob | null>;
+}> = ({ draft, onChange, onSave, onCancel, onPrepareImage }) => {
+  const { t } = useI18n();
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []).slice(0, MAX_CHARACTER_IMAGES - draft.images.length);
+    e.target.value = '';
+    // One at a time, since each may open the cropper.
+    const images: Blob[] = [];
+    for (const file of files) {
+      const image = await onPrepareImage(file);
+      if (image) images.push(image);
+    }
+    const added = images.map((image, i) => {
+      const suggested = suggestedLabels[draft.images.length + i];
+      return { image, label: suggested ? t(suggested) : '' };
+    });
+    onChange({ ...draft, images: [...draft.images, ...added] });
+  };
+
+  const updateLabel = (index: number, label: string) => {
+    onChange({ ...draft, images: draft.images.map((image, i) => (i === index ? { ...image, label } : image)) });
+  };
+
+  return (
+    <div className="p-4 bg-gray-800/60 rounded-lg space-y-3">
+      <input type="text" value={draft.name} onChange={(e) => onChange({ ...draft, name: e.target.value })} className={inputClass} placeholder={t('character.namePlaceholder')} />
+      <textarea value={draft.description} onChange={(e) => onChange({ ...draft, description: e.target.value })} rows={2} className={inputClass} placeholder={t('character.descriptionPlaceholder')} />
+      <div>
+        <p className="text-xs text-gray-400 mb-1">{t('character.references', { count: MAX_CHARACTER_IMAGES })}</p>
+        <div className="flex flex-wrap items-start gap-3">
+          {draft.images.map((image, i) => (
+            <div key={i} className="w-20 space-y-1">
+              <div className="relative">
+                <BlobThumbnail blob={image.image} alt={image.label || t('character.reference', { number: i + 1 })} className="w-20 h-20" />
+                <button onClick={() => onChange({ ...draft, images: draft.images.filter((_, j) => j !== i) })} className="absolute -top-2 -end-2 bg-red-500 text-white rounded-full w-5 h-5 flex items-center justify-center text-xs font-bold leading-none hover:bg-red-600" aria-label={t('character.removeReference', { number: i + 1 })}>
+                  &times;
+                </button>
+              </div>
+              <input type="text" value={image.label} onChange={(e) => updateLabel(i, e.target.value)} className="bg-gray-700 border border-gray-600 text-white text-xs rounded p-1 w-full" placeholder={t('character.label')} />
+            </div>
+          ))}
+          {draft.images.length < MAX_CHARACTER_IMAGES && (
+            <input type="file" accept="image/*" multiple onChange={handleUpload} className="block text-xs text-gray-400 file:mr-2 file:py-1 file:px-3 file:rounded-full file:border-0 file:text-xs file:font-semibold file:bg-purple-50 file:text-purple-700 hover:file:bg-purple-100" />
+          )}
+        </div>
+      </div>
+      <div className="flex gap-2 justify-end">
+        <button onClick={onCancel} className="text-white bg-gray-600 hover:bg-gray-500 font-medium rounded-lg text-xs px-4 py-2">{t('common.cancel')}</button>
+        <button onClick={onSave} disabled={!draft.name.trim() || draft.images.length === 0} className="text-white bg-purple-600 hover:bg-purple-700 font-medium rounded-lg text-xs px-4 py-2 disabled:bg-gray-500 disabled:cursor-not-allowed">{t('character.save')}</button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Picks which recurring characters appear in the scene, and manages the roster
+ * they come from.
+ */
+const CharacterRoster: React.FC<{
+  characters: Character[];
+  castIds: string[];
+  onCastChange: (ids: string[]) => void;
+  onSave: (character: Character) => Promise<void>;
+  onDelete: (character: Character) => void;
+  onError: (message: string) => void;
+  onPrepareImage: (file: File) => Promise<Blob | null>;
+}> = ({ characters, castIds, onCastChange, onSave, onDelete, onError, onPrepareImage }) => {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState<Character | null>(null);
+  const isCastFull = castIds.length >= MAX_CAST;
+
+  const toggleCast = (id: string) => {
+    if (castIds.includes(id)) {
+      onCastChange(castIds.filter(castId => castId !== id));
+    } else if (!isCastFull) {
+      onCastChange([...castIds, id]);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    const character = { ...draft, name: draft.name.trim(), description: draft.description.trim() };
+    try {
+      await onSave(character);
+      if (!castIds.includes(character.id) && !isCastFull) onCastChange([...castIds, character.id]);
+      setDraft(null);
+    } catch (e) {
+      console.error(e);
+      onError(t('error.saveCharacter'));
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium text-gray-300">{t('character.cast', { count: MAX_CAST })}</label>
+        <button onClick={() => setDraft(createCharacter())} className="text-xs text-purple-400 hover:text-purple-300">{t('character.new')}</button>
+      </div>
+
+      {characters.length === 0 && !draft && (
+        <p className="text-xs text-gray-500">{t('character.empty')}</p>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {characters.map(character => {
+          const isCast = castIds.includes(character.id);
+          return (
+            <div key={character.id} className={`flex items-center gap-2 rounded-full ps-1 pe-3 py-1 border ${isCast ? 'border-purple-400 bg-purple-600/20' : 'border-gray-600 bg-gray-800'}`}>
+              <button onClick={() => toggleCast(character.id)} disabled={!isCast && isCastFull} className="flex items-center gap-2 disabled:opacity-50" aria-pressed={isCast} title={character.description}>
+                {character.images[0] && <BlobThumbnail blob={character.images[0].image} alt={character.name} className="w-8 h-8 !rounded-full" />}
+                <span className="text-sm text-gray-200">{character.name}</span>
+              </button>
+              <button onClick={() => setDraft(character)} className="text-xs text-gray-400 hover:text-gray-200">{t('character.edit')}</button>
+              <button onClick={() => onDelete(character)} className="text-gray-500 hover:text-red-400 text-sm leading-none" aria-label={t('character.delete', { name: character.name })}>&times;</button>
+            </div>
+          );
+        })}
+      </div>
+
+      {draft && <CharacterForm key={draft.id} draft={draft} onChange={setDraft} onSave={handleSave} onCancel={() => setDraft(null)} onPrepareImage={onPrepareImage} />}
+    </div>
+  );
+};
+
+export default CharacterRoster;
@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import { useI18n } from '../hooks/useI18n';
+
+type CompareMode = 'side-by-side' | 'slider';
+
+interface CompareImage {
+  url: string;
+  label: string;
+}
+
+/**
+ * Two versions of an image next to each other, or stacked with a slider that
+ * reveals one over the other.
+ */
+const CompareView: React.FC<{
+  left: CompareImage;
+  right: CompareImage;
+  onClose: () => void;
+}> = ({ left, right, onClose }) => {
+  const { t } = useI18n();
+  const [mode, setMode] = useState<CompareMode>('side-by-side');
+  const [position, setPosition] = useState<number>(50);
+
+  return (
+    <div className="bg-gray-700/30 rounded-lg p-4 space-y-4">
+      <div className="flex flex-wrap items-center gap-4">
+        <h3 className="text-lg font-semibold text-gray-300 me-auto">{t('compare.title')}</h3>
+        {(['side-by-side', 'slider'] as CompareMode[]).map(option => (
+          <label key={option} className="flex items-center gap-2 cursor-pointer">
+            <input type="radio" name="compareMode" value={option} checked={mode === option} onChange={() => setMode(option)} className="form-radio h-4 w-4 text-purple-600 bg-gray-700 border-gray-600 focus:ring-purple-500" />
+            <span className="text-gray-300 text-sm">{t(option === 'slider' ? 'compare.slider' : 'compare.sideBySide')}</span>
+          </label>
+        ))}
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-200 text-lg leading-none" aria-label={t('compare.close')}>&times;</button>
+      </div>
+
+      {mode === 'side-by-side' ? (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {[left, right].map((image, i) => (
+            <figure key={i} className="space-y-2">
+              <img src={image.url} alt={image.label} className="w-full object-contain rounded-md bg-gray-900" />
+              <figcaption className="text-xs text-gray-400 truncate" title={image.label}>{image.label}</figcaption>
+            </figure>
+          ))}
+        </div>
+      ) : (
+        // The split is drawn on the pictures, which do not mirror, so the slider stays left to right.
+        <div className="space-y-2" dir="ltr">
+          <div className="relative w-full max-w-2xl mx-auto select-none">
+            <img src={right.url} alt={right.label} className="w-full object-contain rounded-md bg-gray-900" />
+            <img
+              src={left.url}
+              alt={left.label}
+              className="absolute inset-0 w-full h-full object-contain rounded-md"
+              style={{ clipPath: `inset(0 ${100 - position}% 0 0)` }}
+            />
+            <div className="absolute inset-y-0 w-0.5 bg-purple-400 pointer-events-none" style={{ left: `${position}%` }} />
+          </div>
+          <input type="range" min={0} max={100} value={position} onChange={(e) => setPosition(Number(e.target.value))} className="w-full max-w-2xl mx-auto block accent-purple-500" aria-label={t('compare.position')} />
+          <div className="flex justify-between max-w-2xl mx-auto text-xs text-gray-400">
+            <span className="truncate" title={left.label}>{left.label}</span>
+            <span className="truncate text-end" title={right.label}>{right.label}</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CompareView;
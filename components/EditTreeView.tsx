@@ -0,0 +1,68 @@
+import React from 'react';
+import type { EditNode } from '../services/editTree';
+import { getChildren } from '../services/editTree';
+import { useI18n } from '../hooks/useI18n';
+
+interface TreeProps {
+  nodes: EditNode[];
+  selectedId: string | null;
+  compareId: string | null;
+  pathIds: Set<string>;
+  getUrl: (id: string) => string | null;
+  onSelect: (id: string) => void;
+  onCompare: (id: string | null) => void;
+}
+
+const TreeBranch: React.FC<TreeProps & { node: EditNode }> = (props) => {
+  const { node, nodes, selectedId, compareId, pathIds, getUrl, onSelect, onCompare } = props;
+  const { t } = useI18n();
+  const children = getChildren(nodes, node.id);
+  const isSelected = node.id === selectedId;
+  const isCompared = node.id === compareId;
+  const url = getUrl(node.id);
+  const label = node.prompt ?? t('editor.originalUpload');
+
+  return (
+    <li>
+      <div className={`flex items-center gap-3 p-2 rounded-lg ${isSelected ? 'bg-purple-600/30' : pathIds.has(node.id) ? 'bg-gray-700/40' : ''}`}>
+        <button onClick={() => onSelect(node.id)} className="flex items-center gap-3 flex-grow min-w-0 text-start" aria-current={isSelected}>
+          {url ? (
+            <img src={url} alt={label} className={`w-12 h-12 flex-shrink-0 object-cover rounded-md border-2 ${isSelected ? 'border-purple-400' : 'border-transparent'}`} />
+          ) : (
+            <span className="w-12 h-12 flex-shrink-0 rounded-md bg-gray-700" />
+          )}
+          <span className={`text-sm truncate ${node.prompt === null ? 'text-gray-400 italic' : 'text-gray-200'}`} title={label}>{label}</span>
+        </button>
+        {!isSelected && (
+          <button
+            onClick={() => onCompare(isCompared ? null : node.id)}
+            className={`text-xs flex-shrink-0 ${isCompared ? 'text-yellow-400 hover:text-yellow-300' : 'text-gray-400 hover:text-gray-200'}`}
+          >
+            {t(isCompared ? 'compare.comparing' : 'compare.compare')}
+          </button>
+        )}
+      </div>
+      {children.length > 0 && (
+        <ul className="ms-6 ps-2 border-s border-gray-600 space-y-1">
+          {children.map(child => <TreeBranch key={child.id} {...props} node={child} />)}
+        </ul>
+      )}
+    </li>
+  );
+};
+
+/**
+ * The versions of an image as a nested list. Selecting a version makes it the
+ * base for the next edit, so editing an older version starts a new branch.
+ */
+const EditTreeView: React.FC<TreeProps> = (props) => {
+  const root = props.nodes.find(node => node.parentId === null);
+  if (!root) return null;
+  return (
+    <ul className="space-y-1 max-h-[32rem] overflow-y-auto p-2 bg-gray-900/50 rounded-lg">
+      <TreeBranch {...props} node={root} />
+    </ul>
+  );
+};
+
+export default EditTreeView;
@@ -0,0 +1,147 @@
+import React, { useEffect, useState } from 'react';
+import type { ExportFormat, ExportMetadata, ExportSettings } from '../services/exportImage';
+import { EXPORT_FORMATS, PRINT_SIZES, exportImage, getExportExtension, getExportLayout, getPrintSize } from '../services/exportImage';
+import { toSidecar } from '../services/provenance';
+import { loadImage } from '../utils/image';
+import { downloadBlob } from '../utils/blob';
+import { useI18n } from '../hooks/useI18n';
+
+const selectClass = 'bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-purple-500 focus:border-purple-500 block w-full p-2';
+const labelClass = 'block mb-1 text-sm font-medium text-gray-300';
+
+/**
+ * Downloads one image in a chosen format and print size, optionally framed by
+ * a margin and border, with its generation details embedded in PNGs. Other
+ * formats cannot hold the provenance manifest, so it is saved beside them.
+ */
+const ExportDialog: React.FC<{
+  imageUrl: string;
+  // The file name without an extension.
+  name: string;
+  metadata: ExportMetadata | null;
+  settings: ExportSettings;
+  onSettingsChange: (settings: ExportSettings) => void;
+  onClose: () => void;
+  onError: (message: string) => void;
+}> = ({ imageUrl, name, metadata, settings, onSettingsChange, onClose, onError }) => {
+  const { t } = useI18n();
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+  const [isExporting, setIsExporting] = useState<boolean>(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImage(imageUrl).then((image) => {
+      if (!cancelled) setImageSize({ width: image.naturalWidth, height: image.naturalHeight });
+    }).catch(e => console.error('Failed to read the image size:', e));
+    return () => {
+      cancelled = true;
+    };
+  }, [imageUrl]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const update = (changes: Partial<ExportSettings>) => onSettingsChange({ ...settings, ...changes });
+  const isPng = settings.format === 'image/png';
+  const printSize = getPrintSize(settings.printSizeId);
+  const layout = imageSize ? getExportLayout(imageSize.width, imageSize.height, settings) : null;
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const blob = await exportImage(imageUrl, settings, metadata);
+      downloadBlob(blob, `${name}.${getExportExtension(settings.format)}`);
+      if (metadata?.provenance && !isPng) downloadBlob(toSidecar(metadata.provenance), `${name}.provenance.json`);
+      onClose();
+    } catch (e) {
+      console.error(e);
+      onError(t('export.error'));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4" role="dialog" aria-modal="true" aria-label={t('export.title')}>
+      <div className="bg-gray-800 rounded-xl shadow-2xl p-6 space-y-4 max-w-lg w-full">
+        <h2 className="text-lg font-semibold text-gray-200">{t('export.title')}</h2>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className={labelClass}>{t('export.format')}</label>
+            <select value={settings.format} onChange={(e) => update({ format: e.target.value as ExportFormat })} className={selectClass}>
+              {EXPORT_FORMATS.map(format => <option key={format.value} value={format.value}>{format.label}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>{isPng ? t('export.quality') : t('export.qualityPercent', { percent: Math.round(settings.quality * 100) })}</label>
+            <input
+              type="range"
+              min={0.5}
+              max={1}
+              step={0.01}
+              value={settings.quality}
+              disabled={isPng}
+              onChange={(e) => update({ quality: Number(e.target.value) })}
+              className="w-full accent-purple-500 disabled:opacity-40 mt-2"
+            />
+          </div>
+          <div className="col-span-2">
+            <label className={labelClass}>{t('export.size')}</label>
+            <select value={settings.printSizeId} onChange={(e) => update({ printSizeId: e.target.value })} className={selectClass}>
+              {PRINT_SIZES.map(size => <option key={size.id} value={size.id}>{t(size.labelKey)}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>{t('export.margin')}</label>
+            <input type="number" min={0} max={50} value={settings.marginMm} onChange={(e) => update({ marginMm: Math.max(0, Number(e.target.value)) })} className={selectClass} />
+          </div>
+          <div>
+            <label className={labelClass}>{t('export.border')}</label>
+            <div className="flex gap-2">
+              <input type="number" min={0} max={20} step={0.5} value={settings.borderMm} onChange={(e) => update({ borderMm: Math.max(0, Number(e.target.value)) })} className={selectClass} />
+              <input type="color" value={settings.borderColor} onChange={(e) => update({ borderColor: e.target.value })} className="h-10 w-12 flex-shrink-0 bg-gray-700 border border-gray-600 rounded-lg" aria-label={t('export.borderColor')} />
+            </div>
+          </div>
+        </div>
+
+        <label className={`flex items-center gap-2 ${isPng ? 'cursor-pointer' : 'opacity-50'}`}>
+          <input type="checkbox" checked={settings.includeMetadata} disabled={!isPng} onChange={(e) => update({ includeMetadata: e.target.checked })} className="form-checkbox h-4 w-4 text-purple-600 bg-gray-700 border-gray-600 rounded focus:ring-purple-500" />
+          <span className="text-gray-300 text-sm">{t(isPng ? 'export.embedMetadata' : 'export.embedMetadataPngOnly')}</span>
+        </label>
+
+        {metadata?.provenance && !isPng && (
+          <p className="text-xs text-gray-400">{t('export.provenanceSidecar')}</p>
+        )}
+
+        <p className="text-xs text-gray-400">
+          {layout
+            ? printSize.inches === null
+              ? t('export.pixels', { width: layout.width, height: layout.height })
+              : t('export.printed', {
+                width: layout.width,
+                height: layout.height,
+                inchWidth: (layout.width / printSize.dpi).toFixed(1),
+                inchHeight: (layout.height / printSize.dpi).toFixed(1),
+                dpi: printSize.dpi,
+              })
+            : t('export.measuring')}
+        </p>
+
+        <div className="flex gap-2 justify-end">
+          <button onClick={onClose} className="text-white bg-gray-600 hover:bg-gray-500 font-medium rounded-lg text-sm px-4 py-2">{t('common.cancel')}</button>
+          <button onClick={handleExport} disabled={isExporting} className="text-white bg-green-600 hover:bg-green-700 font-medium rounded-lg text-sm px-4 py-2 disabled:bg-gray-500 disabled:cursor-not-allowed">
+            {isExporting ? t('export.exporting') : t('common.download')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
@@ -0,0 +1,95 @@
+import React, { useRef, useState } from 'react';
+import type { GagConcept } from '../types';
+import { describeError, isAbortError } from '../services/errors';
+import { useI18n } from '../hooks/useI18n';
+import Spinner from './Spinner';
+
+const inputClass = 'bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-purple-500 focus:border-purple-500 block w-full p-2';
+
+/**
+ * Suggests scene and caption ideas for a topic before any image is generated.
+ * Concepts can be edited in place, remixed into new variations, or used to fill
+ * in the cartoon form.
+ */
+const GagWriter: React.FC<{
+  styleName: string | null;
+  onWrite: (topic: string, remix: GagConcept | null, signal: AbortSignal) => Promise<GagConcept[]>;
+  onUse: (concept: GagConcept) => void;
+  onError: (message: string) => void;
+}> = ({ styleName, onWrite, onUse, onError }) => {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [topic, setTopic] = useState<string>('');
+  const [concepts, setConcepts] = useState<GagConcept[]>([]);
+  const [isWriting, setIsWriting] = useState<boolean>(false);
+  const request = useRef<AbortController | null>(null);
+
+  const write = async (remix: GagConcept | null) => {
+    const controller = new AbortController();
+    request.current = controller;
+    setIsWriting(true);
+    try {
+      setConcepts(await onWrite(topic.trim(), remix, controller.signal));
+    } catch (e) {
+      if (!isAbortError(e)) {
+        console.error(e);
+        onError(describeError(e));
+      }
+    } finally {
+      request.current = null;
+      setIsWriting(false);
+    }
+  };
+
+  const updateConcept = (index: number, concept: GagConcept) => {
+    setConcepts(prev => prev.map((c, i) => (i === index ? concept : c)));
+  };
+
+  return (
+    <div className="bg-gray-700/30 rounded-lg">
+      <button onClick={() => setIsOpen(!isOpen)} className="w-full flex items-center justify-between p-4 text-start">
+        <span className="text-sm font-semibold text-gray-300">{t('gag.title')}</span>
+        <span className="text-sm text-gray-400">{t(isOpen ? 'gag.hide' : 'gag.show')}</span>
+      </button>
+
+      {isOpen && (
+        <div className="p-4 pt-0 space-y-3">
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={topic}
+              onChange={(e) => setTopic(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter' && topic.trim() && !isWriting) write(null); }}
+              className={inputClass}
+              placeholder={t('gag.topicPlaceholder')}
+            />
+            <button onClick={() => write(null)} disabled={!topic.trim() || isWriting} className="flex-shrink-0 text-white bg-purple-600 hover:bg-purple-700 font-medium rounded-lg text-xs px-4 py-2 disabled:bg-gray-500 disabled:cursor-not-allowed">
+              {t('gag.suggest')}
+            </button>
+          </div>
+          {styleName && <p className="text-xs text-gray-500">{t('gag.voice', { name: styleName })}</p>}
+
+          {isWriting && (
+            <div className="flex flex-col items-center gap-2 py-4">
+              <Spinner />
+              <button onClick={() => request.current?.abort()} className="text-xs text-gray-400 hover:text-gray-200">{t('common.cancel')}</button>
+            </div>
+          )}
+
+          {!isWriting && concepts.map((concept, i) => (
+            <div key={i} className="p-3 bg-gray-800/60 rounded-lg space-y-2">
+              <textarea value={concept.scene} onChange={(e) => updateConcept(i, { ...concept, scene: e.target.value })} rows={2} className={inputClass} aria-label={t('gag.scene', { number: i + 1 })} />
+              <input type="text" value={concept.caption} onChange={(e) => updateConcept(i, { ...concept, caption: e.target.value })} className={`${inputClass} italic`} aria-label={t('gag.caption', { number: i + 1 })} />
+              <div className="flex gap-2 justify-end">
+                <button onClick={() => write(concept)} disabled={!topic.trim()} className="text-xs text-gray-400 hover:text-gray-200 disabled:text-gray-600">{t('gag.remix')}</button>
+                <button onClick={() => onUse(concept)} disabled={!concept.scene.trim()} className="text-xs text-purple-400 hover:text-purple-300 disabled:text-gray-600">{t('gag.use')}</button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GagWriter;
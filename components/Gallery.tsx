@@ -0,0 +1,211 @@
+import React, { useMemo, useState } from 'react';
+import type { Creation, CreationKind, CartoonParams, RestyleParams, StripParams } from '../types';
+import type { PaperSize, SelectionExport } from '../services/exportBundle';
+import type { Translate } from '../services/i18n';
+import { PAPER_CHOICES } from '../services/exportBundle';
+import { useI18n } from '../hooks/useI18n';
+
+type KindFilter = 'all' | CreationKind;
+
+const toolbarButtonClass = 'text-white bg-gray-600 hover:bg-gray-500 font-medium rounded-lg text-xs px-3 py-2 disabled:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed';
+
+const describeStyle = (params: CartoonParams | StripParams | RestyleParams, t: Translate): string =>
+  t('gallery.styleDetail', {
+    styleType: t(params.styleType === 'magazine' ? 'style.magazine' : 'style.cartoonist'),
+    styleName: params.styleName,
+    color: t(params.colorOption === 'black_and_white' ? 'gallery.blackAndWhite' : 'color.color'),
+  });
+
+const getStyleName = (creation: Creation): string | null =>
+  creation.kind === 'edit' ? null : creation.params.styleName;
+
+const describeCreation = (creation: Creation, t: Translate): { title: string; detail: string } => {
+  switch (creation.kind) {
+    case 'cartoon':
+      return { title: creation.params.description, detail: describeStyle(creation.params, t) };
+    case 'strip':
+      return {
+        title: creation.params.panels.map(panel => panel.action).join(' / '),
+        detail: t('gallery.stripDetail', { count: creation.params.panels.length, style: describeStyle(creation.params, t) }),
+      };
+    case 'edit':
+      return { title: creation.params.editPrompt, detail: t(creation.params.mask ? 'gallery.maskedEdit' : 'gallery.edit') };
+    case 'restyle':
+      return {
+        title: t('gallery.restyleTitle'),
+        detail: t('gallery.restyleDetail', { strength: creation.params.strength, style: describeStyle(creation.params, t) }),
+      };
+  }
+};
+
+const Gallery: React.FC<{
+  creations: Creation[];
+  imageUrls: Record<string, string>;
+  isBusy: boolean;
+  onOpen: (creation: Creation) => void;
+  onRegenerate: (creation: Creation) => void;
+  onDelete: (creation: Creation) => void;
+  onToggleFavorite: (creation: Creation) => void;
+  onExport: (creations: Creation[], target: SelectionExport) => Promise<void>;
+  onPublish: (creation: Creation) => void;
+}> = ({ creations, imageUrls, isBusy, onOpen, onRegenerate, onDelete, onToggleFavorite, onExport, onPublish }) => {
+  const { t } = useI18n();
+  const [kindFilter, setKindFilter] = useState<KindFilter>('all');
+  const [styleFilter, setStyleFilter] = useState<string>('all');
+  const [favoritesOnly, setFavoritesOnly] = useState<boolean>(false);
+  // Null when not selecting.
+  const [selectedIds, setSelectedIds] = useState<Set<string> | null>(null);
+  const [paper, setPaper] = useState<PaperSize>('a4');
+  const [isExporting, setIsExporting] = useState<boolean>(false);
+
+  const styleNames = useMemo(() => {
+    const names = new Set<string>();
+    for (const creation of creations) {
+      const name = getStyleName(creation);
+      if (name) names.add(name);
+    }
+    return Array.from(names).sort();
+  }, [creations]);
+
+  const visible = creations.filter((creation) => {
+    if (kindFilter !== 'all' && creation.kind !== kindFilter) return false;
+    if (favoritesOnly && !creation.favorite) return false;
+    if (styleFilter !== 'all') {
+      return getStyleName(creation) === styleFilter;
+    }
+    return true;
+  });
+
+  // Kept in gallery order; deleted creations drop out on their own.
+  const selected = selectedIds ? creations.filter(creation => selectedIds.has(creation.id)) : [];
+
+  const toggleSelected = (creation: Creation) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(creation.id)) next.delete(creation.id);
+      else next.add(creation.id);
+      return next;
+    });
+  };
+
+  const exportSelection = async (target: SelectionExport) => {
+    setIsExporting(true);
+    try {
+      await onExport(selected, target);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row gap-4">
+        <div className="flex-1">
+          <label className="block mb-2 text-sm font-medium text-gray-300">{t('gallery.show')}</label>
+          <select value={kindFilter} onChange={(e) => setKindFilter(e.target.value as KindFilter)} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-purple-500 focus:border-purple-500 block w-full p-2.5">
+            <option value="all">{t('gallery.everything')}</option>
+            <option value="cartoon">{t('gallery.cartoons')}</option>
+            <option value="strip">{t('gallery.strips')}</option>
+            <option value="edit">{t('gallery.edits')}</option>
+            <option value="restyle">{t('gallery.restyles')}</option>
+          </select>
+        </div>
+        <div className="flex-1">
+          <label className="block mb-2 text-sm font-medium text-gray-300">{t('gallery.style')}</label>
+          <select value={styleFilter} onChange={(e) => setStyleFilter(e.target.value)} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-purple-500 focus:border-purple-500 block w-full p-2.5">
+            <option value="all">{t('gallery.allStyles')}</option>
+            {styleNames.map((name) => <option key={name} value={name}>{name}</option>)}
+          </select>
+        </div>
+        <label className="flex items-center gap-2 cursor-pointer sm:self-end sm:pb-2.5">
+          <input type="checkbox" checked={favoritesOnly} onChange={(e) => setFavoritesOnly(e.target.checked)} className="form-checkbox h-4 w-4 text-purple-600 bg-gray-700 border-gray-600 rounded focus:ring-purple-500" />
+          <span className="text-gray-300 text-sm">{t('gallery.favoritesOnly')}</span>
+        </label>
+        <button onClick={() => setSelectedIds(selectedIds ? null : new Set())} disabled={creations.length === 0} className={`${toolbarButtonClass} sm:self-end sm:mb-1`}>
+          {t(selectedIds ? 'gallery.doneSelecting' : 'gallery.select')}
+        </button>
+      </div>
+
+      {selectedIds && (
+        <div className="p-3 bg-gray-900/50 rounded-lg flex flex-wrap items-center gap-2 text-sm text-gray-300">
+          <span className="me-2">{t('gallery.selected', { count: selected.length })}</span>
+          <button onClick={() => setSelectedIds(new Set(visible.map(creation => creation.id)))} className="text-xs text-purple-400 hover:text-purple-300">{t('gallery.selectAllShown')}</button>
+          <button onClick={() => setSelectedIds(new Set())} className="text-xs text-gray-400 hover:text-gray-200 me-auto">{t('gallery.clear')}</button>
+          <button onClick={() => exportSelection({ kind: 'zip' })} disabled={selected.length === 0 || isExporting} className={toolbarButtonClass} title={t('gallery.exportZipTitle')}>
+            {t('gallery.exportZip')}
+          </button>
+          <select value={paper} onChange={(e) => setPaper(e.target.value as PaperSize)} className="bg-gray-700 border border-gray-600 text-white text-xs rounded-lg focus:ring-purple-500 focus:border-purple-500 p-2" aria-label={t('gallery.paperSize')}>
+            {PAPER_CHOICES.map(choice => <option key={choice.value} value={choice.value}>{t(choice.labelKey)}</option>)}
+          </select>
+          <button onClick={() => exportSelection({ kind: 'pdf', layout: 'contact-sheet', paper })} disabled={selected.length === 0 || isExporting} className={toolbarButtonClass}>
+            {t('gallery.contactSheet')}
+          </button>
+          <button onClick={() => exportSelection({ kind: 'pdf', layout: 'zine', paper })} disabled={selected.length === 0 || isExporting} className={toolbarButtonClass}>
+            {t('gallery.zine')}
+          </button>
+          {isExporting && <span className="text-xs text-gray-400">{t('gallery.exporting')}</span>}
+        </div>
+      )}
+
+      {visible.length === 0 ? (
+        <p className="text-gray-500 text-center py-12">
+          {t(creations.length === 0 ? 'gallery.empty' : 'gallery.noMatches')}
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+          {visible.map((creation) => {
+            const { title, detail } = describeCreation(creation, t);
+            const isSelected = !!selectedIds?.has(creation.id);
+            return (
+              <div key={creation.id} className={`bg-gray-900/50 rounded-lg overflow-hidden flex flex-col relative ${isSelected ? 'ring-2 ring-purple-400' : ''}`}>
+                <img
+                  src={imageUrls[creation.id]}
+                  alt={title}
+                  className="w-full aspect-square object-contain bg-gray-900 cursor-pointer"
+                  onClick={() => (selectedIds ? toggleSelected(creation) : onOpen(creation))}
+                />
+                {selectedIds && (
+                  <input
+                    type="checkbox"
+                    checked={isSelected}
+                    onChange={() => toggleSelected(creation)}
+                    className="absolute top-3 start-3 form-checkbox h-5 w-5 text-purple-600 bg-gray-700 border-gray-600 rounded focus:ring-purple-500"
+                    aria-label={t('gallery.selectItem', { title })}
+                  />
+                )}
+                <button
+                  onClick={() => onToggleFavorite(creation)}
+                  className={`absolute top-2 end-2 w-8 h-8 rounded-full bg-gray-900/70 text-lg leading-none ${creation.favorite ? 'text-yellow-400' : 'text-gray-300'}`}
+                  aria-label={t(creation.favorite ? 'gallery.unfavorite' : 'gallery.favorite')}
+                >
+                  {creation.favorite ? '★' : '☆'}
+                </button>
+                <div className="p-4 flex-1 flex flex-col gap-1">
+                  <p className="text-gray-200 text-sm line-clamp-2" title={title}>{title}</p>
+                  <p className="text-gray-400 text-xs">{detail}</p>
+                  <p className="text-gray-500 text-xs">{new Date(creation.createdAt).toLocaleString()}</p>
+                </div>
+                <div className="px-4 pb-4 flex gap-2">
+                  <button onClick={() => onOpen(creation)} className="flex-1 text-white bg-purple-600 hover:bg-purple-700 font-medium rounded-lg text-xs px-3 py-2">
+                    {t('gallery.open')}
+                  </button>
+                  <button onClick={() => onRegenerate(creation)} disabled={isBusy} className="flex-1 text-white bg-gray-600 hover:bg-gray-500 font-medium rounded-lg text-xs px-3 py-2 disabled:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed">
+                    {t('gallery.regenerate')}
+                  </button>
+                  <button onClick={() => onPublish(creation)} className="flex-1 text-white bg-gray-600 hover:bg-gray-500 font-medium rounded-lg text-xs px-3 py-2" title={t('common.publish')}>
+                    {t('gallery.publish')}
+                  </button>
+                  <button onClick={() => onDelete(creation)} className="flex-1 text-white bg-red-600 hover:bg-red-700 font-medium rounded-lg text-xs px-3 py-2">
+                    {t('gallery.delete')}
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Gallery;
@@ -1,16 +1,28 @@
-
 import React from 'react';
+import type { Language } from '../types';
+import { LANGUAGES } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
 
 const Header: React.FC = () => {
+  const { language, setLanguage, t } = useI18n();
+
   return (
     <header className="bg-gray-800/50 backdrop-blur-sm p-4 shadow-lg sticky top-0 z-10">
-      <div className="container mx-auto flex items-center">
-        <div className="flex items-center space-x-3">
-            <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8 text-purple-400" viewBox="0 0 24 24" fill="currentColor">
+      <div className="container mx-auto flex items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8 text-purple-400 rtl:-scale-x-100" viewBox="0 0 24 24" fill="currentColor">
                 <path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm-2 14.5v-9l6 4.5-6 4.5z"/>
             </svg>
             <h1 className="text-2xl font-bold tracking-wider text-white">ExpressToons</h1>
         </div>
+        <select
+          value={language}
+          onChange={(e) => setLanguage(e.target.value as Language)}
+          aria-label={t('header.language')}
+          className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-purple-500 focus:border-purple-500 p-2"
+        >
+          {LANGUAGES.map(option => <option key={option.value} value={option.value} lang={option.value}>{option.label}</option>)}
+        </select>
       </div>
     </header>
   );
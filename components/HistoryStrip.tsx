@@ -0,0 +1,34 @@
+import React from 'react';
+import type { Creation } from '../types';
+
+const HistoryStrip: React.FC<{
+  title: string;
+  creations: Creation[];
+  imageUrls: Record<string, string>;
+  selectedId: string | null;
+  alt: string;
+  onSelect: (creation: Creation) => void;
+}> = ({ title, creations, imageUrls, selectedId, alt, onSelect }) => {
+  if (creations.length === 0) return null;
+
+  return (
+    <div className="mt-8">
+      <h3 className="text-lg font-semibold mb-4 text-gray-300">{title}</h3>
+      <div className="flex overflow-x-auto gap-4 p-2 bg-gray-900/50 rounded-lg">
+        {creations.map((creation) => (
+          <img
+            key={creation.id}
+            src={imageUrls[creation.id]}
+            alt={alt}
+            className={`w-24 h-24 flex-shrink-0 object-cover rounded-md cursor-pointer border-2 hover:border-purple-400 transition-all duration-200 ${
+              creation.id === selectedId ? 'border-purple-400' : 'border-transparent'
+            }`}
+            onClick={() => onSelect(creation)}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryStrip;
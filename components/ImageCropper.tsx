@@ -0,0 +1,158 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { CropRect } from '../services/imagePreprocess';
+import { CROP_ASPECTS, FULL_CROP, fitWithin, getCenteredCrop, moveCrop, resizeCrop } from '../services/imagePreprocess';
+import { useI18n } from '../hooks/useI18n';
+
+const DISPLAY_SIZE = 640;
+
+type Drag =
+  | { mode: 'move'; x: number; y: number }
+  | { mode: 'resize'; anchor: { x: number; y: number } };
+
+// The crop frame is kept left to right, as the image it sits on does not mirror in right-to-left layouts.
+const corners: { key: string; x: 0 | 1; y: 0 | 1; className: string }[] = [
+  { key: 'nw', x: 0, y: 0, className: '-start-1.5 -top-1.5 cursor-nwse-resize' },
+  { key: 'ne', x: 1, y: 0, className: '-end-1.5 -top-1.5 cursor-nesw-resize' },
+  { key: 'sw', x: 0, y: 1, className: '-start-1.5 -bottom-1.5 cursor-nesw-resize' },
+  { key: 'se', x: 1, y: 1, className: '-end-1.5 -bottom-1.5 cursor-nwse-resize' },
+];
+
+/**
+ * Lets the user pick part of an upload, optionally locked to an aspect ratio.
+ * Drag inside the frame to move it, drag a corner to resize it, or drag
+ * elsewhere to draw a new one.
+ */
+const ImageCropper: React.FC<{
+  source: HTMLCanvasElement;
+  onConfirm: (crop: CropRect) => void;
+  onCancel: () => void;
+}> = ({ source, onConfirm, onCancel }) => {
+  const { t } = useI18n();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<Drag | null>(null);
+  const [aspect, setAspect] = useState<number | null>(null);
+  const [crop, setCrop] = useState<CropRect>(FULL_CROP);
+
+  const imageAspect = source.width / source.height;
+  // The aspect ratio in fractions of the image, which is what the crop is measured in.
+  const relativeAspect = aspect === null ? null : aspect / imageAspect;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const size = fitWithin(source.width, source.height, DISPLAY_SIZE);
+    canvas.width = size.width;
+    canvas.height = size.height;
+    const ctx = canvas.getContext('2d')!;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(source, 0, 0, size.width, size.height);
+  }, [source]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onCancel();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onCancel]);
+
+  const handleAspectChange = (value: number | null) => {
+    setAspect(value);
+    setCrop(getCenteredCrop(imageAspect, value));
+  };
+
+  const toImagePoint = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: Math.min(Math.max((e.clientX - rect.left) / rect.width, 0), 1),
+      y: Math.min(Math.max((e.clientY - rect.top) / rect.height, 0), 1),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    const point = toImagePoint(e);
+    const corner = (e.target as HTMLElement).dataset.corner;
+    const handle = corners.find(c => c.key === corner);
+    if (handle) {
+      // Resize from the opposite corner.
+      dragRef.current = { mode: 'resize', anchor: { x: crop.x + (1 - handle.x) * crop.width, y: crop.y + (1 - handle.y) * crop.height } };
+    } else if (point.x >= crop.x && point.x <= crop.x + crop.width && point.y >= crop.y && point.y <= crop.y + crop.height) {
+      dragRef.current = { mode: 'move', ...point };
+    } else {
+      dragRef.current = { mode: 'resize', anchor: point };
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const point = toImagePoint(e);
+    if (drag.mode === 'move') {
+      setCrop(prev => moveCrop(prev, point.x - drag.x, point.y - drag.y));
+      dragRef.current = { mode: 'move', ...point };
+    } else {
+      setCrop(resizeCrop(drag.anchor, point, relativeAspect));
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    dragRef.current = null;
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+      e.currentTarget.releasePointerCapture(e.pointerId);
+    }
+  };
+
+  const percent = (value: number) => `${value * 100}%`;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4" role="dialog" aria-modal="true" aria-label={t('crop.title')}>
+      <div className="bg-gray-800 rounded-xl shadow-2xl p-6 space-y-4 max-w-3xl w-full">
+        <div className="flex flex-wrap items-center gap-2">
+          <h2 className="text-lg font-semibold text-gray-200 me-auto">{t('crop.title')}</h2>
+          {CROP_ASPECTS.map(choice => (
+            <button
+              key={choice.label}
+              onClick={() => handleAspectChange(choice.value)}
+              className={`text-xs rounded-full px-3 py-1 border ${aspect === choice.value ? 'border-purple-400 bg-purple-600/30 text-white' : 'border-gray-600 text-gray-300 hover:bg-gray-700'}`}
+            >
+              {choice.value === null ? t('crop.free') : choice.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex justify-center" dir="ltr">
+          <div
+            className="relative overflow-hidden touch-none select-none cursor-crosshair"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+          >
+            <canvas ref={canvasRef} className="block max-w-full max-h-[60vh]" />
+            <div
+              className="absolute border-2 border-white shadow-[0_0_0_9999px_rgba(0,0,0,0.55)] cursor-move"
+              style={{ left: percent(crop.x), top: percent(crop.y), width: percent(crop.width), height: percent(crop.height) }}
+            >
+              {corners.map(corner => (
+                <div key={corner.key} data-corner={corner.key} className={`absolute w-3 h-3 bg-white rounded-sm ${corner.className}`} />
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <p className="text-xs text-gray-400">
+          {t('crop.size', { width: Math.round(crop.width * source.width), height: Math.round(crop.height * source.height) })}
+        </p>
+
+        <div className="flex gap-2 justify-end">
+          <button onClick={onCancel} className="text-white bg-gray-600 hover:bg-gray-500 font-medium rounded-lg text-sm px-4 py-2">{t('common.cancel')}</button>
+          <button onClick={() => onConfirm(FULL_CROP)} className="text-white bg-gray-600 hover:bg-gray-500 font-medium rounded-lg text-sm px-4 py-2">{t('crop.whole')}</button>
+          <button onClick={() => onConfirm(crop)} className="text-white bg-purple-600 hover:bg-purple-700 font-medium rounded-lg text-sm px-4 py-2">{t('crop.confirm')}</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImageCropper;
@@ -0,0 +1,65 @@
+import React from 'react';
+import type { KeyframeScript } from '../types';
+import { useI18n } from '../hooks/useI18n';
+import { MAX_FRAME_DURATION_MS, MAX_KEYFRAMES, MIN_FRAME_DURATION_MS, MIN_KEYFRAMES, clampFrameDuration } from '../services/animation';
+
+const moveButtonClass = 'text-gray-400 hover:text-purple-300 disabled:text-gray-600 disabled:cursor-not-allowed text-sm leading-none px-1';
+
+const KeyframeScriptEditor: React.FC<{
+  keyframes: KeyframeScript[];
+  loop: boolean;
+  onKeyframeChange: (index: number, patch: Partial<KeyframeScript>) => void;
+  onAddKeyframe: () => void;
+  onRemoveKeyframe: (index: number) => void;
+  onMoveKeyframe: (from: number, to: number) => void;
+  onLoopChange: (loop: boolean) => void;
+}> = ({ keyframes, loop, onKeyframeChange, onAddKeyframe, onRemoveKeyframe, onMoveKeyframe, onLoopChange }) => {
+  const { t } = useI18n();
+  return (
+    <div className="space-y-3">
+      <label className="block text-sm font-medium text-gray-300">{t('animation.keyframes')}</label>
+      {keyframes.map((keyframe, i) => (
+        <div key={i} className="flex gap-3 items-start p-3 bg-gray-700/50 rounded-lg">
+          <div className="flex flex-col items-center pt-1">
+            <button onClick={() => onMoveKeyframe(i, i - 1)} disabled={i === 0} className={moveButtonClass} aria-label={t('animation.moveEarlier', { number: i + 1 })}>▲</button>
+            <span className="text-purple-400 font-bold w-6 text-center">{i + 1}</span>
+            <button onClick={() => onMoveKeyframe(i, i + 1)} disabled={i === keyframes.length - 1} className={moveButtonClass} aria-label={t('animation.moveLater', { number: i + 1 })}>▼</button>
+          </div>
+          <div className="flex-grow space-y-2">
+            <input type="text" value={keyframe.action} onChange={(e) => onKeyframeChange(i, { action: e.target.value })} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-purple-500 focus:border-purple-500 block w-full p-2.5" placeholder={t('animation.actionPlaceholder')} />
+            <label className="flex items-center gap-2 text-xs text-gray-400">
+              {t('animation.shownFor')}
+              <input
+                type="number"
+                min={MIN_FRAME_DURATION_MS / 1000}
+                max={MAX_FRAME_DURATION_MS / 1000}
+                step={0.1}
+                value={keyframe.durationMs / 1000}
+                onChange={(e) => onKeyframeChange(i, { durationMs: Math.round(Number(e.target.value) * 1000) })}
+                // Clamped once typing is done, so "0.5" can be typed through "0".
+                onBlur={() => onKeyframeChange(i, { durationMs: clampFrameDuration(keyframe.durationMs) })}
+                className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-purple-500 focus:border-purple-500 w-20 p-1.5"
+                aria-label={t('animation.duration', { number: i + 1 })}
+              />
+              {t('animation.seconds')}
+            </label>
+          </div>
+          <button onClick={() => onRemoveKeyframe(i)} disabled={keyframes.length <= MIN_KEYFRAMES} className="text-gray-400 hover:text-red-400 disabled:text-gray-600 disabled:cursor-not-allowed text-xl leading-none pt-2" aria-label={t('animation.removeFrame', { number: i + 1 })}>
+            &times;
+          </button>
+        </div>
+      ))}
+      <div className="flex items-center justify-between gap-4">
+        <button onClick={onAddKeyframe} disabled={keyframes.length >= MAX_KEYFRAMES} className="text-sm text-purple-400 hover:text-purple-300 disabled:text-gray-600 disabled:cursor-not-allowed">
+          {t('animation.addFrame')}
+        </button>
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input type="checkbox" checked={loop} onChange={(e) => onLoopChange(e.target.checked)} className="form-checkbox h-4 w-4 text-purple-600 bg-gray-700 border-gray-600 rounded focus:ring-purple-500" />
+          <span className="text-gray-300 text-sm">{t('animation.loop')}</span>
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default KeyframeScriptEditor;
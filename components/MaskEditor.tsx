@@ -0,0 +1,288 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { SavedMask } from '../types';
+import type { MessageKey } from '../locales/en';
+import { loadImage } from '../utils/image';
+import { useI18n } from '../hooks/useI18n';
+
+type MaskTool = 'brush' | 'eraser' | 'lasso';
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const MASK_COLOR = '#ef4444';
+
+const toolLabels: Record<MaskTool, MessageKey> = {
+  brush: 'mask.brush',
+  eraser: 'mask.eraser',
+  lasso: 'mask.lasso',
+};
+
+const isCanvasEmpty = (canvas: HTMLCanvasElement): boolean => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx || canvas.width === 0 || canvas.height === 0) return true;
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] > 0) return false;
+  }
+  return true;
+};
+
+/**
+ * Paints the area of an image an edit may change. The painted strokes are kept
+ * on an offscreen canvas at the image's full resolution and handed up as a PNG
+ * after each stroke; the visible canvas shows them, or their inverse, tinted.
+ */
+const MaskEditor: React.FC<{
+  imageUrl: string;
+  alt: string;
+  mask: Blob | null;
+  inverted: boolean;
+  feather: number;
+  savedMasks: SavedMask[];
+  onMaskChange: (mask: Blob | null) => void;
+  onInvertedChange: (inverted: boolean) => void;
+  onFeatherChange: (feather: number) => void;
+  onSaveMask: (name: string) => void;
+  onLoadMask: (mask: SavedMask) => void;
+  onDeleteMask: (mask: SavedMask) => void;
+}> = ({
+  imageUrl, alt, mask, inverted, feather, savedMasks,
+  onMaskChange, onInvertedChange, onFeatherChange, onSaveMask, onLoadMask, onDeleteMask,
+}) => {
+  const { t } = useI18n();
+  const displayRef = useRef<HTMLCanvasElement>(null);
+  // Created once; holds the strokes at full resolution.
+  const [paint] = useState<HTMLCanvasElement>(() => document.createElement('canvas'));
+  const lastEmittedRef = useRef<Blob | null>(null);
+  const strokeRef = useRef<Point[] | null>(null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [tool, setTool] = useState<MaskTool>('brush');
+  // Brush diameter as a fraction of the image width.
+  const [brushSize, setBrushSize] = useState<number>(0.05);
+
+  const redraw = () => {
+    const display = displayRef.current;
+    const ctx = display?.getContext('2d');
+    if (!display || !ctx) return;
+    display.width = paint.width;
+    display.height = paint.height;
+    if (inverted) {
+      ctx.fillStyle = MASK_COLOR;
+      ctx.fillRect(0, 0, display.width, display.height);
+      ctx.globalCompositeOperation = 'destination-out';
+      ctx.drawImage(paint, 0, 0);
+      ctx.globalCompositeOperation = 'source-over';
+    } else {
+      ctx.drawImage(paint, 0, 0);
+    }
+    const lasso = strokeRef.current;
+    if (tool === 'lasso' && lasso && lasso.length > 1) {
+      ctx.strokeStyle = '#ffffff';
+      ctx.lineWidth = Math.max(2, paint.width * 0.003);
+      ctx.setLineDash([8, 6]);
+      ctx.beginPath();
+      lasso.forEach((point, i) => (i === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y)));
+      ctx.stroke();
+    }
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImage(imageUrl).then((loaded) => {
+      if (cancelled) return;
+      if (paint.width !== loaded.naturalWidth || paint.height !== loaded.naturalHeight) {
+        // Keep strokes painted on another version of the image, scaled to the new size.
+        const previous = document.createElement('canvas');
+        previous.width = paint.width;
+        previous.height = paint.height;
+        previous.getContext('2d')?.drawImage(paint, 0, 0);
+        paint.width = loaded.naturalWidth;
+        paint.height = loaded.naturalHeight;
+        if (previous.width && previous.height) {
+          paint.getContext('2d')?.drawImage(previous, 0, 0, paint.width, paint.height);
+        }
+      }
+      setImage(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [imageUrl, paint]);
+
+  // Loads a mask chosen outside the editor, e.g. a saved one.
+  useEffect(() => {
+    if (!image || mask === lastEmittedRef.current) return;
+    lastEmittedRef.current = mask;
+    const ctx = paint.getContext('2d');
+    if (!ctx) return;
+    ctx.clearRect(0, 0, paint.width, paint.height);
+    if (!mask) {
+      redraw();
+      return;
+    }
+    let cancelled = false;
+    const url = URL.createObjectURL(mask);
+    loadImage(url)
+      .then((loaded) => {
+        if (cancelled) return;
+        ctx.drawImage(loaded, 0, 0, paint.width, paint.height);
+        redraw();
+      })
+      .finally(() => URL.revokeObjectURL(url));
+    return () => {
+      cancelled = true;
+    };
+  }, [mask, image]);
+
+  useEffect(redraw, [image, inverted, tool]);
+
+  const emitMask = () => {
+    if (isCanvasEmpty(paint)) {
+      lastEmittedRef.current = null;
+      onMaskChange(null);
+      return;
+    }
+    paint.toBlob((blob) => {
+      lastEmittedRef.current = blob;
+      onMaskChange(blob);
+    }, 'image/png');
+  };
+
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>): Point => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((e.clientY - rect.top) / rect.height) * canvas.height,
+    };
+  };
+
+  const paintSegment = (from: Point, to: Point) => {
+    const ctx = paint.getContext('2d');
+    if (!ctx) return;
+    ctx.save();
+    ctx.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = MASK_COLOR;
+    ctx.lineWidth = brushSize * paint.width;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+    ctx.restore();
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!image) return;
+    const point = toCanvasPoint(e);
+    strokeRef.current = [point];
+    if (tool !== 'lasso') paintSegment(point, point);
+    redraw();
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const stroke = strokeRef.current;
+    if (!stroke) return;
+    const point = toCanvasPoint(e);
+    if (tool !== 'lasso') paintSegment(stroke[stroke.length - 1], point);
+    stroke.push(point);
+    redraw();
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const stroke = strokeRef.current;
+    strokeRef.current = null;
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+      e.currentTarget.releasePointerCapture(e.pointerId);
+    }
+    if (!stroke) return;
+    if (tool === 'lasso' && stroke.length > 2) {
+      const ctx = paint.getContext('2d');
+      if (ctx) {
+        ctx.fillStyle = MASK_COLOR;
+        ctx.beginPath();
+        stroke.forEach((point, i) => (i === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y)));
+        ctx.closePath();
+        ctx.fill();
+      }
+    }
+    redraw();
+    emitMask();
+  };
+
+  const handleClear = () => {
+    paint.getContext('2d')?.clearRect(0, 0, paint.width, paint.height);
+    redraw();
+    emitMask();
+  };
+
+  const handleSave = () => {
+    const name = window.prompt(t('mask.namePrompt'), t('mask.defaultName', { number: savedMasks.length + 1 }));
+    if (name?.trim()) onSaveMask(name.trim());
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="w-full bg-gray-800 rounded-lg flex items-center justify-center p-4 border-2 border-dashed border-gray-600">
+        <div className="relative">
+          <img src={imageUrl} alt={alt} className="block max-w-full h-auto rounded-md" />
+          <canvas
+            ref={displayRef}
+            aria-label={t('mask.label')}
+            className="absolute inset-0 w-full h-full opacity-50 touch-none cursor-crosshair rounded-md"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+          />
+        </div>
+      </div>
+
+      <div className="bg-gray-700/50 rounded-lg p-4 space-y-4">
+        <div className="flex flex-wrap items-center gap-4">
+          {(Object.keys(toolLabels) as MaskTool[]).map(option => (
+            <label key={option} className="flex items-center gap-2 cursor-pointer">
+              <input type="radio" name="maskTool" value={option} checked={tool === option} onChange={() => setTool(option)} className="form-radio h-4 w-4 text-purple-600 bg-gray-700 border-gray-600 focus:ring-purple-500" />
+              <span className="text-gray-300 text-sm">{t(toolLabels[option])}</span>
+            </label>
+          ))}
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input type="checkbox" checked={inverted} onChange={(e) => onInvertedChange(e.target.checked)} className="form-checkbox h-4 w-4 text-purple-600 bg-gray-700 border-gray-600 rounded focus:ring-purple-500" />
+            <span className="text-gray-300 text-sm">{t('mask.invert')}</span>
+          </label>
+          <button onClick={handleClear} className="text-sm text-red-400 hover:text-red-300 ms-auto">{t('mask.clear')}</button>
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <label className="block text-sm text-gray-300">
+            {t('mask.brushSize')}
+            <input type="range" min={0.01} max={0.2} step={0.01} value={brushSize} onChange={(e) => setBrushSize(Number(e.target.value))} disabled={tool === 'lasso'} className="w-full accent-purple-500 mt-2" />
+          </label>
+          <label className="block text-sm text-gray-300">
+            {t('mask.feathering', { feather })}
+            <input type="range" min={0} max={60} step={3} value={feather} onChange={(e) => onFeatherChange(Number(e.target.value))} className="w-full accent-purple-500 mt-2" />
+          </label>
+        </div>
+        <p className="text-xs text-gray-500">
+          {t(inverted ? 'mask.invertedHint' : 'mask.hint')} {t('mask.keptHint')}
+        </p>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-xs font-semibold text-gray-400 uppercase me-2">{t('mask.saved')}</span>
+          {savedMasks.map(saved => (
+            <span key={saved.id} className="inline-flex items-center gap-1 bg-gray-800 rounded-full ps-3 pe-2 py-1 text-xs text-gray-300">
+              <button onClick={() => onLoadMask(saved)} className="hover:text-purple-300">{saved.name}</button>
+              <button onClick={() => onDeleteMask(saved)} className="text-gray-500 hover:text-red-400 text-sm leading-none" aria-label={t('mask.delete', { name: saved.name })}>&times;</button>
+            </span>
+          ))}
+          <button onClick={handleSave} disabled={!mask} className="text-xs text-purple-400 hover:text-purple-300 disabled:text-gray-600">{t('mask.save')}</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MaskEditor;
@@ -0,0 +1,68 @@
+import React from 'react';
+import type { AspectFit, AspectRatio, ImageSize, OutputFormat } from '../types';
+import type { ModelOption } from '../services/providers/types';
+import { ASPECT_FITS, ASPECT_RATIOS, IMAGE_SIZES } from '../services/outputFormat';
+import { useI18n } from '../hooks/useI18n';
+
+const selectClass = 'bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-purple-500 focus:border-purple-500 block w-full p-2';
+
+/**
+ * The aspect ratio and resolution to generate at, and whether to crop or pad
+ * when the model draws a different shape.
+ */
+const OutputFormatPanel: React.FC<{
+  output: OutputFormat;
+  // The selected model, to say what it supports directly.
+  model: ModelOption | undefined;
+  onChange: (output: OutputFormat) => void;
+}> = ({ output, model, onChange }) => {
+  const { t } = useI18n();
+  const notes: string[] = [];
+  const crop = output.fit === 'crop';
+  if (output.aspectRatio && !model?.aspectRatios) {
+    notes.push(t(crop ? 'output.noRatioCropped' : 'output.noRatioPadded', { ratio: output.aspectRatio }));
+  } else if (output.aspectRatio) {
+    notes.push(t(crop ? 'output.offRatioCropped' : 'output.offRatioPadded', { ratio: output.aspectRatio }));
+  }
+  if (output.imageSize && !model?.imageSizes) {
+    notes.push(t('output.noSize', { size: output.imageSize }));
+  }
+
+  return (
+    <div>
+      <label className="block mb-2 text-sm font-medium text-gray-300">{t('output.label')}</label>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+        <select
+          value={output.aspectRatio ?? ''}
+          onChange={(e) => onChange({ ...output, aspectRatio: (e.target.value || null) as AspectRatio | null })}
+          className={selectClass}
+          aria-label={t('output.aspectRatio')}
+        >
+          <option value="">{t('output.anyShape')}</option>
+          {ASPECT_RATIOS.map(ratio => <option key={ratio.value} value={ratio.value}>{t(ratio.labelKey)}</option>)}
+        </select>
+        <select
+          value={output.imageSize ?? ''}
+          onChange={(e) => onChange({ ...output, imageSize: (e.target.value || null) as ImageSize | null })}
+          className={selectClass}
+          aria-label={t('output.imageSize')}
+        >
+          <option value="">{t('output.modelSize')}</option>
+          {IMAGE_SIZES.map(size => <option key={size.value} value={size.value}>{size.label}</option>)}
+        </select>
+        <select
+          value={output.fit}
+          onChange={(e) => onChange({ ...output, fit: e.target.value as AspectFit })}
+          disabled={!output.aspectRatio}
+          className={`${selectClass} disabled:opacity-50`}
+          aria-label={t('output.fit')}
+        >
+          {ASPECT_FITS.map(fit => <option key={fit.value} value={fit.value}>{t(fit.labelKey)}</option>)}
+        </select>
+      </div>
+      {notes.length > 0 && <p className="mt-2 text-xs text-gray-500">{notes.join(' ')}</p>}
+    </div>
+  );
+};
+
+export default OutputFormatPanel;
@@ -0,0 +1,216 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { TextLayer, TextLayerKind, TextOverlay } from '../types';
+import type { MessageKey } from '../locales/en';
+import { FONT_CHOICES, createLayer, renderOverlay } from '../services/textOverlay';
+import type { LayerBounds } from '../services/textOverlay';
+import { loadImage } from '../utils/image';
+import { useI18n } from '../hooks/useI18n';
+
+interface DragState {
+  id: string;
+  part: 'body' | 'tail';
+  // Offset between the pointer and the dragged point, in canvas pixels.
+  dx: number;
+  dy: number;
+}
+
+const layerLabels: Record<TextLayerKind, MessageKey> = {
+  speech: 'overlay.speech',
+  thought: 'overlay.thought',
+  signature: 'overlay.signature',
+};
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * Canvas preview of a cartoon with its caption, bubbles and signature. Bubbles
+ * and their tails can be dragged; everything else is edited in the controls.
+ */
+const OverlayEditor: React.FC<{
+  imageUrl: string;
+  alt: string;
+  overlay: TextOverlay;
+  onChange: (overlay: TextOverlay) => void;
+}> = ({ imageUrl, alt, overlay, onChange }) => {
+  const { t } = useI18n();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const boundsRef = useRef<LayerBounds[]>([]);
+  const dragRef = useRef<DragState | null>(null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [showControls, setShowControls] = useState<boolean>(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImage(imageUrl).then((loaded) => {
+      if (!cancelled) setImage(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [imageUrl]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !image) return;
+    boundsRef.current = renderOverlay(canvas, image, overlay);
+
+    const selected = boundsRef.current.find(b => b.id === selectedId);
+    const ctx = canvas.getContext('2d');
+    if (selected && ctx) {
+      const handle = Math.max(6, image.naturalWidth * 0.012);
+      ctx.save();
+      ctx.strokeStyle = '#a855f7';
+      ctx.lineWidth = Math.max(2, image.naturalWidth * 0.003);
+      ctx.setLineDash([handle, handle / 2]);
+      ctx.strokeRect(selected.left, selected.top, selected.width, selected.height);
+      if (selected.tail) {
+        ctx.setLineDash([]);
+        ctx.fillStyle = '#a855f7';
+        ctx.beginPath();
+        ctx.arc(selected.tail.x, selected.tail.y, handle, 0, Math.PI * 2);
+        ctx.fill();
+      }
+      ctx.restore();
+    }
+  }, [image, overlay, selectedId]);
+
+  const updateLayer = (id: string, patch: Partial<TextLayer>) => {
+    onChange({ ...overlay, layers: overlay.layers.map(layer => (layer.id === id ? { ...layer, ...patch } : layer)) });
+  };
+
+  const addLayer = (kind: TextLayerKind) => {
+    const layer = createLayer(kind);
+    onChange({ ...overlay, layers: [...overlay.layers, layer] });
+    setSelectedId(layer.id);
+    setShowControls(true);
+  };
+
+  const removeLayer = (id: string) => {
+    onChange({ ...overlay, layers: overlay.layers.filter(layer => layer.id !== id) });
+    if (selectedId === id) setSelectedId(null);
+  };
+
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((e.clientY - rect.top) / rect.height) * canvas.height,
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!image) return;
+    const point = toCanvasPoint(e);
+    const grab = Math.max(12, image.naturalWidth * 0.025);
+    // Topmost layers are drawn last, so search from the end. Tails win over bodies.
+    const bounds = [...boundsRef.current].reverse();
+    const tailHit = bounds.find(b => b.tail && Math.hypot(b.tail.x - point.x, b.tail.y - point.y) < grab);
+    const bodyHit = bounds.find(b => point.x >= b.left && point.x <= b.left + b.width && point.y >= b.top && point.y <= b.top + b.height);
+    const hit = tailHit ?? bodyHit;
+    if (!hit) {
+      setSelectedId(null);
+      return;
+    }
+    const layer = overlay.layers.find(l => l.id === hit.id);
+    if (!layer) return;
+    const part = tailHit ? 'tail' : 'body';
+    const anchorX = (part === 'tail' ? layer.tailX : layer.x) * image.naturalWidth;
+    const anchorY = (part === 'tail' ? layer.tailY : layer.y) * image.naturalHeight;
+    dragRef.current = { id: hit.id, part, dx: anchorX - point.x, dy: anchorY - point.y };
+    setSelectedId(hit.id);
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag || !image) return;
+    const point = toCanvasPoint(e);
+    const x = clamp((point.x + drag.dx) / image.naturalWidth);
+    const y = clamp((point.y + drag.dy) / image.naturalHeight);
+    updateLayer(drag.id, drag.part === 'tail' ? { tailX: x, tailY: y } : { x, y });
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    dragRef.current = null;
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+      e.currentTarget.releasePointerCapture(e.pointerId);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="w-full bg-gray-800 rounded-lg flex items-center justify-center p-4 border-2 border-dashed border-gray-600">
+        <canvas
+          ref={canvasRef}
+          role="img"
+          aria-label={alt}
+          className="max-w-full h-auto rounded-md touch-none cursor-move"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        />
+      </div>
+
+      <div className="bg-gray-700/50 rounded-lg p-4 space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <button onClick={() => setShowControls(!showControls)} className="text-sm font-medium text-purple-400 hover:text-purple-300 me-auto">
+            {t(showControls ? 'overlay.hideControls' : 'overlay.showControls')}
+          </button>
+          <button onClick={() => addLayer('speech')} className="text-white bg-gray-600 hover:bg-gray-500 font-medium rounded-lg text-xs px-3 py-2">
+            {t('overlay.addSpeech')}
+          </button>
+          <button onClick={() => addLayer('thought')} className="text-white bg-gray-600 hover:bg-gray-500 font-medium rounded-lg text-xs px-3 py-2">
+            {t('overlay.addThought')}
+          </button>
+        </div>
+
+        {showControls && (
+          <div className="space-y-4">
+            <div>
+              <label className="block mb-2 text-sm font-medium text-gray-300">{t('overlay.caption')}</label>
+              <div className="flex gap-2">
+                <textarea value={overlay.caption} onChange={(e) => onChange({ ...overlay, caption: e.target.value })} rows={2} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-purple-500 focus:border-purple-500 block w-full p-2.5" placeholder={t('overlay.captionPlaceholder')} />
+                <select value={overlay.captionFont} onChange={(e) => onChange({ ...overlay, captionFont: e.target.value })} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-purple-500 focus:border-purple-500 p-2">
+                  {FONT_CHOICES.map(font => <option key={font.value} value={font.value}>{t(font.labelKey)}</option>)}
+                </select>
+              </div>
+            </div>
+
+            {overlay.layers.map(layer => (
+              <div
+                key={layer.id}
+                onClick={() => setSelectedId(layer.id)}
+                className={`p-3 rounded-lg space-y-2 border ${layer.id === selectedId ? 'border-purple-400' : 'border-transparent'} bg-gray-800/60`}
+              >
+                <div className="flex items-center justify-between">
+                  <span className="text-xs font-semibold text-gray-400 uppercase">{t(layerLabels[layer.kind])}</span>
+                  <button onClick={() => removeLayer(layer.id)} className="text-gray-400 hover:text-red-400 text-lg leading-none" aria-label={t('overlay.remove', { layer: t(layerLabels[layer.kind]) })}>
+                    &times;
+                  </button>
+                </div>
+                <input type="text" value={layer.text} onChange={(e) => updateLayer(layer.id, { text: e.target.value })} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-purple-500 focus:border-purple-500 block w-full p-2" />
+                <div className="flex items-center gap-3">
+                  <select value={layer.fontFamily} onChange={(e) => updateLayer(layer.id, { fontFamily: e.target.value })} className="bg-gray-700 border border-gray-600 text-white text-xs rounded-lg focus:ring-purple-500 focus:border-purple-500 p-1.5">
+                    {FONT_CHOICES.map(font => <option key={font.value} value={font.value}>{t(font.labelKey)}</option>)}
+                  </select>
+                  <label className="flex items-center gap-2 text-xs text-gray-400 flex-grow">
+                    {t('overlay.size')}
+                    <input type="range" min={0.015} max={0.08} step={0.005} value={layer.fontSize} onChange={(e) => updateLayer(layer.id, { fontSize: Number(e.target.value) })} className="flex-grow accent-purple-500" />
+                  </label>
+                </div>
+              </div>
+            ))}
+            {overlay.layers.length > 0 && (
+              <p className="text-xs text-gray-500">{t('overlay.dragHint')}</p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default OverlayEditor;
@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import type { Preset } from '../types';
+import { useI18n } from '../hooks/useI18n';
+
+const inputClass = 'bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-purple-500 focus:border-purple-500 block w-full p-2';
+const buttonClass = 'flex-shrink-0 text-white bg-gray-600 hover:bg-gray-500 font-medium rounded-lg text-xs px-3 py-2 disabled:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed';
+
+/**
+ * Applies a saved preset, saves the current style, colour, signature and
+ * prompt as a new one, and copies a link to the current settings.
+ */
+const PresetPanel: React.FC<{
+  presets: Preset[];
+  onApply: (preset: Preset) => void;
+  onSave: (name: string) => void;
+  onDelete: (preset: Preset) => void;
+  onCopyLink: () => Promise<void>;
+  onError: (message: string) => void;
+}> = ({ presets, onApply, onSave, onDelete, onCopyLink, onError }) => {
+  const { t } = useI18n();
+  const [selectedId, setSelectedId] = useState<string>('');
+  const [name, setName] = useState<string>('');
+  const [isCopied, setIsCopied] = useState<boolean>(false);
+  const selected = presets.find(preset => preset.id === selectedId) ?? null;
+
+  const handleCopyLink = async () => {
+    try {
+      await onCopyLink();
+      setIsCopied(true);
+      window.setTimeout(() => setIsCopied(false), 2000);
+    } catch (e) {
+      console.error(e);
+      onError(t('error.copyLink'));
+    }
+  };
+
+  const handleSave = () => {
+    onSave(name.trim());
+    setName('');
+  };
+
+  return (
+    <div className="p-4 bg-gray-700/30 rounded-lg space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-semibold text-gray-300">{t('preset.title')}</span>
+        <button onClick={handleCopyLink} className="text-xs text-purple-400 hover:text-purple-300">{t(isCopied ? 'preset.linkCopied' : 'preset.copyLink')}</button>
+      </div>
+      <div className="flex gap-2">
+        <select value={selected?.id ?? ''} onChange={(e) => setSelectedId(e.target.value)} className={inputClass} aria-label={t('preset.label')}>
+          <option value="">{t(presets.length === 0 ? 'preset.none' : 'preset.choose')}</option>
+          {presets.map(preset => <option key={preset.id} value={preset.id}>{preset.name}</option>)}
+        </select>
+        <button onClick={() => selected && onApply(selected)} disabled={!selected} className={buttonClass}>{t('preset.apply')}</button>
+        <button onClick={() => selected && onDelete(selected)} disabled={!selected} className={buttonClass}>{t('preset.delete')}</button>
+      </div>
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter' && name.trim()) handleSave(); }}
+          className={inputClass}
+          placeholder={t('preset.namePlaceholder')}
+        />
+        <button onClick={handleSave} disabled={!name.trim()} className={buttonClass}>{t('preset.save')}</button>
+      </div>
+      <p className="text-xs text-gray-500">{t('preset.placeholderHint')}</p>
+    </div>
+  );
+};
+
+export default PresetPanel;
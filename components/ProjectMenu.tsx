@@ -0,0 +1,34 @@
+import React, { useRef } from 'react';
+import { PROJECT_EXTENSION } from '../services/projectFile';
+import { useI18n } from '../hooks/useI18n';
+
+const buttonClass = 'text-white bg-gray-700 hover:bg-gray-600 border border-gray-600 font-medium rounded-lg text-sm px-3 py-2 disabled:text-gray-500 disabled:cursor-not-allowed';
+
+/**
+ * Saves the whole session as a .toons project file, or opens one.
+ */
+const ProjectMenu: React.FC<{
+  isBusy: boolean;
+  onSave: () => void;
+  onOpen: (file: File) => void;
+}> = ({ isBusy, onSave, onOpen }) => {
+  const { t } = useI18n();
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Clear the input so the same file can be opened again.
+    e.target.value = '';
+    if (file) onOpen(file);
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <button onClick={onSave} disabled={isBusy} className={buttonClass}>{t('project.save')}</button>
+      <button onClick={() => inputRef.current?.click()} disabled={isBusy} className={buttonClass}>{t('project.open')}</button>
+      <input ref={inputRef} type="file" accept={PROJECT_EXTENSION} onChange={handleFileChange} className="hidden" />
+    </div>
+  );
+};
+
+export default ProjectMenu;
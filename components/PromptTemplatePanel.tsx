@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import type { PromptTemplate } from '../types';
+import { CARTOON_TEMPLATE_VARIABLES } from '../services/prompts';
+import { TemplateError, renderTemplate } from '../services/promptTemplate';
+import { createId } from '../services/historyStore';
+import { DEFAULT_TEMPLATE } from '../hooks/usePromptTemplates';
+import { useI18n } from '../hooks/useI18n';
+
+const inputClass = 'bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-purple-500 focus:border-purple-500 block w-full p-2';
+const buttonClass = 'flex-shrink-0 text-white bg-gray-600 hover:bg-gray-500 font-medium rounded-lg text-xs px-3 py-2 disabled:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed';
+
+// Renders the template for the preview, or explains what is wrong with it.
+const renderPreview = (text: string, variables: Record<string, string>): { prompt: string | null; error: string | null } => {
+  try {
+    return { prompt: renderTemplate(text, variables), error: null };
+  } catch (e) {
+    if (e instanceof TemplateError) return { prompt: null, error: e.message };
+    throw e;
+  }
+};
+
+/**
+ * Picks and edits the template the single-cartoon prompt is built from, and
+ * shows the exact prompt the current settings will send. Changes to a custom
+ * template are kept as you type.
+ */
+const PromptTemplatePanel: React.FC<{
+  templates: PromptTemplate[];
+  selected: PromptTemplate;
+  // The template variables for the current settings; null until a style is chosen.
+  variables: Record<string, string> | null;
+  onSelect: (id: string) => void;
+  onPut: (template: PromptTemplate) => void;
+  onDelete: (id: string) => void;
+}> = ({ templates, selected, variables, onSelect, onPut, onDelete }) => {
+  const { t } = useI18n();
+  const [isEditing, setIsEditing] = useState<boolean>(false);
+  const isDefault = selected.id === DEFAULT_TEMPLATE.id;
+  const { prompt, error } = variables ? renderPreview(selected.text, variables) : { prompt: null, error: null };
+
+  const handleCopy = () => {
+    const copy = { id: createId(), name: t('template.copyName', { name: selected.name }), text: selected.text };
+    onPut(copy);
+    onSelect(copy.id);
+    setIsEditing(true);
+  };
+
+  return (
+    <div className="p-4 bg-gray-700/30 rounded-lg space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm font-semibold text-gray-300">{t('template.title')}</span>
+        <button onClick={() => setIsEditing(!isEditing)} className="text-xs text-purple-400 hover:text-purple-300">{t(isEditing ? 'template.hideEditor' : 'template.edit')}</button>
+      </div>
+      <div className="flex gap-2">
+        <select value={selected.id} onChange={(e) => onSelect(e.target.value)} className={inputClass} aria-label={t('template.title')}>
+          {templates.map(template => <option key={template.id} value={template.id}>{template.name}</option>)}
+        </select>
+        <button onClick={handleCopy} className={buttonClass}>{t('template.copy')}</button>
+        <button onClick={() => onDelete(selected.id)} disabled={isDefault} className={buttonClass}>{t('template.delete')}</button>
+      </div>
+
+      {isEditing && (
+        <div className="space-y-2">
+          {!isDefault && (
+            <input type="text" value={selected.name} onChange={(e) => onPut({ ...selected, name: e.target.value })} className={inputClass} aria-label={t('template.name')} />
+          )}
+          <textarea
+            value={selected.text}
+            onChange={(e) => onPut({ ...selected, text: e.target.value })}
+            readOnly={isDefault}
+            rows={6}
+            className={`${inputClass} font-mono text-xs ${isDefault ? 'text-gray-400' : ''}`}
+            aria-label={t('template.text')}
+          />
+          {isDefault && <p className="text-xs text-gray-500">{t('template.defaultReadOnly')}</p>}
+          <div className="text-xs text-gray-400 space-y-1">
+            <p>
+              {t('template.variables')}{' '}
+              {CARTOON_TEMPLATE_VARIABLES.map(variable => (
+                <code key={variable.name} title={variable.description} className="me-1 px-1 rounded bg-gray-800 text-purple-300">{`{${variable.name}}`}</code>
+              ))}
+            </p>
+            <p>
+              {t('template.conditionalHint')}
+            </p>
+          </div>
+        </div>
+      )}
+
+      <div>
+        <span className="block mb-1 text-xs font-medium text-gray-400">{t('template.finalPrompt')}</span>
+        {error ? (
+          <p className="text-xs text-red-400">{error}</p>
+        ) : (
+          <p className="text-xs text-gray-300 bg-gray-800/60 rounded-lg p-2 whitespace-pre-wrap break-words max-h-40 overflow-y-auto" aria-live="polite">
+            {prompt ?? t('template.chooseStyle')}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PromptTemplatePanel;
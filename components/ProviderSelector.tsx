@@ -0,0 +1,32 @@
+import React from 'react';
+import type { ProviderSelection } from '../types';
+import { listProviders, getProvider } from '../services/providers/registry';
+import { useI18n } from '../hooks/useI18n';
+
+const ProviderSelector: React.FC<{
+  selection: ProviderSelection;
+  onProviderChange: (providerId: string) => void;
+  onModelChange: (model: string) => void;
+}> = ({ selection, onProviderChange, onModelChange }) => {
+  const { t } = useI18n();
+  const provider = getProvider(selection.providerId);
+
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-center gap-3 text-sm">
+      <label className="flex items-center gap-2 text-gray-400">
+        {t('provider.provider')}
+        <select value={selection.providerId} onChange={(e) => onProviderChange(e.target.value)} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-purple-500 focus:border-purple-500 p-2">
+          {listProviders().map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+        </select>
+      </label>
+      <label className="flex items-center gap-2 text-gray-400">
+        {t('provider.model')}
+        <select value={selection.model} onChange={(e) => onModelChange(e.target.value)} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-purple-500 focus:border-purple-500 p-2">
+          {provider.models.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+        </select>
+      </label>
+    </div>
+  );
+};
+
+export default ProviderSelector;
@@ -0,0 +1,94 @@
+import React, { useEffect, useState } from 'react';
+import type { CreationKind, TeamToonMetadata } from '../types';
+import { describeGalleryError, publishTeamToon } from '../services/teamGallery';
+import { useI18n } from '../hooks/useI18n';
+
+const inputClass = 'bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-purple-500 focus:border-purple-500 block w-full p-2';
+const labelClass = 'block mb-1 text-sm font-medium text-gray-300';
+const MAX_TITLE_LENGTH = 200;
+
+/**
+ * Sends one finished image, with what it was made from, to the team gallery
+ * as a draft. The name is remembered for the next publish and for comments.
+ */
+const PublishDialog: React.FC<{
+  image: Blob;
+  imageUrl: string;
+  kind: CreationKind;
+  metadata: TeamToonMetadata;
+  author: string;
+  onAuthorChange: (author: string) => void;
+  onClose: () => void;
+  onOpenTeamGallery: () => void;
+}> = ({ image, imageUrl, kind, metadata, author, onAuthorChange, onClose, onOpenTeamGallery }) => {
+  const { t } = useI18n();
+  const [title, setTitle] = useState<string>(metadata.prompt.slice(0, MAX_TITLE_LENGTH));
+  const [isPublishing, setIsPublishing] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isPublished, setIsPublished] = useState<boolean>(false);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const handlePublish = async () => {
+    setIsPublishing(true);
+    setError(null);
+    try {
+      await publishTeamToon(image, title.trim(), author.trim(), kind, metadata);
+      setIsPublished(true);
+    } catch (e) {
+      console.error(e);
+      setError(describeGalleryError(e));
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4" role="dialog" aria-modal="true" aria-label={t('common.publish')}>
+      <div className="bg-gray-800 rounded-xl shadow-2xl p-6 space-y-4 max-w-lg w-full">
+        <h2 className="text-lg font-semibold text-gray-200">{t('common.publish')}</h2>
+        <img src={imageUrl} alt={t('publish.image')} className="w-full max-h-64 object-contain bg-gray-900 rounded-lg" />
+
+        {isPublished ? (
+          <>
+            <p className="text-sm text-green-300" role="status">{t('publish.done')}</p>
+            <div className="flex gap-2 justify-end">
+              <button onClick={onOpenTeamGallery} className="text-white bg-gray-600 hover:bg-gray-500 font-medium rounded-lg text-sm px-4 py-2">{t('publish.openTeamGallery')}</button>
+              <button onClick={onClose} className="text-white bg-purple-600 hover:bg-purple-700 font-medium rounded-lg text-sm px-4 py-2">{t('publish.close')}</button>
+            </div>
+          </>
+        ) : (
+          <>
+            <div>
+              <label htmlFor="publish-title" className={labelClass}>{t('publish.title')}</label>
+              <input id="publish-title" type="text" value={title} maxLength={MAX_TITLE_LENGTH} onChange={(e) => setTitle(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label htmlFor="publish-author" className={labelClass}>{t('team.yourName')}</label>
+              <input id="publish-author" type="text" value={author} maxLength={80} onChange={(e) => onAuthorChange(e.target.value)} className={inputClass} placeholder={t('publish.namePlaceholder')} />
+            </div>
+            <p className="text-xs text-gray-400">
+              {t('publish.hint')}
+            </p>
+            {error && <p className="text-sm text-red-300" role="alert">{error}</p>}
+
+            <div className="flex gap-2 justify-end">
+              <button onClick={onClose} className="text-white bg-gray-600 hover:bg-gray-500 font-medium rounded-lg text-sm px-4 py-2">{t('common.cancel')}</button>
+              <button onClick={handlePublish} disabled={isPublishing || !title.trim() || !author.trim()} className="text-white bg-purple-600 hover:bg-purple-700 font-medium rounded-lg text-sm px-4 py-2 disabled:bg-gray-500 disabled:cursor-not-allowed">
+                {isPublishing ? t('publish.publishing') : t('gallery.publish')}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PublishDialog;
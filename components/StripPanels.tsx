@@ -0,0 +1,36 @@
+import React from 'react';
+import { useI18n } from '../hooks/useI18n';
+import Spinner from './Spinner';
+
+const StripPanels: React.FC<{
+  panelUrls: (string | null)[];
+  busyPanels: number[];
+  disabled: boolean;
+  onRegenerate: (index: number) => void;
+}> = ({ panelUrls, busyPanels, disabled, onRegenerate }) => {
+  const { t } = useI18n();
+  if (panelUrls.every((url) => url === null) && busyPanels.length === 0) return null;
+
+  return (
+    <div className="mt-6">
+      <h3 className="text-lg font-semibold mb-4 text-gray-300">{t('strip.panels')}</h3>
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+        {panelUrls.map((url, i) => {
+          const isBusy = busyPanels.includes(i);
+          return (
+            <div key={i} className="bg-gray-900/50 rounded-lg p-2 space-y-2">
+              <div className="aspect-square flex items-center justify-center bg-gray-800 rounded-md">
+                {isBusy ? <Spinner /> : url ? <img src={url} alt={t('strip.panel', { number: i + 1 })} className="max-w-full max-h-full object-contain rounded-md" /> : <span className="text-gray-500 text-xs">{t('strip.panel', { number: i + 1 })}</span>}
+              </div>
+              <button onClick={() => onRegenerate(i)} disabled={disabled || isBusy} className="w-full text-white bg-gray-600 hover:bg-gray-500 font-medium rounded-lg text-xs px-3 py-2 disabled:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed">
+                {t(url ? 'strip.regeneratePanel' : 'strip.generatePanel', { number: i + 1 })}
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default StripPanels;
@@ -0,0 +1,58 @@
+import React from 'react';
+import type { PanelScript, StripLayout } from '../types';
+import type { MessageKey } from '../locales/en';
+import { MIN_PANELS, MAX_PANELS } from '../hooks/useComicStrip';
+import { useI18n } from '../hooks/useI18n';
+
+const layouts: { value: StripLayout; label: MessageKey }[] = [
+  { value: 'horizontal', label: 'strip.horizontal' },
+  { value: 'grid', label: 'strip.grid' },
+  { value: 'vertical', label: 'strip.vertical' },
+];
+
+const StripScriptEditor: React.FC<{
+  panels: PanelScript[];
+  layout: StripLayout;
+  onPanelChange: (index: number, patch: Partial<PanelScript>) => void;
+  onAddPanel: () => void;
+  onRemovePanel: (index: number) => void;
+  onLayoutChange: (layout: StripLayout) => void;
+}> = ({ panels, layout, onPanelChange, onAddPanel, onRemovePanel, onLayoutChange }) => {
+  const { t } = useI18n();
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block mb-2 text-sm font-medium text-gray-300">{t('strip.layout')}</label>
+        <div className="flex flex-wrap gap-4">
+          {layouts.map(({ value, label }) => (
+            <label key={value} className="flex items-center gap-2 cursor-pointer">
+              <input type="radio" name="stripLayout" value={value} checked={layout === value} onChange={() => onLayoutChange(value)} className="form-radio h-4 w-4 text-purple-600 bg-gray-700 border-gray-600 focus:ring-purple-500" />
+              <span className="text-gray-300">{t(label)}</span>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <label className="block text-sm font-medium text-gray-300">{t('strip.script')}</label>
+        {panels.map((panel, i) => (
+          <div key={i} className="flex gap-3 items-start p-3 bg-gray-700/50 rounded-lg">
+            <span className="text-purple-400 font-bold pt-2 w-6 text-center">{i + 1}</span>
+            <div className="flex-grow space-y-2">
+              <input type="text" value={panel.action} onChange={(e) => onPanelChange(i, { action: e.target.value })} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-purple-500 focus:border-purple-500 block w-full p-2.5" placeholder={t('strip.actionPlaceholder')} />
+              <input type="text" value={panel.dialogue} onChange={(e) => onPanelChange(i, { dialogue: e.target.value })} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-purple-500 focus:border-purple-500 block w-full p-2.5" placeholder={t('strip.dialoguePlaceholder')} />
+            </div>
+            <button onClick={() => onRemovePanel(i)} disabled={panels.length <= MIN_PANELS} className="text-gray-400 hover:text-red-400 disabled:text-gray-600 disabled:cursor-not-allowed text-xl leading-none pt-2" aria-label={t('strip.removePanel', { number: i + 1 })}>
+              &times;
+            </button>
+          </div>
+        ))}
+        <button onClick={onAddPanel} disabled={panels.length >= MAX_PANELS} className="text-sm text-purple-400 hover:text-purple-300 disabled:text-gray-600 disabled:cursor-not-allowed">
+          {t('strip.addPanel')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default StripScriptEditor;
@@ -0,0 +1,205 @@
+import React, { useMemo, useState } from 'react';
+import type { StyleDefinition, StyleTraits, StyleType } from '../types';
+import type { MessageKey } from '../locales/en';
+import { MAX_REFERENCE_IMAGES, createStyle, exportStyles, importStyles, parseTags } from '../services/styleLibrary';
+import { useI18n } from '../hooks/useI18n';
+import BlobThumbnail from './BlobThumbnail';
+
+const traitFields: { key: keyof StyleTraits; label: MessageKey; placeholder: MessageKey }[] = [
+  { key: 'lineWeight', label: 'styleLibrary.lineWeight', placeholder: 'styleLibrary.lineWeightPlaceholder' },
+  { key: 'palette', label: 'styleLibrary.palette', placeholder: 'styleLibrary.palettePlaceholder' },
+  { key: 'composition', label: 'styleLibrary.composition', placeholder: 'styleLibrary.compositionPlaceholder' },
+  { key: 'humour', label: 'styleLibrary.humour', placeholder: 'styleLibrary.humourPlaceholder' },
+];
+
+const inputClass = 'bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-purple-500 focus:border-purple-500 block w-full p-2';
+
+const downloadText = (text: string, filename: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+const StyleForm: React.FC<{
+  draft: StyleDefinition;
+  onChange: (draft: StyleDefinition) => void;
+  onSave: () => void;
+  onCancel: () => void;
+  onPrepareImage: (file: File) => Promise<Blob | null>;
+}> = ({ draft, onChange, onSave, onCancel, onPrepareImage }) => {
+  const { t } = useI18n();
+  const [tagsText, setTagsText] = useState<string>(draft.tags.join(', '));
+
+  const handleReferenceUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []).slice(0, MAX_REFERENCE_IMAGES - draft.referenceImages.length);
+    e.target.value = '';
+    const images: Blob[] = [];
+    for (const file of files) {
+      const image = await onPrepareImage(file);
+      if (image) images.push(image);
+    }
+    onChange({ ...draft, referenceImages: [...draft.referenceImages, ...images] });
+  };
+
+  return (
+    <div className="p-4 bg-gray-800/60 rounded-lg space-y-3">
+      <div className="flex flex-col sm:flex-row gap-3">
+        <input type="text" value={draft.name} onChange={(e) => onChange({ ...draft, name: e.target.value })} className={inputClass} placeholder={t('styleLibrary.name')} />
+        <div className="flex items-center gap-4 flex-shrink-0">
+          {(['magazine', 'cartoonist'] as StyleType[]).map(type => (
+            <label key={type} className="flex items-center gap-2 cursor-pointer">
+              <input type="radio" name="styleFormType" checked={draft.styleType === type} onChange={() => onChange({ ...draft, styleType: type })} className="form-radio h-4 w-4 text-purple-600 bg-gray-700 border-gray-600 focus:ring-purple-500" />
+              <span className="text-gray-300 text-sm">{t(type === 'magazine' ? 'style.magazine' : 'style.cartoonist')}</span>
+            </label>
+          ))}
+        </div>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {traitFields.map(field => (
+          <label key={field.key} className="block text-xs text-gray-400">
+            {t(field.label)}
+            <input type="text" value={draft.traits[field.key]} onChange={(e) => onChange({ ...draft, traits: { ...draft.traits, [field.key]: e.target.value } })} className={`${inputClass} mt-1`} placeholder={t(field.placeholder)} />
+          </label>
+        ))}
+      </div>
+      <label className="block text-xs text-gray-400">
+        {t('styleLibrary.tags')}
+        <input type="text" value={tagsText} onChange={(e) => { setTagsText(e.target.value); onChange({ ...draft, tags: parseTags(e.target.value) }); }} className={`${inputClass} mt-1`} placeholder={t('styleLibrary.tagsPlaceholder')} />
+      </label>
+      <div>
+        <p className="text-xs text-gray-400 mb-1">{t('styleLibrary.references', { count: MAX_REFERENCE_IMAGES })}</p>
+        <div className="flex items-center gap-3">
+          {draft.referenceImages.map((image, i) => (
+            <div key={i} className="relative">
+              <BlobThumbnail blob={image} alt={t('character.reference', { number: i + 1 })} />
+              <button onClick={() => onChange({ ...draft, referenceImages: draft.referenceImages.filter((_, j) => j !== i) })} className="absolute -top-2 -end-2 bg-red-500 text-white rounded-full w-5 h-5 flex items-center justify-center text-xs font-bold leading-none hover:bg-red-600" aria-label={t('character.removeReference', { number: i + 1 })}>
+                &times;
+              </button>
+            </div>
+          ))}
+          {draft.referenceImages.length < MAX_REFERENCE_IMAGES && (
+            <input type="file" accept="image/*" multiple onChange={handleReferenceUpload} className="block text-xs text-gray-400 file:mr-2 file:py-1 file:px-3 file:rounded-full file:border-0 file:text-xs file:font-semibold file:bg-purple-50 file:text-purple-700 hover:file:bg-purple-100" />
+          )}
+        </div>
+      </div>
+      <div className="flex gap-2 justify-end">
+        <button onClick={onCancel} className="text-white bg-gray-600 hover:bg-gray-500 font-medium rounded-lg text-xs px-4 py-2">{t('common.cancel')}</button>
+        <button onClick={onSave} disabled={!draft.name.trim()} className="text-white bg-purple-600 hover:bg-purple-700 font-medium rounded-lg text-xs px-4 py-2 disabled:bg-gray-500 disabled:cursor-not-allowed">{t('styleLibrary.save')}</button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Browses the style library and manages the user's own styles: create, edit,
+ * duplicate, delete, and share them as JSON files.
+ */
+const StyleLibraryPanel: React.FC<{
+  styles: StyleDefinition[];
+  selectedId: string | null;
+  onUse: (style: StyleDefinition) => void;
+  onSave: (style: StyleDefinition) => Promise<void>;
+  onDelete: (style: StyleDefinition) => void;
+  onError: (message: string) => void;
+  onPrepareImage: (file: File) => Promise<Blob | null>;
+}> = ({ styles, selectedId, onUse, onSave, onDelete, onError, onPrepareImage }) => {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [tagFilter, setTagFilter] = useState<string>('all');
+  const [draft, setDraft] = useState<StyleDefinition | null>(null);
+
+  const tags = useMemo(() => Array.from(new Set(styles.flatMap(style => style.tags))).sort(), [styles]);
+  const customStyles = styles.filter(style => !style.builtIn);
+  const visible = tagFilter === 'all' ? styles : styles.filter(style => style.tags.includes(tagFilter));
+
+  const handleSave = async () => {
+    if (!draft) return;
+    try {
+      const style = { ...draft, name: draft.name.trim() };
+      await onSave(style);
+      onUse(style);
+      setDraft(null);
+    } catch (e) {
+      console.error(e);
+      onError(t('error.saveStyle'));
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = await importStyles(await file.text());
+      for (const style of imported) await onSave(style);
+    } catch (err) {
+      console.error(err);
+      onError(err instanceof Error ? err.message : t('error.importStyles'));
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      downloadText(await exportStyles(customStyles), 'expresstoons-styles.json');
+    } catch (e) {
+      console.error(e);
+      onError(t('error.exportStyles'));
+    }
+  };
+
+  return (
+    <div className="bg-gray-700/30 rounded-lg">
+      <button onClick={() => setIsOpen(!isOpen)} className="w-full flex items-center justify-between p-4 text-start">
+        <span className="text-sm font-semibold text-gray-300">{t('styleLibrary.title')}</span>
+        <span className="text-sm text-gray-400">{t('styleLibrary.customCount', { count: customStyles.length })} · {t(isOpen ? 'styleLibrary.hide' : 'styleLibrary.manage')}</span>
+      </button>
+
+      {isOpen && (
+        <div className="p-4 pt-0 space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <select value={tagFilter} onChange={(e) => setTagFilter(e.target.value)} className="bg-gray-700 border border-gray-600 text-white text-xs rounded-lg focus:ring-purple-500 focus:border-purple-500 p-1.5 me-auto">
+              <option value="all">{t('styleLibrary.allTags')}</option>
+              {tags.map(tag => <option key={tag} value={tag}>{tag}</option>)}
+            </select>
+            <button onClick={() => setDraft(createStyle('magazine'))} className="text-xs text-purple-400 hover:text-purple-300">{t('styleLibrary.new')}</button>
+            <label className="text-xs text-purple-400 hover:text-purple-300 cursor-pointer">
+              {t('styleLibrary.import')}
+              <input type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+            </label>
+            <button onClick={handleExport} disabled={customStyles.length === 0} className="text-xs text-purple-400 hover:text-purple-300 disabled:text-gray-600">{t('styleLibrary.export')}</button>
+          </div>
+
+          {draft && <StyleForm key={draft.id} draft={draft} onChange={setDraft} onSave={handleSave} onCancel={() => setDraft(null)} onPrepareImage={onPrepareImage} />}
+
+          <ul className="divide-y divide-gray-700 bg-gray-900/50 rounded-lg max-h-72 overflow-y-auto">
+            {visible.map(style => (
+              <li key={style.id} className={`flex items-center gap-3 px-3 py-2 text-sm ${style.id === selectedId ? 'bg-purple-600/20' : ''}`}>
+                <div className="flex-grow min-w-0">
+                  <p className="text-gray-200 truncate">
+                    {style.name}
+                    <span className="text-gray-500 text-xs"> · {t(style.styleType === 'magazine' ? 'style.magazine' : 'style.cartoonist')}{style.builtIn ? ` · ${t('styleLibrary.builtIn')}` : ''}</span>
+                  </p>
+                  {style.tags.length > 0 && <p className="text-xs text-gray-500 truncate">{style.tags.join(', ')}</p>}
+                </div>
+                <button onClick={() => onUse(style)} className="text-xs text-purple-400 hover:text-purple-300">{t('styleLibrary.use')}</button>
+                <button onClick={() => setDraft(style.builtIn ? { ...style, id: createStyle(style.styleType).id, name: t('styleLibrary.customName', { name: style.name }), builtIn: false } : style)} className="text-xs text-gray-400 hover:text-gray-200">
+                  {t(style.builtIn ? 'styleLibrary.customise' : 'styleLibrary.edit')}
+                </button>
+                {!style.builtIn && (
+                  <button onClick={() => onDelete(style)} className="text-xs text-red-400 hover:text-red-300">{t('styleLibrary.delete')}</button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StyleLibraryPanel;
@@ -0,0 +1,360 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import type { CreationKind, TeamToon, TeamToonResponseBody, TeamToonStatus } from '../types';
+import type { MessageKey } from '../locales/en';
+import type { TeamToonQuery, ThreadedComment } from '../services/teamGallery';
+import {
+  NEXT_STATUSES,
+  TEAM_STATUSES,
+  addTeamComment,
+  describeGalleryError,
+  getTeamToon,
+  listTeamToons,
+  setTeamToonStatus,
+  teamToonImageUrl,
+  threadComments,
+  voteTeamToon,
+} from '../services/teamGallery';
+import { useI18n } from '../hooks/useI18n';
+
+const selectClass = 'bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-purple-500 focus:border-purple-500 block w-full p-2.5';
+const labelClass = 'block mb-2 text-sm font-medium text-gray-300';
+const smallButtonClass = 'text-white bg-gray-600 hover:bg-gray-500 font-medium rounded-lg text-xs px-3 py-2 disabled:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed';
+
+const STATUS_BADGES: Record<TeamToonStatus, string> = {
+  draft: 'bg-gray-600 text-gray-200',
+  approved: 'bg-blue-600/80 text-white',
+  published: 'bg-green-600/80 text-white',
+};
+
+// What each move is called on its button, by the status it moves to and from.
+const transitionLabel = (from: TeamToonStatus, to: TeamToonStatus): MessageKey => {
+  if (to === 'approved') return from === 'draft' ? 'team.approve' : 'team.unpublish';
+  if (to === 'published') return 'gallery.publish';
+  return 'team.backToDraft';
+};
+
+const statusLabel = (status: TeamToonStatus) => TEAM_STATUSES.find(option => option.value === status)!.labelKey;
+
+const StatusBadge: React.FC<{ status: TeamToonStatus }> = ({ status }) => {
+  const { t } = useI18n();
+  return <span className={`text-xs font-medium rounded-full px-2 py-0.5 ${STATUS_BADGES[status]}`}>{t(statusLabel(status))}</span>;
+};
+
+const CommentForm: React.FC<{
+  placeholder: string;
+  disabled: boolean;
+  onSubmit: (body: string) => Promise<boolean>;
+  onCancel?: () => void;
+}> = ({ placeholder, disabled, onSubmit, onCancel }) => {
+  const { t } = useI18n();
+  const [body, setBody] = useState<string>('');
+  const [isSending, setIsSending] = useState<boolean>(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSending(true);
+    if (await onSubmit(body.trim())) setBody('');
+    setIsSending(false);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <textarea value={body} onChange={(e) => setBody(e.target.value)} rows={2} maxLength={4000} placeholder={placeholder} aria-label={placeholder} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-purple-500 focus:border-purple-500 block w-full p-2.5" />
+      <div className="flex gap-2 justify-end">
+        {onCancel && <button type="button" onClick={onCancel} className={smallButtonClass}>{t('common.cancel')}</button>}
+        <button type="submit" disabled={disabled || isSending || !body.trim()} className="text-white bg-purple-600 hover:bg-purple-700 font-medium rounded-lg text-xs px-3 py-2 disabled:bg-gray-500 disabled:cursor-not-allowed">
+          {isSending ? t('team.sending') : t('team.comment')}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+const CommentThread: React.FC<{
+  comments: ThreadedComment[];
+  canComment: boolean;
+  onReply: (parentId: string, body: string) => Promise<boolean>;
+}> = ({ comments, canComment, onReply }) => {
+  const { t } = useI18n();
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+
+  return (
+    <ul className="space-y-3">
+      {comments.map(comment => (
+        <li key={comment.id} className="space-y-2">
+          <div className="bg-gray-900/50 rounded-lg p-3">
+            <p className="text-xs text-gray-400">
+              <span className="font-medium text-gray-200">{comment.author}</span> · {new Date(comment.createdAt).toLocaleString()}
+            </p>
+            <p className="text-sm text-gray-200 whitespace-pre-wrap mt-1">{comment.body}</p>
+            {canComment && replyingTo !== comment.id && (
+              <button onClick={() => setReplyingTo(comment.id)} className="text-xs text-purple-400 hover:text-purple-300 mt-2">{t('team.reply')}</button>
+            )}
+          </div>
+          {replyingTo === comment.id && (
+            <div className="ps-6">
+              <CommentForm
+                placeholder={t('team.replyTo', { author: comment.author })}
+                disabled={!canComment}
+                onSubmit={async (body) => {
+                  const sent = await onReply(comment.id, body);
+                  if (sent) setReplyingTo(null);
+                  return sent;
+                }}
+                onCancel={() => setReplyingTo(null)}
+              />
+            </div>
+          )}
+          {comment.replies.length > 0 && (
+            <div className="ps-6 border-s border-gray-700">
+              <CommentThread comments={comment.replies} canComment={canComment} onReply={onReply} />
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+const ToonDetail: React.FC<{
+  id: string;
+  name: string;
+  onBack: () => void;
+  onChange: (toon: TeamToon) => void;
+}> = ({ id, name, onBack, onChange }) => {
+  const { t } = useI18n();
+  const [detail, setDetail] = useState<TeamToonResponseBody | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isUpdating, setIsUpdating] = useState<boolean>(false);
+  const canAct = !!name.trim();
+
+  useEffect(() => {
+    let cancelled = false;
+    getTeamToon(id, name.trim()).then((body) => {
+      if (!cancelled) setDetail(body);
+    }).catch((e) => {
+      if (!cancelled) setError(describeGalleryError(e));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [id, name]);
+
+  // Runs a change and shows the toon as the server now has it.
+  const update = async (change: () => Promise<TeamToonResponseBody>): Promise<boolean> => {
+    setIsUpdating(true);
+    setError(null);
+    try {
+      const body = await change();
+      setDetail(body);
+      onChange(body.toon);
+      return true;
+    } catch (e) {
+      console.error(e);
+      setError(describeGalleryError(e));
+      return false;
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const voter = name.trim();
+  const toon = detail?.toon;
+
+  return (
+    <div className="space-y-6">
+      <button onClick={onBack} className="text-sm text-purple-400 hover:text-purple-300">{t('team.allToons')}</button>
+      {error && <p className="text-sm text-red-300" role="alert">{error}</p>}
+      {toon && detail && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          <img src={teamToonImageUrl(toon.id)} alt={toon.title} className="w-full object-contain bg-gray-900 rounded-lg" />
+          <div className="space-y-6">
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <h3 className="text-lg font-semibold text-gray-200 flex-1">{toon.title}</h3>
+                <StatusBadge status={toon.status} />
+              </div>
+              <p className="text-sm text-gray-400">{t('team.publishedBy', { author: toon.author, date: new Date(toon.createdAt).toLocaleString() })}</p>
+              <dl className="text-sm text-gray-300 grid grid-cols-[auto,1fr] gap-x-4 gap-y-1">
+                <dt className="text-gray-500">{t('team.prompt')}</dt>
+                <dd className="whitespace-pre-wrap">{toon.metadata.prompt || '—'}</dd>
+                <dt className="text-gray-500">{t('gallery.style')}</dt>
+                <dd>{toon.metadata.style ?? '—'}</dd>
+                <dt className="text-gray-500">{t('provider.model')}</dt>
+                <dd>{toon.metadata.model ?? '—'}</dd>
+                <dt className="text-gray-500">{t('team.made')}</dt>
+                <dd>{new Date(toon.metadata.createdAt).toLocaleString()}</dd>
+              </dl>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+              <button
+                onClick={() => update(() => voteTeamToon(toon.id, voter, !toon.voted))}
+                disabled={!canAct || isUpdating}
+                aria-pressed={toon.voted}
+                className={`font-medium rounded-lg text-xs px-3 py-2 disabled:cursor-not-allowed ${toon.voted ? 'bg-purple-600 text-white hover:bg-purple-700' : 'bg-gray-600 text-white hover:bg-gray-500'}`}
+              >
+                ▲ {toon.voted ? t('team.upvoted') : t('team.upvote')} ({toon.votes})
+              </button>
+              {NEXT_STATUSES[toon.status].map(status => (
+                <button key={status} onClick={() => update(() => setTeamToonStatus(toon.id, status, voter))} disabled={!canAct || isUpdating} className={smallButtonClass}>
+                  {t(transitionLabel(toon.status, status))}
+                </button>
+              ))}
+            </div>
+            {!canAct && <p className="text-xs text-gray-500">{t('team.enterName')}</p>}
+
+            <div className="space-y-3">
+              <h4 className="text-sm font-semibold text-gray-300">{t('team.comments', { count: detail.comments.length })}</h4>
+              <CommentThread
+                comments={threadComments(detail.comments)}
+                canComment={canAct}
+                onReply={(parentId, body) => update(() => addTeamComment(toon.id, { author: voter, body, parentId }, voter))}
+              />
+              <CommentForm placeholder={t('team.addComment')} disabled={!canAct} onSubmit={(body) => update(() => addTeamComment(toon.id, { author: voter, body }, voter))} />
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Browses the team gallery service: everyone's published toons, with their
+ * review status, upvotes and comment threads.
+ */
+const TeamGallery: React.FC<{
+  name: string;
+  onNameChange: (name: string) => void;
+}> = ({ name, onNameChange }) => {
+  const { t } = useI18n();
+  const [status, setStatus] = useState<TeamToonStatus | 'all'>('all');
+  const [kind, setKind] = useState<CreationKind | 'all'>('all');
+  const [sort, setSort] = useState<'newest' | 'top'>('newest');
+  const [search, setSearch] = useState<string>('');
+  const [mineOnly, setMineOnly] = useState<boolean>(false);
+  const [toons, setToons] = useState<TeamToon[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState<number>(0);
+
+  const query: TeamToonQuery = {
+    status: status === 'all' ? undefined : status,
+    kind: kind === 'all' ? undefined : kind,
+    author: mineOnly ? name.trim() : undefined,
+    q: search.trim() || undefined,
+    sort,
+    voter: name.trim() || undefined,
+  };
+  const queryKey = JSON.stringify(query);
+
+  useEffect(() => {
+    let cancelled = false;
+    // Waits for a pause in typing before searching.
+    const timer = window.setTimeout(() => {
+      listTeamToons(JSON.parse(queryKey) as TeamToonQuery).then((list) => {
+        if (cancelled) return;
+        setToons(list);
+        setError(null);
+      }).catch((e) => {
+        if (!cancelled) setError(describeGalleryError(e));
+      });
+    }, 250);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [queryKey, reloadKey]);
+
+  const handleChange = useCallback((toon: TeamToon) => {
+    setToons(prev => prev?.map(existing => (existing.id === toon.id ? toon : existing)) ?? prev);
+  }, []);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+        <div className="sm:w-64">
+          <label htmlFor="team-name" className={labelClass}>{t('team.yourName')}</label>
+          <input id="team-name" type="text" value={name} maxLength={80} onChange={(e) => onNameChange(e.target.value)} placeholder={t('team.namePlaceholder')} className={selectClass} />
+        </div>
+        <p className="text-xs text-gray-500 flex-1">
+          {t('team.intro')}
+        </p>
+        <button onClick={() => setReloadKey(key => key + 1)} className={`${smallButtonClass} sm:mb-1`}>{t('team.refresh')}</button>
+      </div>
+
+      {openId ? (
+        <ToonDetail id={openId} name={name} onBack={() => setOpenId(null)} onChange={handleChange} />
+      ) : (
+        <>
+          <div className="flex flex-col sm:flex-row gap-4">
+            <div className="flex-1">
+              <label className={labelClass}>{t('team.statusFilter')}</label>
+              <select value={status} onChange={(e) => setStatus(e.target.value as TeamToonStatus | 'all')} className={selectClass}>
+                <option value="all">{t('team.anyStatus')}</option>
+                {TEAM_STATUSES.map(option => <option key={option.value} value={option.value}>{t(option.labelKey)}</option>)}
+              </select>
+            </div>
+            <div className="flex-1">
+              <label className={labelClass}>{t('team.show')}</label>
+              <select value={kind} onChange={(e) => setKind(e.target.value as CreationKind | 'all')} className={selectClass}>
+                <option value="all">{t('team.everything')}</option>
+                <option value="cartoon">{t('team.kind.cartoon')}</option>
+                <option value="strip">{t('team.kind.strip')}</option>
+                <option value="edit">{t('team.kind.edit')}</option>
+                <option value="restyle">{t('team.kind.restyle')}</option>
+              </select>
+            </div>
+            <div className="flex-1">
+              <label className={labelClass}>{t('team.sortBy')}</label>
+              <select value={sort} onChange={(e) => setSort(e.target.value as 'newest' | 'top')} className={selectClass}>
+                <option value="newest">{t('team.newest')}</option>
+                <option value="top">{t('team.mostUpvoted')}</option>
+              </select>
+            </div>
+            <div className="flex-1">
+              <label htmlFor="team-search" className={labelClass}>{t('team.search')}</label>
+              <input id="team-search" type="search" value={search} onChange={(e) => setSearch(e.target.value)} placeholder={t('team.searchPlaceholder')} className={selectClass} />
+            </div>
+            <label className="flex items-center gap-2 cursor-pointer sm:self-end sm:pb-2.5">
+              <input type="checkbox" checked={mineOnly} disabled={!name.trim()} onChange={(e) => setMineOnly(e.target.checked)} className="form-checkbox h-4 w-4 text-purple-600 bg-gray-700 border-gray-600 rounded focus:ring-purple-500" />
+              <span className="text-gray-300 text-sm">{t('team.mineOnly')}</span>
+            </label>
+          </div>
+
+          {error ? (
+            <p className="text-red-300 text-center py-12" role="alert">{error}</p>
+          ) : !toons ? (
+            <p className="text-gray-500 text-center py-12">{t('team.loading')}</p>
+          ) : toons.length === 0 ? (
+            <p className="text-gray-500 text-center py-12">{t('team.noMatch')}</p>
+          ) : (
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+              {toons.map(toon => (
+                <div key={toon.id} className="bg-gray-900/50 rounded-lg overflow-hidden flex flex-col">
+                  <img src={teamToonImageUrl(toon.id)} alt={toon.title} className="w-full aspect-square object-contain bg-gray-900 cursor-pointer" onClick={() => setOpenId(toon.id)} />
+                  <div className="p-4 flex-1 flex flex-col gap-1">
+                    <div className="flex items-start gap-2">
+                      <p className="text-gray-200 text-sm line-clamp-2 flex-1" title={toon.title}>{toon.title}</p>
+                      <StatusBadge status={toon.status} />
+                    </div>
+                    <p className="text-gray-400 text-xs">{toon.author} · {new Date(toon.createdAt).toLocaleDateString()}</p>
+                    <p className="text-gray-500 text-xs">▲ {toon.votes} · {t(toon.commentCount === 1 ? 'team.commentCountOne' : 'team.commentCount', { count: toon.commentCount })}</p>
+                  </div>
+                  <div className="px-4 pb-4">
+                    <button onClick={() => setOpenId(toon.id)} className="w-full text-white bg-purple-600 hover:bg-purple-700 font-medium rounded-lg text-xs px-3 py-2">
+                      {t('gallery.open')}
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TeamGallery;
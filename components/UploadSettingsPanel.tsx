@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import type { UploadFormat, UploadSettings } from '../services/imagePreprocess';
+import { FORMAT_CHOICES, MAX_DIMENSION_CHOICES } from '../services/imagePreprocess';
+import { useI18n } from '../hooks/useI18n';
+
+const selectClass = 'bg-gray-700 border border-gray-600 text-white text-xs rounded-lg focus:ring-purple-500 focus:border-purple-500 p-1.5';
+
+/**
+ * How uploads are prepared before use: largest side, file format, quality and
+ * whether to crop each one first.
+ */
+const UploadSettingsPanel: React.FC<{
+  settings: UploadSettings;
+  onChange: (settings: UploadSettings) => void;
+}> = ({ settings, onChange }) => {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+
+  return (
+    <div className="text-xs text-gray-400">
+      <button onClick={() => setIsOpen(!isOpen)} className="text-purple-400 hover:text-purple-300">
+        {t(isOpen ? 'upload.hideSettings' : 'upload.settings')}
+      </button>
+      {isOpen && (
+        <div className="mt-2 p-3 bg-gray-800/60 rounded-lg flex flex-wrap items-center gap-x-4 gap-y-2">
+          <label className="flex items-center gap-2">
+            {t('upload.maxSize')}
+            <select value={settings.maxDimension} onChange={(e) => onChange({ ...settings, maxDimension: Number(e.target.value) })} className={selectClass}>
+              {MAX_DIMENSION_CHOICES.map(size => <option key={size} value={size}>{size}px</option>)}
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            {t('upload.format')}
+            <select value={settings.format} onChange={(e) => onChange({ ...settings, format: e.target.value as UploadFormat })} className={selectClass}>
+              {FORMAT_CHOICES.map(format => <option key={format.value} value={format.value}>{format.label}</option>)}
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            {t('upload.quality')}
+            <input
+              type="range"
+              min={0.5}
+              max={1}
+              step={0.05}
+              value={settings.quality}
+              disabled={settings.format === 'image/png'}
+              onChange={(e) => onChange({ ...settings, quality: Number(e.target.value) })}
+              className="w-24 accent-purple-500 disabled:opacity-40"
+            />
+            <span className="w-8">{settings.format === 'image/png' ? '—' : `${Math.round(settings.quality * 100)}%`}</span>
+          </label>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input type="checkbox" checked={settings.cropOnUpload} onChange={(e) => onChange({ ...settings, cropOnUpload: e.target.checked })} className="form-checkbox h-4 w-4 text-purple-600 bg-gray-700 border-gray-600 rounded focus:ring-purple-500" />
+            {t('upload.crop')}
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UploadSettingsPanel;
@@ -0,0 +1,271 @@
+import React, { useMemo } from 'react';
+import type { UsageOperation, UsageRecord } from '../types';
+import type { MessageKey } from '../locales/en';
+import type { BudgetPeriod, ModelPrice, UsageSettings } from '../services/usage';
+import { DEFAULT_PRICES, OUTCOME_LABELS, estimateCost, formatCost, getDailyTotals, getPeriodSpend } from '../services/usage';
+import { useI18n } from '../hooks/useI18n';
+
+const inputClass = 'bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-purple-500 focus:border-purple-500 block w-full p-2';
+const toolbarButtonClass = 'text-white bg-gray-600 hover:bg-gray-500 font-medium rounded-lg text-xs px-3 py-2 disabled:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed';
+
+// How many of the latest calls the log table lists; the CSV has them all.
+const RECENT_CALLS = 50;
+
+const OPERATION_LABELS: Record<UsageOperation, MessageKey> = {
+  cartoon: 'usage.operation.cartoon',
+  panel: 'usage.operation.panel',
+  frame: 'usage.operation.frame',
+  restyle: 'usage.operation.restyle',
+  edit: 'usage.operation.edit',
+  gags: 'usage.operation.gags',
+};
+
+const formatSeconds = (ms: number, language: string) =>
+  `${(ms / 1000).toLocaleString(language, { minimumFractionDigits: 1, maximumFractionDigits: 1 })} s`;
+
+const formatTokens = (tokens: number, language: string) => tokens.toLocaleString(language);
+
+const formatBytes = (bytes: number, language: string) =>
+  bytes >= 1024 * 1024
+    ? `${(bytes / 1024 / 1024).toLocaleString(language, { minimumFractionDigits: 1, maximumFractionDigits: 1 })} MB`
+    : `${Math.round(bytes / 1024).toLocaleString(language)} KB`;
+
+const Stat: React.FC<{ label: string; value: string; detail?: string }> = ({ label, value, detail }) => (
+  <div className="bg-gray-900/50 rounded-lg p-4">
+    <div className="text-xs uppercase tracking-wide text-gray-500">{label}</div>
+    <div className="text-2xl font-semibold text-gray-200 mt-1">{value}</div>
+    {detail && <div className="text-xs text-gray-500 mt-1">{detail}</div>}
+  </div>
+);
+
+/**
+ * Model calls made from this browser: daily totals, estimated cost against a
+ * soft budget, the latest calls, and the price table the estimates use.
+ */
+const UsageDashboard: React.FC<{
+  records: UsageRecord[];
+  settings: UsageSettings;
+  loadError: string | null;
+  onSettingsChange: (settings: UsageSettings) => void;
+  onExportCsv: () => void;
+  onClear: () => void;
+}> = ({ records, settings, loadError, onSettingsChange, onExportCsv, onClear }) => {
+  const { language, t } = useI18n();
+  const daily = useMemo(() => getDailyTotals(records, settings.prices), [records, settings.prices]);
+  const recent = useMemo(() => [...records].sort((a, b) => b.createdAt - a.createdAt).slice(0, RECENT_CALLS), [records]);
+  const spent = getPeriodSpend(records, settings, Date.now());
+  const successes = records.filter(record => record.outcome === 'success').length;
+  const totalLatency = records.reduce((total, record) => total + record.latencyMs, 0);
+  const totalTokens = records.reduce((total, record) => total + (record.usage?.totalTokens ?? 0), 0);
+  const unpricedModels = records
+    .map(record => record.model)
+    .filter((model, index, models) => models.indexOf(model) === index && !settings.prices.some(price => price.model === model));
+  const budgetShare = settings.budget ? Math.min(1, spent / settings.budget) : 0;
+
+  const update = (changes: Partial<UsageSettings>) => onSettingsChange({ ...settings, ...changes });
+
+  const updatePrice = (index: number, changes: Partial<ModelPrice>) =>
+    update({ prices: settings.prices.map((price, i) => (i === index ? { ...price, ...changes } : price)) });
+
+  const addPrice = (model = '') =>
+    update({ prices: [...settings.prices, { model, inputPerMillion: 0, outputPerMillion: 0, perRequest: 0 }] });
+
+  const removePrice = (index: number) => update({ prices: settings.prices.filter((_, i) => i !== index) });
+
+  const priceInput = (index: number, field: Exclude<keyof ModelPrice, 'model'>, label: MessageKey) => (
+    <input
+      type="number"
+      min={0}
+      step="any"
+      value={settings.prices[index][field]}
+      onChange={(e) => updatePrice(index, { [field]: Math.max(0, Number(e.target.value) || 0) })}
+      className={inputClass}
+      aria-label={t(label, { model: settings.prices[index].model || t('usage.newModel') })}
+    />
+  );
+
+  return (
+    <div className="space-y-8">
+      {loadError && <p className="text-sm text-yellow-300">{loadError}</p>}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <Stat
+          label={t('usage.calls')}
+          value={records.length.toLocaleString(language)}
+          detail={records.length ? t('usage.succeeded', { percent: Math.round((successes / records.length) * 100) }) : undefined}
+        />
+        <Stat label={t('usage.averageLatency')} value={records.length ? formatSeconds(totalLatency / records.length, language) : '–'} />
+        <Stat label={t('usage.tokens')} value={formatTokens(totalTokens, language)} />
+        <Stat
+          label={t(settings.budgetPeriod === 'day' ? 'usage.costToday' : 'usage.costThisMonth')}
+          value={formatCost(spent)}
+          detail={settings.budget ? t('usage.ofBudget', { budget: formatCost(settings.budget) }) : t('usage.noBudget')}
+        />
+      </div>
+
+      <div className="bg-gray-700/30 rounded-lg p-4 space-y-3">
+        <h3 className="text-lg font-semibold text-gray-300">{t('usage.budget')}</h3>
+        <div className="flex flex-col sm:flex-row gap-3 sm:items-end">
+          <label className="block text-sm text-gray-300 sm:w-48">
+            {t('usage.softLimit')}
+            <input
+              type="number"
+              min={0}
+              step="any"
+              value={settings.budget ?? ''}
+              placeholder={t('usage.none')}
+              onChange={(e) => update({ budget: e.target.value === '' ? null : Math.max(0, Number(e.target.value) || 0) })}
+              className={`${inputClass} mt-1`}
+            />
+          </label>
+          <label className="block text-sm text-gray-300 sm:w-48">
+            {t('usage.per')}
+            <select value={settings.budgetPeriod} onChange={(e) => update({ budgetPeriod: e.target.value as BudgetPeriod })} className={`${inputClass} mt-1`}>
+              <option value="day">{t('usage.day')}</option>
+              <option value="month">{t('usage.month')}</option>
+            </select>
+          </label>
+        </div>
+        {settings.budget !== null && (
+          <div className="h-2 bg-gray-900/50 rounded-full overflow-hidden" role="progressbar" aria-label={t('usage.budgetUsed')} aria-valuenow={Math.round(budgetShare * 100)} aria-valuemin={0} aria-valuemax={100}>
+            <div className={`h-full ${budgetShare >= 1 ? 'bg-red-500' : budgetShare >= 0.8 ? 'bg-yellow-500' : 'bg-green-500'}`} style={{ width: `${budgetShare * 100}%` }} />
+          </div>
+        )}
+        <p className="text-xs text-gray-500">
+          {t(settings.budgetPeriod === 'day' ? 'usage.budgetHintDay' : 'usage.budgetHintMonth')}
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-300">{t('usage.dailyTotals')}</h3>
+          <div className="flex gap-2">
+            <button onClick={onExportCsv} disabled={records.length === 0} className={toolbarButtonClass}>{t('usage.exportCsv')}</button>
+            <button onClick={onClear} disabled={records.length === 0} className={toolbarButtonClass}>{t('usage.clearLog')}</button>
+          </div>
+        </div>
+        {daily.length === 0 ? (
+          <p className="text-sm text-gray-500">{t('usage.empty')}</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-start text-gray-300">
+              <thead className="text-xs uppercase text-gray-500">
+                <tr>
+                  <th className="px-3 py-2">{t('usage.column.day')}</th>
+                  <th className="px-3 py-2 text-end">{t('usage.calls')}</th>
+                  <th className="px-3 py-2 text-end">{t('usage.column.failed')}</th>
+                  <th className="px-3 py-2 text-end">{t('usage.column.inputImages')}</th>
+                  <th className="px-3 py-2 text-end">{t('usage.column.tokensInOut')}</th>
+                  <th className="px-3 py-2 text-end">{t('usage.column.averageLatency')}</th>
+                  <th className="px-3 py-2 text-end">{t('usage.column.cost')}</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-700">
+                {daily.map(day => (
+                  <tr key={day.day}>
+                    <td className="px-3 py-2">{day.day}</td>
+                    <td className="px-3 py-2 text-end">{day.calls}</td>
+                    <td className="px-3 py-2 text-end">{day.failures}</td>
+                    <td className="px-3 py-2 text-end">{formatBytes(day.inputBytes, language)}</td>
+                    <td className="px-3 py-2 text-end">{formatTokens(day.promptTokens, language)} / {formatTokens(day.outputTokens, language)}</td>
+                    <td className="px-3 py-2 text-end">{formatSeconds(day.averageLatencyMs, language)}</td>
+                    <td className="px-3 py-2 text-end" title={day.unpriced ? t('usage.unpricedCalls', { count: day.unpriced }) : undefined}>
+                      {formatCost(day.cost)}{day.unpriced ? '*' : ''}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {recent.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-lg font-semibold text-gray-300">{t('usage.latestCalls')}</h3>
+          <div className="overflow-x-auto max-h-96 overflow-y-auto">
+            <table className="w-full text-sm text-start text-gray-300">
+              <thead className="text-xs uppercase text-gray-500">
+                <tr>
+                  <th className="px-3 py-2">{t('usage.column.time')}</th>
+                  <th className="px-3 py-2">{t('usage.column.operation')}</th>
+                  <th className="px-3 py-2">{t('usage.column.model')}</th>
+                  <th className="px-3 py-2">{t('usage.column.result')}</th>
+                  <th className="px-3 py-2 text-end">{t('usage.column.latency')}</th>
+                  <th className="px-3 py-2 text-end">{t('usage.tokens')}</th>
+                  <th className="px-3 py-2 text-end">{t('usage.column.cost')}</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-700">
+                {recent.map(record => {
+                  const cost = estimateCost(record, settings.prices);
+                  return (
+                    <tr key={record.id}>
+                      <td className="px-3 py-2 whitespace-nowrap">{new Date(record.createdAt).toLocaleString(language)}</td>
+                      <td className="px-3 py-2">{t(OPERATION_LABELS[record.operation])}</td>
+                      <td className="px-3 py-2">{record.model}</td>
+                      <td className={`px-3 py-2 ${record.outcome === 'success' ? 'text-green-400' : record.outcome === 'cancelled' ? 'text-gray-400' : 'text-red-400'}`}>
+                        {t(OUTCOME_LABELS[record.outcome])}
+                      </td>
+                      <td className="px-3 py-2 text-end">{formatSeconds(record.latencyMs, language)}</td>
+                      <td className="px-3 py-2 text-end">{record.usage ? formatTokens(record.usage.totalTokens, language) : '–'}</td>
+                      <td className="px-3 py-2 text-end">{cost === null ? '–' : formatCost(cost)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-gray-700/30 rounded-lg p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-300">{t('usage.prices')}</h3>
+          <div className="flex gap-2">
+            <button onClick={() => addPrice()} className={toolbarButtonClass}>{t('usage.addModel')}</button>
+            <button onClick={() => update({ prices: DEFAULT_PRICES })} className={toolbarButtonClass}>{t('usage.reset')}</button>
+          </div>
+        </div>
+        <p className="text-xs text-gray-500">
+          {t('usage.pricesHint')}
+        </p>
+        {unpricedModels.length > 0 && (
+          <p className="text-sm text-yellow-300">
+            {t('usage.unpricedModels', { models: unpricedModels.join(', ') })}{' '}
+            {unpricedModels.map(model => (
+              <button key={model} onClick={() => addPrice(model)} className="text-purple-400 hover:text-purple-300 me-2">{t('usage.addNamedModel', { model })}</button>
+            ))}
+          </p>
+        )}
+        <div className="space-y-2">
+          <div className="hidden sm:grid grid-cols-[2fr_1fr_1fr_1fr_auto] gap-2 text-xs text-gray-500">
+            <span>{t('usage.column.model')}</span>
+            <span>{t('usage.column.inputPrice')}</span>
+            <span>{t('usage.column.outputPrice')}</span>
+            <span>{t('usage.column.perCall')}</span>
+            <span className="w-14" />
+          </div>
+          {settings.prices.map((price, index) => (
+            <div key={index} className="grid grid-cols-2 sm:grid-cols-[2fr_1fr_1fr_1fr_auto] gap-2 items-center">
+              <input
+                type="text"
+                value={price.model}
+                onChange={(e) => updatePrice(index, { model: e.target.value.trim() })}
+                placeholder={t('usage.modelId')}
+                className={`${inputClass} col-span-2 sm:col-span-1`}
+                aria-label={t('usage.modelId')}
+              />
+              {priceInput(index, 'inputPerMillion', 'usage.inputPriceFor')}
+              {priceInput(index, 'outputPerMillion', 'usage.outputPriceFor')}
+              {priceInput(index, 'perRequest', 'usage.callPriceFor')}
+              <button onClick={() => removePrice(index)} className="text-red-400 hover:text-red-300 text-xs w-14">{t('usage.remove')}</button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UsageDashboard;
@@ -0,0 +1,205 @@
+import React, { useEffect, useState } from 'react';
+import type { Creation, ProvenanceManifest } from '../types';
+import type { MessageKey } from '../locales/en';
+import type { BadgePosition, ProvenanceReport, ProvenanceSettings } from '../services/provenance';
+import { BADGE_POSITIONS, readProvenance, sha256 } from '../services/provenance';
+import { useI18n } from '../hooks/useI18n';
+
+const inputClass = 'bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-purple-500 focus:border-purple-500 block w-full p-2';
+const fileClass = 'block w-full text-sm text-gray-400 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:text-sm file:font-semibold file:bg-purple-600 file:text-white hover:file:bg-purple-700';
+
+const OPERATION_LABELS: Record<ProvenanceManifest['operation'], MessageKey> = {
+  cartoon: 'verify.operation.cartoon',
+  strip: 'verify.operation.strip',
+  edit: 'verify.operation.edit',
+  restyle: 'verify.operation.restyle',
+};
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div className="grid grid-cols-3 gap-2 py-1">
+    <dt className="text-gray-500">{label}</dt>
+    <dd className="col-span-2 text-gray-200 break-all">{children}</dd>
+  </div>
+);
+
+/**
+ * Reads the invisible watermark and the provenance manifest back from any
+ * image file, and sets up the visible badge stamped on new images.
+ */
+const VerifyImage: React.FC<{
+  creations: Creation[];
+  settings: ProvenanceSettings;
+  onSettingsChange: (settings: ProvenanceSettings) => void;
+  onOpenCreation: (creation: Creation) => void;
+}> = ({ creations, settings, onSettingsChange, onOpenCreation }) => {
+  const { language, t } = useI18n();
+  const [image, setImage] = useState<File | null>(null);
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [sidecar, setSidecar] = useState<File | null>(null);
+  const [report, setReport] = useState<ProvenanceReport | null>(null);
+  const [isReading, setIsReading] = useState<boolean>(false);
+  const [readError, setReadError] = useState<string | null>(null);
+  const [prompt, setPrompt] = useState<string>('');
+  const [promptHash, setPromptHash] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!image) return;
+    const url = URL.createObjectURL(image);
+    setImageUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [image]);
+
+  // Read again whenever the image or sidecar changes.
+  useEffect(() => {
+    if (!image) return;
+    let cancelled = false;
+    setIsReading(true);
+    setReadError(null);
+    readProvenance(image, sidecar)
+      .then((result) => {
+        if (!cancelled) setReport(result);
+      })
+      .catch((e) => {
+        console.error(e);
+        if (!cancelled) {
+          setReport(null);
+          setReadError(t('verify.readError'));
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setIsReading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [image, sidecar, t]);
+
+  useEffect(() => {
+    let cancelled = false;
+    if (!prompt) {
+      setPromptHash(null);
+      return;
+    }
+    sha256(prompt).then((hash) => {
+      if (!cancelled) setPromptHash(hash);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [prompt]);
+
+  const update = (changes: Partial<ProvenanceSettings>) => onSettingsChange({ ...settings, ...changes });
+  const findCreation = (id: string) => creations.find(creation => creation.provenance?.id === id);
+
+  const manifest = report?.manifest ?? null;
+  const watermarkId = report?.watermarkId ?? null;
+  const match = findCreation(watermarkId ?? manifest?.id ?? '');
+
+  const renderVerdict = () => {
+    if (!report) return null;
+    if (watermarkId && manifest) {
+      return manifest.id === watermarkId
+        ? <p className="text-green-400 font-semibold">{t('verify.matches')}</p>
+        : <p className="text-yellow-300 font-semibold">{t('verify.mismatch')}</p>;
+    }
+    if (watermarkId) return <p className="text-green-400 font-semibold">{t('verify.watermarkOnly')}</p>;
+    if (manifest) return <p className="text-yellow-300 font-semibold">{t('verify.manifestOnly')}</p>;
+    return <p className="text-gray-400 font-semibold">{t('verify.nothing')}</p>;
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="grid md:grid-cols-2 gap-6">
+        <div className="space-y-4">
+          <h3 className="text-lg font-semibold text-gray-300">{t('verify.title')}</h3>
+          <label className="block text-sm text-gray-300">
+            {t('verify.image')}
+            <input type="file" accept="image/*" onChange={(e) => setImage(e.target.files?.[0] ?? null)} className={`${fileClass} mt-1`} />
+          </label>
+          <label className="block text-sm text-gray-300">
+            {t('verify.sidecar')}
+            <input type="file" accept=".json,application/json" onChange={(e) => setSidecar(e.target.files?.[0] ?? null)} className={`${fileClass} mt-1`} />
+          </label>
+          {imageUrl && <img src={imageUrl} alt={t('verify.imageAlt')} className="max-h-80 rounded-md" />}
+        </div>
+
+        <div className="space-y-4 text-sm">
+          {isReading && <p className="text-gray-400">{t('verify.reading')}</p>}
+          {readError && <p className="text-red-400">{readError}</p>}
+          {!isReading && renderVerdict()}
+          {report && (
+            <dl className="bg-gray-900/50 rounded-lg p-4 divide-y divide-gray-800">
+              <Field label={t('verify.watermarkId')}>{watermarkId ?? t('verify.noneFound')}</Field>
+              <Field label={t('verify.manifest')}>{t(report.manifestSource === 'embedded' ? 'verify.embedded' : report.manifestSource === 'sidecar' ? 'verify.fromSidecar' : 'verify.noneFound')}</Field>
+              {manifest && (
+                <>
+                  <Field label={t('verify.manifestId')}>{manifest.id}</Field>
+                  <Field label={t('verify.madeWith')}>{manifest.generator}</Field>
+                  <Field label={t('verify.operation')}>{OPERATION_LABELS[manifest.operation] ? t(OPERATION_LABELS[manifest.operation]) : manifest.operation}</Field>
+                  <Field label={t('provider.model')}>{[manifest.providerId, manifest.model].filter(Boolean).join(' · ') || t('verify.unknown')}</Field>
+                  <Field label={t('verify.created')}>{new Date(manifest.createdAt).toLocaleString(language)}</Field>
+                  <Field label={t('verify.visibleBadge')}>{manifest.badge ? t('verify.yes') : t('verify.no')}</Field>
+                  <Field label={t('verify.promptHash')}>{manifest.promptHash}</Field>
+                  <Field label={t('verify.sourceImages')}>
+                    {manifest.sourceImageHashes.length === 0 ? t('verify.none') : (
+                      <ul className="space-y-1">{manifest.sourceImageHashes.map(hash => <li key={hash}>{hash}</li>)}</ul>
+                    )}
+                  </Field>
+                  <Field label={t('verify.editedFrom')}>
+                    {manifest.editChain.length === 0 ? t('verify.original') : (
+                      <ol className="space-y-1 list-decimal list-inside">
+                        {manifest.editChain.map(id => <li key={id}>{id}{findCreation(id) ? ` ${t('verify.inGallery')}` : ''}</li>)}
+                      </ol>
+                    )}
+                  </Field>
+                </>
+              )}
+            </dl>
+          )}
+          {match && (
+            <div className="flex items-center justify-between gap-3 bg-gray-700/30 rounded-lg p-3">
+              <span className="text-gray-300">{t('verify.match')}</span>
+              <button onClick={() => onOpenCreation(match)} className="text-white bg-purple-600 hover:bg-purple-700 font-medium rounded-lg text-xs px-3 py-2">{t('gallery.open')}</button>
+            </div>
+          )}
+          {manifest && (
+            <label className="block text-gray-300">
+              {t('verify.checkPrompt')}
+              <input type="text" value={prompt} onChange={(e) => setPrompt(e.target.value)} placeholder={t('verify.promptPlaceholder')} className={`${inputClass} mt-1`} />
+              {promptHash && (
+                <span className={`block mt-1 text-xs ${promptHash === manifest.promptHash ? 'text-green-400' : 'text-gray-400'}`}>
+                  {promptHash === manifest.promptHash ? t('verify.promptMatches') : t('verify.promptDiffers')}
+                </span>
+              )}
+            </label>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-gray-700/30 rounded-lg p-4 space-y-3">
+        <h3 className="text-lg font-semibold text-gray-300">{t('verify.labelling')}</h3>
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input type="checkbox" checked={settings.badge} onChange={(e) => update({ badge: e.target.checked })} className="form-checkbox h-4 w-4 text-purple-600 bg-gray-700 border-gray-600 rounded focus:ring-purple-500" />
+          <span className="text-gray-300 text-sm">{t('verify.stampBadge')}</span>
+        </label>
+        <div className="flex flex-col sm:flex-row gap-3">
+          <label className="block text-sm text-gray-300 sm:w-64">
+            {t('verify.badgeText')}
+            <input type="text" value={settings.badgeText} disabled={!settings.badge} onChange={(e) => update({ badgeText: e.target.value })} className={`${inputClass} mt-1 disabled:opacity-50`} />
+          </label>
+          <label className="block text-sm text-gray-300 sm:w-48">
+            {t('verify.position')}
+            <select value={settings.badgePosition} disabled={!settings.badge} onChange={(e) => update({ badgePosition: e.target.value as BadgePosition })} className={`${inputClass} mt-1 disabled:opacity-50`}>
+              {BADGE_POSITIONS.map(position => <option key={position.value} value={position.value}>{t(position.labelKey)}</option>)}
+            </select>
+          </label>
+        </div>
+        <p className="text-xs text-gray-500">
+          {t('verify.hint')}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default VerifyImage;
@@ -0,0 +1,115 @@
+import { useState, useCallback } from 'react';
+import type { AnimationParams, KeyframeScript, ProviderSelection } from '../types';
+import { generateKeyframe } from '../services/geminiService';
+import { DEFAULT_FRAME_DURATION_MS, DEFAULT_KEYFRAMES, MAX_KEYFRAMES, MIN_KEYFRAMES, moveItem } from '../services/animation';
+import { dataUrlToBlob } from '../utils/blob';
+
+/**
+ * State for the animated mode: the keyframe script, the drawn frames and
+ * whether the animation loops. A frame's image moves with it when the script
+ * is reordered.
+ */
+export const useAnimation = () => {
+  const [keyframes, setKeyframes] = useState<KeyframeScript[]>(DEFAULT_KEYFRAMES);
+  const [frameUrls, setFrameUrls] = useState<(string | null)[]>(DEFAULT_KEYFRAMES.map(() => null));
+  const [loop, setLoop] = useState<boolean>(true);
+  const [busyFrames, setBusyFrames] = useState<number[]>([]);
+
+  const updateKeyframe = useCallback((index: number, patch: Partial<KeyframeScript>) => {
+    setKeyframes((prev) => prev.map((keyframe, i) => (i === index ? { ...keyframe, ...patch } : keyframe)));
+  }, []);
+
+  const addKeyframe = useCallback(() => {
+    setKeyframes((prev) => (prev.length < MAX_KEYFRAMES ? [...prev, { action: '', durationMs: DEFAULT_FRAME_DURATION_MS }] : prev));
+    setFrameUrls((prev) => (prev.length < MAX_KEYFRAMES ? [...prev, null] : prev));
+  }, []);
+
+  const removeKeyframe = useCallback((index: number) => {
+    setKeyframes((prev) => (prev.length > MIN_KEYFRAMES ? prev.filter((_, i) => i !== index) : prev));
+    setFrameUrls((prev) => (prev.length > MIN_KEYFRAMES ? prev.filter((_, i) => i !== index) : prev));
+  }, []);
+
+  const moveKeyframe = useCallback((from: number, to: number) => {
+    setKeyframes((prev) => moveItem(prev, from, to));
+    setFrameUrls((prev) => moveItem(prev, from, to));
+  }, []);
+
+  // Null URLs are keyframes that have not been drawn yet.
+  const loadAnimation = useCallback((params: Pick<AnimationParams, 'keyframes' | 'loop'>, urls: (string | null)[]) => {
+    setKeyframes(params.keyframes);
+    setLoop(params.loop);
+    setFrameUrls(urls);
+  }, []);
+
+  const renderFrame = async (
+    index: number,
+    params: AnimationParams,
+    previous: string | null,
+    provider: ProviderSelection,
+    signal?: AbortSignal
+  ): Promise<string> => {
+    const previousBlob = previous ? await dataUrlToBlob(previous) : null;
+    return generateKeyframe(
+      params.keyframes, index, params.style, params.signature,
+      params.characterImage, params.characters, previousBlob, params.colorOption, params.language, provider, signal
+    );
+  };
+
+  /**
+   * Draws every keyframe in order, each from the one before, and returns the
+   * frame URLs.
+   */
+  const generateAll = useCallback(async (
+    params: AnimationParams,
+    provider: ProviderSelection,
+    signal?: AbortSignal
+  ): Promise<string[]> => {
+    const urls: (string | null)[] = params.keyframes.map(() => null);
+    setKeyframes(params.keyframes);
+    setFrameUrls(urls);
+    try {
+      for (let i = 0; i < params.keyframes.length; i++) {
+        setBusyFrames([i]);
+        urls[i] = await renderFrame(i, params, i === 0 ? null : urls[i - 1], provider, signal);
+        setFrameUrls([...urls]);
+      }
+    } finally {
+      setBusyFrames([]);
+    }
+    return urls as string[];
+  }, []);
+
+  /**
+   * Redraws one keyframe from the frame before it, or from scratch for the
+   * first. The frames after it are left as they are.
+   */
+  const regenerateFrame = useCallback(async (
+    index: number,
+    params: AnimationParams,
+    provider: ProviderSelection,
+    signal?: AbortSignal
+  ): Promise<void> => {
+    setBusyFrames((prev) => [...prev, index]);
+    try {
+      const url = await renderFrame(index, params, index === 0 ? null : frameUrls[index - 1], provider, signal);
+      setFrameUrls((prev) => prev.map((existing, i) => (i === index ? url : existing)));
+    } finally {
+      setBusyFrames((prev) => prev.filter((i) => i !== index));
+    }
+  }, [frameUrls]);
+
+  return {
+    keyframes,
+    frameUrls,
+    loop,
+    busyFrames,
+    setLoop,
+    updateKeyframe,
+    addKeyframe,
+    removeKeyframe,
+    moveKeyframe,
+    loadAnimation,
+    generateAll,
+    regenerateFrame,
+  };
+};
@@ -0,0 +1,35 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { Character } from '../types';
+import { listCharacters, saveCharacter, deleteCharacter } from '../services/characterStore';
+
+/**
+ * The recurring characters kept in IndexedDB.
+ */
+export const useCharacterRoster = () => {
+  const [characters, setCharacters] = useState<Character[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    listCharacters()
+      .then((loaded) => {
+        if (!cancelled) setCharacters(loaded);
+      })
+      .catch((e) => console.error('Failed to load characters:', e));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Adds a character or replaces the one with the same id.
+  const putCharacter = useCallback(async (character: Character) => {
+    setCharacters((prev) => [...prev.filter((c) => c.id !== character.id), character].sort((a, b) => a.name.localeCompare(b.name)));
+    await saveCharacter(character);
+  }, []);
+
+  const removeCharacter = useCallback(async (id: string) => {
+    await deleteCharacter(id);
+    setCharacters((prev) => prev.filter((c) => c.id !== id));
+  }, []);
+
+  return { characters, putCharacter, removeCharacter };
+};
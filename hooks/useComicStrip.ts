@@ -0,0 +1,166 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { PanelScript, ProviderSelection, StripLayout, StripParams } from '../types';
+import { generateStripPanel } from '../services/geminiService';
+import { localize } from '../services/i18n';
+import { composeStrip } from '../services/stripComposer';
+import { resolveStyle } from '../services/styleLibrary';
+import { dataUrlToBlob } from '../utils/blob';
+
+export const MIN_PANELS = 2;
+export const MAX_PANELS = 6;
+
+export interface StripResult {
+  panelUrls: string[];
+  composite: string;
+}
+
+const DEFAULT_PANELS: PanelScript[] = [
+  { action: 'A cat sits down in front of a laptop', dialogue: '' },
+  { action: 'The cat stares at the screen, puzzled', dialogue: 'Where is the mouse?' },
+  { action: 'The cat proudly drops a real mouse on the keyboard', dialogue: 'Found it!' },
+];
+
+const isComplete = (panelUrls: (string | null)[]): panelUrls is string[] =>
+  panelUrls.length > 0 && panelUrls.every((url) => url !== null);
+
+/**
+ * State for the multi-panel strip mode: the panel script, the generated panel
+ * images and the composited strip.
+ */
+export const useComicStrip = () => {
+  const [panels, setPanels] = useState<PanelScript[]>(DEFAULT_PANELS);
+  const [layout, setLayout] = useState<StripLayout>('horizontal');
+  const [panelUrls, setPanelUrls] = useState<(string | null)[]>(DEFAULT_PANELS.map(() => null));
+  const [busyPanels, setBusyPanels] = useState<number[]>([]);
+  const [composite, setComposite] = useState<string | null>(null);
+  const [composeError, setComposeError] = useState<string | null>(null);
+  // Kept in step with every change rather than with renders, so panels that
+  // finish at the same time each add to the other's result.
+  const panelUrlsRef = useRef<(string | null)[]>(panelUrls);
+
+  // Applies `update` to the latest panel URLs and returns the result.
+  const updatePanelUrls = useCallback((update: (prev: (string | null)[]) => (string | null)[]) => {
+    panelUrlsRef.current = update(panelUrlsRef.current);
+    setPanelUrls(panelUrlsRef.current);
+    return panelUrlsRef.current;
+  }, []);
+
+  // Re-composite whenever the panels or the layout change.
+  useEffect(() => {
+    setComposeError(null);
+    if (!isComplete(panelUrls)) {
+      setComposite(null);
+      return;
+    }
+    let cancelled = false;
+    composeStrip(panelUrls, layout)
+      .then((url) => {
+        if (!cancelled) setComposite(url);
+      })
+      .catch((e) => {
+        console.error('Failed to compose strip:', e);
+        if (!cancelled) setComposeError(localize('error.composeStrip'));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [panelUrls, layout]);
+
+  const updatePanel = useCallback((index: number, patch: Partial<PanelScript>) => {
+    setPanels((prev) => prev.map((panel, i) => (i === index ? { ...panel, ...patch } : panel)));
+  }, []);
+
+  const addPanel = useCallback(() => {
+    setPanels((prev) => (prev.length < MAX_PANELS ? [...prev, { action: '', dialogue: '' }] : prev));
+    updatePanelUrls((prev) => (prev.length < MAX_PANELS ? [...prev, null] : prev));
+  }, [updatePanelUrls]);
+
+  const removePanel = useCallback((index: number) => {
+    setPanels((prev) => (prev.length > MIN_PANELS ? prev.filter((_, i) => i !== index) : prev));
+    updatePanelUrls((prev) => (prev.length > MIN_PANELS ? prev.filter((_, i) => i !== index) : prev));
+  }, [updatePanelUrls]);
+
+  // Null URLs are panels that have not been drawn yet.
+  const loadStrip = useCallback((params: Pick<StripParams, 'panels' | 'layout'>, urls: (string | null)[]) => {
+    setPanels(params.panels);
+    setLayout(params.layout);
+    updatePanelUrls(() => urls);
+  }, [updatePanelUrls]);
+
+  const renderPanel = async (
+    index: number,
+    params: StripParams,
+    reference: string | null,
+    provider: ProviderSelection,
+    signal?: AbortSignal
+  ): Promise<string> => {
+    const referenceBlob = reference ? await dataUrlToBlob(reference) : null;
+    // A typeset signature is drawn by the text overlay, so the model is not asked for one.
+    const signature = params.signatureMode === 'overlay' ? '' : params.signature;
+    return generateStripPanel(
+      params.panels, index, resolveStyle(params), signature,
+      params.characterImage, params.characters ?? [], referenceBlob, params.colorOption, params.language ?? 'en', provider, signal
+    );
+  };
+
+  /**
+   * Generates every panel. The first panel is drawn on its own and then used as
+   * the visual reference for the rest, which keeps characters and style aligned.
+   */
+  const generateAll = useCallback(async (
+    params: StripParams,
+    provider: ProviderSelection,
+    signal?: AbortSignal
+  ): Promise<StripResult> => {
+    const urls: (string | null)[] = params.panels.map(() => null);
+    setPanels(params.panels);
+    setLayout(params.layout);
+    updatePanelUrls(() => urls);
+    try {
+      for (let i = 0; i < params.panels.length; i++) {
+        setBusyPanels([i]);
+        urls[i] = await renderPanel(i, params, i === 0 ? null : urls[0], provider, signal);
+        updatePanelUrls(() => [...urls]);
+      }
+    } finally {
+      setBusyPanels([]);
+    }
+    const complete = urls as string[];
+    return { panelUrls: complete, composite: await composeStrip(complete, params.layout) };
+  }, [updatePanelUrls]);
+
+  const regeneratePanel = useCallback(async (
+    index: number,
+    params: StripParams,
+    provider: ProviderSelection,
+    signal?: AbortSignal
+  ): Promise<StripResult | null> => {
+    // Any other finished panel works as the consistency reference.
+    const reference = panelUrlsRef.current.find((url, i) => i !== index && url !== null) ?? null;
+    setBusyPanels((prev) => [...prev, index]);
+    try {
+      const url = await renderPanel(index, params, reference, provider, signal);
+      // Other panels may have been redrawn meanwhile, so only this one is replaced.
+      const urls = updatePanelUrls((prev) => prev.map((existing, i) => (i === index ? url : existing)));
+      return isComplete(urls) ? { panelUrls: urls, composite: await composeStrip(urls, params.layout) } : null;
+    } finally {
+      setBusyPanels((prev) => prev.filter((i) => i !== index));
+    }
+  }, [updatePanelUrls]);
+
+  return {
+    panels,
+    layout,
+    panelUrls,
+    busyPanels,
+    composite,
+    composeError,
+    setLayout,
+    updatePanel,
+    addPanel,
+    removePanel,
+    loadStrip,
+    generateAll,
+    regeneratePanel,
+  };
+};
@@ -0,0 +1,94 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { Creation } from '../types';
+import { listCreations, saveCreation, deleteCreation } from '../services/historyStore';
+import { localize } from '../services/i18n';
+
+/**
+ * Loads the creation gallery from IndexedDB and keeps an object URL per entry
+ * so the images can be shown without re-reading the blobs.
+ */
+export const useCreations = () => {
+  const [creations, setCreations] = useState<Creation[]>([]);
+  const [imageUrls, setImageUrls] = useState<Record<string, string>>({});
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const urlsRef = useRef<Record<string, string>>({});
+  const creationsRef = useRef<Creation[]>(creations);
+  creationsRef.current = creations;
+
+  useEffect(() => {
+    let cancelled = false;
+    listCreations()
+      .then((loaded) => {
+        if (cancelled) return;
+        const urls: Record<string, string> = {};
+        for (const creation of loaded) {
+          urls[creation.id] = URL.createObjectURL(creation.image);
+        }
+        urlsRef.current = urls;
+        setImageUrls(urls);
+        setCreations(loaded);
+      })
+      .catch((e) => {
+        console.error('Failed to load history:', e);
+        if (!cancelled) setLoadError(localize('error.loadCreations'));
+      });
+    return () => {
+      cancelled = true;
+      for (const id of Object.keys(urlsRef.current)) {
+        URL.revokeObjectURL(urlsRef.current[id]);
+      }
+      urlsRef.current = {};
+    };
+  }, []);
+
+  // Resolves to false when the creation could not be saved; it is still kept for this session.
+  const addCreation = useCallback(async (creation: Creation): Promise<boolean> => {
+    const url = URL.createObjectURL(creation.image);
+    urlsRef.current = { ...urlsRef.current, [creation.id]: url };
+    setImageUrls(urlsRef.current);
+    setCreations((prev) => [creation, ...prev]);
+    try {
+      await saveCreation(creation);
+      return true;
+    } catch {
+      return false;
+    }
+  }, []);
+
+  // Replaces a saved creation with an updated copy, e.g. after its text overlay was edited.
+  const updateCreation = useCallback(async (id: string, update: (creation: Creation) => Creation) => {
+    const current = creationsRef.current.find((c) => c.id === id);
+    if (!current) return;
+    const updated = update(current);
+    setCreations((prev) => prev.map((c) => (c.id === id ? updated : c)));
+    await saveCreation(updated);
+  }, []);
+
+  // Saves creations from a project file, replacing any with the same id. Returns the updated URLs.
+  const importCreations = useCallback(async (imported: Creation[]): Promise<Record<string, string>> => {
+    const ids = new Set(imported.map((c) => c.id));
+    const urls = { ...urlsRef.current };
+    for (const creation of imported) {
+      if (urls[creation.id]) URL.revokeObjectURL(urls[creation.id]);
+      urls[creation.id] = URL.createObjectURL(creation.image);
+    }
+    urlsRef.current = urls;
+    setImageUrls(urls);
+    setCreations((prev) => [...imported, ...prev.filter((c) => !ids.has(c.id))].sort((a, b) => b.createdAt - a.createdAt));
+    for (const creation of imported) {
+      await saveCreation(creation);
+    }
+    return urls;
+  }, []);
+
+  const removeCreation = useCallback(async (id: string) => {
+    await deleteCreation(id);
+    const { [id]: url, ...rest } = urlsRef.current;
+    if (url) URL.revokeObjectURL(url);
+    urlsRef.current = rest;
+    setImageUrls(rest);
+    setCreations((prev) => prev.filter((c) => c.id !== id));
+  }, []);
+
+  return { creations, imageUrls, loadError, addCreation, updateCreation, importCreations, removeCreation };
+};
@@ -0,0 +1,102 @@
+import { useState, useMemo, useCallback, useRef } from 'react';
+import type { Creation, EditCreation } from '../types';
+import { createId } from '../services/historyStore';
+import { getChildren, getPath, getRootId, findRootImage, reattachOrphans, toEditNode } from '../services/editTree';
+import type { EditNode } from '../services/editTree';
+import { blobToDataUrl } from '../utils/blob';
+
+export interface TreeRoot {
+  id: string;
+  image: Blob;
+  createdAt: number;
+}
+
+const isEdit = (creation: Creation): creation is EditCreation => creation.kind === 'edit';
+
+/**
+ * The Image Editor's version tree. The upload is the root and every saved edit
+ * that shares its rootId is a node, so the tree always reflects the gallery.
+ * Undo steps to the parent; redo returns to the child undo came from, or the
+ * newest child otherwise.
+ */
+export const useEditTree = (creations: Creation[], imageUrls: Record<string, string>) => {
+  const [root, setRoot] = useState<TreeRoot | null>(null);
+  const [rootUrl, setRootUrl] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  // For each node, the child to return to on redo.
+  const redoRef = useRef<Record<string, string>>({});
+
+  const nodes = useMemo<EditNode[]>(() => {
+    if (!root) return [];
+    const edits = creations.filter(isEdit).filter(edit => getRootId(edit) === root.id).map(toEditNode);
+    const rootNode: EditNode = { id: root.id, parentId: null, prompt: null, image: root.image, createdAt: root.createdAt };
+    return reattachOrphans([rootNode, ...edits], root.id);
+  }, [creations, root]);
+
+  // Falls back to the root when the selected edit is deleted.
+  const selectedNode = nodes.find(node => node.id === selectedId) ?? nodes[0] ?? null;
+  const path = useMemo(() => (selectedNode ? getPath(nodes, selectedNode.id) : []), [nodes, selectedNode]);
+
+  const showRoot = useCallback((next: TreeRoot) => {
+    setRoot(next);
+    setRootUrl(null);
+    redoRef.current = {};
+    blobToDataUrl(next.image).then(setRootUrl);
+  }, []);
+
+  const startTree = useCallback((image: Blob) => {
+    const id = createId();
+    showRoot({ id, image, createdAt: Date.now() });
+    setSelectedId(id);
+  }, [showRoot]);
+
+  // Opens the tree a saved edit belongs to, with that edit selected.
+  const loadTree = useCallback((edit: EditCreation) => {
+    const id = getRootId(edit);
+    if (root?.id !== id) {
+      const edits = creations.filter(isEdit).filter(e => getRootId(e) === id);
+      showRoot({ id, image: findRootImage(edit, edits), createdAt: 0 });
+    }
+    setSelectedId(edit.id);
+  }, [creations, root, showRoot]);
+
+  // Reopens a tree from a project file, whose upload need not be in the gallery.
+  const restoreTree = useCallback((next: TreeRoot, selected: string | null) => {
+    showRoot(next);
+    setSelectedId(selected ?? next.id);
+  }, [showRoot]);
+
+  const getUrl = useCallback((id: string): string | null =>
+    (root && id === root.id ? rootUrl : imageUrls[id] ?? null), [root, rootUrl, imageUrls]);
+
+  const undo = useCallback(() => {
+    if (!selectedNode?.parentId) return;
+    redoRef.current[selectedNode.parentId] = selectedNode.id;
+    setSelectedId(selectedNode.parentId);
+  }, [selectedNode]);
+
+  const redo = useCallback(() => {
+    if (!selectedNode) return;
+    const children = getChildren(nodes, selectedNode.id);
+    if (children.length === 0) return;
+    const remembered = children.find(child => child.id === redoRef.current[selectedNode.id]);
+    setSelectedId((remembered ?? children[children.length - 1]).id);
+  }, [nodes, selectedNode]);
+
+  return {
+    root,
+    rootId: root?.id ?? null,
+    nodes,
+    selectedNode,
+    path,
+    canUndo: !!selectedNode?.parentId,
+    canRedo: !!selectedNode && getChildren(nodes, selectedNode.id).length > 0,
+    select: setSelectedId,
+    startTree,
+    loadTree,
+    restoreTree,
+    getUrl,
+    undo,
+    redo,
+  };
+};
@@ -0,0 +1,28 @@
+import { useState, useEffect } from 'react';
+import type { ExportSettings } from '../services/exportImage';
+import { DEFAULT_EXPORT_SETTINGS } from '../services/exportImage';
+
+const STORAGE_KEY = 'expresstoons.exportSettings';
+
+const loadSettings = (): ExportSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_EXPORT_SETTINGS, ...JSON.parse(stored) } : DEFAULT_EXPORT_SETTINGS;
+  } catch {
+    return DEFAULT_EXPORT_SETTINGS;
+  }
+};
+
+/**
+ * The format, print size and framing used for downloads, remembered across
+ * reloads and shared by single downloads and exported selections.
+ */
+export const useExportSettings = () => {
+  const [settings, setSettings] = useState<ExportSettings>(loadSettings);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  }, [settings]);
+
+  return { settings, setSettings };
+};
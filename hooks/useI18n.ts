@@ -0,0 +1,22 @@
+import { useCallback, useEffect, useSyncExternalStore } from 'react';
+import type { Translate } from '../services/i18n';
+import { getTextDirection, interfaceLanguage, translate } from '../services/i18n';
+
+/**
+ * The interface language, a `t` that translates into it, and the text
+ * direction. The page's lang and dir attributes follow the language, so
+ * right-to-left locales mirror the layout.
+ */
+export const useI18n = () => {
+  const language = useSyncExternalStore(interfaceLanguage.subscribe, interfaceLanguage.getSnapshot);
+  const dir = getTextDirection(language);
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+    document.documentElement.dir = dir;
+  }, [language, dir]);
+
+  const t: Translate = useCallback((key, values) => translate(language, key, values), [language]);
+
+  return { language, dir, t, setLanguage: interfaceLanguage.set };
+};
@@ -0,0 +1,49 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { CropRect, UploadSettings } from '../services/imagePreprocess';
+import { DEFAULT_UPLOAD_SETTINGS, loadOrientedImage, renderUpload, validateUpload } from '../services/imagePreprocess';
+
+const STORAGE_KEY = 'expresstoons.uploadSettings';
+
+const loadSettings = (): UploadSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_UPLOAD_SETTINGS, ...JSON.parse(stored) } : DEFAULT_UPLOAD_SETTINGS;
+  } catch {
+    return DEFAULT_UPLOAD_SETTINGS;
+  }
+};
+
+// An upload waiting in the cropper; resolve with null when the user cancels.
+export interface PendingCrop {
+  source: HTMLCanvasElement;
+  resolve: (crop: CropRect | null) => void;
+}
+
+/**
+ * Prepares picked files before they are used: validates them, turns them
+ * upright, optionally crops them in the cropper, then downscales and
+ * re-encodes them with the remembered settings.
+ */
+export const useImageUpload = () => {
+  const [settings, setSettings] = useState<UploadSettings>(loadSettings);
+  const [pendingCrop, setPendingCrop] = useState<PendingCrop | null>(null);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  }, [settings]);
+
+  // Resolves with null when the user cancels the crop. Throws an UploadError for unusable files.
+  const prepare = useCallback(async (file: File): Promise<Blob | null> => {
+    validateUpload(file);
+    const source = await loadOrientedImage(file);
+    let crop: CropRect | null = null;
+    if (settings.cropOnUpload) {
+      crop = await new Promise<CropRect | null>((resolve) => setPendingCrop({ source, resolve }));
+      setPendingCrop(null);
+      if (!crop) return null;
+    }
+    return renderUpload(source, settings, crop);
+  }, [settings]);
+
+  return { settings, setSettings, pendingCrop, prepare };
+};
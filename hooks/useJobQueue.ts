@@ -0,0 +1,13 @@
+import { useState, useSyncExternalStore } from 'react';
+import { createJobQueue } from '../services/jobQueue';
+import type { JobQueueOptions } from '../services/jobQueue';
+
+/**
+ * Creates a job queue for the lifetime of the calling component and re-renders
+ * it whenever a job changes state.
+ */
+export const useJobQueue = <T,>(options?: Partial<JobQueueOptions>) => {
+  const [queue] = useState(() => createJobQueue<T>(options));
+  const jobs = useSyncExternalStore(queue.subscribe, queue.getSnapshot);
+  return { queue, jobs };
+};
@@ -0,0 +1,35 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { Preset } from '../types';
+import { listPresets, savePreset, deletePreset } from '../services/presetStore';
+
+/**
+ * The generator presets kept in IndexedDB.
+ */
+export const usePresets = () => {
+  const [presets, setPresets] = useState<Preset[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    listPresets()
+      .then((loaded) => {
+        if (!cancelled) setPresets(loaded);
+      })
+      .catch((e) => console.error('Failed to load presets:', e));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Adds a preset or replaces the one with the same id.
+  const putPreset = useCallback(async (preset: Preset) => {
+    setPresets((prev) => [...prev.filter((p) => p.id !== preset.id), preset].sort((a, b) => a.name.localeCompare(b.name)));
+    await savePreset(preset);
+  }, []);
+
+  const removePreset = useCallback(async (id: string) => {
+    await deletePreset(id);
+    setPresets((prev) => prev.filter((p) => p.id !== id));
+  }, []);
+
+  return { presets, putPreset, removePreset };
+};
@@ -0,0 +1,62 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { PromptTemplate } from '../types';
+import { DEFAULT_CARTOON_TEMPLATE } from '../services/prompts';
+
+const STORAGE_KEY = 'expresstoons.promptTemplates';
+
+export const DEFAULT_TEMPLATE: PromptTemplate = { id: 'default', name: 'Default', text: DEFAULT_CARTOON_TEMPLATE };
+
+interface StoredTemplates {
+  selectedId: string;
+  templates: PromptTemplate[];
+}
+
+const EMPTY: StoredTemplates = { selectedId: DEFAULT_TEMPLATE.id, templates: [] };
+
+const loadTemplates = (): StoredTemplates => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...EMPTY, ...JSON.parse(stored) } : EMPTY;
+  } catch {
+    return EMPTY;
+  }
+};
+
+/**
+ * The user's prompt templates and the one in use, remembered across reloads.
+ * The built-in default is always available and cannot be changed.
+ */
+export const usePromptTemplates = () => {
+  const [stored, setStored] = useState<StoredTemplates>(loadTemplates);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  }, [stored]);
+
+  const templates = [DEFAULT_TEMPLATE, ...stored.templates];
+  const selected = templates.find(template => template.id === stored.selectedId) ?? DEFAULT_TEMPLATE;
+
+  const select = useCallback((id: string) => {
+    setStored((prev) => ({ ...prev, selectedId: id }));
+  }, []);
+
+  // Adds a template or replaces the one with the same id.
+  const putTemplate = useCallback((template: PromptTemplate) => {
+    setStored((prev) => {
+      const index = prev.templates.findIndex(t => t.id === template.id);
+      const next = index === -1
+        ? [...prev.templates, template]
+        : prev.templates.map((t, i) => (i === index ? template : t));
+      return { ...prev, templates: next };
+    });
+  }, []);
+
+  const removeTemplate = useCallback((id: string) => {
+    setStored((prev) => ({
+      selectedId: prev.selectedId === id ? DEFAULT_TEMPLATE.id : prev.selectedId,
+      templates: prev.templates.filter(t => t.id !== id),
+    }));
+  }, []);
+
+  return { templates, selected, select, putTemplate, removeTemplate };
+};
@@ -0,0 +1,27 @@
+import { useState, useEffect } from 'react';
+import type { ProvenanceSettings } from '../services/provenance';
+import { DEFAULT_PROVENANCE_SETTINGS } from '../services/provenance';
+
+const STORAGE_KEY = 'expresstoons.provenanceSettings';
+
+const loadSettings = (): ProvenanceSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_PROVENANCE_SETTINGS, ...JSON.parse(stored) } : DEFAULT_PROVENANCE_SETTINGS;
+  } catch {
+    return DEFAULT_PROVENANCE_SETTINGS;
+  }
+};
+
+/**
+ * The "AI-generated" badge stamped on new images, remembered across reloads.
+ */
+export const useProvenanceSettings = () => {
+  const [settings, setSettings] = useState<ProvenanceSettings>(loadSettings);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  }, [settings]);
+
+  return { settings, setSettings };
+};
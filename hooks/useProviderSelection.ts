@@ -0,0 +1,49 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { ProviderSelection } from '../types';
+import type { ProviderStatus } from '../services/providers/types';
+import { DEFAULT_SELECTION, getProvider, resolveSelection } from '../services/providers/registry';
+
+const STORAGE_KEY = 'expresstoons.provider';
+
+const loadSelection = (): ProviderSelection => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? resolveSelection(JSON.parse(stored)) : DEFAULT_SELECTION;
+  } catch {
+    return DEFAULT_SELECTION;
+  }
+};
+
+/**
+ * The provider and model picked in the UI, remembered across reloads, plus
+ * whether that provider is currently usable.
+ */
+export const useProviderSelection = () => {
+  const [selection, setSelection] = useState<ProviderSelection>(loadSelection);
+  const [status, setStatus] = useState<ProviderStatus | null>(null);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(selection));
+  }, [selection]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setStatus(null);
+    getProvider(selection.providerId).checkStatus().then((result) => {
+      if (!cancelled) setStatus(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [selection.providerId]);
+
+  const setProviderId = useCallback((providerId: string) => {
+    setSelection(resolveSelection({ providerId }));
+  }, []);
+
+  const setModel = useCallback((model: string) => {
+    setSelection((prev) => resolveSelection({ ...prev, model }));
+  }, []);
+
+  return { selection, status, setProviderId, setModel };
+};
@@ -0,0 +1,39 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { ActiveTab } from '../types';
+import type { GeneratorLink, Route } from '../services/routing';
+import { buildRoute, parseRoute } from '../services/routing';
+
+const readRoute = (): Route => parseRoute(window.location.pathname, window.location.search);
+
+/**
+ * The tab and generator settings in the address bar. Back and forward switch
+ * tabs; `replaceLink` keeps the query in step with the form without adding
+ * history entries.
+ */
+export const useRoute = () => {
+  const [route, setRoute] = useState<Route>(readRoute);
+
+  useEffect(() => {
+    const handlePopState = () => setRoute(readRoute());
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  const navigate = useCallback((tab: ActiveTab) => {
+    const url = buildRoute(tab);
+    if (url !== window.location.pathname + window.location.search) {
+      window.history.pushState(null, '', url);
+    }
+    setRoute({ tab, link: {} });
+  }, []);
+
+  // Does not update `route`, so the link is not applied back to the form.
+  const replaceLink = useCallback((link: GeneratorLink) => {
+    const url = buildRoute('cartoon', link);
+    if (url !== window.location.pathname + window.location.search) {
+      window.history.replaceState(null, '', url);
+    }
+  }, []);
+
+  return { tab: route.tab, link: route.link, navigate, replaceLink };
+};
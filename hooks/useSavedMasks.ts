@@ -0,0 +1,36 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { SavedMask } from '../types';
+import { listMasks, saveMask, deleteMask } from '../services/maskStore';
+
+/**
+ * The masks saved for the upload currently open in the Image Editor.
+ */
+export const useSavedMasks = (rootId: string | null) => {
+  const [masks, setMasks] = useState<SavedMask[]>([]);
+
+  useEffect(() => {
+    setMasks([]);
+    if (!rootId) return;
+    let cancelled = false;
+    listMasks(rootId)
+      .then((loaded) => {
+        if (!cancelled) setMasks(loaded);
+      })
+      .catch((e) => console.error('Failed to load masks:', e));
+    return () => {
+      cancelled = true;
+    };
+  }, [rootId]);
+
+  const addMask = useCallback(async (mask: SavedMask) => {
+    setMasks((prev) => [...prev, mask]);
+    await saveMask(mask);
+  }, []);
+
+  const removeMask = useCallback(async (id: string) => {
+    await deleteMask(id);
+    setMasks((prev) => prev.filter((mask) => mask.id !== id));
+  }, []);
+
+  return { masks, addMask, removeMask };
+};
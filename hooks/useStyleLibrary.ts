@@ -0,0 +1,41 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import type { StyleDefinition } from '../types';
+import { BUILT_IN_STYLES } from '../services/styleLibrary';
+import { listStyles, saveStyle, deleteStyle } from '../services/styleStore';
+
+const byName = (a: StyleDefinition, b: StyleDefinition) => a.name.localeCompare(b.name);
+
+/**
+ * The built-in styles plus the user's own, which are kept in IndexedDB.
+ */
+export const useStyleLibrary = () => {
+  const [customStyles, setCustomStyles] = useState<StyleDefinition[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    listStyles()
+      .then((loaded) => {
+        if (!cancelled) setCustomStyles(loaded);
+      })
+      .catch((e) => console.error('Failed to load styles:', e));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const styles = useMemo(() => [...BUILT_IN_STYLES, ...customStyles], [customStyles]);
+
+  // Adds a style or replaces the one with the same id.
+  const putStyle = useCallback(async (style: StyleDefinition) => {
+    const custom = { ...style, builtIn: false };
+    setCustomStyles((prev) => [...prev.filter((s) => s.id !== custom.id), custom].sort(byName));
+    await saveStyle(custom);
+  }, []);
+
+  const removeStyle = useCallback(async (id: string) => {
+    await deleteStyle(id);
+    setCustomStyles((prev) => prev.filter((s) => s.id !== id));
+  }, []);
+
+  return { styles, customStyles, putStyle, removeStyle };
+};
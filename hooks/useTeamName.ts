@@ -0,0 +1,25 @@
+import { useState, useEffect } from 'react';
+
+const STORAGE_KEY = 'expresstoons.teamName';
+
+const loadName = (): string => {
+  try {
+    return localStorage.getItem(STORAGE_KEY) ?? '';
+  } catch {
+    return '';
+  }
+};
+
+/**
+ * The display name shown on toons, comments and votes in the team gallery,
+ * remembered across reloads. The gallery has no accounts; this is all it knows.
+ */
+export const useTeamName = () => {
+  const [name, setName] = useState<string>(loadName);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, name);
+  }, [name]);
+
+  return { name, setName };
+};
@@ -0,0 +1,21 @@
+import { useEffect, useState, useSyncExternalStore } from 'react';
+import { usageLog } from '../services/usageLog';
+import { localize } from '../services/i18n';
+
+/**
+ * Every recorded model call, kept up to date as new ones finish, plus the
+ * message to show when the stored log could not be read.
+ */
+export const useUsageLog = () => {
+  const records = useSyncExternalStore(usageLog.subscribe, usageLog.getSnapshot);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    usageLog.load().catch((e) => {
+      console.error('Failed to load the usage log:', e);
+      setLoadError(localize('error.loadUsage'));
+    });
+  }, []);
+
+  return { records, loadError, clear: usageLog.clear };
+};
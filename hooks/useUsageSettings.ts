@@ -0,0 +1,27 @@
+import { useState, useEffect } from 'react';
+import type { UsageSettings } from '../services/usage';
+import { DEFAULT_USAGE_SETTINGS } from '../services/usage';
+
+const STORAGE_KEY = 'expresstoons.usageSettings';
+
+const loadSettings = (): UsageSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_USAGE_SETTINGS, ...JSON.parse(stored) } : DEFAULT_USAGE_SETTINGS;
+  } catch {
+    return DEFAULT_USAGE_SETTINGS;
+  }
+};
+
+/**
+ * The price table and budget for the usage dashboard, remembered across reloads.
+ */
+export const useUsageSettings = () => {
+  const [settings, setSettings] = useState<UsageSettings>(loadSettings);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  }, [settings]);
+
+  return { settings, setSettings };
+};
@@ -0,0 +1,648 @@
+import type { Messages } from './en';
+
+export const de: Messages = {
+  'header.language': 'Sprache der Oberfläche',
+
+  'tab.cartoon': 'Cartoon-Generator',
+  'tab.edit': 'Bildeditor',
+  'tab.restyle': 'Stilübertragung',
+  'tab.gallery': 'Galerie ({count})',
+  'tab.team': 'Team-Galerie',
+  'tab.usage': 'Nutzung',
+  'tab.verify': 'Bild prüfen',
+
+  'banner.providerUnavailable': 'Bildanbieter nicht verfügbar: ',
+  'banner.error': 'Fehler: ',
+  'footer': 'Mit Gemini erstellt. Nur zur Veranschaulichung.',
+
+  'common.cancel': 'Abbrechen',
+  'common.download': 'Herunterladen',
+  'common.share': 'Teilen',
+  'common.publish': 'In der Team-Galerie veröffentlichen',
+
+  'style.chooseBy': 'Stil wählen nach',
+  'style.magazine': 'Magazin',
+  'style.cartoonist': 'Zeichner',
+  'style.builtIn': 'Mitgeliefert',
+  'style.yours': 'Eigene Stile',
+  'color.label': 'Farbe',
+  'color.color': 'Farbig',
+  'color.blackAndWhite': 'Schwarz-Weiß',
+
+  'cartoon.singlePanel': 'Einzelbild',
+  'cartoon.comicStrip': 'Comicstrip',
+  'cartoon.animation': 'Animiert',
+  'cartoon.description': 'Beschreibung des Cartoons',
+  'cartoon.descriptionPlaceholder': 'z. B. Eine Programmiererin streitet mit einer Quietscheente',
+  'cartoon.caption': 'Bildunterschrift (optional)',
+  'cartoon.captionPlaceholder': 'Wird unter den Cartoon gesetzt, z. B. „Haben Sie es schon mit Aus- und Wiedereinschalten versucht?“',
+  'cartoon.character': 'Eigene Figur (optional)',
+  'cartoon.characterPreview': 'Vorschau der Figur',
+  'cartoon.removeCharacter': 'Bild der Figur entfernen',
+  'cartoon.signature': 'Signatur (optional)',
+  'cartoon.signaturePlaceholder': 'z. B. Ihr Name',
+  'cartoon.signatureByModel': 'Signatur vom Modell zeichnen lassen (sonst wird sie genau wie eingegeben gesetzt)',
+  'cartoon.outputLanguage': 'Sprache im Bild',
+  'cartoon.outputLanguageHint': 'Für Bildunterschriften, Dialoge und jeden Text im Bild. Ihre Beschreibung wird unverändert gesendet; Namen und Wörter in Anführungszeichen bleiben erhalten.',
+  'cartoon.generating': 'Wird erstellt …',
+  'cartoon.generateStrip': 'Strip erstellen',
+  'cartoon.generateAnimation': 'Animation erstellen',
+  'cartoon.generateCartoon': 'Cartoon erstellen',
+  'cartoon.generatedStrip': 'Erstellter Strip',
+  'cartoon.generatedAnimation': 'Animation',
+  'cartoon.generatedCartoon': 'Erstellter Cartoon',
+  'cartoon.stripAlt': 'Erstellter Comicstrip',
+  'cartoon.cartoonAlt': 'Erstellter Cartoon',
+  'cartoon.stripPlaceholder': 'Ihr Comicstrip erscheint hier, sobald alle Bilder gezeichnet sind.',
+  'cartoon.animationPlaceholder': 'Ihre Animation wird hier abgespielt, sobald alle Bilder gezeichnet sind.',
+  'cartoon.cartoonPlaceholder': 'Ihr Cartoon erscheint hier.',
+  'cartoon.history': 'Ihre Werke',
+  'cartoon.historyAlt': 'Früher erstellter Cartoon',
+  'cartoon.shareTitle': 'Mein ExpressToons-Cartoon',
+  'cartoon.shareText': 'Sieh dir diesen Cartoon an, den ich mit ExpressToons erstellt habe!',
+
+  'editor.originalUpload': 'Hochgeladenes Original',
+  'editor.upload': 'Bild zum Bearbeiten hochladen',
+  'editor.selectedVersion': 'Ausgewählte Version',
+  'editor.maskOnly': 'Nur einen maskierten Bereich bearbeiten',
+  'editor.placeholder': 'Laden Sie ein Bild hoch, um zu beginnen.',
+  'editor.shareTitle': 'Mein bearbeitetes Bild',
+  'editor.shareText': 'Sieh dir dieses Bild an, das ich mit ExpressToons bearbeitet habe!',
+  'editor.instruction': 'Bearbeitungsanweisung',
+  'editor.instructionPlaceholder': 'z. B. Mach es schwarz-weiß',
+  'editor.instructionHint': 'Änderungen gelten für die ausgewählte Version. Wählen Sie eine ältere Version im Baum, um davon abzuzweigen.',
+  'editor.editing': 'Wird bearbeitet …',
+  'editor.apply': 'Anwenden',
+  'editor.versionTree': 'Versionsbaum',
+  'editor.undo': 'Rückgängig',
+  'editor.undoTitle': 'Rückgängig (Strg+Z)',
+  'editor.redo': 'Wiederholen',
+  'editor.redoTitle': 'Wiederholen (Strg+Umschalt+Z)',
+  'editor.exportChain': 'Kette exportieren',
+  'editor.noVersions': 'Ihre Versionen erscheinen hier. Öffnen Sie eine Bearbeitung aus der Galerie, um einen früheren Baum fortzusetzen.',
+
+  'restyle.upload': 'Foto hochladen',
+  'restyle.photoAlt': 'Neu zu zeichnendes Foto',
+  'restyle.strength': 'Nähe zum Foto: {strength} %',
+  'restyle.loose': 'Freie Neuinterpretation',
+  'restyle.exact': 'Gleiche Komposition',
+  'restyle.redrawing': 'Wird gezeichnet …',
+  'restyle.redraw': 'Als Cartoon zeichnen',
+  'restyle.result': 'Cartoon',
+  'restyle.resultAlt': 'Als Cartoon neu gezeichnetes Foto',
+  'restyle.placeholder': 'Laden Sie ein Foto hoch und wählen Sie einen Stil, dann erscheint Ihr Cartoon hier.',
+  'restyle.shareText': 'Sieh dir diesen Cartoon an, den ich mit ExpressToons aus einem Foto gemacht habe!',
+
+  'confirm.deleteStyle': 'Den Stil „{name}“ löschen?',
+  'confirm.deleteCharacter': '{name} aus Ihren Figuren löschen?',
+  'confirm.deletePreset': 'Die Vorlage „{name}“ löschen?',
+  'confirm.openProject': 'Dieses Projekt öffnen? Seine Werke, Stile, Figuren und Vorlagen werden Ihrer Bibliothek hinzugefügt, und die aktuellen Beschreibungen und Einstellungen werden ersetzt.',
+  'confirm.deleteCreation': 'Dieses Werk aus Ihrer Galerie löschen?',
+  'confirm.clearUsage': 'Das gesamte Nutzungsprotokoll löschen? Das lässt sich nicht rückgängig machen.',
+
+  'error.describeAndStyle': 'Bitte geben Sie eine Beschreibung ein und wählen Sie einen Stil.',
+  'error.fillPlaceholder': 'Füllen Sie zuerst {{name}} in der Beschreibung aus.',
+  'error.fixTemplate': 'Korrigieren Sie zuerst die Prompt-Vorlage. {error}',
+  'error.chooseStyle': 'Bitte wählen Sie zuerst einen Stil.',
+  'error.describePanels': 'Bitte beschreiben Sie jedes Bild und wählen Sie einen Stil.',
+  'error.describeKeyframes': 'Bitte beschreiben Sie jedes Bild der Animation und wählen Sie einen Stil.',
+  'error.photoAndStyle': 'Bitte laden Sie ein Foto hoch und wählen Sie einen Stil.',
+  'error.imageAndInstruction': 'Bitte laden Sie ein Bild hoch und geben Sie eine Bearbeitungsanweisung ein.',
+  'error.paintMask': 'Malen Sie den zu ändernden Bereich aus oder schalten Sie die Maske ab.',
+  'error.prepareMask': 'Die Maske konnte nicht vorbereitet werden.',
+  'error.saveMask': 'Die Maske konnte nicht gespeichert werden.',
+  'error.deleteMask': 'Die Maske konnte nicht gelöscht werden.',
+  'error.deleteStyle': 'Der Stil konnte nicht gelöscht werden.',
+  'error.deleteCharacter': 'Die Figur konnte nicht gelöscht werden.',
+  'error.savePreset': 'Die Vorlage konnte nicht gespeichert werden.',
+  'error.deletePreset': 'Die Vorlage konnte nicht gelöscht werden.',
+  'error.shareUnsupported': 'Ihr Browser kann keine Dateien teilen.',
+  'error.share': 'Das Bild konnte nicht geteilt werden. Laden Sie es stattdessen herunter.',
+  'error.prepareDownload': 'Das Bild konnte nicht zum Herunterladen vorbereitet werden.',
+  'error.prepareShare': 'Das Bild konnte nicht zum Teilen vorbereitet werden.',
+  'error.preparePublish': 'Das Bild konnte nicht zum Veröffentlichen vorbereitet werden.',
+  'error.updateFavorites': 'Die Favoriten konnten nicht aktualisiert werden.',
+  'error.saveProject': 'Das Projekt konnte nicht gespeichert werden.',
+  'error.openProject': 'Das Projekt konnte nicht geöffnet werden.',
+  'error.exportSelection': 'Die Auswahl konnte nicht exportiert werden.',
+  'error.exportAnimation': 'Die Animation konnte nicht exportiert werden.',
+  'error.deleteCreation': 'Das Werk konnte nicht gelöscht werden.',
+  'error.clearUsage': 'Das Nutzungsprotokoll konnte nicht gelöscht werden.',
+
+  'gallery.show': 'Anzeigen',
+  'gallery.everything': 'Alles',
+  'gallery.cartoons': 'Cartoons',
+  'gallery.strips': 'Comicstrips',
+  'gallery.edits': 'Bearbeitungen',
+  'gallery.restyles': 'Stilübertragungen',
+  'gallery.style': 'Stil',
+  'gallery.allStyles': 'Alle Stile',
+  'gallery.favoritesOnly': 'Nur Favoriten',
+  'gallery.select': 'Auswählen',
+  'gallery.doneSelecting': 'Auswahl beenden',
+  'gallery.selected': '{count} ausgewählt',
+  'gallery.selectAllShown': 'Alle angezeigten auswählen',
+  'gallery.clear': 'Leeren',
+  'gallery.exportZip': 'Als ZIP exportieren',
+  'gallery.exportZipTitle': 'Verwendet Ihre letzten Download-Einstellungen',
+  'gallery.paperSize': 'Papierformat',
+  'gallery.contactSheet': 'Kontaktbogen als PDF',
+  'gallery.zine': 'Zine als PDF',
+  'gallery.exporting': 'Wird exportiert…',
+  'gallery.empty': 'Noch nichts gespeichert. Ihre Cartoons und Bearbeitungen erscheinen hier.',
+  'gallery.noMatches': 'Keine Werke entsprechen diesen Filtern.',
+  'gallery.selectItem': '{title} auswählen',
+  'gallery.favorite': 'Zu Favoriten hinzufügen',
+  'gallery.unfavorite': 'Aus Favoriten entfernen',
+  'gallery.open': 'Öffnen',
+  'gallery.regenerate': 'Neu erzeugen',
+  'gallery.publish': 'Veröffentlichen',
+  'gallery.delete': 'Löschen',
+  'gallery.styleDetail': '{styleType}: {styleName} · {color}',
+  'gallery.blackAndWhite': 'S/W',
+  'gallery.stripDetail': 'Strip mit {count} Panels · {style}',
+  'gallery.edit': 'Bildbearbeitung',
+  'gallery.maskedEdit': 'Maskierte Bildbearbeitung',
+  'gallery.restyleTitle': 'Foto als Cartoon neu gezeichnet',
+  'gallery.restyleDetail': 'Stilübertragung mit {strength} % · {style}',
+
+  'paper.a4': 'A4',
+  'paper.letter': 'US-Letter',
+  'pdf.contactSheetTitle': 'ExpressToons-Kontaktbogen',
+  'pdf.contactSheetHeader': 'ExpressToons-Kontaktbogen · {date} · Seite {page} von {pages}',
+  'pdf.zineTitle': 'ExpressToons-Zine',
+  'pdf.untitled': 'Ohne Titel',
+
+  'export.title': 'Bild exportieren',
+  'export.format': 'Format',
+  'export.quality': 'Qualität',
+  'export.qualityPercent': 'Qualität ({percent} %)',
+  'export.size': 'Größe',
+  'export.margin': 'Rand (mm)',
+  'export.border': 'Rahmen (mm)',
+  'export.borderColor': 'Rahmenfarbe',
+  'export.embedMetadata': 'Prompt, Stil, Modell und Datum einbetten',
+  'export.embedMetadataPngOnly': 'Prompt, Stil, Modell und Datum einbetten (nur PNG)',
+  'export.pixels': '{width} × {height} px',
+  'export.printed': '{width} × {height} px · {inchWidth} × {inchHeight} Zoll bei {dpi} DPI',
+  'export.measuring': 'Bild wird vermessen…',
+  'export.exporting': 'Wird exportiert…',
+  'export.error': 'Das Bild konnte nicht exportiert werden. Versuchen Sie eine kleinere Druckgröße.',
+
+  'printSize.original': 'Originalpixel',
+  'printSize.4in': '4-Zoll-Druck, 300 DPI',
+  'printSize.6in': '6-Zoll-Druck, 300 DPI',
+  'printSize.8in': '8-Zoll-Druck, 300 DPI',
+  'printSize.letter': 'US-Letter, 300 DPI',
+  'printSize.a4': 'A4, 300 DPI',
+  'printSize.poster': '18-Zoll-Poster, 150 DPI',
+
+  'batch.title': 'Stapelgenerierung',
+  'batch.inProgress': '{count} in Arbeit · ',
+  'batch.show': 'Anzeigen',
+  'batch.hide': 'Ausblenden',
+  'batch.hint': 'Verwendet Beschreibung, Signatur, Farbe und Figur aus dem Formular oben. Die Warteschlange läuft weiter, während Sie den Tab wechseln.',
+  'batch.variations': 'Varianten pro Stil: {count}',
+  'batch.concurrency': 'Gleichzeitig: {count}',
+  'batch.currentStyle': 'Aktueller Stil: {name}. ',
+  'batch.moreStyles': 'Wählen Sie weitere Stile, um dieselbe Szene darin zu zeichnen.',
+  'batch.queueOne': '{count} Cartoon einreihen',
+  'batch.queueMany': '{count} Cartoons einreihen',
+  'batch.magazines': 'Magazine',
+  'batch.cartoonists': 'Zeichner',
+  'batch.queue': 'Warteschlange',
+  'batch.cancelAll': 'Alle abbrechen',
+  'batch.clearFinished': 'Erledigte entfernen',
+  'batch.status.queued': 'wartend',
+  'batch.status.running': 'läuft',
+  'batch.status.failed': 'fehlgeschlagen',
+  'batch.status.done': 'fertig',
+  'batch.status.cancelled': 'abgebrochen',
+  'batch.retrying': 'neuer Versuch ({attempt}. Versuch)',
+  'batch.retry': 'Wiederholen',
+  'batch.results': 'Ergebnisse',
+  'batch.resultAlt': 'Stapelergebnis',
+
+  'gag.title': 'Gagschreiber',
+  'gag.show': 'Keine Idee?',
+  'gag.hide': 'Ausblenden',
+  'gag.topicPlaceholder': 'Ein Thema oder eine Schlagzeile, z. B. Zurück ins Büro an fünf Tagen',
+  'gag.suggest': 'Gags vorschlagen',
+  'gag.voice': 'Im Ton von {name} geschrieben.',
+  'gag.scene': 'Szene {number}',
+  'gag.caption': 'Bildunterschrift {number}',
+  'gag.remix': 'Abwandeln',
+  'gag.use': 'Übernehmen',
+
+  'character.cast': 'Besetzung (bis zu {count} Figuren)',
+  'character.new': '+ Neue Figur',
+  'character.empty': 'Fügen Sie wiederkehrende Figuren mit ein paar Referenzbildern hinzu, dann sehen sie in jedem Cartoon gleich aus.',
+  'character.edit': 'Bearbeiten',
+  'character.delete': '{name} löschen',
+  'character.namePlaceholder': 'Name, z. B. Professor Schnurrbart',
+  'character.descriptionPlaceholder': 'Aussehen und Verhalten, z. B. ein getigerter Kater im Tweedjackett, wichtigtuerisch',
+  'character.references': 'Referenzbilder (bis zu {count}), z. B. vorne, seitlich und Mimik',
+  'character.reference': 'Referenz {number}',
+  'character.removeReference': 'Referenz {number} entfernen',
+  'character.label': 'Bezeichnung',
+  'character.front': 'vorne',
+  'character.side': 'seitlich',
+  'character.expressions': 'Mimik',
+  'character.save': 'Figur speichern',
+
+  'preset.title': 'Voreinstellungen',
+  'preset.copyLink': 'Link zu diesen Einstellungen kopieren',
+  'preset.linkCopied': 'Link kopiert',
+  'preset.label': 'Voreinstellung',
+  'preset.none': 'Noch keine Voreinstellungen',
+  'preset.choose': 'Voreinstellung wählen…',
+  'preset.apply': 'Anwenden',
+  'preset.delete': 'Löschen',
+  'preset.namePlaceholder': 'Name für die aktuellen Einstellungen, z. B. Büroalltag, Roz Chast S/W',
+  'preset.save': 'Voreinstellung speichern',
+  'preset.placeholderHint': 'Schreiben Sie {placeholders} in die Beschreibung, z. B. „Ein {animal} in {place}“, um sie jedes Mal auszufüllen.',
+
+  'provider.provider': 'Anbieter',
+  'provider.model': 'Modell',
+  'provider.noKey': 'Der API-Server hat keinen Gemini-API-Schlüssel. Setzen Sie GEMINI_API_KEY in .env.local und starten Sie `npm run server` neu.',
+  'provider.unreachable': 'Der API-Server ist nicht erreichbar. Starten Sie ihn mit `npm run server` oder wechseln Sie zum Offline-Testanbieter.',
+
+  'styleLibrary.title': 'Stilbibliothek',
+  'styleLibrary.customCount': '{count} eigene',
+  'styleLibrary.manage': 'Verwalten',
+  'styleLibrary.hide': 'Ausblenden',
+  'styleLibrary.allTags': 'Alle Schlagwörter',
+  'styleLibrary.new': '+ Neuer Stil',
+  'styleLibrary.import': 'Importieren',
+  'styleLibrary.export': 'Meine Stile exportieren',
+  'styleLibrary.builtIn': 'eingebaut',
+  'styleLibrary.use': 'Verwenden',
+  'styleLibrary.customise': 'Anpassen',
+  'styleLibrary.edit': 'Bearbeiten',
+  'styleLibrary.delete': 'Löschen',
+  'styleLibrary.customName': '{name} (eigene)',
+  'styleLibrary.name': 'Name des Stils',
+  'styleLibrary.lineWeight': 'Strichstärke',
+  'styleLibrary.lineWeightPlaceholder': 'z. B. dünne, zittrige Federstriche',
+  'styleLibrary.palette': 'Palette',
+  'styleLibrary.palettePlaceholder': 'z. B. gedämpfte Pastelltöne mit einem roten Akzent',
+  'styleLibrary.composition': 'Bildaufbau',
+  'styleLibrary.compositionPlaceholder': 'z. B. eine einzelne Figur, viel Weißraum',
+  'styleLibrary.humour': 'Art des Humors',
+  'styleLibrary.humourPlaceholder': 'z. B. trocken und absurd',
+  'styleLibrary.tags': 'Schlagwörter (durch Kommas getrennt)',
+  'styleLibrary.tagsPlaceholder': 'z. B. düster, Vintage',
+  'styleLibrary.references': 'Referenzbilder (bis zu {count})',
+  'styleLibrary.save': 'Stil speichern',
+
+  'styleFile.notJson': 'Die Stildatei ist kein gültiges JSON.',
+  'styleFile.noStyles': 'Die Stildatei hat keine „styles“-Liste.',
+  'styleFile.newer': 'Die Stildatei wurde mit einer neueren Version von ExpressToons erstellt.',
+  'styleFile.noName': 'Stil {number} in der Datei hat keinen Namen.',
+
+  'mask.label': 'Maske',
+  'mask.brush': 'Pinsel',
+  'mask.eraser': 'Radierer',
+  'mask.lasso': 'Lasso',
+  'mask.invert': 'Umkehren',
+  'mask.clear': 'Leeren',
+  'mask.brushSize': 'Pinselgröße',
+  'mask.feathering': 'Weiche Kante: {feather} px',
+  'mask.hint': 'Übermalen Sie den Teil des Bildes, der sich ändern soll.',
+  'mask.invertedHint': 'Alles außer dem bemalten Bereich wird geändert.',
+  'mask.keptHint': 'Pixel außerhalb der Maske bleiben genau so, wie sie sind.',
+  'mask.saved': 'Gespeicherte Masken',
+  'mask.delete': 'Maske {name} löschen',
+  'mask.save': '+ Aktuelle Maske speichern',
+  'mask.namePrompt': 'Name für diese Maske',
+  'mask.defaultName': 'Maske {number}',
+
+  'overlay.showControls': 'Text und Sprechblasen bearbeiten',
+  'overlay.hideControls': 'Text und Sprechblasen ausblenden',
+  'overlay.addSpeech': '+ Sprechblase',
+  'overlay.addThought': '+ Denkblase',
+  'overlay.speech': 'Sprechblase',
+  'overlay.thought': 'Denkblase',
+  'overlay.signature': 'Signatur',
+  'overlay.remove': '{layer} entfernen',
+  'overlay.caption': 'Bildunterschrift',
+  'overlay.captionPlaceholder': 'Eine Bildunterschrift unter dem Panel',
+  'overlay.size': 'Größe',
+  'overlay.dragHint': 'Ziehen Sie Blasen auf dem Bild, um sie zu verschieben, und den Punkt, um den Zeiger auszurichten.',
+
+  'font.comic': 'Comic',
+  'font.serif': 'Serifen',
+  'font.sans': 'Serifenlos',
+  'font.typewriter': 'Schreibmaschine',
+  'font.handwritten': 'Handschrift',
+
+  'usage.calls': 'Aufrufe',
+  'usage.succeeded': '{percent} % erfolgreich',
+  'usage.averageLatency': 'Durchschnittliche Latenz',
+  'usage.tokens': 'Tokens',
+  'usage.costToday': 'Geschätzte Kosten heute',
+  'usage.costThisMonth': 'Geschätzte Kosten diesen Monat',
+  'usage.ofBudget': 'von {budget} Budget',
+  'usage.noBudget': 'Kein Budget festgelegt',
+  'usage.budget': 'Budget',
+  'usage.softLimit': 'Weiches Limit (USD)',
+  'usage.none': 'Keins',
+  'usage.per': 'Pro',
+  'usage.day': 'Tag',
+  'usage.month': 'Monat',
+  'usage.budgetUsed': 'Verbrauchtes Budget',
+  'usage.budgetHintDay': 'Sobald die geschätzten Kosten heute das Limit erreichen, werden Sie vor jeder Generierung um Bestätigung gebeten. Nichts wird blockiert.',
+  'usage.budgetHintMonth': 'Sobald die geschätzten Kosten diesen Monat das Limit erreichen, werden Sie vor jeder Generierung um Bestätigung gebeten. Nichts wird blockiert.',
+  'usage.budgetWarningDay': 'Sie haben etwa {spent} Ihres Tagesbudgets von {budget} ausgegeben. Trotzdem generieren?',
+  'usage.budgetWarningMonth': 'Sie haben etwa {spent} Ihres Monatsbudgets von {budget} ausgegeben. Trotzdem generieren?',
+  'usage.dailyTotals': 'Tagessummen',
+  'usage.exportCsv': 'Als CSV exportieren',
+  'usage.clearLog': 'Protokoll leeren',
+  'usage.empty': 'Noch keine Aufrufe aufgezeichnet. Jede Generierung, Bearbeitung und Gag-Anfrage aus diesem Browser wird hier protokolliert.',
+  'usage.column.day': 'Tag',
+  'usage.column.failed': 'Fehlgeschlagen',
+  'usage.column.inputImages': 'Eingabebilder',
+  'usage.column.tokensInOut': 'Tokens ein / aus',
+  'usage.column.averageLatency': 'Ø Latenz',
+  'usage.column.cost': 'Gesch. Kosten',
+  'usage.unpricedCalls': '{count} Aufrufe haben keinen Preis',
+  'usage.latestCalls': 'Letzte Aufrufe',
+  'usage.column.time': 'Zeit',
+  'usage.column.operation': 'Vorgang',
+  'usage.column.model': 'Modell',
+  'usage.column.result': 'Ergebnis',
+  'usage.column.latency': 'Latenz',
+  'usage.prices': 'Preise',
+  'usage.addModel': 'Modell hinzufügen',
+  'usage.reset': 'Zurücksetzen',
+  'usage.pricesHint': 'US-Dollar pro Million Ein- und Ausgabetokens, plus ein fester Betrag pro erfolgreichem Aufruf für Dienste, die pro Bild abrechnen. Die Kosten sind Schätzungen anhand der vom Modell gemeldeten Tokens.',
+  'usage.unpricedModels': 'Kein Preis für {models}, daher fließen diese Aufrufe nicht in die Kosten ein.',
+  'usage.addNamedModel': '{model} hinzufügen',
+  'usage.column.inputPrice': 'Eingabe / 1 Mio.',
+  'usage.column.outputPrice': 'Ausgabe / 1 Mio.',
+  'usage.column.perCall': 'Pro Aufruf',
+  'usage.modelId': 'Modell-ID',
+  'usage.newModel': 'neues Modell',
+  'usage.inputPriceFor': 'Eingabepreis für {model}',
+  'usage.outputPriceFor': 'Ausgabepreis für {model}',
+  'usage.callPriceFor': 'Preis pro Aufruf für {model}',
+  'usage.remove': 'Entfernen',
+  'usage.operation.cartoon': 'Cartoon',
+  'usage.operation.panel': 'Comic-Panel',
+  'usage.operation.frame': 'Animationsbild',
+  'usage.operation.restyle': 'Stilübertragung',
+  'usage.operation.edit': 'Bearbeitung',
+  'usage.operation.gags': 'Gagschreiber',
+
+  'outcome.success': 'Erfolgreich',
+  'outcome.cancelled': 'Abgebrochen',
+  'outcome.safetyBlock': 'Sicherheitssperre',
+  'outcome.refusal': 'Ablehnung',
+  'outcome.rateLimited': 'Ratenlimit',
+  'outcome.invalidImage': 'Ungültiges Bild',
+  'outcome.timeout': 'Zeitüberschreitung',
+  'outcome.network': 'Nicht erreichbar',
+  'outcome.error': 'Fehler',
+
+  'apiError.safetyBlock': 'Die Sicherheitsfilter haben diese Anfrage blockiert ({reason}). Formulieren Sie die Beschreibung um und vermeiden Sie alles, was gewalttätig, explizit oder auf eine reale Person bezogen wirken könnte.',
+  'apiError.refusalQuoted': 'Das Modell hat geantwortet, statt zu zeichnen: {text} Versuchen Sie, die Anfrage umzuformulieren.',
+  'apiError.refusal': 'Das Modell hat mit Text statt mit einem Bild geantwortet. Versuchen Sie, die Anfrage umzuformulieren.',
+  'apiError.rateLimitedSeconds': 'Zu viele Anfragen oder das Kontingent des Modells ist aufgebraucht. Warten Sie etwa {seconds} Sekunden und versuchen Sie es erneut, oder verringern Sie die Parallelität des Stapels.',
+  'apiError.rateLimited': 'Zu viele Anfragen oder das Kontingent des Modells ist aufgebraucht. Warten Sie eine Minute und versuchen Sie es erneut, oder verringern Sie die Parallelität des Stapels.',
+  'apiError.invalidImage': 'Das Bild konnte nicht verwendet werden. Laden Sie ein PNG-, JPEG- oder WebP-Bild hoch und versuchen Sie es erneut.',
+  'apiError.timeout': 'Das Modell hat zu lange für die Antwort gebraucht. Versuchen Sie es erneut oder wählen Sie ein schnelleres Modell.',
+  'apiError.unreachable': 'Der Bilddienst ist nicht erreichbar. Prüfen Sie Ihre Verbindung und ob `npm run server` läuft, oder wechseln Sie zum Offline-Testanbieter.',
+  'apiError.unknown': 'Ein unbekannter Fehler ist aufgetreten.',
+
+  'error.copyLink': 'Der Link konnte nicht kopiert werden. Kopieren Sie ihn stattdessen aus der Adressleiste.',
+  'error.saveCharacter': 'Die Figur konnte nicht gespeichert werden.',
+  'error.saveStyle': 'Der Stil konnte nicht gespeichert werden.',
+  'error.importStyles': 'Die Stile konnten nicht importiert werden.',
+  'error.exportStyles': 'Die Stile konnten nicht exportiert werden.',
+  'error.loadCreations': 'Ihre gespeicherten Werke konnten nicht geladen werden.',
+  'error.saveCreation': 'Dieses Ergebnis konnte nicht gespeichert werden und ist nach dem Neuladen verloren. Laden Sie es herunter, um es zu behalten.',
+  'error.composeStrip': 'Die Panels konnten nicht zu einem Comicstrip zusammengesetzt werden. Ändern Sie das Layout oder zeichnen Sie ein Panel neu.',
+  'error.openCreation': 'Dieses Werk konnte nicht geöffnet werden.',
+  'error.loadUsage': 'Das Nutzungsprotokoll konnte nicht geladen werden. Es werden nur Aufrufe aus dieser Sitzung angezeigt.',
+
+  'aspect.1:1': 'Quadratisch (1:1)',
+  'aspect.4:5': 'Instagram-Hochformat (4:5)',
+  'aspect.3:4': 'Hochformat (3:4)',
+  'aspect.2:3': 'Druck-Hochformat (2:3)',
+  'aspect.9:16': 'Story (9:16)',
+  'aspect.5:4': 'Querformat (5:4)',
+  'aspect.4:3': 'Querformat (4:3)',
+  'aspect.3:2': 'Foto-Querformat (3:2)',
+  'aspect.16:9': 'Blog-Header (16:9)',
+  'aspect.21:9': 'Banner (21:9)',
+  'output.label': 'Ausgabe',
+  'output.aspectRatio': 'Seitenverhältnis',
+  'output.anyShape': 'Beliebige Form',
+  'output.imageSize': 'Bildgröße',
+  'output.modelSize': 'Größe des Modells',
+  'output.fit': 'An das Seitenverhältnis anpassen durch',
+  'output.crop': 'Zuschneiden',
+  'output.pad': 'Auffüllen',
+  'output.noRatioCropped': 'Bei diesem Modell lässt sich kein Seitenverhältnis anfordern. Der Prompt beschreibt daher den Bildausschnitt, und das Ergebnis wird auf {ratio} zugeschnitten.',
+  'output.noRatioPadded': 'Bei diesem Modell lässt sich kein Seitenverhältnis anfordern. Der Prompt beschreibt daher den Bildausschnitt, und das Ergebnis wird auf {ratio} aufgefüllt.',
+  'output.offRatioCropped': 'Weicht das Ergebnis leicht von {ratio} ab, wird es passend zugeschnitten.',
+  'output.offRatioPadded': 'Weicht das Ergebnis leicht von {ratio} ab, wird es passend aufgefüllt.',
+  'output.noSize': 'Bei diesem Modell lässt sich keine Größe anfordern, daher wird das Ergebnis auf {size} skaliert.',
+
+  'strip.panels': 'Panels',
+  'strip.panel': 'Panel {number}',
+  'strip.regeneratePanel': 'Panel {number} neu generieren',
+  'strip.generatePanel': 'Panel {number} generieren',
+  'strip.layout': 'Layout',
+  'strip.horizontal': 'Horizontaler Streifen',
+  'strip.grid': '2×2-Raster',
+  'strip.vertical': 'Vertikal',
+  'strip.script': 'Skript (eine Zeile pro Panel)',
+  'strip.actionPlaceholder': 'Was in diesem Panel passiert',
+  'strip.dialoguePlaceholder': 'Dialog (optional)',
+  'strip.removePanel': 'Panel {number} entfernen',
+  'strip.addPanel': '+ Panel hinzufügen',
+
+  'compare.title': 'Versionen vergleichen',
+  'compare.slider': 'Schieberegler',
+  'compare.sideBySide': 'Nebeneinander',
+  'compare.close': 'Vergleich schließen',
+  'compare.position': 'Vergleichsposition',
+  'compare.compare': 'Vergleichen',
+  'compare.comparing': 'Im Vergleich',
+
+  'crop.title': 'Bild zuschneiden',
+  'crop.free': 'Frei',
+  'crop.size': '{width} × {height} px vor dem Verkleinern',
+  'crop.whole': 'Ganzes Bild verwenden',
+  'crop.confirm': 'Zuschneiden',
+
+  'upload.settings': 'Upload-Einstellungen',
+  'upload.hideSettings': 'Upload-Einstellungen ausblenden',
+  'upload.maxSize': 'Maximale Größe',
+  'upload.format': 'Format',
+  'upload.quality': 'Qualität',
+  'upload.crop': 'Jeden Upload zuschneiden',
+  'upload.unsupported': '„{name}“ ist kein unterstütztes Bild. Verwenden Sie eine {formats}-Datei.',
+  'upload.tooLarge': '„{name}“ ist größer als {size} MB. Wählen Sie ein kleineres Bild.',
+  'upload.unreadable': '„{name}“ konnte nicht gelesen werden. Wenn es ein HEIC-Foto vom iPhone ist, exportieren Sie es zuerst als JPEG.',
+  'upload.encode': 'Das Bild konnte nicht kodiert werden.',
+
+  'project.save': 'Projekt speichern',
+  'project.open': 'Projekt öffnen',
+  'project.missingBlob': 'In der Projektdatei fehlt {name}.',
+  'project.notProject': 'Dies ist keine ExpressToons-Projektdatei.',
+  'project.newer': 'Dieses Projekt wurde mit einer neueren Version von ExpressToons gespeichert. Aktualisieren Sie die App, um es zu öffnen.',
+  'project.tooOld': 'Projekte im Format {version} können nicht mehr geöffnet werden.',
+  'project.damaged': 'Dies ist keine ExpressToons-Projektdatei, oder sie ist beschädigt.',
+
+  'template.title': 'Prompt-Vorlage',
+  'template.edit': 'Vorlage bearbeiten',
+  'template.hideEditor': 'Editor ausblenden',
+  'template.copy': 'Kopieren',
+  'template.delete': 'Löschen',
+  'template.name': 'Name der Vorlage',
+  'template.text': 'Text der Vorlage',
+  'template.defaultReadOnly': 'Die Standardvorlage kann nicht geändert werden. Kopieren Sie sie, um eine eigene zu erstellen.',
+  'template.variables': 'Variablen:',
+  'template.conditionalHint': 'Umschließen Sie Text mit {#if signature}…{/if}, damit er nur erscheint, wenn eine Variable gesetzt ist, oder mit {#if !signature}, wenn nicht. {else} liefert den anderen Zweig.',
+  'template.finalPrompt': 'Endgültiger Prompt',
+  'template.chooseStyle': 'Wählen Sie einen Stil, um den Prompt zu sehen.',
+  'template.copyName': '{name} (Kopie)',
+  'template.unknownVariable': '{variable} ist keine bekannte Variable. Verwenden Sie eine von: {known}.',
+  'template.misplacedElse': '{else} muss innerhalb eines {#if}-Blocks stehen, und nur einmal.',
+  'template.unmatchedEnd': '{/if} hat kein passendes {#if}.',
+  'template.unclosedIf': 'Bei {block} fehlt das {/if}.',
+
+  'animation.frames': 'Bilder',
+  'animation.frameNumber': 'Bild {number}',
+  'animation.drawFirst': 'Zeichnen Sie zuerst Bild {number}',
+  'animation.regenerateFrame': 'Bild {number} neu generieren',
+  'animation.generateFrame': 'Bild {number} generieren',
+  'animation.keyframes': 'Schlüsselbilder (eine Zeile pro Bild)',
+  'animation.moveEarlier': 'Bild {number} nach vorne verschieben',
+  'animation.moveLater': 'Bild {number} nach hinten verschieben',
+  'animation.actionPlaceholder': 'Was in diesem Bild passiert',
+  'animation.shownFor': 'Angezeigt für',
+  'animation.seconds': 'Sekunden',
+  'animation.duration': 'Dauer von Bild {number} in Sekunden',
+  'animation.removeFrame': 'Bild {number} entfernen',
+  'animation.addFrame': '+ Bild hinzufügen',
+  'animation.loop': 'Endlosschleife',
+  'animation.frameOf': 'Animationsbild {number} von {count}',
+  'animation.pause': 'Pause',
+  'animation.play': 'Abspielen',
+  'animation.frame': 'Bild',
+  'animation.exportFormat': 'Exportformat',
+  'animation.exporting': 'Exportiere…',
+  'animation.export': 'Animation exportieren',
+  'animation.webmHint': 'Das Video wird in Echtzeit aufgenommen, daher dauert der Export so lange wie die Animation. WebM-Dateien haben keine Schleifeneinstellung; Player wiederholen sie selbst.',
+  'animationFormat.gif': 'GIF',
+  'animationFormat.webp': 'Animiertes WebP',
+  'animationFormat.webm': 'WebM-Video',
+
+  'team.status.draft': 'Entwurf',
+  'team.status.approved': 'Freigegeben',
+  'team.status.published': 'Veröffentlicht',
+  'team.timeout': 'Die Team-Galerie hat zu lange für die Antwort gebraucht.',
+  'team.unreachable': 'Die Team-Galerie ist nicht erreichbar. Starten Sie sie mit `npm run gallery`.',
+  'team.failed': 'Die Team-Galerie hat nicht geantwortet.',
+  'team.approve': 'Freigeben',
+  'team.unpublish': 'Veröffentlichung zurückziehen',
+  'team.backToDraft': 'Zurück zum Entwurf',
+  'team.sending': 'Wird gesendet…',
+  'team.comment': 'Kommentieren',
+  'team.reply': 'Antworten',
+  'team.replyTo': '{author} antworten',
+  'team.allToons': '← Alle Toons',
+  'team.publishedBy': 'Veröffentlicht von {author} am {date}',
+  'team.prompt': 'Prompt',
+  'team.made': 'Erstellt',
+  'team.upvoted': 'Hochgestimmt',
+  'team.upvote': 'Hochstimmen',
+  'team.enterName': 'Geben Sie oben Ihren Namen ein, um abzustimmen, zu prüfen und zu kommentieren.',
+  'team.comments': 'Kommentare ({count})',
+  'team.addComment': 'Kommentar hinzufügen',
+  'team.yourName': 'Ihr Name',
+  'team.namePlaceholder': 'Wird bei Ihren Kommentaren und Stimmen angezeigt',
+  'team.intro': 'Toons, die aus dem Generator oder Ihrer Galerie veröffentlicht werden, landen hier als Entwürfe zur Prüfung durch das Team.',
+  'team.refresh': 'Aktualisieren',
+  'team.statusFilter': 'Status',
+  'team.anyStatus': 'Jeder Status',
+  'team.show': 'Anzeigen',
+  'team.everything': 'Alles',
+  'team.kind.cartoon': 'Cartoons',
+  'team.kind.strip': 'Comicstrips',
+  'team.kind.edit': 'Bearbeitungen',
+  'team.kind.restyle': 'Stilübertragungen',
+  'team.sortBy': 'Sortieren nach',
+  'team.newest': 'Neueste',
+  'team.mostUpvoted': 'Meiste Stimmen',
+  'team.search': 'Suchen',
+  'team.searchPlaceholder': 'Titel oder Prompt',
+  'team.mineOnly': 'Nur meine',
+  'team.loading': 'Team-Galerie wird geladen…',
+  'team.noMatch': 'Keine Toons entsprechen diesen Filtern.',
+  'team.commentCountOne': '{count} Kommentar',
+  'team.commentCount': '{count} Kommentare',
+
+  'publish.image': 'Zu veröffentlichendes Bild',
+  'publish.done': 'Als Entwurf veröffentlicht. Ihr Team kann ihn jetzt prüfen.',
+  'publish.openTeamGallery': 'Team-Galerie öffnen',
+  'publish.close': 'Fertig',
+  'publish.title': 'Titel',
+  'publish.namePlaceholder': 'Für Ihr Team sichtbar',
+  'publish.hint': 'Prompt, Stil, Modell und Datum werden mitgesendet. Es bleibt ein Entwurf, bis jemand es freigibt.',
+  'publish.publishing': 'Wird veröffentlicht…',
+
+  'badge.topLeft': 'Oben links',
+  'badge.topRight': 'Oben rechts',
+  'badge.bottomLeft': 'Unten links',
+  'badge.bottomRight': 'Unten rechts',
+  'export.provenanceSidecar': 'Das Herkunftsmanifest wird als separate .provenance.json-Datei gespeichert, und das unsichtbare Wasserzeichen übersteht verlustbehaftete Kompression möglicherweise nicht.',
+
+  'verify.operation.cartoon': 'Cartoon',
+  'verify.operation.strip': 'Comicstrip',
+  'verify.operation.edit': 'Bearbeitung',
+  'verify.operation.restyle': 'Stilübertragung',
+  'verify.readError': 'Die Datei konnte nicht gelesen werden. Ist es ein Bild?',
+  'verify.matches': 'Das Wasserzeichen passt zum Manifest. Dieses Bild wurde mit KI erzeugt.',
+  'verify.mismatch': 'Wasserzeichen und Manifest gehören zu verschiedenen Bildern. Das Manifest wurde möglicherweise aus einer anderen Datei kopiert.',
+  'verify.watermarkOnly': 'Dieses Bild trägt ein KI-Wasserzeichen, aber kein Manifest. Fügen Sie die zugehörige .provenance.json-Datei hinzu, um die Details zu sehen.',
+  'verify.manifestOnly': 'Laut Manifest wurde dieses Bild mit KI erzeugt, aber das Wasserzeichen fehlt, vermutlich durch Skalierung oder verlustbehaftete Kompression.',
+  'verify.nothing': 'Kein Wasserzeichen und kein Manifest gefunden. Das Bild wurde nicht hier erstellt oder wurde skaliert oder neu kodiert.',
+  'verify.title': 'Bild prüfen',
+  'verify.image': 'Bild',
+  'verify.sidecar': 'Herkunftsdatei (optional, für JPEG- und WebP-Exporte)',
+  'verify.imageAlt': 'Zu prüfendes Bild',
+  'verify.reading': 'Bild wird gelesen…',
+  'verify.watermarkId': 'Wasserzeichen-ID',
+  'verify.noneFound': 'Nichts gefunden',
+  'verify.manifest': 'Manifest',
+  'verify.embedded': 'Im Bild eingebettet',
+  'verify.fromSidecar': 'Aus der Herkunftsdatei',
+  'verify.manifestId': 'Manifest-ID',
+  'verify.madeWith': 'Erstellt mit',
+  'verify.operation': 'Vorgang',
+  'verify.unknown': 'Unbekannt',
+  'verify.created': 'Erstellt am',
+  'verify.visibleBadge': 'Sichtbares Badge',
+  'verify.yes': 'Ja',
+  'verify.no': 'Nein',
+  'verify.promptHash': 'Prompt-Hash',
+  'verify.sourceImages': 'Quellbilder',
+  'verify.none': 'Keine',
+  'verify.editedFrom': 'Bearbeitet aus',
+  'verify.original': 'Nichts; dies ist ein Original',
+  'verify.inGallery': '(in Ihrer Galerie)',
+  'verify.match': 'Dieses Bild ist in Ihrer Galerie.',
+  'verify.checkPrompt': 'Prompt mit dem Manifest abgleichen',
+  'verify.promptPlaceholder': 'Der Prompt, genau wie geschrieben',
+  'verify.promptMatches': 'Aus diesem Prompt wurde das Bild erstellt.',
+  'verify.promptDiffers': 'Dieser Prompt stimmt nicht überein.',
+  'verify.labelling': 'Kennzeichnung neuer Bilder',
+  'verify.stampBadge': 'Ab jetzt ein sichtbares Badge auf erzeugte Bilder setzen',
+  'verify.badgeText': 'Badge-Text',
+  'verify.position': 'Position',
+  'verify.hint': 'Ihre Galerie bewahrt Bilder so auf, wie das Modell sie gezeichnet hat. Badge, unsichtbares Wasserzeichen und Herkunftsmanifest werden jedem Download, jeder Freigabe, jedem Export und jedem veröffentlichten Toon hinzugefügt. Das Wasserzeichen übersteht PNG-Speicherung, zusätzliche Ränder und Zuschnitt, aber keine Skalierung oder JPEG-Kompression.',
+};
@@ -0,0 +1,651 @@
+// The interface in English, the source language: every other locale has exactly these keys.
+export const en = {
+  'header.language': 'Interface language',
+
+  'tab.cartoon': 'Cartoon Generator',
+  'tab.edit': 'Image Editor',
+  'tab.restyle': 'Style Transfer',
+  'tab.gallery': 'Gallery ({count})',
+  'tab.team': 'Team Gallery',
+  'tab.usage': 'Usage',
+  'tab.verify': 'Verify Image',
+
+  'banner.providerUnavailable': 'Image provider unavailable: ',
+  'banner.error': 'Error: ',
+  'footer': 'Powered by Gemini. Created for illustrative purposes.',
+
+  'common.cancel': 'Cancel',
+  'common.download': 'Download',
+  'common.share': 'Share',
+  'common.publish': 'Publish to team gallery',
+
+  'style.chooseBy': 'Choose Style By',
+  'style.magazine': 'Magazine',
+  'style.cartoonist': 'Cartoonist',
+  'style.builtIn': 'Built-in',
+  'style.yours': 'Your styles',
+  'color.label': 'Color Style',
+  'color.color': 'Color',
+  'color.blackAndWhite': 'Black & White',
+
+  'cartoon.singlePanel': 'Single panel',
+  'cartoon.comicStrip': 'Comic strip',
+  'cartoon.animation': 'Animated',
+  'cartoon.description': 'Cartoon Description',
+  'cartoon.descriptionPlaceholder': 'e.g., A programmer arguing with a rubber duck',
+  'cartoon.caption': 'Caption (Optional)',
+  'cartoon.captionPlaceholder': 'Typeset beneath the cartoon, e.g. "Have you tried turning it off and on again?"',
+  'cartoon.character': 'Bring Your Own Character (Optional)',
+  'cartoon.characterPreview': 'Character preview',
+  'cartoon.removeCharacter': 'Remove character image',
+  'cartoon.signature': 'Signature (Optional)',
+  'cartoon.signaturePlaceholder': 'e.g., Your Name',
+  'cartoon.signatureByModel': 'Let the model draw the signature (otherwise it is typeset exactly as written)',
+  'cartoon.outputLanguage': 'Output Language',
+  'cartoon.outputLanguageHint': 'For captions, dialogue and any text drawn in the image. Your description is sent as typed, and names and quoted words in it are kept as they are.',
+  'cartoon.generating': 'Generating...',
+  'cartoon.generateStrip': 'Generate Strip',
+  'cartoon.generateAnimation': 'Generate Animation',
+  'cartoon.generateCartoon': 'Generate Cartoon',
+  'cartoon.generatedStrip': 'Generated Strip',
+  'cartoon.generatedAnimation': 'Animation',
+  'cartoon.generatedCartoon': 'Generated Cartoon',
+  'cartoon.stripAlt': 'Generated comic strip',
+  'cartoon.cartoonAlt': 'Generated Cartoon',
+  'cartoon.stripPlaceholder': 'Your comic strip will appear here once every panel is drawn.',
+  'cartoon.animationPlaceholder': 'Your animation will play here once every frame is drawn.',
+  'cartoon.cartoonPlaceholder': 'Your generated cartoon will appear here.',
+  'cartoon.history': 'Your Creations',
+  'cartoon.historyAlt': 'Previously generated cartoon',
+  'cartoon.shareTitle': 'My ExpressToon Cartoon',
+  'cartoon.shareText': 'Check out this cartoon I generated with ExpressToons!',
+
+  'editor.originalUpload': 'Original upload',
+  'editor.upload': 'Upload Image to Edit',
+  'editor.selectedVersion': 'Selected Version',
+  'editor.maskOnly': 'Only edit a masked area',
+  'editor.placeholder': 'Upload an image to start editing.',
+  'editor.shareTitle': 'My Edited Image',
+  'editor.shareText': 'Check out this image I edited with ExpressToons!',
+  'editor.instruction': 'Edit Instruction',
+  'editor.instructionPlaceholder': 'e.g., Make it black and white',
+  'editor.instructionHint': 'Edits apply to the selected version. Pick an older version in the tree to branch from it.',
+  'editor.editing': 'Editing...',
+  'editor.apply': 'Apply Edit',
+  'editor.versionTree': 'Version Tree',
+  'editor.undo': 'Undo',
+  'editor.undoTitle': 'Undo (Ctrl+Z)',
+  'editor.redo': 'Redo',
+  'editor.redoTitle': 'Redo (Ctrl+Shift+Z)',
+  'editor.exportChain': 'Export chain',
+  'editor.noVersions': 'Your versions will appear here. Open an edit from the gallery to continue an earlier tree.',
+
+  'restyle.upload': 'Upload a Photo',
+  'restyle.photoAlt': 'Photo to redraw',
+  'restyle.strength': 'Follow the photo: {strength}%',
+  'restyle.loose': 'Loose reinterpretation',
+  'restyle.exact': 'Same composition',
+  'restyle.redrawing': 'Redrawing...',
+  'restyle.redraw': 'Redraw as Cartoon',
+  'restyle.result': 'Cartoon',
+  'restyle.resultAlt': 'Photo redrawn as a cartoon',
+  'restyle.placeholder': 'Upload a photo, pick a style and your cartoon will appear here.',
+  'restyle.shareText': 'Check out this cartoon I made from a photo with ExpressToons!',
+
+  'confirm.deleteStyle': 'Delete the style "{name}"?',
+  'confirm.deleteCharacter': 'Delete {name} from your roster?',
+  'confirm.deletePreset': 'Delete the preset "{name}"?',
+  'confirm.openProject': 'Open this project? Its creations, styles, characters and presets are added to your library, and the current prompts and settings are replaced.',
+  'confirm.deleteCreation': 'Delete this creation from your gallery?',
+  'confirm.clearUsage': 'Clear the whole usage log? This cannot be undone.',
+
+  'error.describeAndStyle': 'Please provide a description and a style.',
+  'error.fillPlaceholder': 'Fill in {{name}} in the description first.',
+  'error.fixTemplate': 'Fix the prompt template first. {error}',
+  'error.chooseStyle': 'Please choose a style first.',
+  'error.describePanels': 'Please describe every panel and choose a style.',
+  'error.describeKeyframes': 'Please describe every frame and choose a style.',
+  'error.photoAndStyle': 'Please upload a photo and choose a style.',
+  'error.imageAndInstruction': 'Please upload an image and provide an edit instruction.',
+  'error.paintMask': 'Paint the area to change, or turn off the mask.',
+  'error.prepareMask': 'Could not prepare the mask.',
+  'error.saveMask': 'Could not save the mask.',
+  'error.deleteMask': 'Could not delete the mask.',
+  'error.deleteStyle': 'Could not delete the style.',
+  'error.deleteCharacter': 'Could not delete the character.',
+  'error.savePreset': 'Could not save the preset.',
+  'error.deletePreset': 'Could not delete the preset.',
+  'error.shareUnsupported': 'Sharing files is not supported on your browser.',
+  'error.share': 'Could not share the image. Please try downloading it instead.',
+  'error.prepareDownload': 'Could not prepare the image for download.',
+  'error.prepareShare': 'Could not prepare the image for sharing.',
+  'error.preparePublish': 'Could not prepare the image for publishing.',
+  'error.updateFavorites': 'Could not update favourites.',
+  'error.saveProject': 'Could not save the project.',
+  'error.openProject': 'Could not open the project.',
+  'error.exportSelection': 'Could not export the selection.',
+  'error.exportAnimation': 'Could not export the animation.',
+  'error.deleteCreation': 'Could not delete the creation.',
+  'error.clearUsage': 'Could not clear the usage log.',
+
+  'gallery.show': 'Show',
+  'gallery.everything': 'Everything',
+  'gallery.cartoons': 'Cartoons',
+  'gallery.strips': 'Comic strips',
+  'gallery.edits': 'Edits',
+  'gallery.restyles': 'Style transfers',
+  'gallery.style': 'Style',
+  'gallery.allStyles': 'All styles',
+  'gallery.favoritesOnly': 'Favourites only',
+  'gallery.select': 'Select',
+  'gallery.doneSelecting': 'Done selecting',
+  'gallery.selected': '{count} selected',
+  'gallery.selectAllShown': 'Select all shown',
+  'gallery.clear': 'Clear',
+  'gallery.exportZip': 'Export ZIP',
+  'gallery.exportZipTitle': 'Uses your last download settings',
+  'gallery.paperSize': 'Paper size',
+  'gallery.contactSheet': 'Contact sheet PDF',
+  'gallery.zine': 'Zine PDF',
+  'gallery.exporting': 'Exporting…',
+  'gallery.empty': 'Nothing saved yet. Your cartoons and edits will show up here.',
+  'gallery.noMatches': 'No creations match these filters.',
+  'gallery.selectItem': 'Select {title}',
+  'gallery.favorite': 'Add to favourites',
+  'gallery.unfavorite': 'Remove from favourites',
+  'gallery.open': 'Open',
+  'gallery.regenerate': 'Regenerate',
+  'gallery.publish': 'Publish',
+  'gallery.delete': 'Delete',
+  'gallery.styleDetail': '{styleType}: {styleName} · {color}',
+  'gallery.blackAndWhite': 'B&W',
+  'gallery.stripDetail': '{count}-panel strip · {style}',
+  'gallery.edit': 'Image edit',
+  'gallery.maskedEdit': 'Masked image edit',
+  'gallery.restyleTitle': 'Photo redrawn as a cartoon',
+  'gallery.restyleDetail': 'Style transfer at {strength}% · {style}',
+
+  'paper.a4': 'A4',
+  'paper.letter': 'US Letter',
+  'pdf.contactSheetTitle': 'ExpressToons contact sheet',
+  'pdf.contactSheetHeader': 'ExpressToons contact sheet · {date} · page {page} of {pages}',
+  'pdf.zineTitle': 'ExpressToons zine',
+  'pdf.untitled': 'Untitled',
+
+  'export.title': 'Export image',
+  'export.format': 'Format',
+  'export.quality': 'Quality',
+  'export.qualityPercent': 'Quality ({percent}%)',
+  'export.size': 'Size',
+  'export.margin': 'Margin (mm)',
+  'export.border': 'Border (mm)',
+  'export.borderColor': 'Border colour',
+  'export.embedMetadata': 'Embed prompt, style, model and date',
+  'export.embedMetadataPngOnly': 'Embed prompt, style, model and date (PNG only)',
+  'export.pixels': '{width} × {height} px',
+  'export.printed': '{width} × {height} px · {inchWidth} × {inchHeight} in at {dpi} DPI',
+  'export.measuring': 'Measuring the image…',
+  'export.exporting': 'Exporting…',
+  'export.error': 'Could not export the image. Try a smaller print size.',
+
+  'printSize.original': 'Original pixels',
+  'printSize.4in': '4 in print, 300 DPI',
+  'printSize.6in': '6 in print, 300 DPI',
+  'printSize.8in': '8 in print, 300 DPI',
+  'printSize.letter': 'US Letter, 300 DPI',
+  'printSize.a4': 'A4, 300 DPI',
+  'printSize.poster': '18 in poster, 150 DPI',
+
+  'batch.title': 'Batch generation',
+  'batch.inProgress': '{count} in progress · ',
+  'batch.show': 'Show',
+  'batch.hide': 'Hide',
+  'batch.hint': 'Uses the description, signature, colour and character from the form above. The queue keeps running while you switch tabs.',
+  'batch.variations': 'Variations per style: {count}',
+  'batch.concurrency': 'Run at once: {count}',
+  'batch.currentStyle': 'Current style: {name}. ',
+  'batch.moreStyles': 'Tick more styles to run the same scene across them.',
+  'batch.queueOne': 'Queue {count} cartoon',
+  'batch.queueMany': 'Queue {count} cartoons',
+  'batch.magazines': 'Magazines',
+  'batch.cartoonists': 'Cartoonists',
+  'batch.queue': 'Queue',
+  'batch.cancelAll': 'Cancel all',
+  'batch.clearFinished': 'Clear finished',
+  'batch.status.queued': 'queued',
+  'batch.status.running': 'running',
+  'batch.status.failed': 'failed',
+  'batch.status.done': 'done',
+  'batch.status.cancelled': 'cancelled',
+  'batch.retrying': 'retrying (attempt {attempt})',
+  'batch.retry': 'Retry',
+  'batch.results': 'Results',
+  'batch.resultAlt': 'Batch result',
+
+  'gag.title': 'Gag writer',
+  'gag.show': 'Need an idea?',
+  'gag.hide': 'Hide',
+  'gag.topicPlaceholder': 'A topic or headline, e.g. Office returns to five days a week',
+  'gag.suggest': 'Suggest gags',
+  'gag.voice': 'Written in the voice of {name}.',
+  'gag.scene': 'Scene {number}',
+  'gag.caption': 'Caption {number}',
+  'gag.remix': 'Remix',
+  'gag.use': 'Use this',
+
+  'character.cast': 'Cast (up to {count} characters)',
+  'character.new': '+ New character',
+  'character.empty': 'Add recurring characters with a few reference pictures and they will look the same in every cartoon.',
+  'character.edit': 'Edit',
+  'character.delete': 'Delete {name}',
+  'character.namePlaceholder': 'Name, e.g. Professor Whiskers',
+  'character.descriptionPlaceholder': 'What they look like and how they behave, e.g. a tabby cat in a tweed jacket, pompous',
+  'character.references': 'Reference images (up to {count}), e.g. front, side and expressions',
+  'character.reference': 'Reference {number}',
+  'character.removeReference': 'Remove reference {number}',
+  'character.label': 'Label',
+  'character.front': 'front',
+  'character.side': 'side',
+  'character.expressions': 'expressions',
+  'character.save': 'Save character',
+
+  'preset.title': 'Presets',
+  'preset.copyLink': 'Copy link to these settings',
+  'preset.linkCopied': 'Link copied',
+  'preset.label': 'Preset',
+  'preset.none': 'No presets yet',
+  'preset.choose': 'Choose a preset…',
+  'preset.apply': 'Apply',
+  'preset.delete': 'Delete',
+  'preset.namePlaceholder': 'Name for the current settings, e.g. Office life, Roz Chast B&W',
+  'preset.save': 'Save preset',
+  'preset.placeholderHint': 'Write {placeholders} in the description, e.g. "A {animal} at a {place}", to fill them in each time.',
+
+  'provider.provider': 'Provider',
+  'provider.model': 'Model',
+  'provider.noKey': 'The API server has no Gemini API key. Set GEMINI_API_KEY in .env.local and restart `npm run server`.',
+  'provider.unreachable': 'The API server is not reachable. Start it with `npm run server`, or switch to the offline mock provider.',
+
+  'styleLibrary.title': 'Style library',
+  'styleLibrary.customCount': '{count} custom',
+  'styleLibrary.manage': 'Manage',
+  'styleLibrary.hide': 'Hide',
+  'styleLibrary.allTags': 'All tags',
+  'styleLibrary.new': '+ New style',
+  'styleLibrary.import': 'Import',
+  'styleLibrary.export': 'Export my styles',
+  'styleLibrary.builtIn': 'built-in',
+  'styleLibrary.use': 'Use',
+  'styleLibrary.customise': 'Customise',
+  'styleLibrary.edit': 'Edit',
+  'styleLibrary.delete': 'Delete',
+  'styleLibrary.customName': '{name} (custom)',
+  'styleLibrary.name': 'Style name',
+  'styleLibrary.lineWeight': 'Line weight',
+  'styleLibrary.lineWeightPlaceholder': 'e.g., thin, wobbly pen lines',
+  'styleLibrary.palette': 'Palette',
+  'styleLibrary.palettePlaceholder': 'e.g., muted pastels with one red accent',
+  'styleLibrary.composition': 'Composition',
+  'styleLibrary.compositionPlaceholder': 'e.g., a single figure, lots of white space',
+  'styleLibrary.humour': 'Humour tone',
+  'styleLibrary.humourPlaceholder': 'e.g., deadpan and absurd',
+  'styleLibrary.tags': 'Tags (comma separated)',
+  'styleLibrary.tagsPlaceholder': 'e.g., dark, vintage',
+  'styleLibrary.references': 'Reference images (up to {count})',
+  'styleLibrary.save': 'Save style',
+
+  'styleFile.notJson': 'The style file is not valid JSON.',
+  'styleFile.noStyles': 'The style file has no "styles" list.',
+  'styleFile.newer': 'The style file was made by a newer version of ExpressToons.',
+  'styleFile.noName': 'Style {number} in the file has no name.',
+
+  'mask.label': 'Mask',
+  'mask.brush': 'Brush',
+  'mask.eraser': 'Eraser',
+  'mask.lasso': 'Lasso',
+  'mask.invert': 'Invert',
+  'mask.clear': 'Clear',
+  'mask.brushSize': 'Brush size',
+  'mask.feathering': 'Feathering: {feather}px',
+  'mask.hint': 'Paint over the part of the image to change.',
+  'mask.invertedHint': 'Everything except the painted area will change.',
+  'mask.keptHint': 'Pixels outside the mask are kept exactly as they are.',
+  'mask.saved': 'Saved masks',
+  'mask.delete': 'Delete mask {name}',
+  'mask.save': '+ Save current mask',
+  'mask.namePrompt': 'Name this mask',
+  'mask.defaultName': 'Mask {number}',
+
+  'overlay.showControls': 'Edit text & bubbles',
+  'overlay.hideControls': 'Hide text & bubbles',
+  'overlay.addSpeech': '+ Speech bubble',
+  'overlay.addThought': '+ Thought bubble',
+  'overlay.speech': 'Speech bubble',
+  'overlay.thought': 'Thought bubble',
+  'overlay.signature': 'Signature',
+  'overlay.remove': 'Remove {layer}',
+  'overlay.caption': 'Caption',
+  'overlay.captionPlaceholder': 'A caption printed below the panel',
+  'overlay.size': 'Size',
+  'overlay.dragHint': 'Drag bubbles on the image to move them, and drag the dot to aim the tail.',
+
+  'font.comic': 'Comic',
+  'font.serif': 'Serif',
+  'font.sans': 'Sans',
+  'font.typewriter': 'Typewriter',
+  'font.handwritten': 'Handwritten',
+
+  'usage.calls': 'Calls',
+  'usage.succeeded': '{percent}% succeeded',
+  'usage.averageLatency': 'Average latency',
+  'usage.tokens': 'Tokens',
+  'usage.costToday': 'Estimated cost today',
+  'usage.costThisMonth': 'Estimated cost this month',
+  'usage.ofBudget': 'of {budget} budget',
+  'usage.noBudget': 'No budget set',
+  'usage.budget': 'Budget',
+  'usage.softLimit': 'Soft limit (USD)',
+  'usage.none': 'None',
+  'usage.per': 'Per',
+  'usage.day': 'Day',
+  'usage.month': 'Month',
+  'usage.budgetUsed': 'Budget used',
+  'usage.budgetHintDay': 'Once the estimated cost today reaches the limit, you are asked to confirm before each generation. Nothing is blocked.',
+  'usage.budgetHintMonth': 'Once the estimated cost this month reaches the limit, you are asked to confirm before each generation. Nothing is blocked.',
+  'usage.budgetWarningDay': 'You have spent about {spent} of your {budget} daily budget. Generate anyway?',
+  'usage.budgetWarningMonth': 'You have spent about {spent} of your {budget} monthly budget. Generate anyway?',
+  'usage.dailyTotals': 'Daily totals',
+  'usage.exportCsv': 'Export CSV',
+  'usage.clearLog': 'Clear log',
+  'usage.empty': 'No calls recorded yet. Every generation, edit and gag request made from this browser is logged here.',
+  'usage.column.day': 'Day',
+  'usage.column.failed': 'Failed',
+  'usage.column.inputImages': 'Input images',
+  'usage.column.tokensInOut': 'Tokens in / out',
+  'usage.column.averageLatency': 'Avg latency',
+  'usage.column.cost': 'Est. cost',
+  'usage.unpricedCalls': '{count} calls have no price',
+  'usage.latestCalls': 'Latest calls',
+  'usage.column.time': 'Time',
+  'usage.column.operation': 'Operation',
+  'usage.column.model': 'Model',
+  'usage.column.result': 'Result',
+  'usage.column.latency': 'Latency',
+  'usage.prices': 'Prices',
+  'usage.addModel': 'Add model',
+  'usage.reset': 'Reset',
+  'usage.pricesHint': 'US dollars per million input and output tokens, plus a flat amount per successful call for backends that charge by the image. Costs are estimates from the token counts the model reports.',
+  'usage.unpricedModels': 'No price for {models}, so those calls are left out of the cost.',
+  'usage.addNamedModel': 'Add {model}',
+  'usage.column.inputPrice': 'Input / 1M',
+  'usage.column.outputPrice': 'Output / 1M',
+  'usage.column.perCall': 'Per call',
+  'usage.modelId': 'Model id',
+  'usage.newModel': 'new model',
+  'usage.inputPriceFor': 'Input price for {model}',
+  'usage.outputPriceFor': 'Output price for {model}',
+  'usage.callPriceFor': 'Price per call for {model}',
+  'usage.remove': 'Remove',
+  'usage.operation.cartoon': 'Cartoon',
+  'usage.operation.panel': 'Strip panel',
+  'usage.operation.frame': 'Animation frame',
+  'usage.operation.restyle': 'Style transfer',
+  'usage.operation.edit': 'Edit',
+  'usage.operation.gags': 'Gag writer',
+
+  'outcome.success': 'Success',
+  'outcome.cancelled': 'Cancelled',
+  'outcome.safetyBlock': 'Safety block',
+  'outcome.refusal': 'Refusal',
+  'outcome.rateLimited': 'Rate limited',
+  'outcome.invalidImage': 'Invalid image',
+  'outcome.timeout': 'Timed out',
+  'outcome.network': 'Unreachable',
+  'outcome.error': 'Error',
+
+  'apiError.safetyBlock': 'The safety filters blocked this request ({reason}). Try rewording the description, and avoid anything that could read as violent, explicit or about a real person.',
+  'apiError.refusalQuoted': 'The model replied instead of drawing: {text} Try rephrasing the request.',
+  'apiError.refusal': 'The model replied with text instead of an image. Try rephrasing the request.',
+  'apiError.rateLimitedSeconds': "Too many requests or the model's quota is used up. Wait about {seconds} seconds and try again, or lower the batch concurrency.",
+  'apiError.rateLimited': "Too many requests or the model's quota is used up. Wait a minute and try again, or lower the batch concurrency.",
+  'apiError.invalidImage': 'The image could not be used. Upload a PNG, JPEG or WebP picture and try again.',
+  'apiError.timeout': 'The model took too long to answer. Try again, or pick a faster model.',
+  'apiError.unreachable': 'Could not reach the image service. Check your connection and that `npm run server` is running, or switch to the offline mock provider.',
+  'apiError.unknown': 'An unknown error occurred.',
+
+  'error.copyLink': 'Could not copy the link. Copy it from the address bar instead.',
+  'error.saveCharacter': 'Could not save the character.',
+  'error.saveStyle': 'Could not save the style.',
+  'error.importStyles': 'Could not import the styles.',
+  'error.exportStyles': 'Could not export the styles.',
+  'error.loadCreations': 'Your saved creations could not be loaded.',
+  'error.saveCreation': 'This result could not be saved and will be gone after a reload. Download it to keep it.',
+  'error.composeStrip': 'The panels could not be put together into a strip. Try changing the layout or redrawing a panel.',
+  'error.openCreation': 'Could not open this creation.',
+  'error.loadUsage': 'Could not load the usage log. Only calls made in this session are shown.',
+
+  'aspect.1:1': 'Square (1:1)',
+  'aspect.4:5': 'Instagram portrait (4:5)',
+  'aspect.3:4': 'Portrait (3:4)',
+  'aspect.2:3': 'Print portrait (2:3)',
+  'aspect.9:16': 'Story (9:16)',
+  'aspect.5:4': 'Landscape (5:4)',
+  'aspect.4:3': 'Landscape (4:3)',
+  'aspect.3:2': 'Photo landscape (3:2)',
+  'aspect.16:9': 'Blog header (16:9)',
+  'aspect.21:9': 'Banner (21:9)',
+  'output.label': 'Output',
+  'output.aspectRatio': 'Aspect ratio',
+  'output.anyShape': 'Any shape',
+  'output.imageSize': 'Image size',
+  'output.modelSize': "Model's size",
+  'output.fit': 'Fit to the aspect ratio by',
+  'output.crop': 'Crop',
+  'output.pad': 'Pad',
+  'output.noRatioCropped': "This model can't be asked for an aspect ratio, so the prompt describes the frame and the result is cropped to {ratio}.",
+  'output.noRatioPadded': "This model can't be asked for an aspect ratio, so the prompt describes the frame and the result is padded to {ratio}.",
+  'output.offRatioCropped': 'If the result is slightly off {ratio}, it is cropped to match.',
+  'output.offRatioPadded': 'If the result is slightly off {ratio}, it is padded to match.',
+  'output.noSize': "This model can't be asked for a size, so the result is scaled to {size}.",
+
+  'strip.panels': 'Panels',
+  'strip.panel': 'Panel {number}',
+  'strip.regeneratePanel': 'Regenerate panel {number}',
+  'strip.generatePanel': 'Generate panel {number}',
+  'strip.layout': 'Layout',
+  'strip.horizontal': 'Horizontal strip',
+  'strip.grid': '2×2 grid',
+  'strip.vertical': 'Vertical',
+  'strip.script': 'Script (one line per panel)',
+  'strip.actionPlaceholder': 'What happens in this panel',
+  'strip.dialoguePlaceholder': 'Dialogue (optional)',
+  'strip.removePanel': 'Remove panel {number}',
+  'strip.addPanel': '+ Add panel',
+
+  'compare.title': 'Compare versions',
+  'compare.slider': 'Slider',
+  'compare.sideBySide': 'Side by side',
+  'compare.close': 'Close comparison',
+  'compare.position': 'Comparison position',
+  'compare.compare': 'Compare',
+  'compare.comparing': 'Comparing',
+
+  'crop.title': 'Crop image',
+  'crop.free': 'Free',
+  'crop.size': '{width} × {height} px before downscaling',
+  'crop.whole': 'Use whole image',
+  'crop.confirm': 'Crop',
+
+  'upload.settings': 'Upload settings',
+  'upload.hideSettings': 'Hide upload settings',
+  'upload.maxSize': 'Max size',
+  'upload.format': 'Format',
+  'upload.quality': 'Quality',
+  'upload.crop': 'Crop each upload',
+  'upload.unsupported': '"{name}" is not a supported image. Use a {formats} file.',
+  'upload.tooLarge': '"{name}" is larger than {size} MB. Pick a smaller image.',
+  'upload.unreadable': '"{name}" could not be read. If it is an iPhone HEIC photo, export it as JPEG first.',
+  'upload.encode': 'Could not encode the image.',
+
+  'project.save': 'Save project',
+  'project.open': 'Open project',
+  'project.missingBlob': 'The project file is missing {name}.',
+  'project.notProject': 'This is not an ExpressToons project file.',
+  'project.newer': 'This project was saved by a newer version of ExpressToons. Update the app to open it.',
+  'project.tooOld': 'Projects saved in format {version} can no longer be opened.',
+  'project.damaged': 'This is not an ExpressToons project file, or it is damaged.',
+
+  'template.title': 'Prompt template',
+  'template.edit': 'Edit template',
+  'template.hideEditor': 'Hide editor',
+  'template.copy': 'Copy',
+  'template.delete': 'Delete',
+  'template.name': 'Template name',
+  'template.text': 'Template text',
+  'template.defaultReadOnly': "The default template can't be changed. Copy it to make your own.",
+  'template.variables': 'Variables:',
+  'template.conditionalHint': 'Wrap text in {#if signature}…{/if} to include it only when a variable is set, or {#if !signature} when it is not. {else} gives the other branch.',
+  'template.finalPrompt': 'Final prompt',
+  'template.chooseStyle': 'Choose a style to see the prompt.',
+  'template.copyName': '{name} copy',
+  'template.unknownVariable': '{variable} is not a known variable. Use one of: {known}.',
+  'template.misplacedElse': '{else} must be inside an {#if} block, once.',
+  'template.unmatchedEnd': '{/if} has no matching {#if}.',
+  'template.unclosedIf': '{block} is missing its {/if}.',
+
+  'animation.frames': 'Frames',
+  'animation.frameNumber': 'Frame {number}',
+  'animation.drawFirst': 'Draw frame {number} first',
+  'animation.regenerateFrame': 'Regenerate frame {number}',
+  'animation.generateFrame': 'Generate frame {number}',
+  'animation.keyframes': 'Keyframes (one line per frame)',
+  'animation.moveEarlier': 'Move frame {number} earlier',
+  'animation.moveLater': 'Move frame {number} later',
+  'animation.actionPlaceholder': 'What happens in this frame',
+  'animation.shownFor': 'Shown for',
+  'animation.seconds': 'seconds',
+  'animation.duration': 'Frame {number} duration in seconds',
+  'animation.removeFrame': 'Remove frame {number}',
+  'animation.addFrame': '+ Add frame',
+  'animation.loop': 'Loop',
+  'animation.frameOf': 'Animation frame {number} of {count}',
+  'animation.pause': 'Pause',
+  'animation.play': 'Play',
+  'animation.frame': 'Frame',
+  'animation.exportFormat': 'Export format',
+  'animation.exporting': 'Exporting…',
+  'animation.export': 'Export animation',
+  'animation.webmHint': 'Video is recorded in real time, so exporting takes as long as the animation. WebM files have no loop setting; players loop them themselves.',
+  'animationFormat.gif': 'GIF',
+  'animationFormat.webp': 'Animated WebP',
+  'animationFormat.webm': 'WebM video',
+
+  'team.status.draft': 'Draft',
+  'team.status.approved': 'Approved',
+  'team.status.published': 'Published',
+  'team.timeout': 'The team gallery took too long to answer.',
+  'team.unreachable': 'The team gallery is not reachable. Start it with `npm run gallery`.',
+  'team.failed': 'The team gallery failed to answer.',
+  'team.approve': 'Approve',
+  'team.unpublish': 'Unpublish',
+  'team.backToDraft': 'Send back to draft',
+  'team.sending': 'Sending…',
+  'team.comment': 'Comment',
+  'team.reply': 'Reply',
+  'team.replyTo': 'Reply to {author}',
+  'team.allToons': '← All toons',
+  'team.publishedBy': 'Published by {author} on {date}',
+  'team.prompt': 'Prompt',
+  'team.made': 'Made',
+  'team.upvoted': 'Upvoted',
+  'team.upvote': 'Upvote',
+  'team.enterName': 'Enter your name above to vote, review and comment.',
+  'team.comments': 'Comments ({count})',
+  'team.addComment': 'Add a comment',
+  'team.yourName': 'Your name',
+  'team.namePlaceholder': 'Shown on your comments and votes',
+  'team.intro': 'Toons published from the generator or your gallery land here as drafts for the team to review.',
+  'team.refresh': 'Refresh',
+  'team.statusFilter': 'Status',
+  'team.anyStatus': 'Any status',
+  'team.show': 'Show',
+  'team.everything': 'Everything',
+  'team.kind.cartoon': 'Cartoons',
+  'team.kind.strip': 'Comic strips',
+  'team.kind.edit': 'Edits',
+  'team.kind.restyle': 'Style transfers',
+  'team.sortBy': 'Sort by',
+  'team.newest': 'Newest',
+  'team.mostUpvoted': 'Most upvoted',
+  'team.search': 'Search',
+  'team.searchPlaceholder': 'Title or prompt',
+  'team.mineOnly': 'Mine only',
+  'team.loading': 'Loading the team gallery…',
+  'team.noMatch': 'No toons match these filters.',
+  'team.commentCountOne': '{count} comment',
+  'team.commentCount': '{count} comments',
+
+  'publish.image': 'Image to publish',
+  'publish.done': 'Published as a draft. Your team can now review it.',
+  'publish.openTeamGallery': 'Open team gallery',
+  'publish.close': 'Done',
+  'publish.title': 'Title',
+  'publish.namePlaceholder': 'Shown to your team',
+  'publish.hint': 'The prompt, style, model and date go with it. It starts as a draft until someone approves it.',
+  'publish.publishing': 'Publishing…',
+
+  'badge.topLeft': 'Top left',
+  'badge.topRight': 'Top right',
+  'badge.bottomLeft': 'Bottom left',
+  'badge.bottomRight': 'Bottom right',
+  'export.provenanceSidecar': 'The provenance manifest is saved as a separate .provenance.json file, and the invisible watermark may not survive lossy compression.',
+
+  'verify.operation.cartoon': 'Cartoon',
+  'verify.operation.strip': 'Comic strip',
+  'verify.operation.edit': 'Edit',
+  'verify.operation.restyle': 'Style transfer',
+  'verify.readError': 'Could not read the file. Is it an image?',
+  'verify.matches': 'The watermark matches the manifest. This image was generated with AI.',
+  'verify.mismatch': 'The watermark and the manifest belong to different images. The manifest may have been copied from another file.',
+  'verify.watermarkOnly': 'This image carries an AI-generation watermark, but no manifest. Add its .provenance.json file to see the details.',
+  'verify.manifestOnly': 'The manifest says this image was generated with AI, but the watermark is gone, most likely from resizing or lossy compression.',
+  'verify.nothing': 'No watermark or manifest found. The image was not made here, or it was resized or re-encoded.',
+  'verify.title': 'Verify an image',
+  'verify.image': 'Image',
+  'verify.sidecar': 'Provenance file (optional, for JPEG and WebP exports)',
+  'verify.imageAlt': 'Image being verified',
+  'verify.reading': 'Reading the image…',
+  'verify.watermarkId': 'Watermark ID',
+  'verify.noneFound': 'None found',
+  'verify.manifest': 'Manifest',
+  'verify.embedded': 'Embedded in the image',
+  'verify.fromSidecar': 'From the provenance file',
+  'verify.manifestId': 'Manifest ID',
+  'verify.madeWith': 'Made with',
+  'verify.operation': 'Operation',
+  'verify.unknown': 'Unknown',
+  'verify.created': 'Created',
+  'verify.visibleBadge': 'Visible badge',
+  'verify.yes': 'Yes',
+  'verify.no': 'No',
+  'verify.promptHash': 'Prompt hash',
+  'verify.sourceImages': 'Source images',
+  'verify.none': 'None',
+  'verify.editedFrom': 'Edited from',
+  'verify.original': 'Nothing; this is an original',
+  'verify.inGallery': '(in your gallery)',
+  'verify.match': 'This image is in your gallery.',
+  'verify.checkPrompt': 'Check a prompt against the manifest',
+  'verify.promptPlaceholder': 'The prompt, exactly as written',
+  'verify.promptMatches': 'This is the prompt the image was made from.',
+  'verify.promptDiffers': 'This prompt does not match.',
+  'verify.labelling': 'Labelling new images',
+  'verify.stampBadge': 'Stamp a visible badge on images generated from now on',
+  'verify.badgeText': 'Badge text',
+  'verify.position': 'Position',
+  'verify.hint': 'Your gallery keeps images as the model drew them. The badge, the invisible watermark and the provenance manifest are added to every download, share, export and published toon. The watermark survives PNG saves, added margins and cropping, but not resizing or JPEG compression.',
+};
+
+export type MessageKey = keyof typeof en;
+
+export type Messages = Record<MessageKey, string>;
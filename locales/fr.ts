@@ -0,0 +1,648 @@
+import type { Messages } from './en';
+
+export const fr: Messages = {
+  'header.language': "Langue de l'interface",
+
+  'tab.cartoon': 'Générateur de dessins',
+  'tab.edit': "Éditeur d'images",
+  'tab.restyle': 'Transfert de style',
+  'tab.gallery': 'Galerie ({count})',
+  'tab.team': "Galerie d'équipe",
+  'tab.usage': 'Consommation',
+  'tab.verify': 'Vérifier une image',
+
+  'banner.providerUnavailable': "Fournisseur d'images indisponible : ",
+  'banner.error': 'Erreur : ',
+  'footer': 'Propulsé par Gemini. Créé à des fins d’illustration.',
+
+  'common.cancel': 'Annuler',
+  'common.download': 'Télécharger',
+  'common.share': 'Partager',
+  'common.publish': "Publier dans la galerie d'équipe",
+
+  'style.chooseBy': 'Choisir le style par',
+  'style.magazine': 'Magazine',
+  'style.cartoonist': 'Dessinateur',
+  'style.builtIn': 'Intégrés',
+  'style.yours': 'Vos styles',
+  'color.label': 'Couleur',
+  'color.color': 'Couleur',
+  'color.blackAndWhite': 'Noir et blanc',
+
+  'cartoon.singlePanel': 'Case unique',
+  'cartoon.comicStrip': 'Bande dessinée',
+  'cartoon.animation': 'Animation',
+  'cartoon.description': 'Description du dessin',
+  'cartoon.descriptionPlaceholder': 'ex. : Un programmeur qui se dispute avec un canard en plastique',
+  'cartoon.caption': 'Légende (facultative)',
+  'cartoon.captionPlaceholder': 'Composée sous le dessin, ex. : « Avez-vous essayé de l’éteindre et de le rallumer ? »',
+  'cartoon.character': 'Votre propre personnage (facultatif)',
+  'cartoon.characterPreview': 'Aperçu du personnage',
+  'cartoon.removeCharacter': "Retirer l'image du personnage",
+  'cartoon.signature': 'Signature (facultative)',
+  'cartoon.signaturePlaceholder': 'ex. : Votre nom',
+  'cartoon.signatureByModel': 'Laisser le modèle dessiner la signature (sinon elle est composée telle que saisie)',
+  'cartoon.outputLanguage': 'Langue du dessin',
+  'cartoon.outputLanguageHint': "Pour les légendes, les dialogues et tout texte dessiné dans l'image. Votre description est envoyée telle quelle, et les noms et mots entre guillemets sont conservés.",
+  'cartoon.generating': 'Génération…',
+  'cartoon.generateStrip': 'Générer la bande',
+  'cartoon.generateAnimation': "Générer l'animation",
+  'cartoon.generateCartoon': 'Générer le dessin',
+  'cartoon.generatedStrip': 'Bande générée',
+  'cartoon.generatedAnimation': 'Animation',
+  'cartoon.generatedCartoon': 'Dessin généré',
+  'cartoon.stripAlt': 'Bande dessinée générée',
+  'cartoon.cartoonAlt': 'Dessin généré',
+  'cartoon.stripPlaceholder': 'Votre bande dessinée apparaîtra ici une fois toutes les cases dessinées.',
+  'cartoon.animationPlaceholder': 'Votre animation sera lue ici une fois toutes les images dessinées.',
+  'cartoon.cartoonPlaceholder': 'Votre dessin apparaîtra ici.',
+  'cartoon.history': 'Vos créations',
+  'cartoon.historyAlt': 'Dessin généré précédemment',
+  'cartoon.shareTitle': 'Mon dessin ExpressToons',
+  'cartoon.shareText': "Regardez ce dessin que j'ai généré avec ExpressToons !",
+
+  'editor.originalUpload': 'Image importée',
+  'editor.upload': 'Importer une image à modifier',
+  'editor.selectedVersion': 'Version sélectionnée',
+  'editor.maskOnly': 'Ne modifier que la zone masquée',
+  'editor.placeholder': 'Importez une image pour commencer.',
+  'editor.shareTitle': 'Mon image modifiée',
+  'editor.shareText': "Regardez cette image que j'ai modifiée avec ExpressToons !",
+  'editor.instruction': 'Instruction de modification',
+  'editor.instructionPlaceholder': 'ex. : Passe-la en noir et blanc',
+  'editor.instructionHint': "Les modifications s'appliquent à la version sélectionnée. Choisissez une version plus ancienne dans l'arbre pour repartir d'elle.",
+  'editor.editing': 'Modification…',
+  'editor.apply': 'Appliquer',
+  'editor.versionTree': 'Arbre des versions',
+  'editor.undo': 'Annuler',
+  'editor.undoTitle': 'Annuler (Ctrl+Z)',
+  'editor.redo': 'Rétablir',
+  'editor.redoTitle': 'Rétablir (Ctrl+Maj+Z)',
+  'editor.exportChain': 'Exporter la chaîne',
+  'editor.noVersions': 'Vos versions apparaîtront ici. Ouvrez une modification depuis la galerie pour reprendre un arbre existant.',
+
+  'restyle.upload': 'Importer une photo',
+  'restyle.photoAlt': 'Photo à redessiner',
+  'restyle.strength': 'Fidélité à la photo : {strength} %',
+  'restyle.loose': 'Réinterprétation libre',
+  'restyle.exact': 'Même composition',
+  'restyle.redrawing': 'Dessin en cours…',
+  'restyle.redraw': 'Redessiner en dessin',
+  'restyle.result': 'Dessin',
+  'restyle.resultAlt': 'Photo redessinée en dessin',
+  'restyle.placeholder': 'Importez une photo, choisissez un style et votre dessin apparaîtra ici.',
+  'restyle.shareText': "Regardez ce dessin que j'ai tiré d'une photo avec ExpressToons !",
+
+  'confirm.deleteStyle': 'Supprimer le style « {name} » ?',
+  'confirm.deleteCharacter': 'Retirer {name} de vos personnages ?',
+  'confirm.deletePreset': 'Supprimer le préréglage « {name} » ?',
+  'confirm.openProject': 'Ouvrir ce projet ? Ses créations, styles, personnages et préréglages sont ajoutés à votre bibliothèque, et les descriptions et réglages actuels sont remplacés.',
+  'confirm.deleteCreation': 'Supprimer cette création de votre galerie ?',
+  'confirm.clearUsage': "Effacer tout l'historique de consommation ? Cette action est irréversible.",
+
+  'error.describeAndStyle': 'Saisissez une description et choisissez un style.',
+  'error.fillPlaceholder': "Remplissez d'abord {{name}} dans la description.",
+  'error.fixTemplate': "Corrigez d'abord le modèle de prompt. {error}",
+  'error.chooseStyle': "Choisissez d'abord un style.",
+  'error.describePanels': 'Décrivez chaque case et choisissez un style.',
+  'error.describeKeyframes': 'Décrivez chaque image et choisissez un style.',
+  'error.photoAndStyle': 'Importez une photo et choisissez un style.',
+  'error.imageAndInstruction': 'Importez une image et saisissez une instruction de modification.',
+  'error.paintMask': 'Peignez la zone à modifier, ou désactivez le masque.',
+  'error.prepareMask': 'Impossible de préparer le masque.',
+  'error.saveMask': "Impossible d'enregistrer le masque.",
+  'error.deleteMask': 'Impossible de supprimer le masque.',
+  'error.deleteStyle': 'Impossible de supprimer le style.',
+  'error.deleteCharacter': 'Impossible de supprimer le personnage.',
+  'error.savePreset': "Impossible d'enregistrer le préréglage.",
+  'error.deletePreset': 'Impossible de supprimer le préréglage.',
+  'error.shareUnsupported': 'Votre navigateur ne permet pas de partager des fichiers.',
+  'error.share': "Impossible de partager l'image. Essayez plutôt de la télécharger.",
+  'error.prepareDownload': "Impossible de préparer l'image pour le téléchargement.",
+  'error.prepareShare': "Impossible de préparer l'image pour le partage.",
+  'error.preparePublish': "Impossible de préparer l'image pour la publication.",
+  'error.updateFavorites': 'Impossible de mettre à jour les favoris.',
+  'error.saveProject': "Impossible d'enregistrer le projet.",
+  'error.openProject': "Impossible d'ouvrir le projet.",
+  'error.exportSelection': "Impossible d'exporter la sélection.",
+  'error.exportAnimation': "Impossible d'exporter l'animation.",
+  'error.deleteCreation': 'Impossible de supprimer la création.',
+  'error.clearUsage': "Impossible d'effacer l'historique de consommation.",
+
+  'gallery.show': 'Afficher',
+  'gallery.everything': 'Tout',
+  'gallery.cartoons': 'Dessins',
+  'gallery.strips': 'Bandes dessinées',
+  'gallery.edits': 'Retouches',
+  'gallery.restyles': 'Transferts de style',
+  'gallery.style': 'Style',
+  'gallery.allStyles': 'Tous les styles',
+  'gallery.favoritesOnly': 'Favoris uniquement',
+  'gallery.select': 'Sélectionner',
+  'gallery.doneSelecting': 'Terminer la sélection',
+  'gallery.selected': '{count} sélectionné(s)',
+  'gallery.selectAllShown': 'Tout sélectionner',
+  'gallery.clear': 'Effacer',
+  'gallery.exportZip': 'Exporter en ZIP',
+  'gallery.exportZipTitle': 'Utilise vos derniers réglages de téléchargement',
+  'gallery.paperSize': 'Format du papier',
+  'gallery.contactSheet': 'Planche contact PDF',
+  'gallery.zine': 'Fanzine PDF',
+  'gallery.exporting': 'Exportation…',
+  'gallery.empty': "Rien d'enregistré pour l'instant. Vos dessins et retouches apparaîtront ici.",
+  'gallery.noMatches': 'Aucune création ne correspond à ces filtres.',
+  'gallery.selectItem': 'Sélectionner {title}',
+  'gallery.favorite': 'Ajouter aux favoris',
+  'gallery.unfavorite': 'Retirer des favoris',
+  'gallery.open': 'Ouvrir',
+  'gallery.regenerate': 'Régénérer',
+  'gallery.publish': 'Publier',
+  'gallery.delete': 'Supprimer',
+  'gallery.styleDetail': '{styleType} : {styleName} · {color}',
+  'gallery.blackAndWhite': 'N&B',
+  'gallery.stripDetail': 'Bande de {count} cases · {style}',
+  'gallery.edit': "Retouche d'image",
+  'gallery.maskedEdit': "Retouche d'image masquée",
+  'gallery.restyleTitle': 'Photo redessinée en dessin',
+  'gallery.restyleDetail': 'Transfert de style à {strength} % · {style}',
+
+  'paper.a4': 'A4',
+  'paper.letter': 'Lettre US',
+  'pdf.contactSheetTitle': 'Planche contact ExpressToons',
+  'pdf.contactSheetHeader': 'Planche contact ExpressToons · {date} · page {page} sur {pages}',
+  'pdf.zineTitle': 'Fanzine ExpressToons',
+  'pdf.untitled': 'Sans titre',
+
+  'export.title': "Exporter l'image",
+  'export.format': 'Format',
+  'export.quality': 'Qualité',
+  'export.qualityPercent': 'Qualité ({percent} %)',
+  'export.size': 'Taille',
+  'export.margin': 'Marge (mm)',
+  'export.border': 'Bordure (mm)',
+  'export.borderColor': 'Couleur de la bordure',
+  'export.embedMetadata': 'Intégrer la consigne, le style, le modèle et la date',
+  'export.embedMetadataPngOnly': 'Intégrer la consigne, le style, le modèle et la date (PNG uniquement)',
+  'export.pixels': '{width} × {height} px',
+  'export.printed': '{width} × {height} px · {inchWidth} × {inchHeight} po à {dpi} DPI',
+  'export.measuring': "Mesure de l'image…",
+  'export.exporting': 'Exportation…',
+  'export.error': "Impossible d'exporter l'image. Essayez un format d'impression plus petit.",
+
+  'printSize.original': "Pixels d'origine",
+  'printSize.4in': 'Tirage 4 po, 300 DPI',
+  'printSize.6in': 'Tirage 6 po, 300 DPI',
+  'printSize.8in': 'Tirage 8 po, 300 DPI',
+  'printSize.letter': 'Lettre US, 300 DPI',
+  'printSize.a4': 'A4, 300 DPI',
+  'printSize.poster': 'Affiche 18 po, 150 DPI',
+
+  'batch.title': 'Génération par lots',
+  'batch.inProgress': '{count} en cours · ',
+  'batch.show': 'Afficher',
+  'batch.hide': 'Masquer',
+  'batch.hint': "Utilise la description, la signature, la couleur et le personnage du formulaire ci-dessus. La file continue pendant que vous changez d'onglet.",
+  'batch.variations': 'Variantes par style : {count}',
+  'batch.concurrency': 'En parallèle : {count}',
+  'batch.currentStyle': 'Style actuel : {name}. ',
+  'batch.moreStyles': "Cochez d'autres styles pour décliner la même scène.",
+  'batch.queueOne': 'Mettre {count} dessin en file',
+  'batch.queueMany': 'Mettre {count} dessins en file',
+  'batch.magazines': 'Magazines',
+  'batch.cartoonists': 'Dessinateurs',
+  'batch.queue': "File d'attente",
+  'batch.cancelAll': 'Tout annuler',
+  'batch.clearFinished': 'Retirer les terminés',
+  'batch.status.queued': 'en attente',
+  'batch.status.running': 'en cours',
+  'batch.status.failed': 'échec',
+  'batch.status.done': 'terminé',
+  'batch.status.cancelled': 'annulé',
+  'batch.retrying': 'nouvel essai (tentative {attempt})',
+  'batch.retry': 'Réessayer',
+  'batch.results': 'Résultats',
+  'batch.resultAlt': 'Résultat du lot',
+
+  'gag.title': 'Auteur de gags',
+  'gag.show': "Besoin d'une idée ?",
+  'gag.hide': 'Masquer',
+  'gag.topicPlaceholder': 'Un sujet ou un titre, p. ex. Retour au bureau cinq jours sur cinq',
+  'gag.suggest': 'Proposer des gags',
+  'gag.voice': 'Écrit dans le ton de {name}.',
+  'gag.scene': 'Scène {number}',
+  'gag.caption': 'Légende {number}',
+  'gag.remix': 'Varier',
+  'gag.use': 'Utiliser',
+
+  'character.cast': "Distribution (jusqu'à {count} personnages)",
+  'character.new': '+ Nouveau personnage',
+  'character.empty': 'Ajoutez des personnages récurrents avec quelques images de référence : ils seront identiques dans chaque dessin.',
+  'character.edit': 'Modifier',
+  'character.delete': 'Supprimer {name}',
+  'character.namePlaceholder': 'Nom, p. ex. Professeur Moustache',
+  'character.descriptionPlaceholder': 'Son apparence et son caractère, p. ex. un chat tigré en veste de tweed, pompeux',
+  'character.references': "Images de référence (jusqu'à {count}), p. ex. face, profil et expressions",
+  'character.reference': 'Référence {number}',
+  'character.removeReference': 'Retirer la référence {number}',
+  'character.label': 'Libellé',
+  'character.front': 'face',
+  'character.side': 'profil',
+  'character.expressions': 'expressions',
+  'character.save': 'Enregistrer le personnage',
+
+  'preset.title': 'Préréglages',
+  'preset.copyLink': 'Copier le lien vers ces réglages',
+  'preset.linkCopied': 'Lien copié',
+  'preset.label': 'Préréglage',
+  'preset.none': 'Aucun préréglage',
+  'preset.choose': 'Choisir un préréglage…',
+  'preset.apply': 'Appliquer',
+  'preset.delete': 'Supprimer',
+  'preset.namePlaceholder': 'Nom des réglages actuels, p. ex. Vie de bureau, Roz Chast N&B',
+  'preset.save': 'Enregistrer le préréglage',
+  'preset.placeholderHint': 'Écrivez des {placeholders} dans la description, p. ex. « Un {animal} à {place} », pour les remplir à chaque fois.',
+
+  'provider.provider': 'Fournisseur',
+  'provider.model': 'Modèle',
+  'provider.noKey': "Le serveur d'API n'a pas de clé d'API Gemini. Définissez GEMINI_API_KEY dans .env.local et relancez `npm run server`.",
+  'provider.unreachable': "Le serveur d'API est injoignable. Lancez-le avec `npm run server`, ou passez au fournisseur de test hors ligne.",
+
+  'styleLibrary.title': 'Bibliothèque de styles',
+  'styleLibrary.customCount': '{count} personnalisé(s)',
+  'styleLibrary.manage': 'Gérer',
+  'styleLibrary.hide': 'Masquer',
+  'styleLibrary.allTags': 'Toutes les étiquettes',
+  'styleLibrary.new': '+ Nouveau style',
+  'styleLibrary.import': 'Importer',
+  'styleLibrary.export': 'Exporter mes styles',
+  'styleLibrary.builtIn': 'intégré',
+  'styleLibrary.use': 'Utiliser',
+  'styleLibrary.customise': 'Personnaliser',
+  'styleLibrary.edit': 'Modifier',
+  'styleLibrary.delete': 'Supprimer',
+  'styleLibrary.customName': '{name} (personnalisé)',
+  'styleLibrary.name': 'Nom du style',
+  'styleLibrary.lineWeight': 'Épaisseur du trait',
+  'styleLibrary.lineWeightPlaceholder': 'p. ex. traits de plume fins et tremblés',
+  'styleLibrary.palette': 'Palette',
+  'styleLibrary.palettePlaceholder': 'p. ex. pastels doux avec une touche de rouge',
+  'styleLibrary.composition': 'Composition',
+  'styleLibrary.compositionPlaceholder': "p. ex. un seul personnage, beaucoup d'espace blanc",
+  'styleLibrary.humour': "Ton de l'humour",
+  'styleLibrary.humourPlaceholder': 'p. ex. pince-sans-rire et absurde',
+  'styleLibrary.tags': 'Étiquettes (séparées par des virgules)',
+  'styleLibrary.tagsPlaceholder': 'p. ex. sombre, rétro',
+  'styleLibrary.references': "Images de référence (jusqu'à {count})",
+  'styleLibrary.save': 'Enregistrer le style',
+
+  'styleFile.notJson': "Le fichier de styles n'est pas un JSON valide.",
+  'styleFile.noStyles': "Le fichier de styles n'a pas de liste « styles ».",
+  'styleFile.newer': "Le fichier de styles a été créé par une version plus récente d'ExpressToons.",
+  'styleFile.noName': "Le style {number} du fichier n'a pas de nom.",
+
+  'mask.label': 'Masque',
+  'mask.brush': 'Pinceau',
+  'mask.eraser': 'Gomme',
+  'mask.lasso': 'Lasso',
+  'mask.invert': 'Inverser',
+  'mask.clear': 'Effacer',
+  'mask.brushSize': 'Taille du pinceau',
+  'mask.feathering': 'Adoucissement : {feather} px',
+  'mask.hint': "Peignez sur la partie de l'image à modifier.",
+  'mask.invertedHint': 'Tout sauf la zone peinte sera modifié.',
+  'mask.keptHint': 'Les pixels hors du masque restent exactement tels quels.',
+  'mask.saved': 'Masques enregistrés',
+  'mask.delete': 'Supprimer le masque {name}',
+  'mask.save': '+ Enregistrer le masque actuel',
+  'mask.namePrompt': 'Nommez ce masque',
+  'mask.defaultName': 'Masque {number}',
+
+  'overlay.showControls': 'Modifier le texte et les bulles',
+  'overlay.hideControls': 'Masquer le texte et les bulles',
+  'overlay.addSpeech': '+ Bulle de dialogue',
+  'overlay.addThought': '+ Bulle de pensée',
+  'overlay.speech': 'Bulle de dialogue',
+  'overlay.thought': 'Bulle de pensée',
+  'overlay.signature': 'Signature',
+  'overlay.remove': 'Retirer : {layer}',
+  'overlay.caption': 'Légende',
+  'overlay.captionPlaceholder': 'Une légende imprimée sous la case',
+  'overlay.size': 'Taille',
+  'overlay.dragHint': "Faites glisser les bulles sur l'image pour les déplacer, et le point pour orienter la pointe.",
+
+  'font.comic': 'BD',
+  'font.serif': 'Serif',
+  'font.sans': 'Sans serif',
+  'font.typewriter': 'Machine à écrire',
+  'font.handwritten': 'Manuscrite',
+
+  'usage.calls': 'Appels',
+  'usage.succeeded': '{percent} % réussis',
+  'usage.averageLatency': 'Latence moyenne',
+  'usage.tokens': 'Jetons',
+  'usage.costToday': "Coût estimé aujourd'hui",
+  'usage.costThisMonth': 'Coût estimé ce mois-ci',
+  'usage.ofBudget': 'sur un budget de {budget}',
+  'usage.noBudget': 'Aucun budget défini',
+  'usage.budget': 'Budget',
+  'usage.softLimit': 'Limite indicative (USD)',
+  'usage.none': 'Aucune',
+  'usage.per': 'Par',
+  'usage.day': 'Jour',
+  'usage.month': 'Mois',
+  'usage.budgetUsed': 'Budget utilisé',
+  'usage.budgetHintDay': "Dès que le coût estimé aujourd'hui atteint la limite, une confirmation vous est demandée avant chaque génération. Rien n'est bloqué.",
+  'usage.budgetHintMonth': "Dès que le coût estimé ce mois-ci atteint la limite, une confirmation vous est demandée avant chaque génération. Rien n'est bloqué.",
+  'usage.budgetWarningDay': 'Vous avez dépensé environ {spent} de votre budget quotidien de {budget}. Générer quand même ?',
+  'usage.budgetWarningMonth': 'Vous avez dépensé environ {spent} de votre budget mensuel de {budget}. Générer quand même ?',
+  'usage.dailyTotals': 'Totaux quotidiens',
+  'usage.exportCsv': 'Exporter en CSV',
+  'usage.clearLog': 'Vider le journal',
+  'usage.empty': "Aucun appel enregistré pour l'instant. Chaque génération, retouche et demande de gags faite depuis ce navigateur est consignée ici.",
+  'usage.column.day': 'Jour',
+  'usage.column.failed': 'Échecs',
+  'usage.column.inputImages': "Images d'entrée",
+  'usage.column.tokensInOut': 'Jetons entrée / sortie',
+  'usage.column.averageLatency': 'Latence moy.',
+  'usage.column.cost': 'Coût est.',
+  'usage.unpricedCalls': "{count} appels n'ont pas de prix",
+  'usage.latestCalls': 'Derniers appels',
+  'usage.column.time': 'Heure',
+  'usage.column.operation': 'Opération',
+  'usage.column.model': 'Modèle',
+  'usage.column.result': 'Résultat',
+  'usage.column.latency': 'Latence',
+  'usage.prices': 'Tarifs',
+  'usage.addModel': 'Ajouter un modèle',
+  'usage.reset': 'Réinitialiser',
+  'usage.pricesHint': "Dollars US par million de jetons d'entrée et de sortie, plus un montant fixe par appel réussi pour les services facturés à l'image. Les coûts sont estimés à partir des jetons comptés par le modèle.",
+  'usage.unpricedModels': 'Aucun prix pour {models} : ces appels ne sont pas comptés dans le coût.',
+  'usage.addNamedModel': 'Ajouter {model}',
+  'usage.column.inputPrice': 'Entrée / 1M',
+  'usage.column.outputPrice': 'Sortie / 1M',
+  'usage.column.perCall': 'Par appel',
+  'usage.modelId': 'Identifiant du modèle',
+  'usage.newModel': 'nouveau modèle',
+  'usage.inputPriceFor': "Prix d'entrée pour {model}",
+  'usage.outputPriceFor': 'Prix de sortie pour {model}',
+  'usage.callPriceFor': 'Prix par appel pour {model}',
+  'usage.remove': 'Retirer',
+  'usage.operation.cartoon': 'Dessin',
+  'usage.operation.panel': 'Case de bande dessinée',
+  'usage.operation.frame': "Image d'animation",
+  'usage.operation.restyle': 'Transfert de style',
+  'usage.operation.edit': 'Retouche',
+  'usage.operation.gags': 'Auteur de gags',
+
+  'outcome.success': 'Réussi',
+  'outcome.cancelled': 'Annulé',
+  'outcome.safetyBlock': 'Bloqué par la sécurité',
+  'outcome.refusal': 'Refus',
+  'outcome.rateLimited': 'Limite de débit',
+  'outcome.invalidImage': 'Image invalide',
+  'outcome.timeout': 'Délai dépassé',
+  'outcome.network': 'Injoignable',
+  'outcome.error': 'Erreur',
+
+  'apiError.safetyBlock': 'Les filtres de sécurité ont bloqué cette demande ({reason}). Reformulez la description et évitez tout ce qui pourrait passer pour violent, explicite ou viser une personne réelle.',
+  'apiError.refusalQuoted': 'Le modèle a répondu au lieu de dessiner : {text} Essayez de reformuler la demande.',
+  'apiError.refusal': "Le modèle a répondu par du texte au lieu d'une image. Essayez de reformuler la demande.",
+  'apiError.rateLimitedSeconds': 'Trop de demandes, ou le quota du modèle est épuisé. Attendez environ {seconds} secondes puis réessayez, ou réduisez le parallélisme du lot.',
+  'apiError.rateLimited': 'Trop de demandes, ou le quota du modèle est épuisé. Attendez une minute puis réessayez, ou réduisez le parallélisme du lot.',
+  'apiError.invalidImage': "L'image n'a pas pu être utilisée. Importez une image PNG, JPEG ou WebP et réessayez.",
+  'apiError.timeout': 'Le modèle a mis trop de temps à répondre. Réessayez ou choisissez un modèle plus rapide.',
+  'apiError.unreachable': "Impossible de joindre le service d'images. Vérifiez votre connexion et que `npm run server` tourne, ou passez au fournisseur de test hors ligne.",
+  'apiError.unknown': "Une erreur inconnue s'est produite.",
+
+  'error.copyLink': "Impossible de copier le lien. Copiez-le plutôt depuis la barre d'adresse.",
+  'error.saveCharacter': "Impossible d'enregistrer le personnage.",
+  'error.saveStyle': "Impossible d'enregistrer le style.",
+  'error.importStyles': "Impossible d'importer les styles.",
+  'error.exportStyles': "Impossible d'exporter les styles.",
+  'error.loadCreations': "Vos créations enregistrées n'ont pas pu être chargées.",
+  'error.saveCreation': "Ce résultat n'a pas pu être enregistré et disparaîtra au rechargement. Téléchargez-le pour le garder.",
+  'error.composeStrip': "Les cases n'ont pas pu être assemblées en bande. Changez la mise en page ou redessinez une case.",
+  'error.openCreation': "Impossible d'ouvrir cette création.",
+  'error.loadUsage': "Impossible de charger le journal d'utilisation. Seuls les appels de cette session sont affichés.",
+
+  'aspect.1:1': 'Carré (1:1)',
+  'aspect.4:5': 'Portrait Instagram (4:5)',
+  'aspect.3:4': 'Portrait (3:4)',
+  'aspect.2:3': 'Portrait tirage (2:3)',
+  'aspect.9:16': 'Story (9:16)',
+  'aspect.5:4': 'Paysage (5:4)',
+  'aspect.4:3': 'Paysage (4:3)',
+  'aspect.3:2': 'Paysage photo (3:2)',
+  'aspect.16:9': 'En-tête de blog (16:9)',
+  'aspect.21:9': 'Bannière (21:9)',
+  'output.label': 'Sortie',
+  'output.aspectRatio': "Format d'image",
+  'output.anyShape': 'Tout format',
+  'output.imageSize': "Taille de l'image",
+  'output.modelSize': 'Taille du modèle',
+  'output.fit': 'Adapter au format en',
+  'output.crop': 'Recadrant',
+  'output.pad': 'Complétant',
+  'output.noRatioCropped': "Ce modèle n'accepte pas de format d'image : la consigne décrit le cadre et le résultat est recadré en {ratio}.",
+  'output.noRatioPadded': "Ce modèle n'accepte pas de format d'image : la consigne décrit le cadre et le résultat est complété en {ratio}.",
+  'output.offRatioCropped': "Si le résultat s'écarte légèrement de {ratio}, il est recadré pour correspondre.",
+  'output.offRatioPadded': "Si le résultat s'écarte légèrement de {ratio}, il est complété pour correspondre.",
+  'output.noSize': "Ce modèle n'accepte pas de taille : le résultat est mis à l'échelle en {size}.",
+
+  'strip.panels': 'Cases',
+  'strip.panel': 'Case {number}',
+  'strip.regeneratePanel': 'Regénérer la case {number}',
+  'strip.generatePanel': 'Générer la case {number}',
+  'strip.layout': 'Mise en page',
+  'strip.horizontal': 'Bande horizontale',
+  'strip.grid': 'Grille 2×2',
+  'strip.vertical': 'Verticale',
+  'strip.script': 'Scénario (une ligne par case)',
+  'strip.actionPlaceholder': 'Ce qui se passe dans cette case',
+  'strip.dialoguePlaceholder': 'Dialogue (facultatif)',
+  'strip.removePanel': 'Retirer la case {number}',
+  'strip.addPanel': '+ Ajouter une case',
+
+  'compare.title': 'Comparer les versions',
+  'compare.slider': 'Curseur',
+  'compare.sideBySide': 'Côte à côte',
+  'compare.close': 'Fermer la comparaison',
+  'compare.position': 'Position de comparaison',
+  'compare.compare': 'Comparer',
+  'compare.comparing': 'Comparaison',
+
+  'crop.title': "Recadrer l'image",
+  'crop.free': 'Libre',
+  'crop.size': '{width} × {height} px avant réduction',
+  'crop.whole': "Utiliser toute l'image",
+  'crop.confirm': 'Recadrer',
+
+  'upload.settings': "Réglages d'import",
+  'upload.hideSettings': "Masquer les réglages d'import",
+  'upload.maxSize': 'Taille max.',
+  'upload.format': 'Format',
+  'upload.quality': 'Qualité',
+  'upload.crop': 'Recadrer chaque import',
+  'upload.unsupported': "« {name} » n'est pas une image prise en charge. Utilisez un fichier {formats}.",
+  'upload.tooLarge': '« {name} » dépasse {size} Mo. Choisissez une image plus petite.',
+  'upload.unreadable': "« {name} » n'a pas pu être lu. Si c'est une photo HEIC d'iPhone, exportez-la d'abord en JPEG.",
+  'upload.encode': "Impossible d'encoder l'image.",
+
+  'project.save': 'Enregistrer le projet',
+  'project.open': 'Ouvrir un projet',
+  'project.missingBlob': 'Il manque {name} dans le fichier de projet.',
+  'project.notProject': "Ce n'est pas un fichier de projet ExpressToons.",
+  'project.newer': "Ce projet a été enregistré par une version plus récente d'ExpressToons. Mettez l'application à jour pour l'ouvrir.",
+  'project.tooOld': 'Les projets enregistrés au format {version} ne peuvent plus être ouverts.',
+  'project.damaged': "Ce n'est pas un fichier de projet ExpressToons, ou il est endommagé.",
+
+  'template.title': 'Modèle de consigne',
+  'template.edit': 'Modifier le modèle',
+  'template.hideEditor': "Masquer l'éditeur",
+  'template.copy': 'Copier',
+  'template.delete': 'Supprimer',
+  'template.name': 'Nom du modèle',
+  'template.text': 'Texte du modèle',
+  'template.defaultReadOnly': 'Le modèle par défaut ne peut pas être modifié. Copiez-le pour créer le vôtre.',
+  'template.variables': 'Variables :',
+  'template.conditionalHint': "Entourez un texte de {#if signature}…{/if} pour ne l'inclure que si une variable est renseignée, ou de {#if !signature} si elle ne l'est pas. {else} donne l'autre branche.",
+  'template.finalPrompt': 'Consigne finale',
+  'template.chooseStyle': 'Choisissez un style pour voir la consigne.',
+  'template.copyName': 'Copie de {name}',
+  'template.unknownVariable': "{variable} n'est pas une variable connue. Utilisez l'une de : {known}.",
+  'template.misplacedElse': '{else} doit se trouver dans un bloc {#if}, une seule fois.',
+  'template.unmatchedEnd': "{/if} n'a pas de {#if} correspondant.",
+  'template.unclosedIf': 'Il manque le {/if} de {block}.',
+
+  'animation.frames': 'Images',
+  'animation.frameNumber': 'Image {number}',
+  'animation.drawFirst': "Dessinez d'abord l'image {number}",
+  'animation.regenerateFrame': "Regénérer l'image {number}",
+  'animation.generateFrame': "Générer l'image {number}",
+  'animation.keyframes': 'Images clés (une ligne par image)',
+  'animation.moveEarlier': "Avancer l'image {number}",
+  'animation.moveLater': "Reculer l'image {number}",
+  'animation.actionPlaceholder': 'Ce qui se passe dans cette image',
+  'animation.shownFor': 'Affichée pendant',
+  'animation.seconds': 'secondes',
+  'animation.duration': "Durée de l'image {number} en secondes",
+  'animation.removeFrame': "Retirer l'image {number}",
+  'animation.addFrame': '+ Ajouter une image',
+  'animation.loop': 'En boucle',
+  'animation.frameOf': "Image {number} sur {count} de l'animation",
+  'animation.pause': 'Pause',
+  'animation.play': 'Lecture',
+  'animation.frame': 'Image',
+  'animation.exportFormat': "Format d'export",
+  'animation.exporting': 'Export…',
+  'animation.export': "Exporter l'animation",
+  'animation.webmHint': "La vidéo est enregistrée en temps réel : l'export dure aussi longtemps que l'animation. Les fichiers WebM n'ont pas de réglage de boucle ; ce sont les lecteurs qui les bouclent.",
+  'animationFormat.gif': 'GIF',
+  'animationFormat.webp': 'WebP animé',
+  'animationFormat.webm': 'Vidéo WebM',
+
+  'team.status.draft': 'Brouillon',
+  'team.status.approved': 'Approuvé',
+  'team.status.published': 'Publié',
+  'team.timeout': "La galerie d'équipe a mis trop de temps à répondre.",
+  'team.unreachable': "La galerie d'équipe est injoignable. Lancez-la avec `npm run gallery`.",
+  'team.failed': "La galerie d'équipe n'a pas répondu.",
+  'team.approve': 'Approuver',
+  'team.unpublish': 'Dépublier',
+  'team.backToDraft': 'Renvoyer en brouillon',
+  'team.sending': 'Envoi…',
+  'team.comment': 'Commenter',
+  'team.reply': 'Répondre',
+  'team.replyTo': 'Répondre à {author}',
+  'team.allToons': '← Tous les dessins',
+  'team.publishedBy': 'Publié par {author} le {date}',
+  'team.prompt': 'Consigne',
+  'team.made': 'Créé',
+  'team.upvoted': 'Voté',
+  'team.upvote': 'Voter pour',
+  'team.enterName': 'Saisissez votre nom ci-dessus pour voter, valider et commenter.',
+  'team.comments': 'Commentaires ({count})',
+  'team.addComment': 'Ajouter un commentaire',
+  'team.yourName': 'Votre nom',
+  'team.namePlaceholder': 'Affiché sur vos commentaires et vos votes',
+  'team.intro': "Les dessins publiés depuis le générateur ou votre galerie arrivent ici en brouillon, pour que l'équipe les valide.",
+  'team.refresh': 'Actualiser',
+  'team.statusFilter': 'Statut',
+  'team.anyStatus': 'Tous les statuts',
+  'team.show': 'Afficher',
+  'team.everything': 'Tout',
+  'team.kind.cartoon': 'Dessins',
+  'team.kind.strip': 'Bandes dessinées',
+  'team.kind.edit': 'Retouches',
+  'team.kind.restyle': 'Transferts de style',
+  'team.sortBy': 'Trier par',
+  'team.newest': 'Plus récents',
+  'team.mostUpvoted': 'Plus votés',
+  'team.search': 'Rechercher',
+  'team.searchPlaceholder': 'Titre ou consigne',
+  'team.mineOnly': 'Les miens seulement',
+  'team.loading': "Chargement de la galerie d'équipe…",
+  'team.noMatch': 'Aucun dessin ne correspond à ces filtres.',
+  'team.commentCountOne': '{count} commentaire',
+  'team.commentCount': '{count} commentaires',
+
+  'publish.image': 'Image à publier',
+  'publish.done': 'Publié en brouillon. Votre équipe peut maintenant le valider.',
+  'publish.openTeamGallery': "Ouvrir la galerie d'équipe",
+  'publish.close': 'Terminé',
+  'publish.title': 'Titre',
+  'publish.namePlaceholder': 'Visible par votre équipe',
+  'publish.hint': "La consigne, le style, le modèle et la date l'accompagnent. Il reste en brouillon jusqu'à ce que quelqu'un l'approuve.",
+  'publish.publishing': 'Publication…',
+
+  'badge.topLeft': 'En haut à gauche',
+  'badge.topRight': 'En haut à droite',
+  'badge.bottomLeft': 'En bas à gauche',
+  'badge.bottomRight': 'En bas à droite',
+  'export.provenanceSidecar': 'Le manifeste de provenance est enregistré dans un fichier .provenance.json séparé, et le filigrane invisible risque de ne pas survivre à une compression avec perte.',
+
+  'verify.operation.cartoon': 'Dessin',
+  'verify.operation.strip': 'Bande dessinée',
+  'verify.operation.edit': 'Retouche',
+  'verify.operation.restyle': 'Transfert de style',
+  'verify.readError': "Impossible de lire le fichier. S'agit-il bien d'une image ?",
+  'verify.matches': 'Le filigrane correspond au manifeste. Cette image a été générée par IA.',
+  'verify.mismatch': 'Le filigrane et le manifeste appartiennent à des images différentes. Le manifeste a peut-être été copié depuis un autre fichier.',
+  'verify.watermarkOnly': 'Cette image porte un filigrane de génération par IA, mais aucun manifeste. Ajoutez son fichier .provenance.json pour voir les détails.',
+  'verify.manifestOnly': "Le manifeste indique que cette image a été générée par IA, mais le filigrane a disparu, sans doute à cause d'un redimensionnement ou d'une compression avec perte.",
+  'verify.nothing': "Aucun filigrane ni manifeste trouvé. L'image n'a pas été créée ici, ou elle a été redimensionnée ou réencodée.",
+  'verify.title': 'Vérifier une image',
+  'verify.image': 'Image',
+  'verify.sidecar': 'Fichier de provenance (facultatif, pour les exports JPEG et WebP)',
+  'verify.imageAlt': 'Image en cours de vérification',
+  'verify.reading': "Lecture de l'image…",
+  'verify.watermarkId': 'ID du filigrane',
+  'verify.noneFound': 'Aucun trouvé',
+  'verify.manifest': 'Manifeste',
+  'verify.embedded': "Intégré à l'image",
+  'verify.fromSidecar': 'Tiré du fichier de provenance',
+  'verify.manifestId': 'ID du manifeste',
+  'verify.madeWith': 'Créé avec',
+  'verify.operation': 'Opération',
+  'verify.unknown': 'Inconnu',
+  'verify.created': 'Créé le',
+  'verify.visibleBadge': 'Badge visible',
+  'verify.yes': 'Oui',
+  'verify.no': 'Non',
+  'verify.promptHash': 'Empreinte de la consigne',
+  'verify.sourceImages': 'Images sources',
+  'verify.none': 'Aucune',
+  'verify.editedFrom': 'Retouché à partir de',
+  'verify.original': "Rien ; c'est un original",
+  'verify.inGallery': '(dans votre galerie)',
+  'verify.match': 'Cette image est dans votre galerie.',
+  'verify.checkPrompt': 'Comparer une consigne au manifeste',
+  'verify.promptPlaceholder': 'La consigne, exactement telle que rédigée',
+  'verify.promptMatches': "C'est la consigne à partir de laquelle l'image a été créée.",
+  'verify.promptDiffers': 'Cette consigne ne correspond pas.',
+  'verify.labelling': 'Étiquetage des nouvelles images',
+  'verify.stampBadge': 'Apposer un badge visible sur les images générées à partir de maintenant',
+  'verify.badgeText': 'Texte du badge',
+  'verify.position': 'Position',
+  'verify.hint': 'Votre galerie conserve les images telles que le modèle les a dessinées. Le badge, le filigrane invisible et le manifeste de provenance sont ajoutés à chaque téléchargement, partage, export et dessin publié. Le filigrane résiste aux enregistrements PNG, aux marges ajoutées et au recadrage, mais pas au redimensionnement ni à la compression JPEG.',
+};
@@ -0,0 +1,183 @@
+// @vitest-environment node
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createReadStream } from 'fs';
+import { createServer } from 'http';
+import type { IncomingMessage, Server, ServerResponse } from 'http';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { AddressInfo } from 'net';
+import { BlockedReason } from '@google/genai';
+import { createApp } from './app';
+import type { GenAIClient } from './gemini';
+import { createRateLimiter } from './rateLimit';
+import { createStaticHandler } from './static';
+import { answerWith, createFakeGenAI, createTestImage } from '../test/fakes';
+
+// Reading goes to the real file system unless a test makes it fail.
+vi.mock('fs', async (importOriginal) => {
+  const original = await importOriginal<typeof import('fs')>();
+  return { ...original, createReadStream: vi.fn(original.createReadStream) };
+});
+
+const image = createTestImage();
+let server: Server | null = null;
+let staticDir: string | null = null;
+
+type Fallback = (req: IncomingMessage, res: ServerResponse) => Promise<void>;
+
+// Serves the app on a free port and returns its base URL.
+const start = async (ai: GenAIClient | null, capacity = 100, fallback?: Fallback): Promise<string> => {
+  const app = createApp({
+    ai,
+    rateLimiter: createRateLimiter({ capacity, refillPerMinute: 1 }),
+    maxBodyBytes: 1024 * 1024,
+    trustProxy: false,
+    upstreamTimeoutMs: 5000,
+    fallback,
+  });
+  server = createServer(app);
+  await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+};
+
+const post = (url: string, body: unknown) =>
+  fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+
+afterEach(async () => {
+  await new Promise(resolve => server?.close(resolve) ?? resolve(undefined));
+  server = null;
+  if (staticDir) await rm(staticDir, { recursive: true, force: true });
+  staticDir = null;
+});
+
+describe('createApp', () => {
+  it('reports whether a key is configured', async () => {
+    const base = await start(null);
+    const response = await fetch(`${base}/api/health`);
+    expect(await response.json()).toMatchObject({ ok: true, configured: false });
+  });
+
+  it('answers image routes with 503 without a key', async () => {
+    const base = await start(null);
+    const response = await post(`${base}/api/cartoon`, { prompt: 'Draw a cat' });
+    expect(response.status).toBe(503);
+  });
+
+  it('forwards a cartoon request with its aspect ratio and size', async () => {
+    const { client, generateContent } = createFakeGenAI(answerWith({ inlineData: image }));
+    const base = await start(client);
+    const response = await post(`${base}/api/cartoon`, {
+      model: 'gemini-3-pro-image-preview',
+      prompt: 'Draw a cat',
+      images: [image],
+      aspectRatio: '16:9',
+      imageSize: '2K',
+    });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ image });
+    expect(generateContent).toHaveBeenCalledWith(expect.objectContaining({
+      model: 'gemini-3-pro-image-preview',
+      config: expect.objectContaining({ imageConfig: { aspectRatio: '16:9', imageSize: '2K' } }),
+    }));
+  });
+
+  it('rejects an image size for a model that does not take one', async () => {
+    const { client, generateContent } = createFakeGenAI();
+    const base = await start(client);
+    const response = await post(`${base}/api/cartoon`, { model: 'gemini-2.5-flash-image', prompt: 'Draw a cat', imageSize: '4K' });
+    expect(response.status).toBe(400);
+    expect(generateContent).not.toHaveBeenCalled();
+  });
+
+  it('rejects images that are not base64', async () => {
+    const base = await start(createFakeGenAI().client);
+    const response = await post(`${base}/api/edit`, { prompt: 'Make it blue', image: { data: 'not base64!', mimeType: 'image/png' } });
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ error: { code: 'invalid_image' } });
+  });
+
+  it('sends the mask after the image when editing', async () => {
+    const mask = createTestImage([255, 255, 255]);
+    const { client, generateContent } = createFakeGenAI(answerWith({ inlineData: image }));
+    const base = await start(client);
+    await post(`${base}/api/edit`, { prompt: 'Make it blue', image, mask });
+    expect(generateContent).toHaveBeenCalledWith(expect.objectContaining({
+      contents: { parts: [{ inlineData: image }, { inlineData: mask }, { text: 'Make it blue' }] },
+    }));
+  });
+
+  it('passes a safety block through with its code and reason', async () => {
+    const { client } = createFakeGenAI({ promptFeedback: { blockReason: BlockedReason.SAFETY } });
+    const base = await start(client);
+    const response = await post(`${base}/api/cartoon`, { prompt: 'Draw a cat' });
+    expect(response.status).toBe(422);
+    expect(await response.json()).toEqual({
+      error: { message: 'The request was blocked by the safety filters.', code: 'safety_block', reason: 'SAFETY' },
+    });
+  });
+
+  it('maps an upstream 429 to rate_limited', async () => {
+    const { client } = createFakeGenAI(Object.assign(new Error('Quota exceeded'), { status: 429 }));
+    const base = await start(client);
+    const response = await post(`${base}/api/cartoon`, { prompt: 'Draw a cat' });
+    expect(response.status).toBe(429);
+    expect(await response.json()).toMatchObject({ error: { code: 'rate_limited' } });
+  });
+
+  it('limits how many requests a client may make', async () => {
+    const { client } = createFakeGenAI(answerWith({ inlineData: image }));
+    const base = await start(client, 1);
+    expect((await post(`${base}/api/cartoon`, { prompt: 'Draw a cat' })).status).toBe(200);
+    const limited = await post(`${base}/api/cartoon`, { prompt: 'Draw a cat' });
+    expect(limited.status).toBe(429);
+    expect(Number(limited.headers.get('Retry-After'))).toBeGreaterThan(0);
+  });
+
+  it('returns gag concepts', async () => {
+    const concepts = [{ scene: 'A cat at a desk.', caption: '"Meetings."' }];
+    const { client } = createFakeGenAI(answerWith({ text: JSON.stringify(concepts) }));
+    const base = await start(client);
+    const response = await post(`${base}/api/gags`, { prompt: 'Write gags', count: 1 });
+    expect(await response.json()).toEqual({ concepts });
+  });
+
+  it('serves the built client outside /api', async () => {
+    staticDir = await mkdtemp(join(tmpdir(), 'static-'));
+    await writeFile(join(staticDir, 'index.html'), '<!doctype html>');
+    const base = await start(null, 100, createStaticHandler(staticDir));
+    const response = await fetch(`${base}/gallery`);
+    expect([response.status, await response.text()]).toEqual([200, '<!doctype html>']);
+  });
+
+  it('answers 500 when a file cannot be read after all', async () => {
+    staticDir = await mkdtemp(join(tmpdir(), 'static-'));
+    await writeFile(join(staticDir, 'index.html'), '<!doctype html>');
+    // As if the file was deleted between the lookup and the read.
+    const read = vi.mocked(createReadStream).getMockImplementation()!;
+    vi.mocked(createReadStream).mockImplementationOnce(() => read(join(staticDir!, 'deleted.html')));
+    const base = await start(null, 100, createStaticHandler(staticDir));
+    expect((await fetch(`${base}/index.html`)).status).toBe(500);
+    const response = await fetch(`${base}/index.html`);
+    expect(response.status).toBe(200);
+    expect(response.headers.get('x-content-type-options')).toBe('nosniff');
+  });
+
+  it('answers a path with a malformed escape with 400', async () => {
+    staticDir = await mkdtemp(join(tmpdir(), 'static-'));
+    const base = await start(null, 100, createStaticHandler(staticDir));
+    expect((await fetch(`${base}/%E0%A4%A`)).status).toBe(400);
+    // The server is still up.
+    expect((await fetch(`${base}/api/health`)).status).toBe(200);
+  });
+
+  it('answers 500 when the fallback fails', async () => {
+    const base = await start(null, 100, async () => {
+      throw new Error('disk gone');
+    });
+    const response = await fetch(`${base}/anything`);
+    expect(response.status).toBe(500);
+    expect((await fetch(`${base}/api/health`)).status).toBe(200);
+  });
+});
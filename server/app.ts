@@ -0,0 +1,219 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { AspectRatio, CartoonRequestBody, EditRequestBody, ErrorResponseBody, GagRequestBody, InlineImage, HealthResponseBody, ImageSize } from '../types';
+import { HttpError, sendJson, readJsonBody, getClientId } from './http';
+import { ASPECT_RATIOS, generateGags, generateImage, IMAGE_MODELS, IMAGE_SIZE_MODELS, IMAGE_SIZES } from './gemini';
+import type { GenAIClient } from './gemini';
+import type { RateLimiter } from './rateLimit';
+
+export interface AppOptions {
+  // Null when GEMINI_API_KEY is not configured; image routes then answer 503.
+  ai: GenAIClient | null;
+  rateLimiter: RateLimiter;
+  maxBodyBytes: number;
+  trustProxy: boolean;
+  // How long to wait for Gemini before answering 504.
+  upstreamTimeoutMs: number;
+  // Optional fallback for requests outside /api, e.g. serving the built client.
+  fallback?: (req: IncomingMessage, res: ServerResponse) => Promise<void>;
+}
+
+const MAX_PROMPT_LENGTH = 4000;
+// A full cast of characters plus style references and a strip reference panel.
+const MAX_IMAGES = 16;
+const MAX_GAG_CONCEPTS = 8;
+// The formats Gemini accepts as image input.
+const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/heic', 'image/heif'];
+const BASE64 = /^[A-Za-z0-9+/]+={0,2}$/;
+const DEFAULT_GAG_CONCEPTS = 4;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const parsePrompt = (value: unknown): string => {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new HttpError(400, 'A non-empty "prompt" string is required.');
+  }
+  if (value.length > MAX_PROMPT_LENGTH) {
+    throw new HttpError(400, `"prompt" must be at most ${MAX_PROMPT_LENGTH} characters.`);
+  }
+  return value;
+};
+
+const parseModel = (value: unknown): string => {
+  if (value === undefined) return IMAGE_MODELS[0];
+  if (typeof value !== 'string' || !IMAGE_MODELS.includes(value)) {
+    throw new HttpError(400, `"model" must be one of: ${IMAGE_MODELS.join(', ')}.`);
+  }
+  return value;
+};
+
+const invalidImage = (message: string) => new HttpError(400, message, {}, { code: 'invalid_image' });
+
+const parseImage = (value: unknown, field: string): InlineImage => {
+  if (!isRecord(value) || typeof value.data !== 'string' || typeof value.mimeType !== 'string') {
+    throw new HttpError(400, `"${field}" must be an object with "data" and "mimeType" strings.`);
+  }
+  if (!IMAGE_TYPES.includes(value.mimeType)) {
+    throw invalidImage(`"${field}" must be one of: ${IMAGE_TYPES.join(', ')}.`);
+  }
+  if (!value.data || value.data.length % 4 !== 0 || !BASE64.test(value.data)) {
+    throw invalidImage(`"${field}" is not valid base64 image data.`);
+  }
+  return { data: value.data, mimeType: value.mimeType };
+};
+
+const parseAspectRatio = (value: unknown): AspectRatio | undefined => {
+  if (value === undefined) return undefined;
+  if (!ASPECT_RATIOS.includes(value as AspectRatio)) {
+    throw new HttpError(400, `"aspectRatio" must be one of: ${ASPECT_RATIOS.join(', ')}.`);
+  }
+  return value as AspectRatio;
+};
+
+const parseImageSize = (value: unknown, model: string): ImageSize | undefined => {
+  if (value === undefined) return undefined;
+  if (!IMAGE_SIZES.includes(value as ImageSize)) {
+    throw new HttpError(400, `"imageSize" must be one of: ${IMAGE_SIZES.join(', ')}.`);
+  }
+  if (!IMAGE_SIZE_MODELS.includes(model)) {
+    throw new HttpError(400, `"imageSize" is only supported by: ${IMAGE_SIZE_MODELS.join(', ')}.`);
+  }
+  return value as ImageSize;
+};
+
+const parseCartoonBody = (body: unknown): CartoonRequestBody & Required<Pick<CartoonRequestBody, 'model' | 'images'>> => {
+  if (!isRecord(body)) throw new HttpError(400, 'Expected a JSON object.');
+  const images = body.images ?? [];
+  if (!Array.isArray(images) || images.length > MAX_IMAGES) {
+    throw new HttpError(400, `"images" must be an array of at most ${MAX_IMAGES} images.`);
+  }
+  const model = parseModel(body.model);
+  return {
+    model,
+    prompt: parsePrompt(body.prompt),
+    images: images.map((image, i) => parseImage(image, `images[${i}]`)),
+    aspectRatio: parseAspectRatio(body.aspectRatio),
+    imageSize: parseImageSize(body.imageSize, model),
+  };
+};
+
+const parseEditBody = (body: unknown): EditRequestBody & { model: string } => {
+  if (!isRecord(body)) throw new HttpError(400, 'Expected a JSON object.');
+  return {
+    model: parseModel(body.model),
+    prompt: parsePrompt(body.prompt),
+    image: parseImage(body.image, 'image'),
+    mask: body.mask === undefined ? undefined : parseImage(body.mask, 'mask'),
+  };
+};
+
+const parseGagBody = (body: unknown): Required<GagRequestBody> => {
+  if (!isRecord(body)) throw new HttpError(400, 'Expected a JSON object.');
+  const count = body.count ?? DEFAULT_GAG_CONCEPTS;
+  if (typeof count !== 'number' || !Number.isInteger(count) || count < 1 || count > MAX_GAG_CONCEPTS) {
+    throw new HttpError(400, `"count" must be a whole number from 1 to ${MAX_GAG_CONCEPTS}.`);
+  }
+  return { prompt: parsePrompt(body.prompt), count };
+};
+
+// Maps errors thrown by the GenAI SDK onto a status and code the client can act on.
+const toHttpError = (e: unknown): HttpError => {
+  if (e instanceof HttpError) return e;
+  const status = (e as { status?: unknown })?.status;
+  const message = e instanceof Error ? e.message : '';
+  if (status === 429) {
+    return new HttpError(429, 'The model is rate limited or out of quota. Please try again shortly.', {}, { code: 'rate_limited' });
+  }
+  if (status === 400 && /image/i.test(message)) {
+    return invalidImage('The model could not read one of the images.');
+  }
+  if (typeof status === 'number' && status >= 400 && status < 500) {
+    return new HttpError(400, 'The model rejected the request.', {}, { code: 'bad_request' });
+  }
+  return new HttpError(502, 'The model could not be reached.', {}, { code: 'upstream_unavailable' });
+};
+
+export const createApp = (options: AppOptions) => {
+  const { ai, rateLimiter, maxBodyBytes, trustProxy, upstreamTimeoutMs, fallback } = options;
+
+  const requireClient = (): GenAIClient => {
+    if (!ai) throw new HttpError(503, 'GEMINI_API_KEY is not set on the server.');
+    return ai;
+  };
+
+  const enforceRateLimit = (req: IncomingMessage) => {
+    const { allowed, retryAfterSeconds } = rateLimiter.take(getClientId(req, trustProxy));
+    if (!allowed) {
+      throw new HttpError(429, 'Too many requests. Please slow down.', { 'Retry-After': String(retryAfterSeconds) }, { code: 'rate_limited' });
+    }
+  };
+
+  // Stops the Gemini call when it runs too long or the client goes away.
+  const createUpstreamSignal = (res: ServerResponse): AbortSignal => {
+    const disconnected = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) disconnected.abort();
+    });
+    return AbortSignal.any([disconnected.signal, AbortSignal.timeout(upstreamTimeoutMs)]);
+  };
+
+  const routes: Record<string, (req: IncomingMessage, signal: AbortSignal) => Promise<unknown>> = {
+    'GET /api/health': async () => ({ ok: true, configured: ai !== null, models: IMAGE_MODELS } satisfies HealthResponseBody),
+
+    'POST /api/cartoon': async (req, signal) => {
+      enforceRateLimit(req);
+      const client = requireClient();
+      const { model, prompt, images, aspectRatio, imageSize } = parseCartoonBody(await readJsonBody(req, maxBodyBytes));
+      return generateImage(client, model, prompt, images, signal, { aspectRatio, imageSize });
+    },
+
+    'POST /api/edit': async (req, signal) => {
+      enforceRateLimit(req);
+      const client = requireClient();
+      const { model, prompt, image, mask } = parseEditBody(await readJsonBody(req, maxBodyBytes));
+      return generateImage(client, model, prompt, mask ? [image, mask] : [image], signal);
+    },
+
+    'POST /api/gags': async (req, signal) => {
+      enforceRateLimit(req);
+      const client = requireClient();
+      const { prompt, count } = parseGagBody(await readJsonBody(req, maxBodyBytes));
+      return generateGags(client, prompt, count, signal);
+    },
+  };
+
+  return async (req: IncomingMessage, res: ServerResponse) => {
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+
+    if (!path.startsWith('/api/')) {
+      if (fallback) {
+        // The server does not wait on handlers, so a failure here must not escape as an unhandled rejection.
+        return fallback(req, res).catch((e) => {
+          console.error(`${req.method} ${path} failed:`, e);
+          if (res.headersSent) res.destroy();
+          else sendJson(res, 500, { error: { message: 'Internal server error.' } });
+        });
+      }
+      return sendJson(res, 404, { error: { message: 'Not found.' } });
+    }
+
+    const route = routes[`${req.method} ${path}`];
+    if (!route) {
+      return sendJson(res, 404, { error: { message: 'Not found.' } });
+    }
+
+    const signal = createUpstreamSignal(res);
+    try {
+      sendJson(res, 200, await route(req, signal));
+    } catch (e) {
+      const timedOut = signal.reason instanceof DOMException && signal.reason.name === 'TimeoutError';
+      const error = timedOut
+        ? new HttpError(504, 'The model took too long to answer.', {}, { code: 'timeout' })
+        : toHttpError(e);
+      if (error.status >= 500) console.error(`${req.method} ${path} failed:`, e);
+      // The body may not have been read; stop accepting it so the socket is not kept busy.
+      if (!req.complete) res.setHeader('Connection', 'close');
+      sendJson(res, error.status, { error: { message: error.message, ...error.details } } satisfies ErrorResponseBody, error.headers);
+    }
+  };
+};
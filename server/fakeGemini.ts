@@ -0,0 +1,93 @@
+import { createServer } from 'http';
+import { sendJson, readJsonBody } from './http';
+
+/**
+ * A stand-in for the Gemini REST endpoint so the API server can be exercised
+ * without a key or network access. Point the server at it with
+ * GEMINI_BASE_URL=http://localhost:8788 and any GEMINI_API_KEY.
+ *
+ * generateContent calls answer with a 1x1 PNG, or with placeholder gag concepts
+ * when JSON output is requested. Markers in the prompt change the answer:
+ *
+ * - "[fake-status:NNN]" answers with that HTTP status.
+ * - "[fake-block]" reports the prompt as blocked by the safety filters.
+ * - "[fake-refusal]" answers with text instead of an image.
+ * - "[fake-delay:MS]" waits that many milliseconds first, to exercise timeouts.
+ */
+
+const PIXEL_PNG =
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8/5+hHgAHggJ/PchI7wAAAABJRU5ErkJggg==';
+
+const port = Number(process.env.FAKE_GEMINI_PORT) || 8788;
+
+const findPrompt = (body: unknown): string => {
+  const contents = (body as { contents?: { parts?: { text?: string }[] }[] })?.contents ?? [];
+  return contents
+    .flatMap((content) => content.parts ?? [])
+    .map((part) => part.text ?? '')
+    .join(' ');
+};
+
+const wantsJson = (body: unknown): boolean =>
+  (body as { generationConfig?: { responseMimeType?: string } })?.generationConfig?.responseMimeType === 'application/json';
+
+const FAKE_CONCEPTS = [
+  { scene: 'Two fake cartoonists staring at a blank page.', caption: '"Maybe the robot has an idea."' },
+  { scene: 'A server rack wearing a tiny party hat.', caption: '"It said it wanted to be more than a stand-in."' },
+];
+
+createServer(async (req, res) => {
+  const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+  if (req.method !== 'POST' || !path.endsWith(':generateContent')) {
+    return sendJson(res, 404, { error: { code: 404, message: 'Not found', status: 'NOT_FOUND' } });
+  }
+
+  const body = await readJsonBody(req, 50 * 1024 * 1024).catch(() => null);
+  const prompt = findPrompt(body);
+  const delay = Number(prompt.match(/\[fake-delay:(\d+)\]/)?.[1]);
+  if (delay) await new Promise((resolve) => setTimeout(resolve, delay));
+
+  const forcedStatus = Number(prompt.match(/\[fake-status:(\d{3})\]/)?.[1]);
+  if (forcedStatus) {
+    return sendJson(res, forcedStatus, { error: { code: forcedStatus, message: 'Forced by prompt', status: 'FAKE' } });
+  }
+  if (prompt.includes('[fake-block]')) {
+    return sendJson(res, 200, { promptFeedback: { blockReason: 'SAFETY', blockReasonMessage: 'Forced by prompt' } });
+  }
+  if (prompt.includes('[fake-refusal]')) {
+    return sendJson(res, 200, {
+      candidates: [
+        {
+          content: { role: 'model', parts: [{ text: "I can't draw that, but I could draw a friendlier version." }] },
+          finishReason: 'STOP',
+        },
+      ],
+    });
+  }
+
+  const imageConfig = (body as { generationConfig?: { imageConfig?: unknown } })?.generationConfig?.imageConfig;
+  console.log(`fake generateContent for ${path}${imageConfig ? ` with ${JSON.stringify(imageConfig)}` : ''}`);
+  if (wantsJson(body)) {
+    return sendJson(res, 200, {
+      candidates: [
+        {
+          content: { role: 'model', parts: [{ text: JSON.stringify(FAKE_CONCEPTS) }] },
+          finishReason: 'STOP',
+        },
+      ],
+      usageMetadata: { promptTokenCount: 120, candidatesTokenCount: 180, totalTokenCount: 300 },
+    });
+  }
+  sendJson(res, 200, {
+    candidates: [
+      {
+        content: { role: 'model', parts: [{ inlineData: { mimeType: 'image/png', data: PIXEL_PNG } }] },
+        finishReason: 'STOP',
+      },
+    ],
+    // What Gemini reports for one 1024 px image.
+    usageMetadata: { promptTokenCount: 260, candidatesTokenCount: 1290, totalTokenCount: 1550 },
+  });
+}).listen(port, () => {
+  console.log(`Fake Gemini endpoint listening on http://localhost:${port}`);
+});
@@ -0,0 +1,29 @@
+import { createServer } from 'http';
+import { createGalleryApp } from './galleryApp';
+import { createGalleryStore } from './galleryStore';
+
+const numberFromEnv = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+const port = numberFromEnv('GALLERY_PORT', 8790);
+const dataDir = process.env.GALLERY_DATA_DIR ?? 'gallery-data';
+const store = createGalleryStore(dataDir);
+
+const app = createGalleryApp({
+  store,
+  maxBodyBytes: numberFromEnv('GALLERY_MAX_BODY_BYTES', 20 * 1024 * 1024),
+});
+
+// Binds to localhost unless told otherwise: the gallery has no accounts.
+const host = process.env.GALLERY_HOST ?? '127.0.0.1';
+
+createServer(app).listen(port, host, () => {
+  console.log(`ExpressToons team gallery listening on http://${host}:${port}, storing toons in ${dataDir}`);
+});
+
+process.on('SIGINT', () => {
+  store.close();
+  process.exit(0);
+});
@@ -0,0 +1,159 @@
+// @vitest-environment node
+import { afterEach, describe, expect, it } from 'vitest';
+import { createServer } from 'http';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { PublishToonRequestBody, TeamToonListResponseBody, TeamToonResponseBody } from '../types';
+import { createGalleryApp } from './galleryApp';
+import { createGalleryStore } from './galleryStore';
+import type { GalleryStore } from './galleryStore';
+import { createTestImage } from '../test/fakes';
+
+const image = createTestImage();
+let server: Server | null = null;
+let store: GalleryStore | null = null;
+let dataDir: string | null = null;
+
+// Serves the gallery on a free port, over a fresh data directory, and returns its base URL.
+const start = async (): Promise<string> => {
+  dataDir = await mkdtemp(join(tmpdir(), 'team-gallery-'));
+  store = createGalleryStore(dataDir);
+  server = createServer(createGalleryApp({ store, maxBodyBytes: 1024 * 1024 }));
+  await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/gallery`;
+};
+
+const send = (url: string, method: string, body: unknown) =>
+  fetch(url, { method, headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+
+const toonBody = (overrides: Partial<PublishToonRequestBody> = {}): PublishToonRequestBody => ({
+  title: 'Cat on a keyboard',
+  author: 'Sam',
+  kind: 'cartoon',
+  metadata: { prompt: 'A cat typing a memo', style: 'The New Yorker', model: 'gemini-2.5-flash-image', createdAt: 1000 },
+  image,
+  ...overrides,
+});
+
+const publish = async (base: string, overrides: Partial<PublishToonRequestBody> = {}) =>
+  (await (await send(`${base}/toons`, 'POST', toonBody(overrides))).json() as TeamToonResponseBody).toon;
+
+const list = async (base: string, query = '') =>
+  (await (await fetch(`${base}/toons${query}`)).json() as TeamToonListResponseBody).toons;
+
+afterEach(async () => {
+  await new Promise(resolve => server?.close(resolve) ?? resolve(undefined));
+  store?.close();
+  if (dataDir) await rm(dataDir, { recursive: true, force: true });
+  server = null;
+  store = null;
+  dataDir = null;
+});
+
+describe('createGalleryApp', () => {
+  it('stores a published toon as a draft with its metadata and image', async () => {
+    const base = await start();
+    const toon = await publish(base);
+    expect(toon).toMatchObject({ title: 'Cat on a keyboard', author: 'Sam', status: 'draft', votes: 0, commentCount: 0 });
+    expect(toon.metadata.prompt).toBe('A cat typing a memo');
+
+    const response = await fetch(`${base}/toons/${toon.id}/image`);
+    expect(response.headers.get('Content-Type')).toBe('image/png');
+    expect(response.headers.get('X-Content-Type-Options')).toBe('nosniff');
+    expect(Buffer.from(await response.arrayBuffer()).toString('base64')).toBe(image.data);
+  });
+
+  it('rejects a toon without an image', async () => {
+    const base = await start();
+    const response = await send(`${base}/toons`, 'POST', { ...toonBody(), image: { data: 'not base64!', mimeType: 'image/png' } });
+    expect(response.status).toBe(400);
+    expect(await list(base)).toEqual([]);
+  });
+
+  it('filters by status, author, kind and text, and sorts by votes', async () => {
+    const base = await start();
+    const cat = await publish(base);
+    const strip = await publish(base, { title: 'Monday meeting', author: 'Ana', kind: 'strip', metadata: { ...toonBody().metadata, prompt: 'Robots in a stand-up' } });
+    await send(`${base}/toons/${cat.id}/status`, 'PATCH', { status: 'approved' });
+    await send(`${base}/toons/${cat.id}/vote`, 'PUT', { voter: 'Ana', vote: true });
+
+    expect((await list(base, '?status=approved')).map(toon => toon.id)).toEqual([cat.id]);
+    expect((await list(base, '?author=Ana')).map(toon => toon.id)).toEqual([strip.id]);
+    expect((await list(base, '?kind=strip')).map(toon => toon.id)).toEqual([strip.id]);
+    expect((await list(base, '?q=robots')).map(toon => toon.id)).toEqual([strip.id]);
+    expect((await list(base, '?q=100%25')).map(toon => toon.id)).toEqual([]);
+    expect((await list(base, '?sort=top')).map(toon => toon.id)).toEqual([cat.id, strip.id]);
+    expect((await fetch(`${base}/toons?status=lost`)).status).toBe(400);
+  });
+
+  it('moves through draft, approved and published one step at a time', async () => {
+    const base = await start();
+    const { id } = await publish(base);
+
+    expect((await send(`${base}/toons/${id}/status`, 'PATCH', { status: 'published' })).status).toBe(409);
+    for (const status of ['approved', 'published', 'approved', 'draft']) {
+      const response = await send(`${base}/toons/${id}/status`, 'PATCH', { status });
+      expect((await response.json() as TeamToonResponseBody).toon.status).toBe(status);
+    }
+  });
+
+  it('threads replies under their comment', async () => {
+    const base = await start();
+    const { id } = await publish(base);
+    const first = await (await send(`${base}/toons/${id}/comments`, 'POST', { author: 'Ana', body: 'Love the cat.' })).json() as TeamToonResponseBody;
+    const parentId = first.comments[0].id;
+    const reply = await (await send(`${base}/toons/${id}/comments`, 'POST', { author: 'Sam', body: 'Thanks!', parentId })).json() as TeamToonResponseBody;
+
+    expect(reply.toon.commentCount).toBe(2);
+    expect(reply.comments.map(({ author, parentId }) => ({ author, parentId }))).toEqual([
+      { author: 'Ana', parentId: null },
+      { author: 'Sam', parentId },
+    ]);
+
+    const other = await publish(base);
+    expect((await send(`${base}/toons/${other.id}/comments`, 'POST', { author: 'Sam', body: 'Wrong toon', parentId })).status).toBe(400);
+  });
+
+  it('counts one upvote per voter and lets it be taken back', async () => {
+    const base = await start();
+    const { id } = await publish(base);
+    const vote = async (voter: string, value: boolean) =>
+      (await (await send(`${base}/toons/${id}/vote`, 'PUT', { voter, vote: value })).json() as TeamToonResponseBody).toon;
+
+    await vote('Ana', true);
+    expect(await vote('Ana', true)).toMatchObject({ votes: 1, voted: true });
+    expect(await vote('Sam', true)).toMatchObject({ votes: 2, voted: true });
+    expect(await vote('Ana', false)).toMatchObject({ votes: 1, voted: false });
+
+    const detail = await (await fetch(`${base}/toons/${id}?voter=Sam`)).json() as TeamToonResponseBody;
+    expect(detail.toon.voted).toBe(true);
+  });
+
+  it('rejects an image that is not the type it claims', async () => {
+    const base = await start();
+    const html = Buffer.from('<script>alert(1)</script>').toString('base64');
+    for (const body of [{ data: html, mimeType: 'image/png' }, { ...image, mimeType: 'image/jpeg' }]) {
+      const response = await send(`${base}/toons`, 'POST', toonBody({ image: body }));
+      expect(response.status).toBe(400);
+      expect(await response.json()).toMatchObject({ error: { code: 'invalid_image' } });
+    }
+    expect(await list(base)).toEqual([]);
+  });
+
+  it('answers 404 for an image whose file has gone', async () => {
+    const base = await start();
+    const { id } = await publish(base);
+    const images = join(dataDir!, 'images');
+    for (const file of await readdir(images)) await rm(join(images, file));
+    expect((await fetch(`${base}/toons/${id}/image`)).status).toBe(404);
+  });
+
+  it('answers 404 for unknown toons', async () => {
+    const base = await start();
+    expect((await fetch(`${base}/toons/00000000-0000-0000-0000-000000000000`)).status).toBe(404);
+    expect((await fetch(`${base}/toons/00000000-0000-0000-0000-000000000000/image`)).status).toBe(404);
+  });
+});
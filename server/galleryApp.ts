@@ -0,0 +1,235 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import type {
+  CommentRequestBody,
+  CreationKind,
+  ErrorResponseBody,
+  PublishToonRequestBody,
+  TeamToonListResponseBody,
+  TeamToonMetadata,
+  TeamToonResponseBody,
+  TeamToonStatus,
+  ToonStatusRequestBody,
+  VoteRequestBody,
+} from '../types';
+import { HttpError, sendJson, readJsonBody } from './http';
+import { IMAGE_MIME_TYPES } from './galleryStore';
+import type { GalleryStore, ToonFilter } from './galleryStore';
+
+export interface GalleryAppOptions {
+  store: GalleryStore;
+  maxBodyBytes: number;
+}
+
+const KINDS: CreationKind[] = ['cartoon', 'strip', 'edit', 'restyle'];
+const STATUSES: TeamToonStatus[] = ['draft', 'approved', 'published'];
+// Review moves a toon forward one step at a time, or back one step to rework it.
+const TRANSITIONS: Record<TeamToonStatus, TeamToonStatus[]> = {
+  draft: ['approved'],
+  approved: ['published', 'draft'],
+  published: ['approved'],
+};
+const MAX_NAME_LENGTH = 80;
+const MAX_TITLE_LENGTH = 200;
+const MAX_TEXT_LENGTH = 4000;
+const BASE64 = /^[A-Za-z0-9+/]+={0,2}$/;
+
+// The leading bytes each accepted type starts with; null matches any byte.
+const SIGNATURES: Record<string, (number | null)[]> = {
+  'image/png': [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a],
+  'image/jpeg': [0xff, 0xd8, 0xff],
+  // "RIFF", the chunk size, then "WEBP".
+  'image/webp': [0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x45, 0x42, 0x50],
+};
+
+const hasSignature = (data: Buffer, mimeType: string) =>
+  data.length >= SIGNATURES[mimeType].length && SIGNATURES[mimeType].every((byte, i) => byte === null || data[i] === byte);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const parseText = (value: unknown, field: string, maxLength: number): string => {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new HttpError(400, `A non-empty "${field}" string is required.`);
+  }
+  if (value.length > maxLength) {
+    throw new HttpError(400, `"${field}" must be at most ${maxLength} characters.`);
+  }
+  return value.trim();
+};
+
+const parseOptional = <T extends string>(value: string | null, allowed: readonly T[], field: string): T | undefined => {
+  if (value === null || value === '') return undefined;
+  if (!allowed.includes(value as T)) {
+    throw new HttpError(400, `"${field}" must be one of: ${allowed.join(', ')}.`);
+  }
+  return value as T;
+};
+
+const parseMetadata = (value: unknown): TeamToonMetadata => {
+  if (!isRecord(value)) throw new HttpError(400, '"metadata" must be an object.');
+  const nullableText = (field: 'style' | 'model'): string | null => {
+    const text = value[field] ?? null;
+    if (text === null) return null;
+    if (typeof text === 'string') return text;
+    throw new HttpError(400, `"metadata.${field}" must be a string or null.`);
+  };
+  if (typeof value.prompt !== 'string' || value.prompt.length > MAX_TEXT_LENGTH) {
+    throw new HttpError(400, `"metadata.prompt" must be a string of at most ${MAX_TEXT_LENGTH} characters.`);
+  }
+  if (typeof value.createdAt !== 'number' || !Number.isFinite(value.createdAt)) {
+    throw new HttpError(400, '"metadata.createdAt" must be a timestamp.');
+  }
+  return { prompt: value.prompt, style: nullableText('style'), model: nullableText('model'), createdAt: value.createdAt };
+};
+
+const parsePublishBody = (body: unknown): Omit<PublishToonRequestBody, 'image'> & { image: Buffer; mimeType: string } => {
+  if (!isRecord(body)) throw new HttpError(400, 'Expected a JSON object.');
+  const { image } = body;
+  if (!isRecord(image) || typeof image.data !== 'string' || typeof image.mimeType !== 'string') {
+    throw new HttpError(400, '"image" must be an object with "data" and "mimeType" strings.');
+  }
+  if (!IMAGE_MIME_TYPES.includes(image.mimeType)) {
+    throw new HttpError(400, `"image" must be one of: ${IMAGE_MIME_TYPES.join(', ')}.`, {}, { code: 'invalid_image' });
+  }
+  if (!image.data || image.data.length % 4 !== 0 || !BASE64.test(image.data)) {
+    throw new HttpError(400, '"image" is not valid base64 image data.', {}, { code: 'invalid_image' });
+  }
+  const data = Buffer.from(image.data, 'base64');
+  if (!hasSignature(data, image.mimeType)) {
+    throw new HttpError(400, `"image" is not ${image.mimeType} data.`, {}, { code: 'invalid_image' });
+  }
+  if (!KINDS.includes(body.kind as CreationKind)) {
+    throw new HttpError(400, `"kind" must be one of: ${KINDS.join(', ')}.`);
+  }
+  return {
+    title: parseText(body.title, 'title', MAX_TITLE_LENGTH),
+    author: parseText(body.author, 'author', MAX_NAME_LENGTH),
+    kind: body.kind as CreationKind,
+    metadata: parseMetadata(body.metadata),
+    image: data,
+    mimeType: image.mimeType,
+  };
+};
+
+const parseStatusBody = (body: unknown): ToonStatusRequestBody => {
+  if (!isRecord(body) || !STATUSES.includes(body.status as TeamToonStatus)) {
+    throw new HttpError(400, `"status" must be one of: ${STATUSES.join(', ')}.`);
+  }
+  return { status: body.status as TeamToonStatus };
+};
+
+const parseCommentBody = (body: unknown): Required<CommentRequestBody> => {
+  if (!isRecord(body)) throw new HttpError(400, 'Expected a JSON object.');
+  const parentId = body.parentId ?? null;
+  if (parentId !== null && typeof parentId !== 'string') {
+    throw new HttpError(400, '"parentId" must be a comment id or null.');
+  }
+  return { author: parseText(body.author, 'author', MAX_NAME_LENGTH), body: parseText(body.body, 'body', MAX_TEXT_LENGTH), parentId: parentId as string | null };
+};
+
+const parseVoteBody = (body: unknown): VoteRequestBody => {
+  if (!isRecord(body) || typeof body.vote !== 'boolean') {
+    throw new HttpError(400, 'A boolean "vote" is required.');
+  }
+  return { voter: parseText(body.voter, 'voter', MAX_NAME_LENGTH), vote: body.vote };
+};
+
+const parseFilter = (query: URLSearchParams): ToonFilter => ({
+  status: parseOptional(query.get('status'), STATUSES, 'status'),
+  kind: parseOptional(query.get('kind'), KINDS, 'kind'),
+  sort: parseOptional(query.get('sort'), ['newest', 'top'] as const, 'sort'),
+  author: query.get('author') || undefined,
+  query: query.get('q')?.trim() || undefined,
+  voter: query.get('voter') || undefined,
+});
+
+type Handler = (req: IncomingMessage, res: ServerResponse, id: string, query: URLSearchParams) => Promise<unknown>;
+
+/**
+ * The team gallery API, under /api/gallery. There are no accounts: people give
+ * a display name with each change, so run it only where the team is trusted.
+ * Answers are JSON except for the image route, which streams the stored file.
+ */
+export const createGalleryApp = (options: GalleryAppOptions) => {
+  const { store, maxBodyBytes } = options;
+
+  const requireToon = (id: string, voter?: string) => {
+    const toon = store.getToon(id, voter);
+    if (!toon) throw new HttpError(404, 'No toon with that id.');
+    return toon;
+  };
+
+  const describe = (id: string, voter?: string): TeamToonResponseBody => ({ toon: requireToon(id, voter), comments: store.listComments(id) });
+
+  // Keyed by method and path, with ":id" standing for a toon id. Routes that
+  // answer with a toon report `voted` for the "voter" query parameter.
+  const routes: Record<string, Handler> = {
+    'GET /api/gallery/health': async () => ({ ok: true }),
+
+    'GET /api/gallery/toons': async (_req, _res, _id, query) => ({ toons: store.listToons(parseFilter(query)) } satisfies TeamToonListResponseBody),
+
+    'POST /api/gallery/toons': async (req) => {
+      const toon = await store.addToon(parsePublishBody(await readJsonBody(req, maxBodyBytes)));
+      return { toon, comments: [] } satisfies TeamToonResponseBody;
+    },
+
+    'GET /api/gallery/toons/:id': async (_req, _res, id, query) => describe(id, query.get('voter') ?? undefined),
+
+    'GET /api/gallery/toons/:id/image': async (_req, res, id) => {
+      const image = await store.readImage(id);
+      if (!image) throw new HttpError(404, 'No image for that toon.');
+      res.writeHead(200, {
+        'Content-Type': image.mimeType,
+        'Content-Length': image.data.length,
+        'Cache-Control': 'private, max-age=31536000, immutable',
+        'X-Content-Type-Options': 'nosniff',
+      });
+      res.end(image.data);
+    },
+
+    'PATCH /api/gallery/toons/:id/status': async (req, _res, id, query) => {
+      const current = requireToon(id);
+      const { status } = parseStatusBody(await readJsonBody(req, maxBodyBytes));
+      if (status !== current.status && !TRANSITIONS[current.status].includes(status)) {
+        throw new HttpError(409, `A ${current.status} toon can only move to: ${TRANSITIONS[current.status].join(', ')}.`);
+      }
+      store.setStatus(id, status);
+      return describe(id, query.get('voter') ?? undefined);
+    },
+
+    'POST /api/gallery/toons/:id/comments': async (req, _res, id, query) => {
+      requireToon(id);
+      const comment = store.addComment(id, parseCommentBody(await readJsonBody(req, maxBodyBytes)));
+      if (!comment) throw new HttpError(400, '"parentId" is not a comment on this toon.');
+      return describe(id, query.get('voter') ?? undefined);
+    },
+
+    'PUT /api/gallery/toons/:id/vote': async (req, _res, id) => {
+      requireToon(id);
+      const { voter, vote } = parseVoteBody(await readJsonBody(req, maxBodyBytes));
+      store.setVote(id, voter, vote);
+      return describe(id, voter);
+    },
+  };
+
+  return async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    // Toon ids are UUIDs, so they never need decoding.
+    const match = /^\/api\/gallery\/toons\/([0-9a-f-]+)(\/[a-z]+)?$/.exec(url.pathname);
+    const key = match ? `/api/gallery/toons/:id${match[2] ?? ''}` : url.pathname;
+    const route = routes[`${req.method} ${key}`];
+    if (!route) {
+      return sendJson(res, 404, { error: { message: 'Not found.' } });
+    }
+
+    try {
+      const body = await route(req, res, match?.[1] ?? '', url.searchParams);
+      if (!res.headersSent) sendJson(res, 200, body);
+    } catch (e) {
+      const error = e instanceof HttpError ? e : new HttpError(500, 'The team gallery failed to answer.');
+      if (error.status >= 500) console.error(`${req.method} ${url.pathname} failed:`, e);
+      if (!req.complete) res.setHeader('Connection', 'close');
+      sendJson(res, error.status, { error: { message: error.message, ...error.details } } satisfies ErrorResponseBody, error.headers);
+    }
+  };
+};
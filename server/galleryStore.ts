@@ -0,0 +1,222 @@
+import Database from 'better-sqlite3';
+import { randomUUID } from 'crypto';
+import { mkdirSync } from 'fs';
+import { readFile, unlink, writeFile } from 'fs/promises';
+import { join } from 'path';
+import type { CreationKind, TeamComment, TeamToon, TeamToonMetadata, TeamToonStatus } from '../types';
+
+export interface ToonFilter {
+  status?: TeamToonStatus;
+  author?: string;
+  kind?: CreationKind;
+  // Matched against the title and the prompt.
+  query?: string;
+  sort?: 'newest' | 'top';
+  // Whose votes to report in `voted`.
+  voter?: string;
+}
+
+export interface NewToon {
+  title: string;
+  author: string;
+  kind: CreationKind;
+  metadata: TeamToonMetadata;
+  image: Buffer;
+  mimeType: string;
+}
+
+export interface NewComment {
+  author: string;
+  body: string;
+  parentId: string | null;
+}
+
+export type GalleryStore = ReturnType<typeof createGalleryStore>;
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+};
+
+export const IMAGE_MIME_TYPES = Object.keys(EXTENSIONS);
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS toons (
+    id TEXT PRIMARY KEY,
+    title TEXT NOT NULL,
+    author TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    status TEXT NOT NULL CHECK (status IN ('draft', 'approved', 'published')),
+    metadata TEXT NOT NULL,
+    image_file TEXT NOT NULL,
+    mime_type TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS comments (
+    id TEXT PRIMARY KEY,
+    toon_id TEXT NOT NULL REFERENCES toons(id) ON DELETE CASCADE,
+    parent_id TEXT REFERENCES comments(id) ON DELETE CASCADE,
+    author TEXT NOT NULL,
+    body TEXT NOT NULL,
+    created_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS comments_by_toon ON comments (toon_id, created_at);
+  CREATE TABLE IF NOT EXISTS votes (
+    toon_id TEXT NOT NULL REFERENCES toons(id) ON DELETE CASCADE,
+    voter TEXT NOT NULL,
+    PRIMARY KEY (toon_id, voter)
+  );
+`;
+
+interface ToonRow {
+  id: string;
+  title: string;
+  author: string;
+  kind: CreationKind;
+  status: TeamToonStatus;
+  metadata: string;
+  image_file: string;
+  mime_type: string;
+  created_at: number;
+  updated_at: number;
+  votes: number;
+  voted: number;
+  comment_count: number;
+}
+
+interface CommentRow {
+  id: string;
+  parent_id: string | null;
+  author: string;
+  body: string;
+  created_at: number;
+}
+
+// Counts come from subqueries so one toon row never multiplies into many.
+const TOON_COLUMNS = `
+  t.*,
+  (SELECT COUNT(*) FROM votes v WHERE v.toon_id = t.id) AS votes,
+  EXISTS (SELECT 1 FROM votes v WHERE v.toon_id = t.id AND v.voter = @voter) AS voted,
+  (SELECT COUNT(*) FROM comments c WHERE c.toon_id = t.id) AS comment_count
+`;
+
+const toToon = (row: ToonRow): TeamToon => ({
+  id: row.id,
+  title: row.title,
+  author: row.author,
+  kind: row.kind,
+  status: row.status,
+  metadata: JSON.parse(row.metadata) as TeamToonMetadata,
+  votes: row.votes,
+  voted: row.voted === 1,
+  commentCount: row.comment_count,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+const toComment = (row: CommentRow): TeamComment => ({
+  id: row.id,
+  parentId: row.parent_id,
+  author: row.author,
+  body: row.body,
+  createdAt: row.created_at,
+});
+
+// LIKE wildcards in the search text are matched literally.
+const likePattern = (text: string) => `%${text.replace(/[\\%_]/g, c => `\\${c}`)}%`;
+
+/**
+ * The team gallery's storage: toons, comments and votes in `gallery.db`, and
+ * the images themselves as files under `images/`, both in `dataDir`.
+ */
+export const createGalleryStore = (dataDir: string) => {
+  const imageDir = join(dataDir, 'images');
+  mkdirSync(imageDir, { recursive: true });
+  const db = new Database(join(dataDir, 'gallery.db'));
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  db.exec(SCHEMA);
+
+  const selectToon = db.prepare(`SELECT ${TOON_COLUMNS} FROM toons t WHERE t.id = @id`);
+
+  const getToon = (id: string, voter = ''): TeamToon | null => {
+    const row = selectToon.get({ id, voter }) as ToonRow | undefined;
+    return row ? toToon(row) : null;
+  };
+
+  const listToons = (filter: ToonFilter = {}): TeamToon[] => {
+    const where: string[] = [];
+    if (filter.status) where.push('t.status = @status');
+    if (filter.author) where.push('t.author = @author');
+    if (filter.kind) where.push('t.kind = @kind');
+    if (filter.query) where.push(`(t.title LIKE @query ESCAPE '\\' OR json_extract(t.metadata, '$.prompt') LIKE @query ESCAPE '\\')`);
+    const order = filter.sort === 'top' ? 'votes DESC, t.created_at DESC, t.rowid DESC' : 't.created_at DESC, t.rowid DESC';
+    const rows = db.prepare(`SELECT ${TOON_COLUMNS} FROM toons t ${where.length ? `WHERE ${where.join(' AND ')}` : ''} ORDER BY ${order}`).all({
+      status: filter.status ?? null,
+      author: filter.author ?? null,
+      kind: filter.kind ?? null,
+      query: filter.query ? likePattern(filter.query) : null,
+      voter: filter.voter ?? '',
+    }) as ToonRow[];
+    return rows.map(toToon);
+  };
+
+  // New toons start as drafts, waiting for review.
+  const addToon = async (toon: NewToon): Promise<TeamToon> => {
+    const id = randomUUID();
+    const imageFile = `${id}.${EXTENSIONS[toon.mimeType]}`;
+    const now = Date.now();
+    await writeFile(join(imageDir, imageFile), toon.image);
+    try {
+      db.prepare(`
+        INSERT INTO toons (id, title, author, kind, status, metadata, image_file, mime_type, created_at, updated_at)
+        VALUES (?, ?, ?, ?, 'draft', ?, ?, ?, ?, ?)
+      `).run(id, toon.title, toon.author, toon.kind, JSON.stringify(toon.metadata), imageFile, toon.mimeType, now, now);
+    } catch (e) {
+      await unlink(join(imageDir, imageFile)).catch(() => undefined);
+      throw e;
+    }
+    return getToon(id)!;
+  };
+
+  // Null when there is no such toon, or its file has gone from the image directory.
+  const readImage = async (id: string): Promise<{ data: Buffer; mimeType: string } | null> => {
+    const row = db.prepare('SELECT image_file, mime_type FROM toons WHERE id = ?').get(id) as Pick<ToonRow, 'image_file' | 'mime_type'> | undefined;
+    if (!row) return null;
+    try {
+      return { data: await readFile(join(imageDir, row.image_file)), mimeType: row.mime_type };
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw e;
+    }
+  };
+
+  const setStatus = (id: string, status: TeamToonStatus) => {
+    db.prepare('UPDATE toons SET status = ?, updated_at = ? WHERE id = ?').run(status, Date.now(), id);
+  };
+
+  const listComments = (toonId: string): TeamComment[] =>
+    (db.prepare('SELECT id, parent_id, author, body, created_at FROM comments WHERE toon_id = ? ORDER BY created_at, rowid').all(toonId) as CommentRow[]).map(toComment);
+
+  // Null when the parent is not a comment on this toon.
+  const addComment = (toonId: string, comment: NewComment): TeamComment | null => {
+    if (comment.parentId) {
+      const parent = db.prepare('SELECT 1 FROM comments WHERE id = ? AND toon_id = ?').get(comment.parentId, toonId);
+      if (!parent) return null;
+    }
+    const row: CommentRow = { id: randomUUID(), parent_id: comment.parentId, author: comment.author, body: comment.body, created_at: Date.now() };
+    db.prepare('INSERT INTO comments (id, toon_id, parent_id, author, body, created_at) VALUES (?, ?, ?, ?, ?, ?)')
+      .run(row.id, toonId, row.parent_id, row.author, row.body, row.created_at);
+    return toComment(row);
+  };
+
+  // One vote per voter; voting twice is the same as voting once.
+  const setVote = (toonId: string, voter: string, vote: boolean) => {
+    if (vote) db.prepare('INSERT OR IGNORE INTO votes (toon_id, voter) VALUES (?, ?)').run(toonId, voter);
+    else db.prepare('DELETE FROM votes WHERE toon_id = ? AND voter = ?').run(toonId, voter);
+  };
+
+  return { getToon, listToons, addToon, readImage, setStatus, listComments, addComment, setVote, close: () => db.close() };
+};
@@ -0,0 +1,132 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import { FinishReason, BlockedReason } from '@google/genai';
+import { generateGags, generateImage, parseGagConcepts, TEXT_MODEL } from './gemini';
+import { HttpError } from './http';
+import { answerWith, createFakeGenAI, createTestImage } from '../test/fakes';
+
+const image = createTestImage();
+
+// Runs `action` and returns what it threw.
+const catchError = async (action: () => Promise<unknown>): Promise<HttpError> => {
+  try {
+    await action();
+  } catch (e) {
+    expect(e).toBeInstanceOf(HttpError);
+    return e as HttpError;
+  }
+  throw new Error('Expected an HttpError.');
+};
+
+describe('generateImage', () => {
+  it('sends the images before the prompt and returns the first image part', async () => {
+    const { client, generateContent } = createFakeGenAI(answerWith({ text: 'Here you go.' }, { inlineData: image }));
+    const result = await generateImage(client, 'gemini-2.5-flash-image', 'Draw a cat', [image], undefined, { aspectRatio: '4:5' });
+
+    expect(result).toEqual({ image });
+    const [request] = generateContent.mock.calls[0] as unknown as [{ model: string; contents: { parts: unknown[] }; config: { imageConfig: unknown } }];
+    expect(request.model).toBe('gemini-2.5-flash-image');
+    expect(request.contents.parts).toEqual([{ inlineData: image }, { text: 'Draw a cat' }]);
+    expect(request.config.imageConfig).toEqual({ aspectRatio: '4:5' });
+  });
+
+  it('passes on the token counts from the usage metadata', async () => {
+    const { client } = createFakeGenAI({
+      ...answerWith({ inlineData: image }),
+      usageMetadata: { promptTokenCount: 260, candidatesTokenCount: 1290, totalTokenCount: 1550 },
+    });
+    const { usage } = await generateImage(client, 'm', 'Draw a cat', []);
+    expect(usage).toEqual({ promptTokens: 260, outputTokens: 1290, totalTokens: 1550 });
+  });
+
+  it('reports an empty answer as no_image', async () => {
+    const { client } = createFakeGenAI({ candidates: [] });
+    const error = await catchError(() => generateImage(client, 'm', 'Draw a cat', []));
+    expect(error.status).toBe(502);
+    expect(error.details.code).toBe('no_image');
+  });
+
+  it('reports a candidate without parts as no_image', async () => {
+    const { client } = createFakeGenAI({ candidates: [{ finishReason: FinishReason.STOP }] });
+    const error = await catchError(() => generateImage(client, 'm', 'Draw a cat', []));
+    expect(error.details.code).toBe('no_image');
+  });
+
+  it('reports a blocked prompt with its reason', async () => {
+    const { client } = createFakeGenAI({ promptFeedback: { blockReason: BlockedReason.SAFETY } });
+    const error = await catchError(() => generateImage(client, 'm', 'Draw a cat', []));
+    expect(error.status).toBe(422);
+    expect(error.details).toEqual({ code: 'safety_block', reason: 'SAFETY' });
+  });
+
+  it('prefers the block message over the bare reason', async () => {
+    const { client } = createFakeGenAI({
+      promptFeedback: { blockReason: BlockedReason.PROHIBITED_CONTENT, blockReasonMessage: 'Prohibited content.' },
+    });
+    const error = await catchError(() => generateImage(client, 'm', 'Draw a cat', []));
+    expect(error.details.reason).toBe('Prohibited content.');
+  });
+
+  it('reports an answer stopped by a filter as blocked', async () => {
+    const { client } = createFakeGenAI({ candidates: [{ finishReason: FinishReason.IMAGE_SAFETY }] });
+    const error = await catchError(() => generateImage(client, 'm', 'Draw a cat', []));
+    expect(error.details).toEqual({ code: 'safety_block', reason: 'IMAGE_SAFETY' });
+  });
+
+  it('reports a text-only answer as a refusal, leaving out thoughts', async () => {
+    const { client } = createFakeGenAI(answerWith({ text: 'Thinking…', thought: true }, { text: " I can't draw that. " }));
+    const error = await catchError(() => generateImage(client, 'm', 'Draw a cat', []));
+    expect(error.status).toBe(422);
+    expect(error.details).toEqual({ code: 'refusal', modelText: "I can't draw that." });
+  });
+});
+
+describe('parseGagConcepts', () => {
+  it('keeps well-formed concepts and trims them', () => {
+    const text = JSON.stringify([
+      { scene: ' A cat at a desk. ', caption: ' "Meetings." ' },
+      { scene: '', caption: 'No scene' },
+      { caption: 'Missing scene' },
+      'not a concept',
+    ]);
+    expect(parseGagConcepts(text)).toEqual([{ scene: 'A cat at a desk.', caption: '"Meetings."' }]);
+  });
+
+  it('treats prose as a refusal', () => {
+    expect(() => parseGagConcepts('I would rather not joke about that.')).toThrow(
+      expect.objectContaining({ details: { code: 'refusal', modelText: 'I would rather not joke about that.' } })
+    );
+  });
+
+  it('rejects JSON that was cut short', () => {
+    expect(() => parseGagConcepts('[{"scene": "A cat')).toThrow(expect.objectContaining({ status: 502, details: {} }));
+  });
+
+  it('rejects an empty answer', () => {
+    expect(() => parseGagConcepts(undefined)).toThrow(HttpError);
+    expect(() => parseGagConcepts('')).toThrow(HttpError);
+  });
+
+  it('rejects an answer with no usable concepts', () => {
+    expect(() => parseGagConcepts('[]')).toThrow('no usable gag concepts');
+    expect(() => parseGagConcepts('{"scene": "A cat", "caption": "Hi"}')).toThrow('no usable gag concepts');
+  });
+});
+
+describe('generateGags', () => {
+  it('asks the text model for exactly `count` concepts and returns no more', async () => {
+    const concepts = [1, 2, 3].map(i => ({ scene: `Scene ${i}`, caption: `Caption ${i}` }));
+    const { client, generateContent } = createFakeGenAI(answerWith({ text: JSON.stringify(concepts) }));
+
+    expect(await generateGags(client, 'Write gags', 2)).toEqual({ concepts: concepts.slice(0, 2) });
+    const [request] = generateContent.mock.calls[0] as unknown as [{ model: string; config: { responseSchema: { minItems: string; maxItems: string } } }];
+    expect(request.model).toBe(TEXT_MODEL);
+    expect(request.config.responseSchema).toMatchObject({ minItems: '2', maxItems: '2' });
+  });
+
+  it('reports a blocked prompt before parsing', async () => {
+    const { client } = createFakeGenAI({ promptFeedback: { blockReason: BlockedReason.BLOCKLIST } });
+    const error = await catchError(() => generateGags(client, 'Write gags', 2));
+    expect(error.details.code).toBe('safety_block');
+  });
+});
@@ -0,0 +1,159 @@
+import { FinishReason, GoogleGenAI, Modality, Type } from '@google/genai';
+import type { GenerateContentResponse, ImageConfig, Part, Schema } from '@google/genai';
+import type { AspectRatio, GagConcept, GagResponseBody, ImageResponseBody, ImageSize, InlineImage, TokenUsage } from '../types';
+import { HttpError } from './http';
+
+// Models clients may ask for; the first is used when a request names none.
+export const IMAGE_MODELS = ['gemini-2.5-flash-image', 'gemini-3-pro-image-preview'];
+
+// Every image model takes an aspect ratio; only these also take an image size.
+export const ASPECT_RATIOS: AspectRatio[] = ['1:1', '4:5', '3:4', '2:3', '9:16', '5:4', '4:3', '3:2', '16:9', '21:9'];
+export const IMAGE_SIZES: ImageSize[] = ['1K', '2K', '4K'];
+export const IMAGE_SIZE_MODELS = ['gemini-3-pro-image-preview'];
+
+// Writes gag concepts; any fast text model with JSON output will do.
+export const TEXT_MODEL = 'gemini-2.5-flash';
+
+// The slice of the GenAI client the server relies on, so it can be swapped in tests.
+export type GenAIClient = Pick<GoogleGenAI, 'models'>;
+
+export const createGenAIClient = (apiKey: string, baseUrl?: string): GenAIClient =>
+  new GoogleGenAI({ apiKey, httpOptions: baseUrl ? { baseUrl } : undefined });
+
+// Finish reasons that mean a safety or policy filter stopped the answer.
+const BLOCKED_FINISH_REASONS: string[] = [
+  FinishReason.SAFETY,
+  FinishReason.RECITATION,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII,
+  FinishReason.IMAGE_SAFETY,
+  FinishReason.IMAGE_PROHIBITED_CONTENT,
+  FinishReason.IMAGE_RECITATION,
+];
+
+const safetyBlock = (message: string, reason: string) =>
+  new HttpError(422, message, {}, { code: 'safety_block', reason });
+
+const refusal = (modelText: string) =>
+  new HttpError(422, 'The model answered with text instead of doing what was asked.', {}, { code: 'refusal', modelText });
+
+// Throws when the prompt or the answer was stopped by a filter.
+const checkBlocked = (response: GenerateContentResponse) => {
+  const feedback = response.promptFeedback;
+  if (feedback?.blockReason) {
+    throw safetyBlock('The request was blocked by the safety filters.', feedback.blockReasonMessage || feedback.blockReason);
+  }
+  const candidate = response.candidates?.[0];
+  if (candidate?.finishReason && BLOCKED_FINISH_REASONS.includes(candidate.finishReason)) {
+    throw safetyBlock('The answer was blocked by the safety filters.', candidate.finishMessage || candidate.finishReason);
+  }
+};
+
+const getUsage = ({ usageMetadata }: GenerateContentResponse): TokenUsage | undefined => {
+  if (!usageMetadata) return undefined;
+  const promptTokens = usageMetadata.promptTokenCount ?? 0;
+  const outputTokens = usageMetadata.candidatesTokenCount ?? 0;
+  return { promptTokens, outputTokens, totalTokens: usageMetadata.totalTokenCount ?? promptTokens + outputTokens };
+};
+
+const getText = (parts: Part[]): string =>
+  parts.map((part) => (part.thought ? '' : part.text ?? '')).join('').trim();
+
+/**
+ * Generates an image from a prompt and reference images, with the tokens it
+ * used. A blocked request, an empty answer or a text-only reply is thrown as
+ * an HttpError whose details say which of those happened.
+ */
+export const generateImage = async (
+  ai: GenAIClient,
+  model: string,
+  prompt: string,
+  images: InlineImage[],
+  signal?: AbortSignal,
+  imageConfig?: ImageConfig
+): Promise<ImageResponseBody> => {
+  const parts: Part[] = images.map((image) => ({ inlineData: image }));
+  parts.push({ text: prompt });
+
+  const response = await ai.models.generateContent({
+    model,
+    contents: {
+      parts,
+    },
+    config: {
+      responseModalities: [Modality.IMAGE],
+      imageConfig,
+      abortSignal: signal,
+    },
+  });
+
+  checkBlocked(response);
+  const answer = response.candidates?.[0]?.content?.parts ?? [];
+  for (const part of answer) {
+    if (part.inlineData?.data && part.inlineData.mimeType) {
+      return { image: { data: part.inlineData.data, mimeType: part.inlineData.mimeType }, usage: getUsage(response) };
+    }
+  }
+
+  const text = getText(answer);
+  if (text) throw refusal(text);
+  throw new HttpError(502, 'No image generated.', {}, { code: 'no_image' });
+};
+
+const GAG_SCHEMA: Schema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      scene: { type: Type.STRING, description: 'What the cartoon shows, described for an illustrator.' },
+      caption: { type: Type.STRING, description: 'The caption printed beneath the cartoon.' },
+    },
+    required: ['scene', 'caption'],
+    propertyOrdering: ['scene', 'caption'],
+  },
+};
+
+/**
+ * Keeps the well-formed concepts from the model's JSON answer. Throws when
+ * there are none, e.g. because the answer was cut short or refused.
+ */
+export const parseGagConcepts = (text: string | undefined): GagConcept[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text ?? '');
+  } catch {
+    // Plain prose instead of JSON is the model declining to write the gags.
+    const trimmed = text?.trim() ?? '';
+    if (trimmed && !/^[[{]/.test(trimmed)) throw refusal(trimmed);
+    throw new HttpError(502, 'The text model did not return valid JSON.');
+  }
+  const concepts = (Array.isArray(parsed) ? parsed : [])
+    .filter((item): item is GagConcept =>
+      typeof item?.scene === 'string' && typeof item?.caption === 'string' && item.scene.trim() !== '')
+    .map(({ scene, caption }) => ({ scene: scene.trim(), caption: caption.trim() }));
+  if (concepts.length === 0) {
+    throw new HttpError(502, 'The text model returned no usable gag concepts.');
+  }
+  return concepts;
+};
+
+export const generateGags = async (
+  ai: GenAIClient,
+  prompt: string,
+  count: number,
+  signal?: AbortSignal
+): Promise<GagResponseBody> => {
+  const response = await ai.models.generateContent({
+    model: TEXT_MODEL,
+    contents: prompt,
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: { ...GAG_SCHEMA, minItems: String(count), maxItems: String(count) },
+      abortSignal: signal,
+    },
+  });
+  checkBlocked(response);
+  const concepts = parseGagConcepts(getText(response.candidates?.[0]?.content?.parts ?? [])).slice(0, count);
+  return { concepts, usage: getUsage(response) };
+};
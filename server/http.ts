@@ -0,0 +1,74 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { ErrorResponseBody } from '../types';
+
+// Sent to the client next to the message, e.g. the error code and block reason.
+export type ErrorDetails = Omit<ErrorResponseBody['error'], 'message'>;
+
+export class HttpError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+    public readonly headers: Record<string, string> = {},
+    public readonly details: ErrorDetails = {}
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export const sendJson = (
+  res: ServerResponse,
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {}
+) => {
+  const payload = JSON.stringify(body);
+  res.writeHead(status, {
+    'Content-Type': 'application/json; charset=utf-8',
+    'Content-Length': Buffer.byteLength(payload),
+    'Cache-Control': 'no-store',
+    ...headers,
+  });
+  res.end(payload);
+};
+
+/**
+ * Reads and parses a JSON request body, rejecting anything larger than maxBytes
+ * before it is fully buffered.
+ */
+export const readJsonBody = async (req: IncomingMessage, maxBytes: number): Promise<unknown> => {
+  const declaredLength = Number(req.headers['content-length']);
+  if (Number.isFinite(declaredLength) && declaredLength > maxBytes) {
+    throw new HttpError(413, `Request body exceeds the ${maxBytes} byte limit.`);
+  }
+
+  const contentType = req.headers['content-type'] ?? '';
+  if (!contentType.includes('application/json')) {
+    throw new HttpError(415, 'Expected an application/json request body.');
+  }
+
+  const chunks: Buffer[] = [];
+  let received = 0;
+  for await (const chunk of req) {
+    received += chunk.length;
+    if (received > maxBytes) {
+      throw new HttpError(413, `Request body exceeds the ${maxBytes} byte limit.`);
+    }
+    chunks.push(chunk);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Request body is not valid JSON.');
+  }
+};
+
+export const getClientId = (req: IncomingMessage, trustProxy: boolean): string => {
+  if (trustProxy) {
+    const forwarded = req.headers['x-forwarded-for'];
+    const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0]?.trim();
+    if (first) return first;
+  }
+  return req.socket.remoteAddress ?? 'unknown';
+};
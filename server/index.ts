@@ -0,0 +1,38 @@
+import { createServer } from 'http';
+import { existsSync } from 'fs';
+import { createApp } from './app';
+import { createGenAIClient } from './gemini';
+import { createRateLimiter } from './rateLimit';
+import { createStaticHandler } from './static';
+
+const numberFromEnv = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+const port = numberFromEnv('PORT', 8787);
+const apiKey = process.env.GEMINI_API_KEY;
+const staticDir = process.env.STATIC_DIR ?? 'dist';
+
+if (!apiKey) {
+  console.warn('GEMINI_API_KEY is not set; image requests will fail until it is configured.');
+}
+
+const rateLimiter = createRateLimiter({
+  capacity: numberFromEnv('RATE_LIMIT_BURST', 5),
+  refillPerMinute: numberFromEnv('RATE_LIMIT_PER_MINUTE', 10),
+});
+setInterval(rateLimiter.sweep, 60_000).unref();
+
+const app = createApp({
+  ai: apiKey ? createGenAIClient(apiKey, process.env.GEMINI_BASE_URL) : null,
+  rateLimiter,
+  maxBodyBytes: numberFromEnv('MAX_BODY_BYTES', 10 * 1024 * 1024),
+  trustProxy: process.env.TRUST_PROXY === 'true',
+  upstreamTimeoutMs: numberFromEnv('UPSTREAM_TIMEOUT_MS', 120_000),
+  fallback: existsSync(staticDir) ? createStaticHandler(staticDir) : undefined,
+});
+
+createServer(app).listen(port, () => {
+  console.log(`ExpressToons API listening on http://localhost:${port}`);
+});
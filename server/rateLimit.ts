@@ -0,0 +1,56 @@
+export interface RateLimitOptions {
+  // Maximum burst of requests a single client may make.
+  capacity: number;
+  // Sustained rate, in requests per minute.
+  refillPerMinute: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  // Seconds until the next request would be allowed; 0 when allowed.
+  retryAfterSeconds: number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * Token-bucket rate limiter keyed by client id. Buckets that have fully refilled
+ * are dropped on each sweep so memory stays bounded by active clients.
+ */
+export const createRateLimiter = (options: RateLimitOptions, now: () => number = Date.now) => {
+  const buckets = new Map<string, Bucket>();
+  const refillPerMs = options.refillPerMinute / 60_000;
+
+  const refill = (bucket: Bucket, time: number) => {
+    bucket.tokens = Math.min(options.capacity, bucket.tokens + (time - bucket.updatedAt) * refillPerMs);
+    bucket.updatedAt = time;
+  };
+
+  const take = (clientId: string): RateLimitResult => {
+    const time = now();
+    const bucket = buckets.get(clientId) ?? { tokens: options.capacity, updatedAt: time };
+    refill(bucket, time);
+    buckets.set(clientId, bucket);
+
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return { allowed: true, retryAfterSeconds: 0 };
+    }
+    return { allowed: false, retryAfterSeconds: Math.ceil((1 - bucket.tokens) / refillPerMs / 1000) };
+  };
+
+  const sweep = () => {
+    const time = now();
+    for (const [clientId, bucket] of buckets) {
+      refill(bucket, time);
+      if (bucket.tokens >= options.capacity) buckets.delete(clientId);
+    }
+  };
+
+  return { take, sweep };
+};
+
+export type RateLimiter = ReturnType<typeof createRateLimiter>;
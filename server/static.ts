@@ -0,0 +1,77 @@
+import { createReadStream } from 'fs';
+import { stat } from 'fs/promises';
+import path from 'path';
+import type { IncomingMessage, ServerResponse } from 'http';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.ico': 'image/x-icon',
+  '.woff2': 'font/woff2',
+};
+
+/**
+ * Serves the built client from rootDir, falling back to index.html so client-side
+ * navigation keeps working on reload.
+ */
+export const createStaticHandler = (rootDir: string) => {
+  const root = path.resolve(rootDir);
+
+  // Null when the path has a malformed escape, such as a cut-off %E0%A4.
+  const resolveFile = async (urlPath: string): Promise<string | null> => {
+    let decoded: string;
+    try {
+      decoded = decodeURIComponent(urlPath);
+    } catch {
+      return null;
+    }
+    const candidate = path.resolve(root, `.${decoded}`);
+    if (candidate.startsWith(root + path.sep)) {
+      const info = await stat(candidate).catch(() => null);
+      if (info?.isFile()) return candidate;
+    }
+    return path.join(root, 'index.html');
+  };
+
+  return async (req: IncomingMessage, res: ServerResponse) => {
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      res.writeHead(405).end();
+      return;
+    }
+    const filePath = await resolveFile(new URL(req.url ?? '/', 'http://localhost').pathname);
+    if (filePath === null) {
+      res.writeHead(400).end();
+      return;
+    }
+    const info = await stat(filePath).catch(() => null);
+    if (!info) {
+      res.writeHead(404).end();
+      return;
+    }
+    const headers = {
+      'Content-Type': CONTENT_TYPES[path.extname(filePath)] ?? 'application/octet-stream',
+      'Content-Length': info.size,
+      'X-Content-Type-Options': 'nosniff',
+    };
+    if (req.method === 'HEAD') {
+      res.writeHead(200, headers).end();
+      return;
+    }
+    // The file can go away between stat() and open(), so headers wait until it is open.
+    const stream = createReadStream(filePath);
+    stream.on('open', () => {
+      res.writeHead(200, headers);
+      stream.pipe(res);
+    });
+    stream.on('error', (e) => {
+      console.error(`${req.method} ${req.url} failed:`, e);
+      if (res.headersSent) res.destroy(e);
+      else res.writeHead(500).end();
+    });
+  };
+};
@@ -0,0 +1,159 @@
+import type { AnimationFormat, KeyframeScript } from '../types';
+import type { MessageKey } from '../locales/en';
+import { encodeGif } from '../utils/gif';
+import { encodeAnimatedWebp } from '../utils/webp';
+import { loadImage } from '../utils/image';
+
+export const MIN_KEYFRAMES = 2;
+export const MAX_KEYFRAMES = 8;
+
+export const DEFAULT_FRAME_DURATION_MS = 800;
+// Browsers show GIF frames shorter than about 20 ms at 100 ms, so nothing faster is offered.
+export const MIN_FRAME_DURATION_MS = 100;
+export const MAX_FRAME_DURATION_MS = 10000;
+
+// Frames are scaled down so their longer side is at most this, which keeps GIFs a postable size.
+export const MAX_ANIMATION_SIDE = 720;
+
+export const DEFAULT_KEYFRAMES: KeyframeScript[] = [
+  { action: 'A cat eyes a glass of water at the edge of a table', durationMs: DEFAULT_FRAME_DURATION_MS },
+  { action: 'The cat slowly stretches out one paw towards the glass', durationMs: DEFAULT_FRAME_DURATION_MS },
+  { action: 'The glass tips over the edge and the cat looks straight at the viewer', durationMs: 1500 },
+];
+
+export const ANIMATION_FORMATS: { value: AnimationFormat; labelKey: MessageKey; extension: string; mimeType: string }[] = [
+  { value: 'gif', labelKey: 'animationFormat.gif', extension: 'gif', mimeType: 'image/gif' },
+  { value: 'webp', labelKey: 'animationFormat.webp', extension: 'webp', mimeType: 'image/webp' },
+  { value: 'webm', labelKey: 'animationFormat.webm', extension: 'webm', mimeType: 'video/webm' },
+];
+
+export const clampFrameDuration = (durationMs: number): number =>
+  Number.isFinite(durationMs)
+    ? Math.min(MAX_FRAME_DURATION_MS, Math.max(MIN_FRAME_DURATION_MS, Math.round(durationMs)))
+    : DEFAULT_FRAME_DURATION_MS;
+
+// A copy of the list with the item at `from` moved to `to`.
+export const moveItem = <T>(items: T[], from: number, to: number): T[] => {
+  if (from === to || to < 0 || to >= items.length) return items;
+  const moved = [...items];
+  const [item] = moved.splice(from, 1);
+  moved.splice(to, 0, item);
+  return moved;
+};
+
+// GIF is written here, so it always works; the others depend on the browser's encoders.
+export const isAnimationFormatSupported = (format: AnimationFormat): boolean => {
+  switch (format) {
+    case 'gif':
+      return true;
+    case 'webp': {
+      const canvas = document.createElement('canvas');
+      canvas.width = canvas.height = 1;
+      return canvas.toDataURL('image/webp').startsWith('data:image/webp');
+    }
+    case 'webm':
+      return typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported('video/webm')
+        && typeof HTMLCanvasElement.prototype.captureStream === 'function';
+  }
+};
+
+export interface AnimationFrame {
+  url: string;
+  durationMs: number;
+}
+
+const wait = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * A canvas the size of the first frame, scaled down to MAX_ANIMATION_SIDE, and
+ * a function that draws a frame on it. Frames of another shape are fitted
+ * inside it on white.
+ */
+const createFrameCanvas = async (urls: string[]) => {
+  const images = await Promise.all(urls.map(loadImage));
+  const scale = Math.min(1, MAX_ANIMATION_SIDE / Math.max(images[0].naturalWidth, images[0].naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(images[0].naturalWidth * scale);
+  canvas.height = Math.round(images[0].naturalHeight * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not supported in this browser.');
+
+  const draw = (index: number) => {
+    const image = images[index];
+    const fit = Math.min(canvas.width / image.naturalWidth, canvas.height / image.naturalHeight);
+    const width = image.naturalWidth * fit;
+    const height = image.naturalHeight * fit;
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(image, (canvas.width - width) / 2, (canvas.height - height) / 2, width, height);
+  };
+  return { canvas, ctx, draw };
+};
+
+const canvasToWebp = (canvas: HTMLCanvasElement): Promise<Uint8Array> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (!blob || blob.type !== 'image/webp') {
+        reject(new Error('This browser cannot encode WebP images.'));
+        return;
+      }
+      blob.arrayBuffer().then(buffer => resolve(new Uint8Array(buffer)), reject);
+    }, 'image/webp', 0.9);
+  });
+
+/**
+ * Plays the frames onto a canvas stream and records it. Recording runs in
+ * real time, so it takes as long as one pass of the animation. WebM has no
+ * loop setting; players loop it themselves.
+ */
+const recordWebm = async (canvas: HTMLCanvasElement, draw: (index: number) => void, frames: AnimationFrame[]): Promise<Blob> => {
+  const stream = canvas.captureStream(0);
+  const [track] = stream.getVideoTracks() as CanvasCaptureMediaStreamTrack[];
+  const recorder = new MediaRecorder(stream, { mimeType: 'video/webm' });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => chunks.push(event.data);
+  const stopped = new Promise<void>((resolve) => {
+    recorder.onstop = () => resolve();
+  });
+
+  recorder.start();
+  for (let i = 0; i < frames.length; i++) {
+    draw(i);
+    track.requestFrame();
+    await wait(frames[i].durationMs);
+  }
+  recorder.stop();
+  await stopped;
+  stream.getTracks().forEach(t => t.stop());
+  return new Blob(chunks, { type: 'video/webm' });
+};
+
+/**
+ * Assembles the frames into an animation file. Every frame takes the size of
+ * the first; see createFrameCanvas.
+ */
+export const encodeAnimation = async (frames: AnimationFrame[], format: AnimationFormat, loop: boolean): Promise<Blob> => {
+  const { canvas, ctx, draw } = await createFrameCanvas(frames.map(frame => frame.url));
+  const { width, height } = canvas;
+  const mimeType = ANIMATION_FORMATS.find(option => option.value === format)!.mimeType;
+
+  switch (format) {
+    case 'gif': {
+      const gifFrames = frames.map((frame, i) => {
+        draw(i);
+        return { rgba: ctx.getImageData(0, 0, width, height).data, durationMs: frame.durationMs };
+      });
+      return new Blob([encodeGif(width, height, gifFrames, loop)], { type: mimeType });
+    }
+    case 'webp': {
+      const webpFrames = [];
+      for (let i = 0; i < frames.length; i++) {
+        draw(i);
+        webpFrames.push({ webp: await canvasToWebp(canvas), durationMs: frames[i].durationMs });
+      }
+      return new Blob([encodeAnimatedWebp(width, height, webpFrames, loop)], { type: mimeType });
+    }
+    case 'webm':
+      return recordWebm(canvas, draw, frames);
+  }
+};
@@ -0,0 +1,30 @@
+import type { Character } from '../types';
+import { CHARACTERS_STORE, openDb, requestToPromise, transactionDone } from './db';
+
+// Keeps a scene's request within the server's image limit.
+export const MAX_CAST = 4;
+export const MAX_CHARACTER_IMAGES = 3;
+
+/**
+ * Returns the character roster, sorted by name.
+ */
+export const listCharacters = async (): Promise<Character[]> => {
+  const db = await openDb();
+  const store = db.transaction(CHARACTERS_STORE, 'readonly').objectStore(CHARACTERS_STORE);
+  const characters = await requestToPromise<Character[]>(store.getAll());
+  return characters.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const saveCharacter = async (character: Character): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(CHARACTERS_STORE, 'readwrite');
+  tx.objectStore(CHARACTERS_STORE).put(character);
+  await transactionDone(tx);
+};
+
+export const deleteCharacter = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(CHARACTERS_STORE, 'readwrite');
+  tx.objectStore(CHARACTERS_STORE).delete(id);
+  await transactionDone(tx);
+};
@@ -0,0 +1,69 @@
+const DB_NAME = 'expresstoons';
+const DB_VERSION = 6;
+
+export const CREATIONS_STORE = 'creations';
+export const MASKS_STORE = 'masks';
+export const STYLES_STORE = 'styles';
+export const CHARACTERS_STORE = 'characters';
+export const PRESETS_STORE = 'presets';
+export const USAGE_STORE = 'usage';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const upgrade = (db: IDBDatabase, oldVersion: number) => {
+  if (oldVersion < 1) {
+    const creations = db.createObjectStore(CREATIONS_STORE, { keyPath: 'id' });
+    creations.createIndex('kind', 'kind');
+    creations.createIndex('createdAt', 'createdAt');
+  }
+  if (oldVersion < 2) {
+    const masks = db.createObjectStore(MASKS_STORE, { keyPath: 'id' });
+    masks.createIndex('rootId', 'rootId');
+  }
+  if (oldVersion < 3) {
+    db.createObjectStore(STYLES_STORE, { keyPath: 'id' });
+  }
+  if (oldVersion < 4) {
+    db.createObjectStore(CHARACTERS_STORE, { keyPath: 'id' });
+  }
+  if (oldVersion < 5) {
+    db.createObjectStore(PRESETS_STORE, { keyPath: 'id' });
+  }
+  if (oldVersion < 6) {
+    const usage = db.createObjectStore(USAGE_STORE, { keyPath: 'id' });
+    usage.createIndex('createdAt', 'createdAt');
+  }
+};
+
+export const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser.'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry if opening failed (e.g. private browsing).
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onabort = () => reject(tx.error);
+    tx.onerror = () => reject(tx.error);
+  });
@@ -0,0 +1,97 @@
+import type { EditCreation } from '../types';
+
+// A version in the Image Editor: the upload (root) or an edit applied on top of another version.
+export interface EditNode {
+  id: string;
+  parentId: string | null;
+  // The instruction that produced this version; null for the upload.
+  prompt: string | null;
+  image: Blob;
+  createdAt: number;
+}
+
+// Edits saved before trees existed each count as their own tree.
+export const getRootId = (edit: EditCreation): string => edit.params.rootId ?? `legacy-${edit.id}`;
+
+export const getParentId = (edit: EditCreation): string => edit.params.parentId ?? getRootId(edit);
+
+export const toEditNode = (edit: EditCreation): EditNode => ({
+  id: edit.id,
+  parentId: getParentId(edit),
+  prompt: edit.params.editPrompt,
+  image: edit.image,
+  createdAt: edit.createdAt,
+});
+
+/**
+ * Finds the uploaded image a saved edit descends from by walking up to the edit
+ * applied directly to the upload. If an ancestor was deleted, the oldest
+ * surviving source image stands in for the upload.
+ */
+export const findRootImage = (edit: EditCreation, edits: EditCreation[]): Blob => {
+  const byId = new Map(edits.map(e => [e.id, e]));
+  let current = edit;
+  const seen = new Set<string>();
+  while (!seen.has(current.id)) {
+    seen.add(current.id);
+    const parent = byId.get(getParentId(current));
+    if (!parent) break;
+    current = parent;
+  }
+  return current.params.sourceImage;
+};
+
+export const getChildren = (nodes: EditNode[], parentId: string): EditNode[] =>
+  nodes.filter(node => node.parentId === parentId).sort((a, b) => a.createdAt - b.createdAt);
+
+/**
+ * Returns the versions from the root down to the given node. A missing parent
+ * (e.g. a deleted edit) ends the walk early.
+ */
+export const getPath = (nodes: EditNode[], id: string): EditNode[] => {
+  const byId = new Map(nodes.map(node => [node.id, node]));
+  const path: EditNode[] = [];
+  let current = byId.get(id);
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path;
+};
+
+/**
+ * Nodes whose parent no longer exists are re-attached to the root so the tree
+ * never loses reachable versions.
+ */
+export const reattachOrphans = (nodes: EditNode[], rootId: string): EditNode[] => {
+  const ids = new Set(nodes.map(node => node.id));
+  return nodes.map(node =>
+    node.parentId !== null && !ids.has(node.parentId) ? { ...node, parentId: rootId } : node
+  );
+};
+
+const extensionFor = (mimeType: string): string => {
+  switch (mimeType) {
+    case 'image/jpeg':
+      return 'jpg';
+    case 'image/webp':
+      return 'webp';
+    default:
+      return 'png';
+  }
+};
+
+const slugify = (text: string): string =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40) || 'edit';
+
+/**
+ * Numbered file names for exporting a chain of versions in order, e.g.
+ * "01-original.png", "02-add-a-hat.png".
+ */
+export const getChainFilenames = (path: EditNode[]): string[] => {
+  const width = Math.max(2, String(path.length).length);
+  return path.map((node, i) => {
+    const label = node.prompt === null ? 'original' : slugify(node.prompt);
+    return `${String(i + 1).padStart(width, '0')}-${label}.${extensionFor(node.image.type)}`;
+  });
+};
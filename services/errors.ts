@@ -0,0 +1,128 @@
+import type { ErrorResponseBody } from '../types';
+import { localize } from './i18n';
+
+/**
+ * An HTTP error from an image provider's backend. Carries the status so callers
+ * can tell transient failures (429, 5xx) from permanent ones.
+ */
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    // How long the server asked us to wait before retrying, if it said.
+    public readonly retryAfterMs: number | null = null
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+// The request or the model's answer was stopped by a safety filter.
+export class SafetyBlockError extends ApiError {
+  constructor(message: string, status: number, public readonly reason: string) {
+    super(message, status);
+    this.name = 'SafetyBlockError';
+  }
+}
+
+// The model replied in words, e.g. declining, instead of doing what was asked.
+export class RefusalError extends ApiError {
+  constructor(message: string, status: number, public readonly modelText: string) {
+    super(message, status);
+    this.name = 'RefusalError';
+  }
+}
+
+// Too many requests for the server's limiter or the model's quota.
+export class RateLimitError extends ApiError {
+  constructor(message: string, status: number, retryAfterMs: number | null) {
+    super(message, status, retryAfterMs);
+    this.name = 'RateLimitError';
+  }
+}
+
+// An image the server or the model could not use.
+export class InvalidImageError extends ApiError {
+  constructor(message: string, status: number) {
+    super(message, status);
+    this.name = 'InvalidImageError';
+  }
+}
+
+/**
+ * The request never got an answer: the API server or the model could not be
+ * reached, or took longer than allowed.
+ */
+export class NetworkError extends Error {
+  constructor(message: string, public readonly timedOut = false) {
+    super(message);
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * Turns an error response from the API server into the matching error class.
+ */
+export const toApiError = (body: ErrorResponseBody | null, status: number, retryAfterMs: number | null): Error => {
+  const error = body?.error;
+  const message = error?.message ?? `Request failed with status ${status}.`;
+  switch (error?.code) {
+    case 'safety_block':
+      return new SafetyBlockError(message, status, error.reason ?? 'unspecified');
+    case 'refusal':
+      return new RefusalError(message, status, error.modelText ?? '');
+    case 'rate_limited':
+      return new RateLimitError(message, status, retryAfterMs);
+    case 'invalid_image':
+      return new InvalidImageError(message, status);
+    case 'timeout':
+      return new NetworkError(message, true);
+    case 'upstream_unavailable':
+      return new NetworkError(message);
+    default:
+      return status === 429 ? new RateLimitError(message, status, retryAfterMs) : new ApiError(message, status, retryAfterMs);
+  }
+};
+
+export const createAbortError = () => new DOMException('The request was cancelled.', 'AbortError');
+
+// True for cancellations, which callers should not report as failures.
+export const isAbortError = (e: unknown): boolean =>
+  (e instanceof DOMException || e instanceof Error) && e.name === 'AbortError';
+
+export const isRetryableError = (e: unknown): boolean =>
+  e instanceof RateLimitError
+  || e instanceof NetworkError
+  || (e instanceof ApiError && e.status >= 500);
+
+const MAX_QUOTED_TEXT = 300;
+
+const quote = (text: string) =>
+  text.length > MAX_QUOTED_TEXT ? `"${text.slice(0, MAX_QUOTED_TEXT).trimEnd()}…"` : `"${text}"`;
+
+/**
+ * A message for the error banner that says what went wrong and what to try next.
+ */
+export const describeError = (e: unknown): string => {
+  if (e instanceof SafetyBlockError) {
+    return localize('apiError.safetyBlock', { reason: e.reason });
+  }
+  if (e instanceof RefusalError) {
+    return e.modelText
+      ? localize('apiError.refusalQuoted', { text: quote(e.modelText) })
+      : localize('apiError.refusal');
+  }
+  if (e instanceof RateLimitError) {
+    return e.retryAfterMs
+      ? localize('apiError.rateLimitedSeconds', { seconds: Math.ceil(e.retryAfterMs / 1000) })
+      : localize('apiError.rateLimited');
+  }
+  if (e instanceof InvalidImageError) {
+    return localize('apiError.invalidImage');
+  }
+  if (e instanceof NetworkError) {
+    return e.timedOut ? localize('apiError.timeout') : localize('apiError.unreachable');
+  }
+  if (e instanceof Error) return e.message;
+  return localize('apiError.unknown');
+};
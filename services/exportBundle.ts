@@ -0,0 +1,191 @@
+import type { Creation } from '../types';
+import type { MessageKey } from '../locales/en';
+import type { ExportSettings } from './exportImage';
+import type { ProvenanceSettings } from './provenance';
+import type { PdfPage } from '../utils/pdf';
+import { exportImage, getExportExtension, getExportMetadata, getPrintSize } from './exportImage';
+import { flattenOverlay } from './textOverlay';
+import { labelImage } from './provenance';
+import { fitWithin } from './imagePreprocess';
+import { localize } from './i18n';
+import { loadImage } from '../utils/image';
+import { createZip } from '../utils/zip';
+import { createPdf, estimateTextWidth, fitText } from '../utils/pdf';
+
+// A saved creation together with the URL its image is loaded from.
+export interface ExportItem {
+  creation: Creation;
+  imageUrl: string;
+}
+
+export type PdfLayout = 'contact-sheet' | 'zine';
+
+export type PaperSize = 'a4' | 'letter';
+
+// What a selection is exported as: a ZIP of images, or a PDF layout.
+export type SelectionExport = { kind: 'zip' } | { kind: 'pdf'; layout: PdfLayout; paper: PaperSize };
+
+// Page sizes in points.
+const PAPER: Record<PaperSize, { width: number; height: number }> = {
+  a4: { width: 595.28, height: 841.89 },
+  letter: { width: 612, height: 792 },
+};
+
+export const PAPER_CHOICES: { labelKey: MessageKey; value: PaperSize }[] = [
+  { labelKey: 'paper.a4', value: 'a4' },
+  { labelKey: 'paper.letter', value: 'letter' },
+];
+
+const CONTACT_SHEET_COLUMNS = 3;
+const CONTACT_SHEET_ROWS = 4;
+const PAGE_MARGIN = 36;
+
+// Longest side of the images embedded in PDFs, in pixels.
+const CONTACT_SHEET_PIXELS = 600;
+const ZINE_PIXELS = 1400;
+
+// The image with its text layers baked in, as it looks in the app, then labelled as AI-generated.
+const getFinishedImage = async (item: ExportItem, provenance: ProvenanceSettings): Promise<string> => {
+  const flattened = item.creation.overlay ? await flattenOverlay(item.imageUrl, item.creation.overlay) : item.imageUrl;
+  return labelImage(flattened, item.creation, provenance);
+};
+
+const slugify = (text: string): string =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40).replace(/-+$/, '');
+
+/**
+ * Bundles creations into a ZIP of images exported with the given settings,
+ * plus a manifest.json describing each one.
+ */
+export const buildSelectionZip = async (items: ExportItem[], settings: ExportSettings, provenance: ProvenanceSettings): Promise<Blob> => {
+  const extension = getExportExtension(settings.format);
+  const printSize = getPrintSize(settings.printSizeId);
+  const files = [];
+  const entries = [];
+
+  for (const [index, item] of items.entries()) {
+    const { creation } = item;
+    const metadata = getExportMetadata(creation);
+    const slug = slugify(metadata.prompt);
+    const file = `images/${String(index + 1).padStart(3, '0')}-${creation.kind}${slug ? `-${slug}` : ''}.${extension}`;
+    const image = await exportImage(await getFinishedImage(item, provenance), settings, metadata);
+    files.push({ name: file, data: new Uint8Array(await image.arrayBuffer()), modified: new Date(creation.createdAt) });
+    entries.push({
+      file,
+      id: creation.id,
+      kind: creation.kind,
+      prompt: metadata.prompt,
+      style: metadata.style,
+      model: metadata.model,
+      provider: creation.provider?.providerId ?? null,
+      caption: creation.overlay?.caption || null,
+      favorite: !!creation.favorite,
+      createdAt: new Date(creation.createdAt).toISOString(),
+      provenance: metadata.provenance,
+    });
+  }
+
+  const manifest = {
+    version: 1,
+    app: 'ExpressToons',
+    exportedAt: new Date().toISOString(),
+    format: settings.format,
+    printSize: localize(printSize.labelKey),
+    items: entries,
+  };
+  files.push({ name: 'manifest.json', data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) });
+  return new Blob([createZip(files)], { type: 'application/zip' });
+};
+
+// A JPEG of the finished image for embedding in a PDF, on white.
+const toPdfJpeg = async (item: ExportItem, maxDimension: number, provenance: ProvenanceSettings) => {
+  const image = await loadImage(await getFinishedImage(item, provenance));
+  const size = fitWithin(image.naturalWidth, image.naturalHeight, maxDimension);
+  const canvas = document.createElement('canvas');
+  canvas.width = size.width;
+  canvas.height = size.height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(image, 0, 0, size.width, size.height);
+  const blob = await new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob((result) => (result ? resolve(result) : reject(new Error('Could not encode the image.'))), 'image/jpeg', 0.88);
+  });
+  return { jpeg: new Uint8Array(await blob.arrayBuffer()), pixelWidth: size.width, pixelHeight: size.height };
+};
+
+// Centres an image of the given pixel size in a box, scaled to fit.
+const fitInBox = (pixelWidth: number, pixelHeight: number, box: { x: number; y: number; width: number; height: number }) => {
+  const scale = Math.min(box.width / pixelWidth, box.height / pixelHeight);
+  const width = pixelWidth * scale;
+  const height = pixelHeight * scale;
+  return { x: box.x + (box.width - width) / 2, y: box.y + (box.height - height) / 2, width, height };
+};
+
+const buildContactSheet = async (items: ExportItem[], paper: PaperSize, provenance: ProvenanceSettings): Promise<PdfPage[]> => {
+  const { width, height } = PAPER[paper];
+  const perPage = CONTACT_SHEET_COLUMNS * CONTACT_SHEET_ROWS;
+  const headerHeight = 28;
+  const labelHeight = 24;
+  const gap = 12;
+  const cellWidth = (width - 2 * PAGE_MARGIN - (CONTACT_SHEET_COLUMNS - 1) * gap) / CONTACT_SHEET_COLUMNS;
+  const cellHeight = (height - 2 * PAGE_MARGIN - headerHeight - (CONTACT_SHEET_ROWS - 1) * gap) / CONTACT_SHEET_ROWS;
+  const pageCount = Math.ceil(items.length / perPage);
+  const date = new Date().toLocaleDateString();
+  const pages: PdfPage[] = [];
+
+  for (let p = 0; p < pageCount; p++) {
+    const page: PdfPage = {
+      width,
+      height,
+      images: [],
+      texts: [{ text: localize('pdf.contactSheetHeader', { date, page: p + 1, pages: pageCount }), x: PAGE_MARGIN, y: PAGE_MARGIN + 12, size: 11 }],
+    };
+    for (const [i, item] of items.slice(p * perPage, (p + 1) * perPage).entries()) {
+      const x = PAGE_MARGIN + (i % CONTACT_SHEET_COLUMNS) * (cellWidth + gap);
+      const y = PAGE_MARGIN + headerHeight + Math.floor(i / CONTACT_SHEET_COLUMNS) * (cellHeight + gap);
+      const image = await toPdfJpeg(item, CONTACT_SHEET_PIXELS, provenance);
+      page.images.push({ ...image, ...fitInBox(image.pixelWidth, image.pixelHeight, { x, y, width: cellWidth, height: cellHeight - labelHeight }) });
+      const { prompt, style } = getExportMetadata(item.creation);
+      page.texts.push(
+        { text: fitText(prompt || localize('pdf.untitled'), 8, cellWidth), x, y: y + cellHeight - labelHeight + 11, size: 8 },
+        { text: fitText([style, new Date(item.creation.createdAt).toLocaleDateString()].filter(Boolean).join(' · '), 7, cellWidth), x, y: y + cellHeight - labelHeight + 21, size: 7 }
+      );
+    }
+    pages.push(page);
+  }
+  return pages;
+};
+
+// One cartoon per half-sheet page, numbered, ready to print as a booklet.
+const buildZine = async (items: ExportItem[], paper: PaperSize, provenance: ProvenanceSettings): Promise<PdfPage[]> => {
+  const full = PAPER[paper];
+  const width = full.height / 2;
+  const height = full.width;
+  const footer = 24;
+  const pages: PdfPage[] = [];
+
+  for (const [i, item] of items.entries()) {
+    const image = await toPdfJpeg(item, ZINE_PIXELS, provenance);
+    const box = { x: PAGE_MARGIN, y: PAGE_MARGIN, width: width - 2 * PAGE_MARGIN, height: height - 2 * PAGE_MARGIN - footer };
+    const number = String(i + 1);
+    pages.push({
+      width,
+      height,
+      images: [{ ...image, ...fitInBox(image.pixelWidth, image.pixelHeight, box) }],
+      texts: [{ text: number, x: (width - estimateTextWidth(number, 9)) / 2, y: height - PAGE_MARGIN + 4, size: 9 }],
+    });
+  }
+  return pages;
+};
+
+/**
+ * Lays creations out as a PDF: a contact sheet of thumbnails with their
+ * prompts, or a zine with one cartoon per page.
+ */
+export const buildSelectionPdf = async (items: ExportItem[], layout: PdfLayout, paper: PaperSize, provenance: ProvenanceSettings): Promise<Blob> => {
+  const pages = layout === 'zine' ? await buildZine(items, paper, provenance) : await buildContactSheet(items, paper, provenance);
+  const title = localize(layout === 'zine' ? 'pdf.zineTitle' : 'pdf.contactSheetTitle');
+  return new Blob([createPdf(pages, title)], { type: 'application/pdf' });
+};
@@ -0,0 +1,200 @@
+import type { Creation, ProvenanceManifest } from '../types';
+import type { MessageKey } from '../locales/en';
+import { loadImage } from '../utils/image';
+import { insertPngChunks, physChunk, textChunk } from '../utils/png';
+
+export type ExportFormat = 'image/png' | 'image/jpeg' | 'image/webp';
+
+export interface ExportSettings {
+  format: ExportFormat;
+  // 0–1; ignored for PNG.
+  quality: number;
+  // One of PRINT_SIZES.
+  printSizeId: string;
+  // White space around the image, in millimetres at the print size.
+  marginMm: number;
+  // A frame drawn just outside the image, in millimetres at the print size.
+  borderMm: number;
+  borderColor: string;
+  // Write the prompt, style, model and date into PNG text chunks.
+  includeMetadata: boolean;
+}
+
+export interface PrintSize {
+  id: string;
+  labelKey: MessageKey;
+  // The longest side of the exported page, margins included; null keeps the image's own pixel size.
+  inches: number | null;
+  dpi: number;
+}
+
+// What a creation was made from, as recorded in exports.
+export interface ExportMetadata {
+  prompt: string;
+  style: string | null;
+  model: string | null;
+  createdAt: number;
+  // Absent for creations saved before provenance was recorded.
+  provenance: ProvenanceManifest | null;
+}
+
+// The PNG text chunk keyword a provenance manifest is stored under.
+export const MANIFEST_KEYWORD = 'ExpressToons Provenance';
+
+export const EXPORT_FORMATS: { label: string; value: ExportFormat; extension: string }[] = [
+  { label: 'PNG', value: 'image/png', extension: 'png' },
+  { label: 'JPEG', value: 'image/jpeg', extension: 'jpg' },
+  { label: 'WebP', value: 'image/webp', extension: 'webp' },
+];
+
+// Screen pixels are taken as 96 per inch when there is no print size.
+const SCREEN_DPI = 96;
+
+export const PRINT_SIZES: PrintSize[] = [
+  { id: 'original', labelKey: 'printSize.original', inches: null, dpi: SCREEN_DPI },
+  { id: '4in-300', labelKey: 'printSize.4in', inches: 4, dpi: 300 },
+  { id: '6in-300', labelKey: 'printSize.6in', inches: 6, dpi: 300 },
+  { id: '8in-300', labelKey: 'printSize.8in', inches: 8, dpi: 300 },
+  { id: 'letter-300', labelKey: 'printSize.letter', inches: 11, dpi: 300 },
+  { id: 'a4-300', labelKey: 'printSize.a4', inches: 297 / 25.4, dpi: 300 },
+  { id: 'poster-150', labelKey: 'printSize.poster', inches: 18, dpi: 150 },
+];
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  format: 'image/png',
+  quality: 0.92,
+  printSizeId: 'original',
+  marginMm: 0,
+  borderMm: 0,
+  borderColor: '#111111',
+  includeMetadata: true,
+};
+
+export const getPrintSize = (id: string): PrintSize => PRINT_SIZES.find(size => size.id === id) ?? PRINT_SIZES[0];
+
+export const getExportExtension = (format: ExportFormat): string =>
+  EXPORT_FORMATS.find(choice => choice.value === format)?.extension ?? 'png';
+
+export const getExportMetadata = (creation: Creation): ExportMetadata => {
+  const base = { model: creation.provider?.model ?? null, createdAt: creation.createdAt, provenance: creation.provenance ?? null };
+  switch (creation.kind) {
+    case 'cartoon':
+      return { ...base, prompt: creation.params.description, style: creation.params.styleName };
+    case 'strip':
+      return { ...base, prompt: creation.params.panels.map(panel => panel.action).join(' / '), style: creation.params.styleName };
+    case 'edit':
+      return { ...base, prompt: creation.params.editPrompt, style: null };
+    case 'restyle':
+      return { ...base, prompt: 'Photo redrawn as a cartoon', style: creation.params.styleName };
+  }
+};
+
+export interface ExportLayout {
+  width: number;
+  height: number;
+  // Where the image goes, inside the margin and border.
+  image: { x: number; y: number; width: number; height: number };
+  border: number;
+}
+
+/**
+ * Sizes the exported page for an image of the given pixel size. With a print
+ * size, the whole page (margins and border included) is scaled so its longest
+ * side fills the size at the chosen DPI, upscaling the image if needed.
+ */
+export const getExportLayout = (imageWidth: number, imageHeight: number, settings: ExportSettings): ExportLayout => {
+  const { inches, dpi } = getPrintSize(settings.printSizeId);
+  const margin = Math.round((settings.marginMm / 25.4) * dpi);
+  const border = Math.round((settings.borderMm / 25.4) * dpi);
+  const frame = 2 * (margin + border);
+
+  let width = imageWidth;
+  let height = imageHeight;
+  if (inches !== null) {
+    const longest = Math.round(inches * dpi);
+    const scale = Math.max(longest - frame, 1) / Math.max(imageWidth, imageHeight);
+    width = Math.max(1, Math.round(imageWidth * scale));
+    height = Math.max(1, Math.round(imageHeight * scale));
+  }
+
+  return {
+    width: width + frame,
+    height: height + frame,
+    image: { x: margin + border, y: margin + border, width, height },
+    border,
+  };
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, format: ExportFormat, quality: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Could not encode the image.'))), format, quality);
+  });
+
+// Records the DPI in a JPEG's JFIF header, which browsers write with no unit.
+const setJpegDpi = (jpeg: Uint8Array, dpi: number): Uint8Array => {
+  const view = new DataView(jpeg.buffer, jpeg.byteOffset, jpeg.byteLength);
+  const isJfif = jpeg.length > 18 && view.getUint16(2) === 0xffe0 && view.getUint32(6) === 0x4a464946;
+  if (!isJfif) return jpeg;
+  jpeg[13] = 1; // unit: inch
+  view.setUint16(14, dpi);
+  view.setUint16(16, dpi);
+  return jpeg;
+};
+
+/**
+ * Draws an image onto a page laid out by getExportLayout.
+ */
+export const renderExport = async (imageUrl: string, settings: ExportSettings): Promise<HTMLCanvasElement> => {
+  const image = await loadImage(imageUrl);
+  const layout = getExportLayout(image.naturalWidth, image.naturalHeight, settings);
+  const canvas = document.createElement('canvas');
+  canvas.width = layout.width;
+  canvas.height = layout.height;
+  const ctx = canvas.getContext('2d')!;
+
+  // Margins are paper-white in every format, and JPEG has no transparency anyway.
+  const hasFrame = layout.width !== layout.image.width || layout.height !== layout.image.height;
+  if (hasFrame || settings.format === 'image/jpeg') {
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  if (layout.border > 0) {
+    const { x, y, width, height } = layout.image;
+    ctx.fillStyle = settings.borderColor;
+    ctx.fillRect(x - layout.border, y - layout.border, width + 2 * layout.border, height + 2 * layout.border);
+  }
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(image, layout.image.x, layout.image.y, layout.image.width, layout.image.height);
+  return canvas;
+};
+
+/**
+ * Encodes an image for download with the given settings. PNGs carry the
+ * metadata as text chunks; PNGs and JPEGs carry the print DPI. A provenance
+ * manifest is embedded in PNGs whether or not metadata is included.
+ */
+export const exportImage = async (imageUrl: string, settings: ExportSettings, metadata: ExportMetadata | null): Promise<Blob> => {
+  const canvas = await renderExport(imageUrl, settings);
+  const blob = await canvasToBlob(canvas, settings.format, settings.quality);
+  const printSize = getPrintSize(settings.printSizeId);
+  const dpi = printSize.inches === null ? null : printSize.dpi;
+
+  if (settings.format === 'image/png') {
+    const chunks: Uint8Array[] = [];
+    if (dpi !== null) chunks.push(physChunk(dpi));
+    if (settings.includeMetadata && metadata) {
+      chunks.push(textChunk('Software', 'ExpressToons'));
+      if (metadata.prompt) chunks.push(textChunk('Prompt', metadata.prompt));
+      if (metadata.style) chunks.push(textChunk('Style', metadata.style));
+      if (metadata.model) chunks.push(textChunk('Model', metadata.model));
+      chunks.push(textChunk('Creation Time', new Date(metadata.createdAt).toUTCString()));
+    }
+    if (metadata?.provenance) chunks.push(textChunk(MANIFEST_KEYWORD, JSON.stringify(metadata.provenance)));
+    if (chunks.length === 0) return blob;
+    return new Blob([insertPngChunks(new Uint8Array(await blob.arrayBuffer()), chunks)], { type: 'image/png' });
+  }
+  if (settings.format === 'image/jpeg' && dpi !== null) {
+    return new Blob([setJpegDpi(new Uint8Array(await blob.arrayBuffer()), dpi)], { type: 'image/jpeg' });
+  }
+  return blob;
+};
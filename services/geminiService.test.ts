@@ -0,0 +1,120 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { Character, ProviderSelection } from '../types';
+import { registerProvider } from './providers/registry';
+import { DEFAULT_OUTPUT_FORMAT } from './outputFormat';
+import { BUILT_IN_STYLES } from './styleLibrary';
+import { DEFAULT_CARTOON_TEMPLATE } from './prompts';
+import { editImage, generateCartoon, generateKeyframe, restyleImage, writeGags } from './geminiService';
+import { SafetyBlockError } from './errors';
+import { usageLog } from './usageLog';
+import { createFakeProvider, createTestImage, TEST_USAGE, toDataUrl } from '../test/fakes';
+
+const style = BUILT_IN_STYLES[0];
+const red = createTestImage([255, 0, 0]);
+const blue = createTestImage([0, 0, 255]);
+
+// The newest entry in the usage log.
+const lastCall = () => usageLog.getSnapshot().at(-1);
+
+const toBlob = (base64: string) => new Blob([Uint8Array.from(atob(base64), c => c.charCodeAt(0))], { type: 'image/png' });
+
+let provider: ReturnType<typeof createFakeProvider>;
+let selection: ProviderSelection;
+
+beforeEach(() => {
+  provider = createFakeProvider();
+  provider.models = [
+    { id: 'plain', label: 'Plain' },
+    { id: 'shaped', label: 'Shaped', aspectRatios: true, imageSizes: true },
+  ];
+  registerProvider(provider);
+  selection = { providerId: provider.id, model: 'shaped' };
+});
+
+describe('generateCartoon', () => {
+  it('sends the prompt and the reference images through the selected provider', async () => {
+    const ada: Character = { id: 'ada', name: 'Ada', description: '', images: [{ image: toBlob(blue.data), label: '' }], createdAt: 0 };
+    const url = await generateCartoon('A cat', style, 'JD', toBlob(red.data), [ada], 'color', DEFAULT_CARTOON_TEMPLATE, DEFAULT_OUTPUT_FORMAT, 'en', selection);
+
+    expect(url).toBe(toDataUrl(red));
+    const [request] = provider.generateCartoon.mock.calls[0];
+    expect(request.model).toBe('shaped');
+    expect(request.prompt).toContain('The scene is: A cat.');
+    expect(request.prompt).toContain("signature 'JD'");
+    expect(request.images).toEqual([red, blue]);
+    expect(lastCall()).toMatchObject({ operation: 'cartoon', providerId: provider.id, model: 'shaped', outcome: 'success', usage: TEST_USAGE });
+    expect(lastCall()?.inputBytes).toBe(atob(red.data).length + atob(blue.data).length);
+  });
+
+  it('asks for the aspect ratio and size only when the model takes them', async () => {
+    // Only the request matters here; failing it skips fitting the result, which needs a real canvas.
+    provider.generateCartoon.mockRejectedValue(new Error('Stop.'));
+    const output = { aspectRatio: '1:1', imageSize: '2K', fit: 'crop' } as const;
+    await generateCartoon('A cat', style, '', null, [], 'color', DEFAULT_CARTOON_TEMPLATE, output, 'en', selection).catch(() => {});
+    await generateCartoon('A cat', style, '', null, [], 'color', DEFAULT_CARTOON_TEMPLATE, output, 'en', { ...selection, model: 'plain' }).catch(() => {});
+
+    const [[shaped], [plain]] = provider.generateCartoon.mock.calls;
+    expect(shaped).toMatchObject({ aspectRatio: '1:1', imageSize: '2K' });
+    expect(plain).toMatchObject({ aspectRatio: undefined, imageSize: undefined });
+    expect(plain.prompt).toContain('Compose it for a square frame');
+  });
+
+  it('passes provider errors on unchanged', async () => {
+    const blocked = new SafetyBlockError('Blocked.', 422, 'SAFETY');
+    provider.generateCartoon.mockRejectedValueOnce(blocked);
+    await expect(generateCartoon('A cat', style, '', null, [], 'color', DEFAULT_CARTOON_TEMPLATE, DEFAULT_OUTPUT_FORMAT, 'en', selection)).rejects.toBe(blocked);
+    expect(lastCall()).toMatchObject({ operation: 'cartoon', outcome: 'safety_block', usage: null });
+  });
+});
+
+describe('restyleImage', () => {
+  it('sends the photo first', async () => {
+    await restyleImage(toBlob(blue.data), style, 'black_and_white', 90, selection);
+    const [request] = provider.generateCartoon.mock.calls[0];
+    expect(request.images).toEqual([blue]);
+    expect(request.prompt).toMatch(/^Redraw the photo/);
+  });
+});
+
+describe('editImage', () => {
+  it('sends the image and the instruction', async () => {
+    const url = await editImage(toBlob(red.data), 'Make it blue', selection);
+    expect(url).toBe(toDataUrl(blue));
+    expect(provider.editImage).toHaveBeenCalledWith(expect.objectContaining({ model: 'shaped', prompt: 'Make it blue', image: red }));
+  });
+});
+
+describe('generateKeyframe', () => {
+  const keyframes = [{ action: 'A cat eyes a glass', durationMs: 800 }, { action: 'The glass falls', durationMs: 800 }];
+
+  it('draws the first frame from the references', async () => {
+    await generateKeyframe(keyframes, 0, style, '', toBlob(red.data), [], null, 'color', 'en', selection);
+    const [request] = provider.generateCartoon.mock.calls[0];
+    expect(request.images).toEqual([red]);
+    expect(request.prompt).toContain('This frame shows: A cat eyes a glass.');
+    expect(provider.editImage).not.toHaveBeenCalled();
+    expect(lastCall()).toMatchObject({ operation: 'frame', outcome: 'success' });
+  });
+
+  it('edits the previous frame into the next one', async () => {
+    const url = await generateKeyframe(keyframes, 1, style, '', toBlob(red.data), [], toBlob(blue.data), 'color', 'en', selection);
+    expect(url).toBe(toDataUrl(blue));
+    const [request] = provider.editImage.mock.calls[0];
+    expect(request.image).toEqual(blue);
+    expect(request.prompt).toContain('Redraw it as frame 2, which shows: The glass falls.');
+    expect(provider.generateCartoon).not.toHaveBeenCalled();
+    expect(lastCall()).toMatchObject({ operation: 'frame', outcome: 'success' });
+  });
+});
+
+describe('writeGags', () => {
+  it('asks for the count, in the style', async () => {
+    const concepts = await writeGags('cats', style, [], 2, null, 'de', selection);
+    expect(concepts).toHaveLength(2);
+    const [request] = provider.writeGags.mock.calls[0];
+    expect(request).toMatchObject({ topic: 'cats', count: 2 });
+    expect(request.prompt).toContain(`${style.name} magazine`);
+    expect(request.prompt).toContain('captions in German');
+    expect(lastCall()).toMatchObject({ operation: 'gags', model: provider.textModel });
+  });
+});
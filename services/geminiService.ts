@@ -1,21 +1,13 @@
-import { GoogleGenAI, Modality } from "@google/genai";
-import { StyleType } from "./types";
+import type { Character, StyleDefinition, ColorOption, EditMask, GagConcept, InlineImage, KeyframeScript, Language, OutputFormat, ProviderSelection, PanelScript, TokenUsage, UsageOperation, UsageOutcome } from "../types";
+import { getProvider } from "./providers/registry";
+import { getInlineImageBytes, getOutcome } from "./usage";
+import { usageLog } from "./usageLog";
+import { compositeMasked } from "./inpainting";
+import { fitToOutput } from "./outputFormat";
+import type { ReferenceGroup } from "./prompts";
+import { getCartoonPrompt, getFirstKeyframePrompt, getGagPrompt, getNextKeyframePrompt, getPanelPrompt, getReferenceGroups, getRestylePrompt, getRestyleReferenceGroups } from "./prompts";
 
-const API_KEY = process.env.API_KEY;
-
-if (!API_KEY) {
-  throw new Error("API_KEY environment variable not set");
-}
-
-const ai = new GoogleGenAI({ apiKey: API_KEY });
-const model = 'gemini-2.5-flash-image';
-
-const fileToGenerativePart = async (file: File): Promise<{
-  inlineData: {
-    data: string;
-    mimeType: string;
-  };
-}> => {
+const fileToInlineImage = async (file: Blob): Promise<InlineImage> => {
   const base64EncodedDataPromise = new Promise<string>((resolve) => {
     const reader = new FileReader();
     reader.onloadend = () => {
@@ -29,97 +21,214 @@ const fileToGenerativePart = async (file: File): Promise<{
   });
   const base64EncodedData = await base64EncodedDataPromise;
   return {
-    inlineData: {
-      data: base64EncodedData,
-      mimeType: file.type,
-    },
+    data: base64EncodedData,
+    mimeType: file.type,
   };
 };
 
-const getCartoonPrompt = (
-  description: string,
-  styleType: StyleType,
-  styleName: string,
-  signature: string,
-  hasCharacterImage: boolean,
-  colorOption: 'color' | 'black_and_white'
-) => {
-  const signatureText = signature
-    ? ` Subtly place the signature '${signature}' in one of the bottom corners of the image.`
-    : '';
-  const stylePrompt = styleType === 'magazine'
-    ? `in the distinct artistic style of ${styleName} magazine`
-    : `in the distinct artistic style of cartoonist ${styleName}`;
-  
-  const characterInstruction = hasCharacterImage 
-    ? ' Feature the character from the provided image in the scene.' 
-    : '';
-  
-  const colorInstruction = colorOption === 'black_and_white' 
-    ? ' The cartoon should be in black and white.'
-    : ' The cartoon should be in full color.';
+const toDataUrl = (image: InlineImage): string => `data:${image.mimeType};base64,${image.data}`;
 
-  return `Generate a single-panel cartoon ${stylePrompt}. The scene is: ${description}.${characterInstruction}${colorInstruction} The cartoon should be humorous and thought-provoking, capturing the essence of the specified style.${signatureText}`;
+const getReferenceImages = (groups: ReferenceGroup[]): Promise<InlineImage[]> =>
+  Promise.all(groups.flatMap(group => group.images).map(fileToInlineImage));
+
+/**
+ * Makes one provider call and records it in the usage log, whether it
+ * succeeds, fails or is cancelled. A failure to record never fails the call.
+ */
+const trackCall = async <T extends { usage?: TokenUsage }>(
+  operation: UsageOperation,
+  providerId: string,
+  model: string,
+  images: InlineImage[],
+  call: () => Promise<T>
+): Promise<T> => {
+  const createdAt = Date.now();
+  const started = performance.now();
+  const record = (outcome: UsageOutcome, usage: TokenUsage | null) => {
+    usageLog.record({
+      createdAt,
+      operation,
+      providerId,
+      model,
+      inputBytes: getInlineImageBytes(images),
+      latencyMs: performance.now() - started,
+      outcome,
+      usage,
+    }).catch(e => console.error('Failed to record usage:', e));
+  };
+  try {
+    const result = await call();
+    record('success', result.usage ?? null);
+    return result;
+  } catch (e) {
+    record(getOutcome(e), null);
+    throw e;
+  }
 };
 
+/**
+ * Generates a single cartoon. The aspect ratio and image size are passed to
+ * models that support them; otherwise the prompt asks for the shape and the
+ * result is cropped, padded or scaled to match.
+ */
 export const generateCartoon = async (
   description: string,
-  styleType: StyleType,
-  styleName: string,
+  style: StyleDefinition,
   signature: string,
-  characterImage: File | null,
-  colorOption: 'color' | 'black_and_white'
+  characterImage: Blob | null,
+  characters: Character[],
+  colorOption: ColorOption,
+  template: string,
+  output: OutputFormat,
+  language: Language,
+  selection: ProviderSelection,
+  signal?: AbortSignal
 ): Promise<string> => {
-  const prompt = getCartoonPrompt(description, styleType, styleName, signature, !!characterImage, colorOption);
-  
-  const parts: any[] = [];
-  if (characterImage) {
-      const imagePart = await fileToGenerativePart(characterImage);
-      parts.push(imagePart);
-  }
-  parts.push({ text: prompt });
-
-  const response = await ai.models.generateContent({
-    model,
-    contents: {
-      parts,
-    },
-    config: {
-      responseModalities: [Modality.IMAGE],
-    },
-  });
+  const references = getReferenceGroups(characterImage, characters, style, null);
+  const prompt = getCartoonPrompt(template, description, style, signature, characters, references, colorOption, output.aspectRatio, language);
 
-  for (const part of response.candidates[0].content.parts) {
-    if (part.inlineData) {
-      return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-    }
-  }
+  const images = await getReferenceImages(references);
+  const provider = getProvider(selection.providerId);
+  const model = provider.models.find(m => m.id === selection.model);
+  const { image } = await trackCall('cartoon', provider.id, selection.model, images, () => provider.generateCartoon({
+    model: selection.model,
+    prompt,
+    images,
+    aspectRatio: model?.aspectRatios ? output.aspectRatio ?? undefined : undefined,
+    imageSize: model?.imageSizes ? output.imageSize ?? undefined : undefined,
+    signal,
+  }));
+  return fitToOutput(toDataUrl(image), output, !model?.imageSizes);
+};
 
-  throw new Error('No image generated.');
+/**
+ * Redraws a photo as a cartoon in a style. `strength` (0–100) sets how closely
+ * the result keeps the photo's composition.
+ */
+export const restyleImage = async (
+  photo: Blob,
+  style: StyleDefinition,
+  colorOption: ColorOption,
+  strength: number,
+  selection: ProviderSelection,
+  signal?: AbortSignal
+): Promise<string> => {
+  const references = getRestyleReferenceGroups(photo, style);
+  const prompt = getRestylePrompt(style, colorOption, strength, references);
+  const images = await getReferenceImages(references);
+  const provider = getProvider(selection.providerId);
+  const { image } = await trackCall('restyle', provider.id, selection.model, images, () =>
+    provider.generateCartoon({ model: selection.model, prompt, images, signal }));
+  return toDataUrl(image);
 };
 
-export const editImage = async (
-  imageFile: File,
-  prompt: string
+export const generateStripPanel = async (
+  panels: PanelScript[],
+  index: number,
+  style: StyleDefinition,
+  signature: string,
+  characterImage: Blob | null,
+  characters: Character[],
+  referencePanel: Blob | null,
+  colorOption: ColorOption,
+  language: Language,
+  selection: ProviderSelection,
+  signal?: AbortSignal
 ): Promise<string> => {
-  const imagePart = await fileToGenerativePart(imageFile);
-  const textPart = { text: prompt };
+  const references = getReferenceGroups(characterImage, characters, style, referencePanel);
+  const prompt = getPanelPrompt(panels[index], index, panels.length, style, signature, characters, references, colorOption, language);
 
-  const response = await ai.models.generateContent({
-    model,
-    contents: {
-      parts: [imagePart, textPart],
-    },
-    config: {
-      responseModalities: [Modality.IMAGE],
-    },
-  });
+  const images = await getReferenceImages(references);
+  const provider = getProvider(selection.providerId);
+  const { image } = await trackCall('panel', provider.id, selection.model, images, () =>
+    provider.generateCartoon({ model: selection.model, prompt, images, signal }));
+  return toDataUrl(image);
+};
 
-  for (const part of response.candidates[0].content.parts) {
-    if (part.inlineData) {
-      return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-    }
+/**
+ * Draws one keyframe of an animation. The first is generated like a cartoon;
+ * each later one is an edit of the frame before it, which keeps the style and
+ * characters in place from frame to frame.
+ */
+export const generateKeyframe = async (
+  keyframes: KeyframeScript[],
+  index: number,
+  style: StyleDefinition,
+  signature: string,
+  characterImage: Blob | null,
+  characters: Character[],
+  previousFrame: Blob | null,
+  colorOption: ColorOption,
+  language: Language,
+  selection: ProviderSelection,
+  signal?: AbortSignal
+): Promise<string> => {
+  const provider = getProvider(selection.providerId);
+  if (previousFrame) {
+    const image = await fileToInlineImage(previousFrame);
+    const prompt = getNextKeyframePrompt(keyframes[index], index, keyframes.length, colorOption, language);
+    const { image: frame } = await trackCall('frame', provider.id, selection.model, [image], () =>
+      provider.editImage({ model: selection.model, prompt, image, signal }));
+    return toDataUrl(frame);
   }
+  const references = getReferenceGroups(characterImage, characters, style, null);
+  const prompt = getFirstKeyframePrompt(keyframes[index], keyframes.length, style, signature, characters, references, colorOption, language);
+  const images = await getReferenceImages(references);
+  const { image } = await trackCall('frame', provider.id, selection.model, images, () =>
+    provider.generateCartoon({ model: selection.model, prompt, images, signal }));
+  return toDataUrl(image);
+};
 
-  throw new Error('No image generated from edit.');
-};
\ No newline at end of file
+/**
+ * Asks the provider's text model for cartoon concepts about a topic, in the
+ * voice of the chosen style. Pass a concept as `remix` to get variations on it.
+ */
+export const writeGags = async (
+  topic: string,
+  style: StyleDefinition,
+  characters: Character[],
+  count: number,
+  remix: GagConcept | null,
+  language: Language,
+  selection: ProviderSelection,
+  signal?: AbortSignal
+): Promise<GagConcept[]> => {
+  const prompt = getGagPrompt(topic, style, characters, count, remix, language);
+  const provider = getProvider(selection.providerId);
+  const { concepts } = await trackCall('gags', provider.id, provider.textModel ?? selection.model, [], () =>
+    provider.writeGags({ prompt, topic, count, signal }));
+  return concepts;
+};
+
+const getMaskInstruction = () =>
+  ' The second image is a mask the same size as the first. Only change the area that is white in the mask; leave the black area exactly as it is.';
+
+/**
+ * Edits an image from a text instruction. With a mask, the mask is sent along
+ * with the image and the result is composited so pixels outside it are
+ * guaranteed to match the source.
+ */
+export const editImage = async (
+  imageFile: Blob,
+  prompt: string,
+  selection: ProviderSelection,
+  mask?: EditMask,
+  signal?: AbortSignal
+): Promise<string> => {
+  const image = await fileToInlineImage(imageFile);
+  const provider = getProvider(selection.providerId);
+  if (!mask) {
+    const { image: edited } = await trackCall('edit', provider.id, selection.model, [image], () =>
+      provider.editImage({ model: selection.model, prompt, image, signal }));
+    return toDataUrl(edited);
+  }
+  const maskImage = await fileToInlineImage(mask.image);
+  const { image: edited } = await trackCall('edit', provider.id, selection.model, [image, maskImage], () => provider.editImage({
+    model: selection.model,
+    prompt: `${prompt}${getMaskInstruction()}`,
+    image,
+    mask: maskImage,
+    signal,
+  }));
+  return compositeMasked(imageFile, toDataUrl(edited), mask.image, mask.feather);
+};
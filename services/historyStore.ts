@@ -0,0 +1,39 @@
+import type { Creation, CreationKind } from '../types';
+import { CREATIONS_STORE, openDb, requestToPromise, transactionDone } from './db';
+
+export const createId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Returns saved creations, newest first. Pass a kind to only get cartoons or edits.
+ */
+export const listCreations = async (kind?: CreationKind): Promise<Creation[]> => {
+  const db = await openDb();
+  const store = db.transaction(CREATIONS_STORE, 'readonly').objectStore(CREATIONS_STORE);
+  const creations = kind
+    ? await requestToPromise<Creation[]>(store.index('kind').getAll(kind))
+    : await requestToPromise<Creation[]>(store.getAll());
+  return creations.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const getCreation = async (id: string): Promise<Creation | undefined> => {
+  const db = await openDb();
+  const store = db.transaction(CREATIONS_STORE, 'readonly').objectStore(CREATIONS_STORE);
+  return requestToPromise<Creation | undefined>(store.get(id));
+};
+
+export const saveCreation = async (creation: Creation): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(CREATIONS_STORE, 'readwrite');
+  tx.objectStore(CREATIONS_STORE).put(creation);
+  await transactionDone(tx);
+};
+
+export const deleteCreation = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(CREATIONS_STORE, 'readwrite');
+  tx.objectStore(CREATIONS_STORE).delete(id);
+  await transactionDone(tx);
+};
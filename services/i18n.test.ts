@@ -0,0 +1,62 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { Language } from '../types';
+import { en } from '../locales/en';
+import { fr } from '../locales/fr';
+import { de } from '../locales/de';
+import { createInterfaceLanguage, detectLanguage, getTextDirection, translate } from './i18n';
+
+const placeholders = (message: string) => (message.match(/\{\w+\}/g) ?? []).sort();
+
+describe('translate', () => {
+  it('fills in the values', () => {
+    expect(translate('fr', 'tab.gallery', { count: 3 })).toBe('Galerie (3)');
+    expect(translate('en', 'error.fillPlaceholder', { name: 'city' })).toBe('Fill in {city} in the description first.');
+  });
+
+  it('leaves a placeholder without a value in place', () => {
+    expect(translate('de', 'tab.gallery')).toBe('Galerie ({count})');
+  });
+});
+
+describe('locales', () => {
+  it.each([['fr', fr], ['de', de]] as [Language, typeof fr][])('%s uses the same placeholders as English', (_, messages) => {
+    for (const key of Object.keys(en) as (keyof typeof en)[]) {
+      expect(placeholders(messages[key]), key).toEqual(placeholders(en[key]));
+    }
+  });
+});
+
+describe('detectLanguage', () => {
+  it("picks the first of the browser's languages that is translated", () => {
+    expect(detectLanguage(['es-ES', 'de-AT', 'fr'])).toBe('de');
+    expect(detectLanguage(['FR-ca'])).toBe('fr');
+  });
+
+  it('falls back to English', () => {
+    expect(detectLanguage(['ja'])).toBe('en');
+    expect(detectLanguage([])).toBe('en');
+  });
+});
+
+describe('getTextDirection', () => {
+  it('lays out right-to-left scripts mirrored', () => {
+    expect(getTextDirection('ar')).toBe('rtl');
+    expect(getTextDirection('he-IL')).toBe('rtl');
+    expect(getTextDirection('fr')).toBe('ltr');
+  });
+});
+
+describe('createInterfaceLanguage', () => {
+  it('switches language when storage is unavailable', () => {
+    const setItem = vi.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+      throw new DOMException('Quota exceeded', 'QuotaExceededError');
+    });
+    const language = createInterfaceLanguage();
+    const listener = vi.fn();
+    language.subscribe(listener);
+    language.set('de');
+    expect(language.getSnapshot()).toBe('de');
+    expect(listener).toHaveBeenCalled();
+    setItem.mockRestore();
+  });
+});
@@ -0,0 +1,94 @@
+import type { Language } from '../types';
+import type { MessageKey, Messages } from '../locales/en';
+import { en } from '../locales/en';
+import { fr } from '../locales/fr';
+import { de } from '../locales/de';
+
+/**
+ * The interface's translations. Each language has a file in locales/ with the
+ * same keys as English; `{name}` in a message is filled in by translate().
+ */
+
+// Each language named in itself, as the switchers list them.
+export const LANGUAGES: { value: Language; label: string }[] = [
+  { value: 'en', label: 'English' },
+  { value: 'fr', label: 'Français' },
+  { value: 'de', label: 'Deutsch' },
+];
+
+const MESSAGES: Record<Language, Messages> = { en, fr, de };
+
+// Languages written right to left. A locale for one of these lays the page out mirrored.
+const RTL_LANGUAGES = ['ar', 'fa', 'he', 'ur'];
+
+const STORAGE_KEY = 'expresstoons.language';
+
+export type TranslationValues = Record<string, string | number>;
+
+export type Translate = (key: MessageKey, values?: TranslationValues) => string;
+
+export const isLanguage = (value: unknown): value is Language =>
+  LANGUAGES.some(language => language.value === value);
+
+export const getTextDirection = (language: string): 'ltr' | 'rtl' =>
+  RTL_LANGUAGES.includes(language.split('-')[0].toLowerCase()) ? 'rtl' : 'ltr';
+
+/**
+ * The first of the browser's preferred languages the interface is translated
+ * into, matching "fr-CA" to French; English when there is none.
+ */
+export const detectLanguage = (preferred: readonly string[]): Language =>
+  preferred.map(tag => tag.split('-')[0].toLowerCase()).find(isLanguage) ?? 'en';
+
+// Placeholders without a value are left in place, so a missing one shows up rather than vanishing.
+export const translate = (language: Language, key: MessageKey, values: TranslationValues = {}): string =>
+  MESSAGES[language][key].replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in values ? String(values[name]) : placeholder);
+
+const loadLanguage = (): Language => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (isLanguage(stored)) return stored;
+  } catch {
+    // Storage can be unavailable, e.g. in private windows; fall back to the browser's languages.
+  }
+  return typeof navigator === 'undefined' ? 'en' : detectLanguage(navigator.languages ?? [navigator.language]);
+};
+
+/**
+ * The interface language, shared by every component that translates text.
+ * subscribe() plus getSnapshot() plug into useSyncExternalStore.
+ */
+export const createInterfaceLanguage = () => {
+  let language: Language | null = null;
+  const listeners = new Set<() => void>();
+
+  const getSnapshot = (): Language => (language ??= loadLanguage());
+
+  const set = (next: Language) => {
+    language = next;
+    try {
+      localStorage.setItem(STORAGE_KEY, next);
+    } catch {
+      // Without storage the choice still holds until the page is reloaded.
+    }
+    listeners.forEach(listener => listener());
+  };
+
+  const subscribe = (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return { getSnapshot, set, subscribe };
+};
+
+export const interfaceLanguage = createInterfaceLanguage();
+
+/**
+ * Translates into the current interface language, for text made outside
+ * components: error messages and the labels services hand to the UI.
+ */
+export const localize: Translate = (key, values) => translate(interfaceLanguage.getSnapshot(), key, values);
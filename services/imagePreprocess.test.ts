@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { UploadError, validateUpload } from './imagePreprocess';
+
+const file = (type: string) => new File(['x'], 'upload', { type });
+
+describe('validateUpload', () => {
+  it('accepts the formats browsers decode', () => {
+    for (const type of ['image/jpeg', 'image/png', 'image/webp', 'image/bmp', 'image/avif', 'image/heic', 'image/heif']) {
+      expect(() => validateUpload(file(type))).not.toThrow();
+    }
+  });
+
+  it('names every accepted format when it rejects a file', () => {
+    const reject = () => validateUpload(file('image/svg+xml'));
+    expect(reject).toThrow(UploadError);
+    expect(reject).toThrow('Use a JPEG, PNG, WebP, BMP, AVIF, or HEIC file.');
+  });
+});
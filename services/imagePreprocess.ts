@@ -0,0 +1,276 @@
+import { loadImage } from '../utils/image';
+import { interfaceLanguage, localize } from './i18n';
+
+export type UploadFormat = 'image/jpeg' | 'image/png' | 'image/webp';
+
+export interface UploadSettings {
+  // Longest side after downscaling, in pixels.
+  maxDimension: number;
+  format: UploadFormat;
+  // 0–1; ignored for PNG.
+  quality: number;
+  // Open the cropper before each upload is used.
+  cropOnUpload: boolean;
+}
+
+// A crop in fractions of the image's width and height.
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const DEFAULT_UPLOAD_SETTINGS: UploadSettings = {
+  maxDimension: 1536,
+  format: 'image/jpeg',
+  quality: 0.9,
+  cropOnUpload: false,
+};
+
+export const MAX_DIMENSION_CHOICES = [768, 1024, 1536, 2048];
+
+export const FORMAT_CHOICES: { label: string; value: UploadFormat }[] = [
+  { label: 'JPEG', value: 'image/jpeg' },
+  { label: 'PNG', value: 'image/png' },
+  { label: 'WebP', value: 'image/webp' },
+];
+
+// Null means any shape.
+export const CROP_ASPECTS: { label: string; value: number | null }[] = [
+  { label: 'Free', value: null },
+  { label: '1:1', value: 1 },
+  { label: '4:3', value: 4 / 3 },
+  { label: '3:4', value: 3 / 4 },
+  { label: '16:9', value: 16 / 9 },
+  { label: '9:16', value: 9 / 16 },
+];
+
+// Larger files are almost certainly not photos or drawings worth sending.
+export const MAX_UPLOAD_BYTES = 30 * 1024 * 1024;
+
+// Vector and animated formats are left out: the model only sees one raster frame.
+const ACCEPTED_FORMATS: { label: string; types: string[] }[] = [
+  { label: 'JPEG', types: ['image/jpeg'] },
+  { label: 'PNG', types: ['image/png'] },
+  { label: 'WebP', types: ['image/webp'] },
+  { label: 'BMP', types: ['image/bmp'] },
+  { label: 'AVIF', types: ['image/avif'] },
+  { label: 'HEIC', types: ['image/heic', 'image/heif'] },
+];
+
+const ACCEPTED_TYPES = ACCEPTED_FORMATS.flatMap(format => format.types);
+
+// "JPEG, PNG, … or HEIC", so the rejection message always names what is accepted.
+const listAcceptedFormats = () =>
+  new Intl.ListFormat(interfaceLanguage.getSnapshot(), { type: 'disjunction' }).format(ACCEPTED_FORMATS.map(format => format.label));
+
+export const FULL_CROP: CropRect = { x: 0, y: 0, width: 1, height: 1 };
+
+/**
+ * An upload that cannot be used. The message is meant for the user.
+ */
+export class UploadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UploadError';
+  }
+}
+
+export const validateUpload = (file: File) => {
+  if (!ACCEPTED_TYPES.includes(file.type)) {
+    throw new UploadError(localize('upload.unsupported', { name: file.name, formats: listAcceptedFormats() }));
+  }
+  if (file.size > MAX_UPLOAD_BYTES) {
+    throw new UploadError(localize('upload.tooLarge', { name: file.name, size: MAX_UPLOAD_BYTES / 1024 / 1024 }));
+  }
+};
+
+/**
+ * Reads the EXIF orientation (1–8) of a JPEG, or 1 when there is none.
+ */
+export const readExifOrientation = (buffer: ArrayBuffer): number => {
+  const view = new DataView(buffer);
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return 1;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const length = view.getUint16(offset + 2);
+    // Start of scan: the metadata segments are all before it.
+    if (marker === 0xffda || (marker & 0xff00) !== 0xff00) return 1;
+    if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+      const tiff = offset + 10;
+      const little = view.getUint16(tiff) === 0x4949;
+      const ifd = tiff + view.getUint32(tiff + 4, little);
+      if (ifd + 2 > view.byteLength) return 1;
+      const entries = view.getUint16(ifd, little);
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (entry + 10 > view.byteLength) return 1;
+        if (view.getUint16(entry, little) === 0x0112) {
+          const value = view.getUint16(entry + 8, little);
+          return value >= 1 && value <= 8 ? value : 1;
+        }
+      }
+      return 1;
+    }
+    offset += 2 + length;
+  }
+  return 1;
+};
+
+// Modern browsers already rotate images by their EXIF orientation when decoding them.
+const browserAppliesOrientation = () =>
+  typeof CSS !== 'undefined' && CSS.supports('image-orientation', 'from-image');
+
+// The canvas transform that turns a stored image upright, by EXIF orientation.
+const orientationTransform = (orientation: number, width: number, height: number): [number, number, number, number, number, number] => {
+  switch (orientation) {
+    case 2: return [-1, 0, 0, 1, width, 0];
+    case 3: return [-1, 0, 0, -1, width, height];
+    case 4: return [1, 0, 0, -1, 0, height];
+    case 5: return [0, 1, 1, 0, 0, 0];
+    case 6: return [0, 1, -1, 0, height, 0];
+    case 7: return [0, -1, -1, 0, height, width];
+    case 8: return [0, -1, 1, 0, 0, width];
+    default: return [1, 0, 0, 1, 0, 0];
+  }
+};
+
+/**
+ * Decodes an upload onto a canvas, upright. Fails with an UploadError when the
+ * browser cannot read the file, e.g. HEIC outside Safari.
+ */
+export const loadOrientedImage = async (file: File): Promise<HTMLCanvasElement> => {
+  const url = URL.createObjectURL(file);
+  let image: HTMLImageElement;
+  try {
+    image = await loadImage(url);
+  } catch {
+    throw new UploadError(localize('upload.unreadable', { name: file.name }));
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+
+  const orientation = file.type === 'image/jpeg' && !browserAppliesOrientation()
+    ? readExifOrientation(await file.arrayBuffer())
+    : 1;
+  const { naturalWidth: width, naturalHeight: height } = image;
+  const swapsSides = orientation >= 5;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = swapsSides ? height : width;
+  canvas.height = swapsSides ? width : height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.setTransform(...orientationTransform(orientation, width, height));
+  ctx.drawImage(image, 0, 0);
+  return canvas;
+};
+
+export const fitWithin = (width: number, height: number, maxDimension: number): { width: number; height: number } => {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+/**
+ * The largest crop of the given aspect ratio (width / height, in pixels) that
+ * fits in the middle of an image of the given aspect ratio.
+ */
+export const getCenteredCrop = (imageAspect: number, aspect: number | null): CropRect => {
+  if (aspect === null) return FULL_CROP;
+  // The crop's aspect in fractions of the image.
+  const relative = aspect / imageAspect;
+  const width = relative <= 1 ? relative : 1;
+  const height = relative <= 1 ? 1 : 1 / relative;
+  return { x: (1 - width) / 2, y: (1 - height) / 2, width, height };
+};
+
+const MIN_CROP = 0.05;
+
+/**
+ * Resizes a crop by dragging the corner opposite `anchor` to `point`, keeping
+ * the aspect ratio (in fractions of the image) and staying inside the image.
+ */
+export const resizeCrop = (
+  anchor: { x: number; y: number },
+  point: { x: number; y: number },
+  relativeAspect: number | null
+): CropRect => {
+  const directionX = point.x >= anchor.x ? 1 : -1;
+  const directionY = point.y >= anchor.y ? 1 : -1;
+  const roomX = directionX > 0 ? 1 - anchor.x : anchor.x;
+  const roomY = directionY > 0 ? 1 - anchor.y : anchor.y;
+  let width = Math.min(Math.max(Math.abs(point.x - anchor.x), MIN_CROP), roomX);
+  let height = Math.min(Math.max(Math.abs(point.y - anchor.y), MIN_CROP), roomY);
+
+  if (relativeAspect !== null) {
+    // Follow whichever side the pointer moved further along, then fit inside the room left.
+    if (width / height > relativeAspect) height = width / relativeAspect;
+    else width = height * relativeAspect;
+    const shrink = Math.min(1, roomX / width, roomY / height);
+    width *= shrink;
+    height *= shrink;
+  }
+
+  return {
+    x: directionX > 0 ? anchor.x : anchor.x - width,
+    y: directionY > 0 ? anchor.y : anchor.y - height,
+    width,
+    height,
+  };
+};
+
+export const moveCrop = (crop: CropRect, dx: number, dy: number): CropRect => ({
+  ...crop,
+  x: Math.min(Math.max(crop.x + dx, 0), 1 - crop.width),
+  y: Math.min(Math.max(crop.y + dy, 0), 1 - crop.height),
+});
+
+const canvasToBlob = (canvas: HTMLCanvasElement, format: UploadFormat, quality: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new UploadError(localize('upload.encode')))), format, quality);
+  });
+
+/**
+ * Crops, downscales and re-encodes an upright image. Large reductions are done
+ * in halving steps, which looks much better than one big jump.
+ */
+export const renderUpload = async (source: HTMLCanvasElement, settings: UploadSettings, crop: CropRect | null): Promise<Blob> => {
+  const area = crop ?? FULL_CROP;
+  const sx = Math.round(area.x * source.width);
+  const sy = Math.round(area.y * source.height);
+  const sw = Math.max(1, Math.round(area.width * source.width));
+  const sh = Math.max(1, Math.round(area.height * source.height));
+  const target = fitWithin(sw, sh, settings.maxDimension);
+
+  let current: HTMLCanvasElement | null = null;
+  let width = sw;
+  let height = sh;
+  while (width / 2 >= target.width && height / 2 >= target.height) {
+    const step = document.createElement('canvas');
+    step.width = Math.round(width / 2);
+    step.height = Math.round(height / 2);
+    const ctx = step.getContext('2d')!;
+    ctx.imageSmoothingQuality = 'high';
+    if (current) ctx.drawImage(current, 0, 0, step.width, step.height);
+    else ctx.drawImage(source, sx, sy, sw, sh, 0, 0, step.width, step.height);
+    current = step;
+    width = step.width;
+    height = step.height;
+  }
+
+  const output = document.createElement('canvas');
+  output.width = target.width;
+  output.height = target.height;
+  const ctx = output.getContext('2d')!;
+  // JPEG has no transparency; without a fill, transparent areas turn black.
+  if (settings.format === 'image/jpeg') {
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, output.width, output.height);
+  }
+  ctx.imageSmoothingQuality = 'high';
+  if (current) ctx.drawImage(current, 0, 0, output.width, output.height);
+  else ctx.drawImage(source, sx, sy, sw, sh, 0, 0, output.width, output.height);
+  return canvasToBlob(output, settings.format, settings.quality);
+};
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { blendThroughMask, featherMask } from './inpainting';
+
+const SIZE = 40;
+// A square from 10 to 29 on both axes.
+const inSquare = (x: number, y: number) => x >= 10 && x < 30 && y >= 10 && y < 30;
+
+const squareMask = () => {
+  const mask = new Uint8Array(SIZE * SIZE);
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) mask[y * SIZE + x] = inSquare(x, y) ? 255 : 0;
+  }
+  return mask;
+};
+
+// Opaque pixels of one colour, varied a little so copies and blends can be told apart.
+const pixels = (rgb: [number, number, number]) => {
+  const data = new Uint8ClampedArray(SIZE * SIZE * 4);
+  for (let p = 0; p < SIZE * SIZE; p++) data.set([rgb[0], rgb[1], (rgb[2] + p) % 256, 255], p * 4);
+  return data;
+};
+
+const pixelAt = (data: Uint8ClampedArray, x: number, y: number) => Array.from(data.subarray((y * SIZE + x) * 4, (y * SIZE + x) * 4 + 4));
+
+describe('featherMask', () => {
+  it('leaves a mask alone for a radius too small to blur', () => {
+    const mask = squareMask();
+    expect(featherMask(mask, SIZE, SIZE, 1)).toBe(mask);
+  });
+
+  it('softens the edge only inside the mask', () => {
+    const mask = squareMask();
+    const feathered = featherMask(mask, SIZE, SIZE, 9);
+    for (let p = 0; p < mask.length; p++) {
+      if (mask[p] === 0) expect(feathered[p]).toBe(0);
+    }
+    const at = (x: number, y: number) => feathered[y * SIZE + x];
+    // The fade runs from the edge of the square in towards its middle.
+    expect(at(10, 20)).toBeGreaterThan(0);
+    expect(at(10, 20)).toBeLessThan(at(13, 20));
+    expect(at(13, 20)).toBeLessThan(255);
+    expect(at(20, 20)).toBe(255);
+  });
+});
+
+describe('blendThroughMask', () => {
+  it('keeps pixels outside the mask and replaces those inside', () => {
+    const source = pixels([255, 0, 0]);
+    const edited = pixels([0, 0, 255]);
+    const out = blendThroughMask(source, edited, squareMask());
+    for (let y = 0; y < SIZE; y++) {
+      for (let x = 0; x < SIZE; x++) {
+        expect(pixelAt(out, x, y)).toEqual(pixelAt(inSquare(x, y) ? edited : source, x, y));
+      }
+    }
+  });
+
+  it('mixes the two across a feathered edge and keeps the outside untouched', () => {
+    const source = pixels([255, 0, 0]);
+    const edited = pixels([0, 0, 255]);
+    const out = blendThroughMask(source, edited, featherMask(squareMask(), SIZE, SIZE, 9));
+    for (let y = 0; y < SIZE; y++) {
+      for (let x = 0; x < SIZE; x++) {
+        if (!inSquare(x, y)) expect(pixelAt(out, x, y)).toEqual(pixelAt(source, x, y));
+      }
+    }
+    const [red] = pixelAt(out, 11, 20);
+    expect(red).toBeGreaterThan(0);
+    expect(red).toBeLessThan(255);
+    expect(pixelAt(out, 20, 20)).toEqual(pixelAt(edited, 20, 20));
+  });
+});
@@ -0,0 +1,141 @@
+import { loadImage } from '../utils/image';
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas is not supported in this browser.');
+  return { canvas, ctx };
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement): Promise<Blob> =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Could not encode the mask.'))), 'image/png');
+  });
+
+const withObjectUrl = async <T>(blob: Blob, use: (url: string) => Promise<T>): Promise<T> => {
+  const url = URL.createObjectURL(blob);
+  try {
+    return await use(url);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+// Draws an image stretched to the given size and returns its pixels.
+const readPixels = (image: HTMLImageElement, width: number, height: number): Uint8ClampedArray => {
+  const { ctx } = createCanvas(width, height);
+  ctx.drawImage(image, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height).data;
+};
+
+const boxBlurPass = (src: Float32Array, dst: Float32Array, width: number, height: number, radius: number, horizontal: boolean) => {
+  const lines = horizontal ? height : width;
+  const length = horizontal ? width : height;
+  const stride = horizontal ? 1 : width;
+  const span = radius * 2 + 1;
+  for (let line = 0; line < lines; line++) {
+    const start = horizontal ? line * width : line;
+    const at = (i: number) => src[start + Math.min(length - 1, Math.max(0, i)) * stride];
+    let sum = 0;
+    for (let i = -radius; i <= radius; i++) sum += at(i);
+    for (let i = 0; i < length; i++) {
+      dst[start + i * stride] = sum / span;
+      sum += at(i + radius + 1) - at(i - radius);
+    }
+  }
+};
+
+/**
+ * Softens the edge of a hard 0/255 mask. Three box blurs approximate a
+ * Gaussian; the result is then multiplied by the hard mask so the fade happens
+ * inside the masked area and everything outside it stays at zero.
+ */
+export const featherMask = (mask: Uint8Array, width: number, height: number, radius: number): Uint8Array => {
+  const r = Math.round(radius / 3);
+  if (r < 1) return mask;
+  const a = Float32Array.from(mask);
+  const b = new Float32Array(mask.length);
+  for (let pass = 0; pass < 3; pass++) {
+    boxBlurPass(a, b, width, height, r, true);
+    boxBlurPass(b, a, width, height, r, false);
+  }
+  const feathered = new Uint8Array(mask.length);
+  for (let i = 0; i < mask.length; i++) {
+    feathered[i] = Math.round((a[i] * mask[i]) / 255);
+  }
+  return feathered;
+};
+
+/**
+ * Blends the edited pixels over the source through the mask. Where the mask is
+ * zero the source pixel is copied untouched.
+ */
+export const blendThroughMask = (source: Uint8ClampedArray, edited: Uint8ClampedArray, mask: Uint8Array): Uint8ClampedArray => {
+  const out = new Uint8ClampedArray(source.length);
+  for (let p = 0; p < mask.length; p++) {
+    const weight = mask[p] / 255;
+    for (let c = p * 4; c < p * 4 + 4; c++) {
+      out[c] = weight === 0 ? source[c] : source[c] + (edited[c] - source[c]) * weight;
+    }
+  }
+  return out;
+};
+
+/**
+ * Turns painted strokes (opaque pixels) into the black-and-white mask sent to
+ * the provider, sized to match the source image. Returns null when nothing
+ * would be editable.
+ */
+export const buildMaskImage = async (painted: Blob | null, inverted: boolean, source: Blob): Promise<Blob | null> => {
+  const sourceImage = await withObjectUrl(source, loadImage);
+  const width = sourceImage.naturalWidth;
+  const height = sourceImage.naturalHeight;
+  const strokes = painted ? readPixels(await withObjectUrl(painted, loadImage), width, height) : null;
+
+  const { canvas, ctx } = createCanvas(width, height);
+  const imageData = ctx.createImageData(width, height);
+  let editable = 0;
+  for (let p = 0; p < width * height; p++) {
+    const isPainted = strokes ? strokes[p * 4 + 3] > 127 : false;
+    const value = isPainted !== inverted ? 255 : 0;
+    if (value) editable++;
+    const i = p * 4;
+    imageData.data[i] = imageData.data[i + 1] = imageData.data[i + 2] = value;
+    imageData.data[i + 3] = 255;
+  }
+  if (editable === 0) return null;
+  ctx.putImageData(imageData, 0, 0);
+  return canvasToBlob(canvas);
+};
+
+/**
+ * Composites an edit result back onto its source so that only the masked area
+ * can change. The result is resized to the source first, in case the model
+ * returned a different size. Returns a PNG data URL.
+ */
+export const compositeMasked = async (source: Blob, editedUrl: string, mask: Blob, feather: number): Promise<string> => {
+  const [sourceImage, editedImage, maskImage] = await Promise.all([
+    withObjectUrl(source, loadImage),
+    loadImage(editedUrl),
+    withObjectUrl(mask, loadImage),
+  ]);
+  const width = sourceImage.naturalWidth;
+  const height = sourceImage.naturalHeight;
+
+  const maskPixels = readPixels(maskImage, width, height);
+  const hardMask = new Uint8Array(width * height);
+  for (let p = 0; p < hardMask.length; p++) {
+    hardMask[p] = maskPixels[p * 4] > 127 ? 255 : 0;
+  }
+
+  const blended = blendThroughMask(
+    readPixels(sourceImage, width, height),
+    readPixels(editedImage, width, height),
+    featherMask(hardMask, width, height, feather)
+  );
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.putImageData(new ImageData(blended, width, height), 0, 0);
+  return canvas.toDataURL('image/png');
+};
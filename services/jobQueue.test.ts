@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { createJobQueue } from './jobQueue';
+
+// A task that settles only when told to, recording the signal of every attempt.
+const controllableTask = () => {
+  const signals: AbortSignal[] = [];
+  const finishers: (() => void)[] = [];
+  const task = (signal: AbortSignal) => {
+    signals.push(signal);
+    return new Promise<string>(resolve => finishers.push(() => resolve('done')));
+  };
+  return { task, signals, finishers };
+};
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('createJobQueue', () => {
+  it('can cancel a retry after the cancelled attempt settles', async () => {
+    const queue = createJobQueue<string>({ concurrency: 1 });
+    const { task, signals, finishers } = controllableTask();
+    const id = queue.enqueue('cat', task);
+
+    queue.cancel(id);
+    queue.retry(id);
+    expect(signals).toHaveLength(2);
+    expect(signals[0].aborted).toBe(true);
+
+    // The first attempt ignores its signal and only settles now.
+    finishers[0]();
+    await flush();
+
+    queue.cancel(id);
+    expect(signals[1].aborted).toBe(true);
+    finishers[1]();
+    await flush();
+    expect(queue.getSnapshot()[0]).toMatchObject({ status: 'cancelled', result: null });
+  });
+
+  it('keeps the result of an attempt that finishes', async () => {
+    const queue = createJobQueue<string>();
+    const { task, finishers } = controllableTask();
+    queue.enqueue('cat', task);
+    finishers[0]();
+    await flush();
+    expect(queue.getSnapshot()[0]).toMatchObject({ status: 'done', attempts: 1, result: 'done' });
+  });
+});
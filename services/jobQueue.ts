@@ -0,0 +1,173 @@
+import { createId } from './historyStore';
+import { ApiError, describeError, isRetryableError } from './errors';
+
+export type JobStatus = 'queued' | 'running' | 'failed' | 'done' | 'cancelled';
+
+export interface JobSnapshot<T> {
+  id: string;
+  label: string;
+  status: JobStatus;
+  attempts: number;
+  error: string | null;
+  result: T | null;
+  // When the next attempt starts, while a failed attempt waits to be retried.
+  retryAt: number | null;
+}
+
+export interface JobQueueOptions {
+  concurrency: number;
+  // Retries after the first attempt, for errors that look transient.
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+interface JobEntry<T> extends JobSnapshot<T> {
+  task: (signal: AbortSignal) => Promise<T>;
+  controller: AbortController | null;
+}
+
+const DEFAULT_OPTIONS: JobQueueOptions = {
+  concurrency: 2,
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30_000,
+};
+
+/**
+ * Exponential backoff with jitter, never shorter than what the server asked for.
+ */
+export const getRetryDelay = (attempt: number, error: unknown, options: JobQueueOptions): number => {
+  const exponential = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (attempt - 1));
+  const jittered = exponential / 2 + Math.random() * (exponential / 2);
+  const requested = error instanceof ApiError ? error.retryAfterMs ?? 0 : 0;
+  return Math.max(jittered, requested);
+};
+
+/**
+ * Runs async jobs with bounded concurrency and retries transient failures. It
+ * lives outside React so work keeps going regardless of which view is shown;
+ * subscribe() plus getSnapshot() plug into useSyncExternalStore.
+ */
+export const createJobQueue = <T>(initialOptions: Partial<JobQueueOptions> = {}) => {
+  const options: JobQueueOptions = { ...DEFAULT_OPTIONS, ...initialOptions };
+  const jobs: JobEntry<T>[] = [];
+  const listeners = new Set<() => void>();
+  let snapshot: JobSnapshot<T>[] = [];
+
+  const notify = () => {
+    snapshot = jobs.map(({ id, label, status, attempts, error, result, retryAt }) => ({ id, label, status, attempts, error, result, retryAt }));
+    listeners.forEach(listener => listener());
+  };
+
+  const run = async (job: JobEntry<T>) => {
+    const controller = new AbortController();
+    job.status = 'running';
+    job.attempts += 1;
+    job.retryAt = null;
+    job.controller = controller;
+    notify();
+
+    try {
+      const result = await job.task(controller.signal);
+      if (controller.signal.aborted) return;
+      job.status = 'done';
+      job.result = result;
+    } catch (e) {
+      if (controller.signal.aborted) return;
+      if (job.attempts <= options.maxRetries && isRetryableError(e)) {
+        const delay = getRetryDelay(job.attempts, e, options);
+        job.status = 'queued';
+        job.retryAt = Date.now() + delay;
+        setTimeout(() => {
+          job.retryAt = null;
+          pump();
+        }, delay);
+      } else {
+        job.status = 'failed';
+        job.error = describeError(e);
+      }
+    } finally {
+      // A cancelled attempt can settle after a retry started; the retry keeps its controller.
+      if (job.controller === controller) job.controller = null;
+      notify();
+      pump();
+    }
+  };
+
+  const pump = () => {
+    let running = jobs.filter(job => job.status === 'running').length;
+    for (const job of jobs) {
+      if (running >= options.concurrency) break;
+      if (job.status === 'queued' && job.retryAt === null) {
+        running += 1;
+        run(job);
+      }
+    }
+  };
+
+  const enqueue = (label: string, task: (signal: AbortSignal) => Promise<T>): string => {
+    const job: JobEntry<T> = { id: createId(), label, status: 'queued', attempts: 0, error: null, result: null, retryAt: null, task, controller: null };
+    jobs.push(job);
+    notify();
+    pump();
+    return job.id;
+  };
+
+  const cancel = (id: string) => {
+    const job = jobs.find(j => j.id === id);
+    if (!job || (job.status !== 'queued' && job.status !== 'running')) return;
+    job.controller?.abort();
+    job.status = 'cancelled';
+    job.retryAt = null;
+    notify();
+    pump();
+  };
+
+  const cancelAll = () => {
+    jobs.filter(job => job.status === 'queued' || job.status === 'running').forEach(job => cancel(job.id));
+  };
+
+  const retry = (id: string) => {
+    const job = jobs.find(j => j.id === id);
+    if (!job || (job.status !== 'failed' && job.status !== 'cancelled')) return;
+    job.status = 'queued';
+    job.attempts = 0;
+    job.error = null;
+    notify();
+    pump();
+  };
+
+  const clearFinished = () => {
+    for (let i = jobs.length - 1; i >= 0; i--) {
+      if (jobs[i].status !== 'queued' && jobs[i].status !== 'running') jobs.splice(i, 1);
+    }
+    notify();
+  };
+
+  const setConcurrency = (concurrency: number) => {
+    options.concurrency = Math.max(1, concurrency);
+    pump();
+  };
+
+  const subscribe = (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return {
+    enqueue,
+    cancel,
+    cancelAll,
+    retry,
+    clearFinished,
+    setConcurrency,
+    getConcurrency: () => options.concurrency,
+    subscribe,
+    getSnapshot: () => snapshot,
+  };
+};
+
+export type JobQueue<T> = ReturnType<typeof createJobQueue<T>>;
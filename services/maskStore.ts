@@ -0,0 +1,32 @@
+import type { SavedMask } from '../types';
+import { MASKS_STORE, openDb, requestToPromise, transactionDone } from './db';
+
+/**
+ * Returns the masks saved for one upload, oldest first.
+ */
+export const listMasks = async (rootId: string): Promise<SavedMask[]> => {
+  const db = await openDb();
+  const store = db.transaction(MASKS_STORE, 'readonly').objectStore(MASKS_STORE);
+  const masks = await requestToPromise<SavedMask[]>(store.index('rootId').getAll(rootId));
+  return masks.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const listAllMasks = async (): Promise<SavedMask[]> => {
+  const db = await openDb();
+  const store = db.transaction(MASKS_STORE, 'readonly').objectStore(MASKS_STORE);
+  return requestToPromise<SavedMask[]>(store.getAll());
+};
+
+export const saveMask = async (mask: SavedMask): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(MASKS_STORE, 'readwrite');
+  tx.objectStore(MASKS_STORE).put(mask);
+  await transactionDone(tx);
+};
+
+export const deleteMask = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(MASKS_STORE, 'readwrite');
+  tx.objectStore(MASKS_STORE).delete(id);
+  await transactionDone(tx);
+};
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import type { OutputFormat } from '../types';
+import { getFitLayout, getFrameDescription } from './outputFormat';
+
+const format = (changes: Partial<OutputFormat>): OutputFormat => ({ aspectRatio: null, imageSize: null, fit: 'crop', ...changes });
+
+describe('getFrameDescription', () => {
+  it('names the orientation', () => {
+    expect(getFrameDescription(null)).toBe('');
+    expect(getFrameDescription('1:1')).toBe('a square');
+    expect(getFrameDescription('4:5')).toBe('a portrait 4:5');
+    expect(getFrameDescription('16:9')).toBe('a landscape 16:9');
+  });
+});
+
+describe('getFitLayout', () => {
+  it('leaves an image that already fits alone', () => {
+    expect(getFitLayout(1024, 1024, format({}), true)).toBeNull();
+    expect(getFitLayout(1024, 1024, format({ aspectRatio: '1:1' }), true)).toBeNull();
+    // Within the rounding tolerance.
+    expect(getFitLayout(1920, 1081, format({ aspectRatio: '16:9' }), false)).toBeNull();
+  });
+
+  it('crops from the centre', () => {
+    expect(getFitLayout(1000, 1000, format({ aspectRatio: '16:9' }), false)).toEqual({
+      width: 1000,
+      height: 563,
+      source: { x: 0, y: 218.75, width: 1000, height: 562.5 },
+      target: { x: 0, y: 0, width: 1000, height: 563 },
+    });
+  });
+
+  it('pads to the ratio', () => {
+    expect(getFitLayout(1000, 1000, format({ aspectRatio: '2:3', fit: 'pad' }), false)).toEqual({
+      width: 1000,
+      height: 1500,
+      source: { x: 0, y: 0, width: 1000, height: 1000 },
+      target: { x: 0, y: 250, width: 1000, height: 1000 },
+    });
+  });
+
+  it('scales the longest side to the image size only when asked to', () => {
+    expect(getFitLayout(1024, 768, format({ imageSize: '2K' }), true)).toMatchObject({ width: 2048, height: 1536 });
+    expect(getFitLayout(1024, 768, format({ imageSize: '2K' }), false)).toBeNull();
+  });
+});
@@ -0,0 +1,144 @@
+import type { AspectFit, AspectRatio, ImageSize, OutputFormat } from '../types';
+import type { MessageKey } from '../locales/en';
+import { loadImage } from '../utils/image';
+
+export const ASPECT_RATIOS: { value: AspectRatio; labelKey: MessageKey }[] = [
+  { value: '1:1', labelKey: 'aspect.1:1' },
+  { value: '4:5', labelKey: 'aspect.4:5' },
+  { value: '3:4', labelKey: 'aspect.3:4' },
+  { value: '2:3', labelKey: 'aspect.2:3' },
+  { value: '9:16', labelKey: 'aspect.9:16' },
+  { value: '5:4', labelKey: 'aspect.5:4' },
+  { value: '4:3', labelKey: 'aspect.4:3' },
+  { value: '3:2', labelKey: 'aspect.3:2' },
+  { value: '16:9', labelKey: 'aspect.16:9' },
+  { value: '21:9', labelKey: 'aspect.21:9' },
+];
+
+export const IMAGE_SIZES: { value: ImageSize; label: string; pixels: number }[] = [
+  { value: '1K', label: '1K (1024 px)', pixels: 1024 },
+  { value: '2K', label: '2K (2048 px)', pixels: 2048 },
+  { value: '4K', label: '4K (4096 px)', pixels: 4096 },
+];
+
+export const ASPECT_FITS: { value: AspectFit; labelKey: MessageKey }[] = [
+  { value: 'crop', labelKey: 'output.crop' },
+  { value: 'pad', labelKey: 'output.pad' },
+];
+
+export const DEFAULT_OUTPUT_FORMAT: OutputFormat = { aspectRatio: null, imageSize: null, fit: 'crop' };
+
+// Padding is paper-white, like the export margins.
+const PAD_COLOR = '#ffffff';
+
+// Within this, an image counts as already having the aspect ratio.
+const ASPECT_TOLERANCE = 0.005;
+
+export const isAspectRatio = (value: unknown): value is AspectRatio =>
+  ASPECT_RATIOS.some(ratio => ratio.value === value);
+
+export const isImageSize = (value: unknown): value is ImageSize =>
+  IMAGE_SIZES.some(size => size.value === value);
+
+// Width divided by height.
+export const getAspectValue = (ratio: AspectRatio): number => {
+  const [width, height] = ratio.split(':').map(Number);
+  return width / height;
+};
+
+/**
+ * How the prompt describes the frame, e.g. "a portrait 4:5", or '' when the
+ * shape is left to the model.
+ */
+export const getFrameDescription = (ratio: AspectRatio | null): string => {
+  if (!ratio) return '';
+  const value = getAspectValue(ratio);
+  if (value === 1) return 'a square';
+  return `${value < 1 ? 'a portrait' : 'a landscape'} ${ratio}`;
+};
+
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface FitLayout {
+  width: number;
+  height: number;
+  // The part of the source image to use, in source pixels.
+  source: Rect;
+  // Where it goes on the output, in output pixels.
+  target: Rect;
+}
+
+/**
+ * Lays out a `width`×`height` image in the output format: cropped from the
+ * centre or padded to the aspect ratio, then scaled so its longest side
+ * matches the image size when `resize` is set. Returns null when nothing
+ * needs to change.
+ */
+export const getFitLayout = (width: number, height: number, output: OutputFormat, resize: boolean): FitLayout | null => {
+  let source: Rect = { x: 0, y: 0, width, height };
+  // The output before scaling, in source pixels, and where the source sits in it.
+  let frame = { width, height };
+  let offset = { x: 0, y: 0 };
+
+  if (output.aspectRatio) {
+    const aspect = getAspectValue(output.aspectRatio);
+    const current = width / height;
+    if (Math.abs(current - aspect) / aspect > ASPECT_TOLERANCE) {
+      const isWider = current > aspect;
+      if (output.fit === 'crop') {
+        const w = isWider ? height * aspect : width;
+        const h = isWider ? height : width / aspect;
+        source = { x: (width - w) / 2, y: (height - h) / 2, width: w, height: h };
+        frame = { width: w, height: h };
+      } else {
+        frame = isWider ? { width, height: width / aspect } : { width: height * aspect, height };
+        offset = { x: (frame.width - width) / 2, y: (frame.height - height) / 2 };
+      }
+    }
+  }
+
+  const size = resize && output.imageSize ? IMAGE_SIZES.find(s => s.value === output.imageSize)!.pixels : null;
+  const scale = size ? size / Math.max(frame.width, frame.height) : 1;
+  const outWidth = Math.max(1, Math.round(frame.width * scale));
+  const outHeight = Math.max(1, Math.round(frame.height * scale));
+  if (outWidth === width && outHeight === height && source.width === width && source.height === height) return null;
+
+  return {
+    width: outWidth,
+    height: outHeight,
+    source,
+    target: {
+      x: Math.round(offset.x * scale),
+      y: Math.round(offset.y * scale),
+      width: Math.round(source.width * scale),
+      height: Math.round(source.height * scale),
+    },
+  };
+};
+
+/**
+ * Brings a generated image to the output format when the model did not draw
+ * it that way. `resize` is false when the model already honoured the image size.
+ */
+export const fitToOutput = async (imageUrl: string, output: OutputFormat, resize: boolean): Promise<string> => {
+  if (!output.aspectRatio && !(resize && output.imageSize)) return imageUrl;
+  const image = await loadImage(imageUrl);
+  const layout = getFitLayout(image.naturalWidth, image.naturalHeight, output, resize);
+  if (!layout) return imageUrl;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = layout.width;
+  canvas.height = layout.height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = PAD_COLOR;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.imageSmoothingQuality = 'high';
+  const { source, target } = layout;
+  ctx.drawImage(image, source.x, source.y, source.width, source.height, target.x, target.y, target.width, target.height);
+  return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,17 @@
+// {placeholder} variables in a user's prompt, e.g. "A {animal} trying to {task}".
+const PLACEHOLDER = /\{\s*([^{}]+?)\s*\}/g;
+
+/**
+ * The distinct placeholder names in a template, in order of first use.
+ */
+export const getPlaceholders = (template: string): string[] =>
+  Array.from(new Set(Array.from(template.matchAll(PLACEHOLDER), match => match[1])));
+
+/**
+ * Replaces each placeholder with its value. Placeholders without a value are left as written.
+ */
+export const fillPlaceholders = (template: string, values: Record<string, string>): string =>
+  template.replace(PLACEHOLDER, (placeholder, name: string) => values[name]?.trim() || placeholder);
+
+export const getMissingPlaceholders = (template: string, values: Record<string, string>): string[] =>
+  getPlaceholders(template).filter(name => !values[name]?.trim());
@@ -0,0 +1,26 @@
+import type { Preset } from '../types';
+import { PRESETS_STORE, openDb, requestToPromise, transactionDone } from './db';
+
+/**
+ * Returns the saved presets, sorted by name.
+ */
+export const listPresets = async (): Promise<Preset[]> => {
+  const db = await openDb();
+  const store = db.transaction(PRESETS_STORE, 'readonly').objectStore(PRESETS_STORE);
+  const presets = await requestToPromise<Preset[]>(store.getAll());
+  return presets.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const savePreset = async (preset: Preset): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(PRESETS_STORE, 'readwrite');
+  tx.objectStore(PRESETS_STORE).put(preset);
+  await transactionDone(tx);
+};
+
+export const deletePreset = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(PRESETS_STORE, 'readwrite');
+  tx.objectStore(PRESETS_STORE).delete(id);
+  await transactionDone(tx);
+};
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import type { Project } from '../types';
+import { createZip, readZip } from '../utils/zip';
+import { DEFAULT_OUTPUT_FORMAT } from './outputFormat';
+import { DEFAULT_KEYFRAMES } from './animation';
+import { PROJECT_VERSION, ProjectError, migrateProject, readProject, writeProject } from './projectFile';
+
+const PNG_BYTES = Uint8Array.from([137, 80, 78, 71, 13, 10, 26, 10]);
+
+// A .toons file holding this project.json and blobs.
+const projectFile = (json: unknown, blobs: Record<string, Uint8Array> = {}) =>
+  new Blob([createZip([
+    { name: 'project.json', data: new TextEncoder().encode(JSON.stringify(json)) },
+    ...Object.entries(blobs).map(([name, data]) => ({ name, data })),
+  ])]);
+
+const bytesOf = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer());
+
+// A project as version 4 of the app saved it, before output languages.
+const versionFour = () => ({
+  version: 4,
+  savedAt: 1000,
+  session: {
+    activeTab: 'cartoon',
+    cartoon: {
+      mode: 'single',
+      prompt: 'A cat trying to use a laptop',
+      promptValues: {},
+      caption: '',
+      styleType: 'magazine',
+      styleIds: { magazine: 'new-yorker', cartoonist: 'schulz' },
+      signature: 'AI Artist',
+      signatureMode: 'overlay',
+      colorOption: 'color',
+      output: DEFAULT_OUTPUT_FORMAT,
+      characterImage: null,
+      castIds: [],
+      overlay: { caption: '', captionFont: 'Georgia', layers: [] },
+      selectedId: 'c1',
+      panels: [],
+      layout: 'horizontal',
+      panelImages: [],
+    },
+    restyle: { source: null, strength: 60, selectedId: null },
+    editor: { prompt: '', root: null, selectedId: null, maskInverted: false, maskFeather: 12 },
+  },
+  creations: [{
+    id: 'c1',
+    kind: 'cartoon',
+    image: { $blob: 'blobs/1.png', type: 'image/png' },
+    createdAt: 1000,
+    params: { description: 'A cat trying to use a laptop', styleType: 'magazine', styleName: 'The New Yorker', signature: '', colorOption: 'color', characterImage: null },
+  }],
+  styles: [],
+  characters: [],
+  masks: [],
+  presets: [],
+});
+
+// The same project as version 5 saved it, before animated toons.
+const versionFive = () => {
+  const project = versionFour();
+  return { ...project, version: 5, session: { ...project.session, cartoon: { ...project.session.cartoon, language: 'fr' } } };
+};
+
+describe('readProject', () => {
+  it('opens a version 4 file, keeping English as the output language', async () => {
+    const project = await readProject(projectFile(versionFour(), { 'blobs/1.png': PNG_BYTES }));
+    expect(project.version).toBe(PROJECT_VERSION);
+    expect(project.session.cartoon.language).toBe('en');
+    expect(project.session.cartoon.prompt).toBe('A cat trying to use a laptop');
+    expect(project.creations[0].image.type).toBe('image/png');
+    expect(await bytesOf(project.creations[0].image)).toEqual(PNG_BYTES);
+  });
+
+  it('opens a version 5 file with the default animation, no frames drawn', async () => {
+    const { session } = await readProject(projectFile(versionFive(), { 'blobs/1.png': PNG_BYTES }));
+    expect(session.cartoon.keyframes).toEqual(DEFAULT_KEYFRAMES);
+    expect(session.cartoon.loop).toBe(true);
+    expect(session.cartoon.frameImages).toEqual(DEFAULT_KEYFRAMES.map(() => null));
+    expect(session.cartoon.language).toBe('fr');
+  });
+
+  it('reads back what writeProject saved, storing a shared blob once', async () => {
+    const opened = await readProject(projectFile(versionFour(), { 'blobs/1.png': PNG_BYTES }));
+    const image = opened.creations[0].image;
+    const project: Omit<Project, 'version' | 'savedAt'> = {
+      ...opened,
+      session: { ...opened.session, cartoon: { ...opened.session.cartoon, language: 'de', characterImage: image } },
+    };
+    const file = await writeProject(project);
+    expect([...(await readZip(await bytesOf(file))).keys()].filter(name => name.startsWith('blobs/'))).toHaveLength(1);
+
+    const reopened = await readProject(file);
+    expect(reopened.version).toBe(PROJECT_VERSION);
+    expect(reopened.session.cartoon.language).toBe('de');
+    expect(await bytesOf(reopened.session.cartoon.characterImage!)).toEqual(PNG_BYTES);
+    expect({ ...reopened, savedAt: 0 }).toEqual({ ...project, version: PROJECT_VERSION, savedAt: 0 });
+  });
+
+  it('rejects files that are not projects', async () => {
+    await expect(readProject(new Blob(['not a zip']))).rejects.toBeInstanceOf(ProjectError);
+    await expect(readProject(projectFile(versionFour()))).rejects.toThrow('missing blobs/1.png');
+  });
+});
+
+describe('migrateProject', () => {
+  it('refuses files from a newer version', () => {
+    expect(() => migrateProject({ version: PROJECT_VERSION + 1 })).toThrow(ProjectError);
+  });
+});
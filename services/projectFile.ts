@@ -0,0 +1,157 @@
+import type { Project } from '../types';
+import { createZip, readZip } from '../utils/zip';
+import { DEFAULT_OUTPUT_FORMAT } from './outputFormat';
+import { DEFAULT_KEYFRAMES } from './animation';
+import { localize } from './i18n';
+
+/**
+ * A .toons project file is a ZIP archive holding project.json, with every
+ * image stored beside it under blobs/ and referenced from the JSON.
+ *
+ * Bump PROJECT_VERSION whenever the shape of Project changes, and add a
+ * migration from the previous version so older files keep loading.
+ */
+export const PROJECT_VERSION = 6;
+
+export const PROJECT_EXTENSION = '.toons';
+
+const PROJECT_ENTRY = 'project.json';
+
+// Stands in for a Blob inside project.json.
+interface BlobRef {
+  $blob: string;
+  type: string;
+}
+
+// Project files are read as untyped JSON until they have been migrated.
+type RawProject = Record<string, unknown> & { version: number };
+
+// Each entry upgrades a project from that version to the next one.
+const MIGRATIONS: Record<number, (project: RawProject) => RawProject> = {
+  // Version 2 added presets and values for {placeholder} variables in the prompt.
+  1: (project) => {
+    const session = project.session as { cartoon: Record<string, unknown> };
+    return {
+      ...project,
+      presets: [],
+      session: { ...session, cartoon: { ...session.cartoon, promptValues: {} } },
+    };
+  },
+  // Version 3 added the aspect ratio and size to generate at.
+  2: (project) => {
+    const session = project.session as { cartoon: Record<string, unknown> };
+    return { ...project, session: { ...session, cartoon: { ...session.cartoon, output: DEFAULT_OUTPUT_FORMAT } } };
+  },
+  // Version 4 added the style transfer tab.
+  3: (project) => ({
+    ...project,
+    session: { ...(project.session as object), restyle: { source: null, strength: 60, selectedId: null } },
+  }),
+  // Version 5 added the output language, which used to be English.
+  4: (project) => {
+    const session = project.session as { cartoon: Record<string, unknown> };
+    return { ...project, session: { ...session, cartoon: { ...session.cartoon, language: 'en' } } };
+  },
+  // Version 6 added animated toons.
+  5: (project) => {
+    const session = project.session as { cartoon: Record<string, unknown> };
+    const cartoon = { ...session.cartoon, keyframes: DEFAULT_KEYFRAMES, loop: true, frameImages: DEFAULT_KEYFRAMES.map(() => null) };
+    return { ...project, session: { ...session, cartoon } };
+  },
+};
+
+/**
+ * A project file that cannot be opened. The message is meant for the user.
+ */
+export class ProjectError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProjectError';
+  }
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+};
+
+const isBlobRef = (value: unknown): value is BlobRef =>
+  typeof value === 'object' && value !== null && typeof (value as BlobRef).$blob === 'string';
+
+// Replaces every Blob in a value with a reference, collecting the blobs to
+// store. A blob used in several places, like an edit's source image, is stored once.
+const extractBlobs = (value: unknown, blobs: Map<Blob, string>): unknown => {
+  if (value instanceof Blob) {
+    let name = blobs.get(value);
+    if (!name) {
+      name = `blobs/${blobs.size + 1}.${EXTENSIONS[value.type] ?? 'bin'}`;
+      blobs.set(value, name);
+    }
+    const ref: BlobRef = { $blob: name, type: value.type };
+    return ref;
+  }
+  if (Array.isArray(value)) return value.map(item => extractBlobs(item, blobs));
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, extractBlobs(item, blobs)]));
+  }
+  return value;
+};
+
+const restoreBlobs = (value: unknown, files: Map<string, Uint8Array>): unknown => {
+  if (isBlobRef(value)) {
+    const data = files.get(value.$blob);
+    if (!data) throw new ProjectError(localize('project.missingBlob', { name: value.$blob }));
+    return new Blob([data], { type: value.type });
+  }
+  if (Array.isArray(value)) return value.map(item => restoreBlobs(item, files));
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, restoreBlobs(item, files)]));
+  }
+  return value;
+};
+
+/**
+ * Brings a project saved by any earlier version of the app up to the current
+ * format, one version at a time.
+ */
+export const migrateProject = (raw: RawProject): RawProject => {
+  if (typeof raw !== 'object' || raw === null || typeof raw.version !== 'number' || raw.version < 1) {
+    throw new ProjectError(localize('project.notProject'));
+  }
+  if (raw.version > PROJECT_VERSION) {
+    throw new ProjectError(localize('project.newer'));
+  }
+  let project = raw;
+  while (project.version < PROJECT_VERSION) {
+    const migrate = MIGRATIONS[project.version];
+    if (!migrate) throw new ProjectError(localize('project.tooOld', { version: project.version }));
+    project = { ...migrate(project), version: project.version + 1 };
+  }
+  return project;
+};
+
+export const writeProject = async (project: Omit<Project, 'version' | 'savedAt'>): Promise<Blob> => {
+  const blobs = new Map<Blob, string>();
+  const json = extractBlobs({ ...project, version: PROJECT_VERSION, savedAt: Date.now() }, blobs);
+  const files = [{ name: PROJECT_ENTRY, data: new TextEncoder().encode(JSON.stringify(json)) }];
+  for (const [blob, name] of blobs) {
+    files.push({ name, data: new Uint8Array(await blob.arrayBuffer()) });
+  }
+  return new Blob([createZip(files)], { type: 'application/zip' });
+};
+
+export const readProject = async (file: Blob): Promise<Project> => {
+  let files: Map<string, Uint8Array>;
+  let raw: RawProject;
+  try {
+    files = await readZip(new Uint8Array(await file.arrayBuffer()));
+    const entry = files.get(PROJECT_ENTRY);
+    if (!entry) throw new Error(`No ${PROJECT_ENTRY}.`);
+    raw = JSON.parse(new TextDecoder().decode(entry));
+  } catch (e) {
+    console.error(e);
+    throw new ProjectError(localize('project.damaged'));
+  }
+  return restoreBlobs(migrateProject(raw), files) as Project;
+};
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { renderTemplate, TemplateError, validateTemplate } from './promptTemplate';
+
+const KNOWN = ['scene', 'signature'];
+
+describe('renderTemplate', () => {
+  it('fills in variables', () => {
+    expect(renderTemplate('Draw {scene}.', { scene: 'a cat' })).toBe('Draw a cat.');
+  });
+
+  it('keeps a section only when its variable is set', () => {
+    const template = 'Draw it.{#if signature} Sign it {signature}.{/if}';
+    expect(renderTemplate(template, { signature: 'JD' })).toBe('Draw it. Sign it JD.');
+    expect(renderTemplate(template, { signature: '' })).toBe('Draw it.');
+    expect(renderTemplate(template, { signature: '   ' })).toBe('Draw it.');
+  });
+
+  it('supports negation, else and nesting', () => {
+    const template = '{#if !signature}Unsigned{else}Signed{#if scene} {scene}{/if}{/if}';
+    expect(renderTemplate(template, { scene: '', signature: '' })).toBe('Unsigned');
+    expect(renderTemplate(template, { scene: 'cat', signature: 'JD' })).toBe('Signed cat');
+  });
+
+  it('leaves text that is not a tag alone', () => {
+    expect(renderTemplate('{ scene } {1} {}', { scene: 'x' })).toBe('{ scene } {1} {}');
+  });
+});
+
+describe('validateTemplate', () => {
+  it.each([
+    ['{color}', '{color} is not a known variable. Use one of: {scene}, {signature}.'],
+    ['{#if scene}open', '{#if scene} is missing its {/if}.'],
+    ['done{/if}', '{/if} has no matching {#if}.'],
+    ['{else}', '{else} must be inside an {#if} block, once.'],
+    ['{#if scene}a{else}b{else}c{/if}', '{else} must be inside an {#if} block, once.'],
+  ])('rejects %s', (template, message) => {
+    expect(validateTemplate(template, KNOWN)).toBe(message);
+    expect(() => renderTemplate(template, { scene: '', signature: '' })).toThrow(TemplateError);
+  });
+
+  it('accepts a valid template', () => {
+    expect(validateTemplate('{#if scene}{scene}{else}nothing{/if}', KNOWN)).toBeNull();
+  });
+});
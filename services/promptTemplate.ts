@@ -0,0 +1,105 @@
+import { localize } from './i18n';
+
+/**
+ * A small template language for model prompts.
+ *
+ *   {name}                            the variable's value
+ *   {#if name}…{/if}                  kept when the variable is not empty
+ *   {#if !name}…{/if}                 kept when it is empty
+ *   {#if name}…{else}…{/if}           either branch
+ *
+ * Rendering is a pure function of the template and the variables.
+ */
+
+type TemplateNode =
+  | { kind: 'text'; text: string }
+  | { kind: 'variable'; name: string }
+  | { kind: 'if'; name: string; negate: boolean; then: TemplateNode[]; otherwise: TemplateNode[] };
+
+/**
+ * A template that cannot be parsed. The message is meant for the user.
+ */
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateError';
+  }
+}
+
+const TAG = /\{(?:#if\s+(!?)\s*([A-Za-z]\w*)\s*|(else)|(\/if)|([A-Za-z]\w*))\}/g;
+
+/**
+ * Parses a template, checking that every variable is one of `known`.
+ */
+export const parseTemplate = (template: string, known: readonly string[]): TemplateNode[] => {
+  const root: TemplateNode[] = [];
+  // The open {#if} blocks, innermost last, and the branch being filled for each.
+  const stack: { node: Extract<TemplateNode, { kind: 'if' }>; inElse: boolean }[] = [];
+  const current = () => {
+    const top = stack[stack.length - 1];
+    return top ? (top.inElse ? top.node.otherwise : top.node.then) : root;
+  };
+  const checkName = (name: string) => {
+    if (!known.includes(name)) throw new TemplateError(localize('template.unknownVariable', { variable: `{${name}}`, known: known.map(n => `{${n}}`).join(', ') }));
+  };
+
+  let last = 0;
+  for (const match of template.matchAll(TAG)) {
+    if (match.index > last) current().push({ kind: 'text', text: template.slice(last, match.index) });
+    last = match.index + match[0].length;
+    const [, negate, ifName, isElse, isEnd, name] = match;
+
+    if (ifName) {
+      checkName(ifName);
+      const node: TemplateNode = { kind: 'if', name: ifName, negate: negate === '!', then: [], otherwise: [] };
+      current().push(node);
+      stack.push({ node, inElse: false });
+    } else if (isElse) {
+      const top = stack[stack.length - 1];
+      if (!top || top.inElse) throw new TemplateError(localize('template.misplacedElse'));
+      top.inElse = true;
+    } else if (isEnd) {
+      if (!stack.pop()) throw new TemplateError(localize('template.unmatchedEnd'));
+    } else {
+      checkName(name);
+      current().push({ kind: 'variable', name });
+    }
+  }
+  if (last < template.length) current().push({ kind: 'text', text: template.slice(last) });
+  if (stack.length > 0) throw new TemplateError(localize('template.unclosedIf', { block: `{#if ${stack[stack.length - 1].node.name}}` }));
+  return root;
+};
+
+const renderNodes = (nodes: TemplateNode[], variables: Record<string, string>): string =>
+  nodes.map((node) => {
+    switch (node.kind) {
+      case 'text':
+        return node.text;
+      case 'variable':
+        return variables[node.name] ?? '';
+      case 'if': {
+        const isSet = !!variables[node.name]?.trim();
+        return renderNodes(isSet !== node.negate ? node.then : node.otherwise, variables);
+      }
+    }
+  }).join('');
+
+/**
+ * Fills in a template. Throws a TemplateError if it is malformed or uses an
+ * unknown variable.
+ */
+export const renderTemplate = (template: string, variables: Record<string, string>): string =>
+  renderNodes(parseTemplate(template, Object.keys(variables)), variables);
+
+/**
+ * The template's error message, or null when it is valid.
+ */
+export const validateTemplate = (template: string, known: readonly string[]): string | null => {
+  try {
+    parseTemplate(template, known);
+    return null;
+  } catch (e) {
+    if (e instanceof TemplateError) return e.message;
+    throw e;
+  }
+};
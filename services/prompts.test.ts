@@ -0,0 +1,202 @@
+import { describe, expect, it } from 'vitest';
+import type { Character, ColorOption, StyleDefinition, StyleType } from '../types';
+import { BUILT_IN_STYLES, createStyle } from './styleLibrary';
+import {
+  DEFAULT_CARTOON_TEMPLATE,
+  getCartoonPrompt,
+  getFirstKeyframePrompt,
+  getGagPrompt,
+  getNextKeyframePrompt,
+  getPanelPrompt,
+  getReferenceGroups,
+  getRestylePrompt,
+  getRestyleReferenceGroups,
+} from './prompts';
+
+const image = (name: string) => new Blob([name], { type: 'image/png' });
+
+const STYLES: Record<StyleType, StyleDefinition> = {
+  magazine: BUILT_IN_STYLES.find(style => style.name === 'The New Yorker')!,
+  cartoonist: { ...createStyle('cartoonist', 'Roz Chast'), traits: { lineWeight: 'wobbly', palette: '', composition: '', humour: 'anxious' } },
+};
+
+const STYLE_NAMES: Record<StyleType, string> = {
+  magazine: 'The New Yorker magazine',
+  cartoonist: 'cartoonist Roz Chast',
+};
+
+const COLOR_NAMES: Record<ColorOption, string> = {
+  color: 'full color',
+  black_and_white: 'black and white',
+};
+
+const ada: Character = {
+  id: 'ada',
+  name: 'Ada',
+  description: ' a tall heron in a raincoat ',
+  images: [{ image: image('front'), label: 'front' }, { image: image('side'), label: '' }],
+  createdAt: 0,
+};
+
+// The ways a cartoon can feature characters: none, one uploaded picture, or cast from the roster.
+const CASTINGS = ['none', 'upload', 'roster'] as const;
+
+describe('getCartoonPrompt with the default template', () => {
+  const cases = (['magazine', 'cartoonist'] as StyleType[]).flatMap(styleType =>
+    (['color', 'black_and_white'] as ColorOption[]).flatMap(colorOption =>
+      ['', 'J. Doe'].flatMap(signature =>
+        CASTINGS.map(casting => ({ styleType, colorOption, signature, casting })))));
+
+  it.each(cases)('$styleType, $colorOption, signature "$signature", characters: $casting', ({ styleType, colorOption, signature, casting }) => {
+    const style = STYLES[styleType];
+    const characterImage = casting === 'upload' ? image('character') : null;
+    const characters = casting === 'roster' ? [ada] : [];
+    const references = getReferenceGroups(characterImage, characters, style, null);
+    const prompt = getCartoonPrompt(DEFAULT_CARTOON_TEMPLATE, 'A cat using a laptop', style, signature, characters, references, colorOption, null, 'en');
+
+    expect(prompt).toMatch(new RegExp(`^Generate a single-panel cartoon in the distinct artistic style of ${STYLE_NAMES[styleType]}\\.`));
+    expect(prompt).toContain(' The scene is: A cat using a laptop.');
+    expect(prompt).toContain(` The cartoon should be in ${COLOR_NAMES[colorOption]}.`);
+    expect(prompt).not.toContain('Compose it for');
+    expect(prompt).toContain(' Write any text drawn in the image, such as signs and labels, in English, keeping names and anything in quotation marks in the scene exactly as written.');
+
+    if (styleType === 'magazine') {
+      expect(prompt).toContain(' Style notes — line work: confident, economical ink lines with loose wash shading; palette: ');
+    } else {
+      expect(prompt).toContain(' Style notes — line work: wobbly; humour: anxious.');
+    }
+
+    const signatureText = " Subtly place the signature 'J. Doe' in one of the bottom corners of the image.";
+    if (signature) {
+      expect(prompt.endsWith(signatureText)).toBe(true);
+    } else {
+      expect(prompt).not.toContain('signature');
+      expect(prompt.endsWith('capturing the essence of the specified style.')).toBe(true);
+    }
+
+    if (casting === 'none') {
+      expect(prompt).not.toContain('The scene features');
+      expect(prompt).not.toContain('The provided images');
+    } else if (casting === 'upload') {
+      expect(prompt).not.toContain('The scene features');
+      expect(prompt).toContain(' The provided images are, in order: image 1: the character to feature in the scene.');
+    } else {
+      expect(prompt).toContain(' The scene features Ada (a tall heron in a raincoat).');
+      expect(prompt).toContain(' The provided images are, in order: images 1–2: Ada (front).');
+    }
+  });
+
+  it('describes the frame when an aspect ratio is chosen', () => {
+    const style = STYLES.magazine;
+    const prompt = getCartoonPrompt(DEFAULT_CARTOON_TEMPLATE, 'A cat', style, '', [], [], 'color', '9:16', 'en');
+    expect(prompt).toContain(' Compose it for a portrait 9:16 frame, keeping everything important well inside the edges.');
+  });
+
+  it('asks for drawn text in the output language, keeping the scene as typed', () => {
+    const prompt = getCartoonPrompt(DEFAULT_CARTOON_TEMPLATE, 'Un chat dit "Bonjour"', STYLES.magazine, '', [], [], 'color', null, 'fr');
+    expect(prompt).toContain(' The scene is: Un chat dit "Bonjour".');
+    expect(prompt).toContain(' in French, keeping names and anything in quotation marks in the scene exactly as written.');
+  });
+
+  it('leaves out style notes for a style without traits', () => {
+    const prompt = getCartoonPrompt(DEFAULT_CARTOON_TEMPLATE, 'A cat', createStyle('magazine', 'Punch'), '', [], [], 'color', null, 'en');
+    expect(prompt).not.toContain('Style notes');
+  });
+
+  it('renders a custom template', () => {
+    const template = 'Draw {scene} like {style}.{#if !signature} Unsigned.{/if} Letter it in {language}.';
+    expect(getCartoonPrompt(template, 'a cat', STYLES.cartoonist, '', [], [], 'color', null, 'de')).toBe('Draw a cat like cartoonist Roz Chast. Unsigned. Letter it in German.');
+  });
+
+  it('throws on an invalid template', () => {
+    expect(() => getCartoonPrompt('{nope}', 'a cat', STYLES.cartoonist, '', [], [], 'color', null, 'en')).toThrow('{nope} is not a known variable');
+  });
+});
+
+describe('getReferenceGroups', () => {
+  it('numbers the upload, the cast, the style references and the previous panel in order', () => {
+    const style = { ...STYLES.magazine, referenceImages: [image('style')] };
+    const groups = getReferenceGroups(image('character'), [ada], style, image('panel'));
+    const prompt = getCartoonPrompt('{references}', '', style, '', [ada], groups, 'color', null, 'en');
+    expect(prompt).toBe(
+      'image 1: the character to feature in the scene; images 2–3: Ada (front); image 4: a style reference: match its drawing style, not its content; '
+      + 'image 5: another panel of the same strip: keep the characters, their designs, the setting and the art style consistent with it'
+    );
+  });
+
+  it('skips characters without pictures', () => {
+    expect(getReferenceGroups(null, [{ ...ada, images: [] }], STYLES.magazine, null)).toEqual([]);
+  });
+});
+
+describe('getPanelPrompt', () => {
+  const panels = [{ action: 'A cat opens a laptop', dialogue: '' }, { action: 'The laptop is a cat bed', dialogue: 'Perfect.' }];
+
+  it('signs only the last panel', () => {
+    const first = getPanelPrompt(panels[0], 0, 2, STYLES.magazine, 'J. Doe', [], [], 'color', 'en');
+    const last = getPanelPrompt(panels[1], 1, 2, STYLES.magazine, 'J. Doe', [], [], 'color', 'en');
+    expect(first).not.toContain('J. Doe');
+    expect(last).toContain("signature 'J. Doe'");
+  });
+
+  it('keeps the dialogue as written and letters the rest in the output language', () => {
+    const prompt = getPanelPrompt(panels[1], 1, 2, STYLES.magazine, '', [], [], 'color', 'de');
+    expect(prompt).toContain('exactly this dialogue, untranslated: "Perfect."');
+    expect(prompt).toContain(' Write any text drawn in the image, such as signs and labels, in German,');
+  });
+
+  it('includes the dialogue, or asks for no bubbles', () => {
+    expect(getPanelPrompt(panels[0], 0, 2, STYLES.magazine, '', [], [], 'black_and_white', 'en')).toContain('Do not add any speech bubbles');
+    expect(getPanelPrompt(panels[1], 1, 2, STYLES.magazine, '', [], [], 'black_and_white', 'en')).toContain('exactly this dialogue, untranslated: "Perfect."');
+  });
+});
+
+describe('keyframe prompts', () => {
+  const keyframes = [{ action: 'A cat eyes a glass', durationMs: 800 }, { action: 'The glass falls', durationMs: 800 }];
+
+  it('sets the scene and signs the first frame', () => {
+    const prompt = getFirstKeyframePrompt(keyframes[0], 2, STYLES.cartoonist, 'J. Doe', [ada], getReferenceGroups(null, [ada], STYLES.cartoonist, null), 'color', 'en');
+    expect(prompt).toMatch(/^Generate the first frame of a 2-frame cartoon animation in the distinct artistic style of cartoonist Roz Chast\./);
+    expect(prompt).toContain('This frame shows: A cat eyes a glass.');
+    expect(prompt).toContain('images 1–2: Ada');
+    expect(prompt).toContain("signature 'J. Doe'");
+  });
+
+  it('redraws the previous frame, changing only the action', () => {
+    const prompt = getNextKeyframePrompt(keyframes[1], 1, 2, 'black_and_white', 'fr');
+    expect(prompt).toMatch(/^This image is frame 1 of a 2-frame cartoon animation\. Redraw it as frame 2, which shows: The glass falls\./);
+    expect(prompt).toContain('change only what this action needs');
+    expect(prompt).toContain('black and white');
+    expect(prompt).toContain('in French');
+  });
+});
+
+describe('getGagPrompt', () => {
+  it('asks for the count in the style, around the cast', () => {
+    const prompt = getGagPrompt('remote work', STYLES.cartoonist, [ada], 3, null, 'en');
+    expect(prompt).toContain('cartoons in the distinct artistic style of cartoonist Roz Chast.');
+    expect(prompt).toContain('Write 3 different cartoon concepts about: remote work.');
+    expect(prompt).toContain('recurring characters: Ada (a tall heron in a raincoat).');
+    expect(prompt).toContain('Write the scenes and captions in English, whatever language the topic is in.');
+  });
+
+  it('quotes the concept to remix', () => {
+    const prompt = getGagPrompt('cats', STYLES.magazine, [], 2, { scene: 'A cat', caption: 'Meow' }, 'fr');
+    expect(prompt).toContain('Scene: "A cat" Caption: "Meow"');
+    expect(prompt).toContain('captions in French');
+  });
+});
+
+describe('getRestylePrompt', () => {
+  it.each([
+    [100, 'exactly'],
+    [60, 'simplify the details'],
+    [20, 'loose guide'],
+    [0, 'Reimagine the photo freely'],
+  ])('at strength %i says to follow the photo %s', (strength, expected) => {
+    const style = STYLES.magazine;
+    const prompt = getRestylePrompt(style, 'color', strength, getRestyleReferenceGroups(image('photo'), style));
+    expect(prompt).toContain(expected);
+    expect(prompt).toContain('image 1: the photo to redraw');
+  });
+});
@@ -0,0 +1,277 @@
+import type { AspectRatio, Character, StyleDefinition, ColorOption, GagConcept, KeyframeScript, Language, PanelScript } from "../types";
+import { renderTemplate } from "./promptTemplate";
+import { getFrameDescription } from "./outputFormat";
+
+/**
+ * Builds the text prompts sent to the models. Everything here is a pure
+ * function of the generator settings, so the form can preview the exact prompt.
+ */
+
+const getStyleName = (style: StyleDefinition) =>
+  style.styleType === 'magazine' ? `${style.name} magazine` : `cartoonist ${style.name}`;
+
+const getStylePrompt = (style: StyleDefinition) =>
+  `in the distinct artistic style of ${getStyleName(style)}`;
+
+const getStyleNotes = ({ traits }: StyleDefinition) =>
+  [
+    traits.lineWeight && `line work: ${traits.lineWeight}`,
+    traits.palette && `palette: ${traits.palette}`,
+    traits.composition && `composition: ${traits.composition}`,
+    traits.humour && `humour: ${traits.humour}`,
+  ].filter(Boolean).join('; ');
+
+const getStyleTraitsInstruction = (style: StyleDefinition) => {
+  const notes = getStyleNotes(style);
+  return notes ? ` Style notes — ${notes}.` : '';
+};
+
+// A run of reference images sent with a request, and what they are for.
+export interface ReferenceGroup {
+  images: Blob[];
+  role: string;
+}
+
+export const getReferenceGroups = (
+  characterImage: Blob | null,
+  characters: Character[],
+  style: StyleDefinition,
+  referencePanel: Blob | null
+): ReferenceGroup[] => {
+  const groups: ReferenceGroup[] = [];
+  if (characterImage) {
+    groups.push({ images: [characterImage], role: 'the character to feature in the scene' });
+  }
+  for (const character of characters) {
+    const labels = character.images.map(image => image.label.trim()).filter(Boolean);
+    groups.push({
+      images: character.images.map(image => image.image),
+      role: labels.length ? `${character.name} (${labels.join(', ')})` : character.name,
+    });
+  }
+  if (style.referenceImages.length) {
+    groups.push({
+      images: style.referenceImages,
+      role: style.referenceImages.length === 1
+        ? 'a style reference: match its drawing style, not its content'
+        : 'style references: match their drawing style, not their content',
+    });
+  }
+  // Earlier panels are passed so the whole strip stays on-model.
+  if (referencePanel) {
+    groups.push({
+      images: [referencePanel],
+      role: 'another panel of the same strip: keep the characters, their designs, the setting and the art style consistent with it',
+    });
+  }
+  return groups.filter(group => group.images.length > 0);
+};
+
+// Says which provided image is which, since the model only sees them in order.
+const getReferenceNotes = (groups: ReferenceGroup[]) => {
+  let next = 1;
+  return groups.map((group) => {
+    const count = group.images.length;
+    const range = count === 1 ? `image ${next}` : `images ${next}–${next + count - 1}`;
+    next += count;
+    return `${range}: ${group.role}`;
+  }).join('; ');
+};
+
+const getReferenceInstruction = (groups: ReferenceGroup[]) => {
+  const notes = getReferenceNotes(groups);
+  return notes ? ` The provided images are, in order: ${notes}.` : '';
+};
+
+// Each cast member's description acts as their own instruction.
+const getCastList = (characters: Character[]) =>
+  characters.map(c => (c.description.trim() ? `${c.name} (${c.description.trim()})` : c.name)).join(', ');
+
+const getCastInstruction = (characters: Character[]) => {
+  if (characters.length === 0) return '';
+  return ` The scene features ${getCastList(characters)}. Draw each of them exactly as in their reference images so they stay recognisable and distinct.`;
+};
+
+const getColorName = (colorOption: ColorOption) =>
+  colorOption === 'black_and_white' ? 'black and white' : 'full color';
+
+const getColorInstruction = (colorOption: ColorOption) =>
+  ` The cartoon should be in ${getColorName(colorOption)}.`;
+
+// Named in English, the language the prompts are written in.
+const LANGUAGE_NAMES: Record<Language, string> = {
+  en: 'English',
+  fr: 'French',
+  de: 'German',
+};
+
+// The user's own words may be in another language than the output; quoting them is the cue to keep them as typed.
+const getTextLanguageInstruction = (language: Language) =>
+  ` Write any text drawn in the image, such as signs and labels, in ${LANGUAGE_NAMES[language]}, keeping names and anything in quotation marks exactly as written.`;
+
+const getSignatureInstruction = (signature: string) =>
+  signature
+    ? ` Subtly place the signature '${signature}' in one of the bottom corners of the image.`
+    : '';
+
+// The variables a single-cartoon prompt template can use, in the order the editor lists them.
+export const CARTOON_TEMPLATE_VARIABLES = [
+  { name: 'scene', description: 'The description of the scene' },
+  { name: 'style', description: 'The style, e.g. "The New Yorker magazine" or "cartoonist Roz Chast"' },
+  { name: 'styleNotes', description: "The style's line work, palette, composition and humour notes" },
+  { name: 'characters', description: 'The cast, with their descriptions' },
+  { name: 'references', description: 'Which reference image is which' },
+  { name: 'color', description: '"full color" or "black and white"' },
+  { name: 'frame', description: 'The chosen shape, e.g. "a portrait 4:5", if any' },
+  { name: 'language', description: 'The language for any text drawn in the image, e.g. "French"' },
+  { name: 'signature', description: 'The signature the model should draw, if any' },
+] as const;
+
+export type CartoonTemplateVariable = typeof CARTOON_TEMPLATE_VARIABLES[number]['name'];
+
+/**
+ * The built-in single-cartoon template. The scene is passed on as typed, so
+ * the language line asks for drawn text in the output language without
+ * translating the names and quotes in it.
+ */
+export const DEFAULT_CARTOON_TEMPLATE = [
+  'Generate a single-panel cartoon in the distinct artistic style of {style}.',
+  '{#if styleNotes} Style notes — {styleNotes}.{/if}',
+  ' The scene is: {scene}.',
+  '{#if characters} The scene features {characters}. Draw each of them exactly as in their reference images so they stay recognisable and distinct.{/if}',
+  '{#if references} The provided images are, in order: {references}.{/if}',
+  ' The cartoon should be in {color}.',
+  ' Write any text drawn in the image, such as signs and labels, in {language}, keeping names and anything in quotation marks in the scene exactly as written.',
+  '{#if frame} Compose it for {frame} frame, keeping everything important well inside the edges.{/if}',
+  ' The cartoon should be humorous and thought-provoking, capturing the essence of the specified style.',
+  "{#if signature} Subtly place the signature '{signature}' in one of the bottom corners of the image.{/if}",
+].join('');
+
+export const getCartoonVariables = (
+  description: string,
+  style: StyleDefinition,
+  signature: string,
+  characters: Character[],
+  references: ReferenceGroup[],
+  colorOption: ColorOption,
+  aspectRatio: AspectRatio | null,
+  language: Language
+): Record<CartoonTemplateVariable, string> => ({
+  scene: description,
+  style: getStyleName(style),
+  styleNotes: getStyleNotes(style),
+  characters: getCastList(characters),
+  references: getReferenceNotes(references),
+  color: getColorName(colorOption),
+  frame: getFrameDescription(aspectRatio),
+  language: LANGUAGE_NAMES[language],
+  signature,
+});
+
+/**
+ * The prompt for a single cartoon. Throws a TemplateError if `template` is not valid.
+ */
+export const getCartoonPrompt = (
+  template: string,
+  description: string,
+  style: StyleDefinition,
+  signature: string,
+  characters: Character[],
+  references: ReferenceGroup[],
+  colorOption: ColorOption,
+  aspectRatio: AspectRatio | null,
+  language: Language
+) => renderTemplate(template, getCartoonVariables(description, style, signature, characters, references, colorOption, aspectRatio, language));
+
+export const getPanelPrompt = (
+  panel: PanelScript,
+  index: number,
+  panelCount: number,
+  style: StyleDefinition,
+  signature: string,
+  characters: Character[],
+  references: ReferenceGroup[],
+  colorOption: ColorOption,
+  language: Language
+) => {
+  const dialogueInstruction = panel.dialogue
+    ? ` Include one speech bubble containing exactly this dialogue, untranslated: "${panel.dialogue}".`
+    : ' Do not add any speech bubbles or captions.';
+
+  // Only the final panel is signed, as a cartoonist would sign a strip.
+  const signatureText = index === panelCount - 1 ? getSignatureInstruction(signature) : '';
+
+  return `Generate panel ${index + 1} of a ${panelCount}-panel comic strip ${getStylePrompt(style)}.${getStyleTraitsInstruction(style)} This panel shows: ${panel.action}.${dialogueInstruction}${getCastInstruction(characters)}${getReferenceInstruction(references)}${getColorInstruction(colorOption)}${getTextLanguageInstruction(language)} Draw only this single panel, without borders or gutters around it.${signatureText}`;
+};
+
+/**
+ * The prompt for an animation's first keyframe, which sets the scene, the
+ * characters and the style for the frames drawn from it.
+ */
+export const getFirstKeyframePrompt = (
+  keyframe: KeyframeScript,
+  frameCount: number,
+  style: StyleDefinition,
+  signature: string,
+  characters: Character[],
+  references: ReferenceGroup[],
+  colorOption: ColorOption,
+  language: Language
+) =>
+  `Generate the first frame of a ${frameCount}-frame cartoon animation ${getStylePrompt(style)}.${getStyleTraitsInstruction(style)} This frame shows: ${keyframe.action}.${getCastInstruction(characters)}${getReferenceInstruction(references)}${getColorInstruction(colorOption)}${getTextLanguageInstruction(language)} Frame the whole scene with room for the action to come, and do not add a caption or speech bubbles.${getSignatureInstruction(signature)}`;
+
+/**
+ * The instruction for redrawing the previous keyframe as the next one. Only
+ * what the action needs may change, so the frames play as one scene.
+ */
+export const getNextKeyframePrompt = (
+  keyframe: KeyframeScript,
+  index: number,
+  frameCount: number,
+  colorOption: ColorOption,
+  language: Language
+) =>
+  `This image is frame ${index} of a ${frameCount}-frame cartoon animation. Redraw it as frame ${index + 1}, which shows: ${keyframe.action}. Keep the art style, the characters and their designs, the camera, the framing, the background and the colours exactly the same, and change only what this action needs.${getColorInstruction(colorOption)}${getTextLanguageInstruction(language)} Do not add a caption or speech bubbles.`;
+
+export const getGagPrompt = (
+  topic: string,
+  style: StyleDefinition,
+  characters: Character[],
+  count: number,
+  remix: GagConcept | null,
+  language: Language
+) => {
+  const castText = characters.length ? ` Build the gags around these recurring characters: ${getCastList(characters)}.` : '';
+  const remixText = remix
+    ? ` Riff on this concept, keeping its core joke but changing the angle, setting or punchline. Scene: "${remix.scene}" Caption: "${remix.caption}"`
+    : '';
+
+  return `You are a gag writer for single-panel cartoons ${getStylePrompt(style)}.${getStyleTraitsInstruction(style)} Write ${count} different cartoon concepts about: ${topic}.${castText}${remixText} For each, give a scene, a short visual description an illustrator could draw with no text in the picture, and a caption, one line printed beneath the cartoon. Write the scenes and captions in ${LANGUAGE_NAMES[language]}, whatever language the topic is in. Make them genuinely funny and different from one another.`;
+};
+
+// How closely a restyled photo follows the original, for strengths from this value up.
+const FIDELITY_INSTRUCTIONS: [number, string][] = [
+  [80, "Keep the photo's composition, framing, poses, expressions and every person's likeness exactly; change only how it is drawn."],
+  [50, "Keep the photo's composition, poses and likenesses, but simplify the details and exaggerate features the way a cartoonist would."],
+  [20, 'Use the photo as a loose guide: keep the subjects recognisable, but feel free to rearrange the scene and exaggerate for comic effect.'],
+  [0, 'Reimagine the photo freely as a cartoon; only the subjects and their most distinctive features need to carry over.'],
+];
+
+export const getRestyleReferenceGroups = (photo: Blob, style: StyleDefinition): ReferenceGroup[] => [
+  { images: [photo], role: 'the photo to redraw' },
+  ...getReferenceGroups(null, [], style, null),
+];
+
+/**
+ * The prompt for redrawing a photo in a style. `strength` runs from 0, a free
+ * reinterpretation, to 100, the photo's exact composition.
+ */
+export const getRestylePrompt = (
+  style: StyleDefinition,
+  colorOption: ColorOption,
+  strength: number,
+  references: ReferenceGroup[]
+) => {
+  const fidelity = FIDELITY_INSTRUCTIONS.find(([from]) => strength >= from)![1];
+  return `Redraw the photo as a single-panel cartoon ${getStylePrompt(style)}.${getStyleTraitsInstruction(style)} ${fidelity}${getReferenceInstruction(references)}${getColorInstruction(colorOption)} Do not add a caption, speech bubbles or any other text.`;
+};
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import type { CartoonCreation, EditCreation } from '../types';
+import { encodeRgbPng, readPngText } from '../utils/png';
+import { MANIFEST_KEYWORD } from './exportImage';
+import { DEFAULT_PROVENANCE_SETTINGS, createManifest, embedManifest, parseManifest, recordProvenance, sha256 } from './provenance';
+
+const png = () => new Blob([encodeRgbPng(2, 2, new Uint8Array(12))], { type: 'image/png' });
+
+const cartoon = (characterImage: Blob | null): CartoonCreation => ({
+  id: 'c1',
+  kind: 'cartoon',
+  image: png(),
+  createdAt: 1000,
+  provider: { providerId: 'gemini', model: 'gemini-2.5-flash-image' },
+  params: {
+    description: 'A cat typing a memo',
+    styleType: 'magazine',
+    styleName: 'The New Yorker',
+    signature: '',
+    colorOption: 'color',
+    characterImage,
+  },
+});
+
+const readManifest = async (image: Blob) =>
+  parseManifest(readPngText(new Uint8Array(await image.arrayBuffer()))[MANIFEST_KEYWORD]);
+
+describe('createManifest', () => {
+  it('hashes the prompt and every source image rather than storing them', async () => {
+    const photo = new Blob(['photo'], { type: 'image/png' });
+    const manifest = await createManifest(cartoon(photo), [], true);
+    expect(manifest.id).toMatch(/^[0-9a-f]{16}$/);
+    expect(manifest).toMatchObject({ operation: 'cartoon', providerId: 'gemini', model: 'gemini-2.5-flash-image', badge: true, createdAt: 1000 });
+    expect(manifest.promptHash).toBe(await sha256('A cat typing a memo'));
+    expect(manifest.sourceImageHashes).toEqual([await sha256(photo)]);
+    expect(JSON.stringify(manifest)).not.toContain('cat');
+  });
+
+  it('records the edit chain it is given', async () => {
+    const edit: EditCreation = { id: 'e1', kind: 'edit', image: png(), createdAt: 2000, params: { editPrompt: 'Add a hat', sourceImage: png() } };
+    const manifest = await createManifest(edit, ['aaaaaaaaaaaaaaaa', 'bbbbbbbbbbbbbbbb'], false);
+    expect(manifest).toMatchObject({ operation: 'edit', providerId: null, model: null, editChain: ['aaaaaaaaaaaaaaaa', 'bbbbbbbbbbbbbbbb'] });
+    expect(manifest.sourceImageHashes).toHaveLength(1);
+  });
+});
+
+describe('recordProvenance', () => {
+  it('keeps the image as it was and adds a manifest', async () => {
+    const creation = cartoon(null);
+    const recorded = await recordProvenance(creation, DEFAULT_PROVENANCE_SETTINGS);
+    expect(recorded.image).toBe(creation.image);
+    expect(recorded.provenance).toMatchObject({ operation: 'cartoon', editChain: [], badge: true });
+  });
+
+  it('carries on the edit chain of the version an edit was made from', async () => {
+    const parent = await createManifest(cartoon(null), ['aaaaaaaaaaaaaaaa'], true);
+    const edit: EditCreation = { id: 'e1', kind: 'edit', image: png(), createdAt: 2000, params: { editPrompt: 'Add a hat', sourceImage: png() } };
+    const recorded = await recordProvenance(edit, { ...DEFAULT_PROVENANCE_SETTINGS, badge: false }, parent);
+    expect(recorded.provenance).toMatchObject({ editChain: ['aaaaaaaaaaaaaaaa', parent.id], badge: false });
+  });
+});
+
+describe('manifests in files', () => {
+  it('embeds the manifest in a PNG', async () => {
+    const manifest = await createManifest(cartoon(null), [], true);
+    const stamped = await embedManifest(png(), manifest);
+    expect(stamped.type).toBe('image/png');
+    expect(await readManifest(stamped)).toEqual(manifest);
+  });
+
+  it('leaves other formats alone', async () => {
+    const jpeg = new Blob(['jpeg'], { type: 'image/jpeg' });
+    expect(await embedManifest(jpeg, await createManifest(cartoon(null), [], true))).toBe(jpeg);
+  });
+
+  it('rejects text that is not a manifest', () => {
+    expect(parseManifest('not json')).toBeNull();
+    expect(parseManifest('{"id":"abc"}')).toBeNull();
+  });
+});
@@ -0,0 +1,237 @@
+import type { Creation, ProvenanceManifest } from '../types';
+import type { MessageKey } from '../locales/en';
+import { MANIFEST_KEYWORD, getExportMetadata } from './exportImage';
+import { loadImage } from '../utils/image';
+import { blobToDataUrl } from '../utils/blob';
+import { insertPngChunks, readPngText, textChunk } from '../utils/png';
+import { WATERMARK_ID_BYTES, embedWatermark, readWatermark } from '../utils/watermark';
+
+export type BadgePosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+// How images are labelled as they leave the app. The watermark and manifest
+// are always added; whether the badge is drawn is recorded when an image is generated.
+export interface ProvenanceSettings {
+  badge: boolean;
+  badgeText: string;
+  badgePosition: BadgePosition;
+}
+
+export const DEFAULT_PROVENANCE_SETTINGS: ProvenanceSettings = {
+  badge: true,
+  badgeText: 'AI-generated',
+  // Clear of the signature, which sits bottom right.
+  badgePosition: 'bottom-left',
+};
+
+export const BADGE_POSITIONS: { value: BadgePosition; labelKey: MessageKey }[] = [
+  { value: 'top-left', labelKey: 'badge.topLeft' },
+  { value: 'top-right', labelKey: 'badge.topRight' },
+  { value: 'bottom-left', labelKey: 'badge.bottomLeft' },
+  { value: 'bottom-right', labelKey: 'badge.bottomRight' },
+];
+
+const GENERATOR = 'ExpressToons';
+// Badge text and padding, as fractions of the image's shorter side.
+const BADGE_FONT_SIZE = 0.032;
+const BADGE_MARGIN = 0.02;
+
+// What the Verify tab found in a file.
+export interface ProvenanceReport {
+  manifest: ProvenanceManifest | null;
+  // Where the manifest came from: the image itself or a .provenance.json beside it.
+  manifestSource: 'embedded' | 'sidecar' | null;
+  // Null when the image carries no readable watermark.
+  watermarkId: string | null;
+}
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+const fromHex = (hex: string) => Uint8Array.from(hex.match(/../g) ?? [], pair => parseInt(pair, 16));
+
+export const createProvenanceId = (): string => toHex(crypto.getRandomValues(new Uint8Array(WATERMARK_ID_BYTES)));
+
+export const sha256 = async (data: Blob | string): Promise<string> => {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : new Uint8Array(await data.arrayBuffer());
+  return toHex(new Uint8Array(await crypto.subtle.digest('SHA-256', bytes)));
+};
+
+// The images the model was shown: uploads, style references and cast members.
+const getSourceImages = (creation: Creation): Blob[] => {
+  switch (creation.kind) {
+    case 'cartoon':
+    case 'strip': {
+      const { characterImage, characters = [], style } = creation.params;
+      return [
+        ...(characterImage ? [characterImage] : []),
+        ...characters.flatMap(character => character.images.map(image => image.image)),
+        ...(style?.referenceImages ?? []),
+      ];
+    }
+    case 'restyle':
+      return [creation.params.sourceImage, ...(creation.params.style?.referenceImages ?? [])];
+    case 'edit':
+      return [creation.params.sourceImage];
+  }
+};
+
+/**
+ * Describes a new creation. `editChain` lists the versions it was made from,
+ * as found in its source image.
+ */
+export const createManifest = async (creation: Creation, editChain: string[], badge: boolean): Promise<ProvenanceManifest> => ({
+  id: createProvenanceId(),
+  generator: GENERATOR,
+  operation: creation.kind,
+  providerId: creation.provider?.providerId ?? null,
+  model: creation.provider?.model ?? null,
+  promptHash: await sha256(getExportMetadata(creation).prompt),
+  sourceImageHashes: await Promise.all(getSourceImages(creation).map(image => sha256(image))),
+  editChain,
+  badge,
+  createdAt: creation.createdAt,
+});
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+// Null unless the text is a manifest this app wrote.
+export const parseManifest = (text: string): ProvenanceManifest | null => {
+  try {
+    const value = JSON.parse(text) as Partial<ProvenanceManifest>;
+    const valid = typeof value.id === 'string'
+      && typeof value.promptHash === 'string'
+      && isStringArray(value.sourceImageHashes)
+      && isStringArray(value.editChain)
+      && typeof value.createdAt === 'number';
+    return valid ? value as ProvenanceManifest : null;
+  } catch {
+    return null;
+  }
+};
+
+// A PNG with the manifest added as a text chunk; other formats are returned as they are.
+export const embedManifest = async (image: Blob, manifest: ProvenanceManifest): Promise<Blob> => {
+  if (image.type !== 'image/png') return image;
+  const png = insertPngChunks(new Uint8Array(await image.arrayBuffer()), [textChunk(MANIFEST_KEYWORD, JSON.stringify(manifest))]);
+  return new Blob([png], { type: 'image/png' });
+};
+
+export const toSidecar = (manifest: ProvenanceManifest): Blob =>
+  new Blob([JSON.stringify(manifest, null, 2)], { type: 'application/json' });
+
+const drawBadge = (ctx: CanvasRenderingContext2D, width: number, height: number, settings: ProvenanceSettings) => {
+  const side = Math.min(width, height);
+  const fontSize = Math.max(10, Math.round(side * BADGE_FONT_SIZE));
+  const margin = Math.round(side * BADGE_MARGIN);
+  const padding = Math.round(fontSize * 0.4);
+  ctx.font = `600 ${fontSize}px "Helvetica Neue", Arial, sans-serif`;
+  const boxWidth = Math.ceil(ctx.measureText(settings.badgeText).width) + 2 * padding;
+  const boxHeight = fontSize + 2 * padding;
+  const x = settings.badgePosition.endsWith('left') ? margin : width - margin - boxWidth;
+  const y = settings.badgePosition.startsWith('top') ? margin : height - margin - boxHeight;
+  ctx.fillStyle = 'rgba(17, 17, 17, 0.75)';
+  ctx.beginPath();
+  ctx.roundRect(x, y, boxWidth, boxHeight, padding);
+  ctx.fill();
+  ctx.fillStyle = '#ffffff';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(settings.badgeText, x + padding, y + boxHeight / 2);
+};
+
+const canvasToPng = (canvas: HTMLCanvasElement): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Could not encode the image.'))), 'image/png');
+  });
+
+const drawToCanvas = async (imageUrl: string) => {
+  const image = await loadImage(imageUrl);
+  const canvas = document.createElement('canvas');
+  canvas.width = image.naturalWidth;
+  canvas.height = image.naturalHeight;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.drawImage(image, 0, 0);
+  return { canvas, ctx };
+};
+
+/**
+ * Draws the visible badge, when it is turned on, onto a copy of the image.
+ * Used on its own for animation frames, whose formats cannot keep a watermark.
+ */
+export const stampBadge = async (imageUrl: string, settings: ProvenanceSettings): Promise<string> => {
+  if (!settings.badge || !settings.badgeText.trim()) return imageUrl;
+  const { canvas, ctx } = await drawToCanvas(imageUrl);
+  drawBadge(ctx, canvas.width, canvas.height, settings);
+  return canvas.toDataURL('image/png');
+};
+
+/**
+ * Stamps the badge (when the manifest says it was on), writes the manifest's
+ * ID into the pixels as a watermark, and embeds the manifest. The result is
+ * always a PNG, as other formats would lose the watermark.
+ */
+export const stampImage = async (imageUrl: string, settings: ProvenanceSettings, manifest: ProvenanceManifest): Promise<string> => {
+  const { canvas, ctx } = await drawToCanvas(imageUrl);
+  if (manifest.badge) drawBadge(ctx, canvas.width, canvas.height, settings);
+  const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  embedWatermark(pixels.data, canvas.width, canvas.height, fromHex(manifest.id));
+  ctx.putImageData(pixels, 0, 0);
+  return blobToDataUrl(await embedManifest(await canvasToPng(canvas), manifest));
+};
+
+/**
+ * Reads the watermark and manifest back from a file. The manifest comes from
+ * the PNG itself or, failing that, from a sidecar file when one is given.
+ */
+export const readProvenance = async (image: Blob, sidecar: Blob | null = null): Promise<ProvenanceReport> => {
+  const embedded = readPngText(new Uint8Array(await image.arrayBuffer()))[MANIFEST_KEYWORD];
+  let manifest = embedded ? parseManifest(embedded) : null;
+  let manifestSource: ProvenanceReport['manifestSource'] = manifest ? 'embedded' : null;
+  if (!manifest && sidecar) {
+    manifest = parseManifest(await sidecar.text());
+    if (manifest) manifestSource = 'sidecar';
+  }
+
+  const url = URL.createObjectURL(image);
+  try {
+    const { canvas, ctx } = await drawToCanvas(url);
+    const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    const id = readWatermark(pixels.data, canvas.width, canvas.height);
+    return { manifest, manifestSource, watermarkId: id ? toHex(id) : null };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+/**
+ * The edit chain for an image made from `source`: its own chain and ID when
+ * it carries a manifest, or just the watermark's ID when only that survived.
+ */
+export const getEditChain = async (source: Blob): Promise<string[]> => {
+  const { manifest, watermarkId } = await readProvenance(source);
+  if (manifest) return [...manifest.editChain, manifest.id];
+  return watermarkId ? [watermarkId] : [];
+};
+
+/**
+ * Records the manifest of a creation about to be saved. Its image is kept as
+ * the model drew it, so later edits send the model a clean copy; the manifest
+ * is stamped on by labelImage whenever the image leaves the app. An edit
+ * carries on the chain of the version it was made from, found in `parent`
+ * when that is a creation, or else read from the source image itself.
+ */
+export const recordProvenance = async <C extends Creation>(creation: C, settings: ProvenanceSettings, parent?: ProvenanceManifest): Promise<C> => {
+  const source: Creation = creation;
+  let editChain: string[] = [];
+  if (parent) editChain = [...parent.editChain, parent.id];
+  else if (source.kind === 'edit' || source.kind === 'restyle') editChain = await getEditChain(source.params.sourceImage);
+  const provenance = await createManifest(creation, editChain, settings.badge && settings.badgeText.trim() !== '');
+  return { ...creation, provenance };
+};
+
+/**
+ * An image of a creation on its way out of the app, as a download, share or
+ * export: stamped with the badge, watermark and manifest when the creation
+ * has one, and returned as it is otherwise.
+ */
+export const labelImage = (imageUrl: string, creation: Creation | undefined, settings: ProvenanceSettings): Promise<string> =>
+  creation?.provenance ? stampImage(imageUrl, settings, creation.provenance) : Promise.resolve(imageUrl);
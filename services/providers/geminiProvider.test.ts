@@ -0,0 +1,73 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { geminiProvider } from './geminiProvider';
+import { ApiError, describeError, NetworkError, RateLimitError, RefusalError, SafetyBlockError } from '../errors';
+import { createTestImage, TEST_USAGE } from '../../test/fakes';
+
+const image = createTestImage();
+
+// Answers every fetch with this status, JSON body and headers.
+const respondWith = (status: number, body: unknown, headers: Record<string, string> = {}) => {
+  const fetch = vi.fn(async () => new Response(body === undefined ? '' : JSON.stringify(body), { status, headers }));
+  vi.stubGlobal('fetch', fetch);
+  return fetch;
+};
+
+const generate = () => geminiProvider.generateCartoon({ model: 'gemini-2.5-flash-image', prompt: 'Draw a cat', images: [image], aspectRatio: '4:5' });
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('geminiProvider', () => {
+  it('posts the request to the API server and returns the image', async () => {
+    const fetch = respondWith(200, { image, usage: TEST_USAGE });
+    expect(await generate()).toEqual({ image, usage: TEST_USAGE });
+
+    const [url, init] = fetch.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('/api/cartoon');
+    expect(JSON.parse(init.body as string)).toEqual({ model: 'gemini-2.5-flash-image', prompt: 'Draw a cat', images: [image], aspectRatio: '4:5' });
+  });
+
+  it('turns a safety block into a SafetyBlockError', async () => {
+    respondWith(422, { error: { message: 'Blocked.', code: 'safety_block', reason: 'SAFETY' } });
+    const error = await generate().catch(e => e);
+    expect(error).toBeInstanceOf(SafetyBlockError);
+    expect(describeError(error)).toContain('The safety filters blocked this request (SAFETY).');
+  });
+
+  it('turns a refusal into a RefusalError that quotes the model', async () => {
+    respondWith(422, { error: { message: 'Refused.', code: 'refusal', modelText: 'I cannot draw that.' } });
+    const error = await generate().catch(e => e);
+    expect(error).toBeInstanceOf(RefusalError);
+    expect(describeError(error)).toContain('"I cannot draw that."');
+  });
+
+  it('reports an answer with no image as a failure', async () => {
+    respondWith(502, { error: { message: 'No image generated.', code: 'no_image' } });
+    await expect(generate()).rejects.toThrow(new ApiError('No image generated.', 502, null));
+  });
+
+  it('rejects a successful answer without the expected field', async () => {
+    respondWith(200, {});
+    await expect(generate()).rejects.toBeInstanceOf(ApiError);
+  });
+
+  it('passes on how long to wait when rate limited', async () => {
+    respondWith(429, { error: { message: 'Slow down.', code: 'rate_limited' } }, { 'Retry-After': '7' });
+    const error = await generate().catch(e => e);
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.retryAfterMs).toBe(7000);
+  });
+
+  it('reports an unreachable server as a NetworkError', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => {
+      throw new TypeError('Failed to fetch');
+    }));
+    await expect(generate()).rejects.toBeInstanceOf(NetworkError);
+  });
+
+  it('reports a missing key from the health check', async () => {
+    respondWith(200, { ok: true, configured: false, models: [] });
+    expect(await geminiProvider.checkStatus()).toMatchObject({ available: false });
+  });
+});
@@ -0,0 +1,97 @@
+import type {
+  CartoonRequestBody,
+  EditRequestBody,
+  GagRequestBody,
+  GagResponseBody,
+  ImageResponseBody,
+  ErrorResponseBody,
+  HealthResponseBody,
+} from '../../types';
+import type { ImageProvider } from './types';
+import { NetworkError, createAbortError, toApiError } from '../errors';
+import { localize } from '../i18n';
+
+// Gemini is called through the API server in server/, which owns the key.
+const API_BASE = '/api';
+// A little longer than the server's own wait for Gemini, so its 504 arrives first.
+const REQUEST_TIMEOUT_MS = 150_000;
+
+/**
+ * Posts to the API server and returns its JSON answer, once it is known to
+ * hold `field`. Cancelling `signal` rejects with an AbortError; running out of
+ * time or failing to connect rejects with a NetworkError.
+ */
+const postRequest = async <T extends object>(
+  route: string,
+  body: unknown,
+  field: keyof T,
+  signal?: AbortSignal
+): Promise<T> => {
+  const timeout = AbortSignal.timeout(REQUEST_TIMEOUT_MS);
+  let response: Response;
+  let payload: T | ErrorResponseBody | null;
+  try {
+    response = await fetch(`${API_BASE}${route}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+    });
+    payload = await response.json().catch(() => null) as T | ErrorResponseBody | null;
+  } catch {
+    if (signal?.aborted) throw createAbortError();
+    if (timeout.aborted) throw new NetworkError('The request timed out.', true);
+    throw new NetworkError('The API server could not be reached.');
+  }
+
+  if (!response.ok || !payload || !(field in payload)) {
+    const retryAfter = Number(response.headers.get('Retry-After'));
+    const error = payload && 'error' in payload ? payload : null;
+    throw toApiError(error, response.status, Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : null);
+  }
+  return payload as T;
+};
+
+const postImageRequest = (route: string, body: CartoonRequestBody | EditRequestBody, signal?: AbortSignal): Promise<ImageResponseBody> =>
+  postRequest<ImageResponseBody>(route, body, 'image', signal);
+
+export const geminiProvider: ImageProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  // Keep in sync with IMAGE_MODELS and IMAGE_SIZE_MODELS in server/gemini.ts.
+  models: [
+    { id: 'gemini-2.5-flash-image', label: 'Gemini 2.5 Flash Image', aspectRatios: true },
+    { id: 'gemini-3-pro-image-preview', label: 'Gemini 3 Pro Image (preview)', aspectRatios: true, imageSizes: true },
+  ],
+  defaultModel: 'gemini-2.5-flash-image',
+  // Keep in sync with TEXT_MODEL in server/gemini.ts.
+  textModel: 'gemini-2.5-flash',
+
+  checkStatus: async () => {
+    try {
+      const response = await fetch(`${API_BASE}/health`);
+      const health = await response.json() as HealthResponseBody;
+      if (!health.configured) {
+        return {
+          available: false,
+          message: localize('provider.noKey'),
+        };
+      }
+      return { available: true };
+    } catch {
+      return {
+        available: false,
+        message: localize('provider.unreachable'),
+      };
+    }
+  },
+
+  generateCartoon: ({ model, prompt, images, aspectRatio, imageSize, signal }) =>
+    postImageRequest('/cartoon', { model, prompt, images, aspectRatio, imageSize }, signal),
+
+  editImage: ({ model, prompt, image, mask, signal }) => postImageRequest('/edit', { model, prompt, image, mask }, signal),
+
+  // The server picks the text model; the image model selection does not apply.
+  writeGags: ({ prompt, count, signal }) =>
+    postRequest<GagResponseBody>('/gags', { prompt, count } satisfies GagRequestBody, 'concepts', signal),
+};
@@ -0,0 +1,85 @@
+import type { GagConcept, InlineImage } from '../../types';
+import { encodeRgbPng, bytesToBase64 } from '../../utils/png';
+import type { ImageProvider } from './types';
+
+const SIZE = 256;
+
+// FNV-1a, good enough to spread similar prompts over different colours.
+const hashString = (value: string, seed = 0x811c9dc5): number => {
+  let hash = seed >>> 0;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+};
+
+const hslToRgb = (h: number, s: number, l: number): [number, number, number] => {
+  const a = s * Math.min(l, 1 - l);
+  const channel = (n: number) => {
+    const k = (n + h / 30) % 12;
+    return Math.round(255 * (l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1))));
+  };
+  return [channel(0), channel(8), channel(4)];
+};
+
+/**
+ * Draws a striped placeholder whose colours, stripe angle and width all derive
+ * from the hash, so equal inputs always produce byte-identical PNGs.
+ */
+const renderPlaceholder = (hash: number): InlineImage => {
+  const background = hslToRgb(hash % 360, 0.45, 0.8);
+  const stripe = hslToRgb((hash >>> 9) % 360, 0.55, 0.45);
+  const frame: [number, number, number] = [34, 34, 34];
+  const stripeWidth = 8 + ((hash >>> 18) % 24);
+  const slope = ((hash >>> 24) % 5) - 2;
+
+  const rgb = new Uint8Array(SIZE * SIZE * 3);
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) {
+      const onFrame = x < 6 || y < 6 || x >= SIZE - 6 || y >= SIZE - 6;
+      const onStripe = Math.floor((x + slope * y + SIZE * 4) / stripeWidth) % 2 === 0;
+      const color = onFrame ? frame : onStripe ? stripe : background;
+      rgb.set(color, (y * SIZE + x) * 3);
+    }
+  }
+  return { data: bytesToBase64(encodeRgbPng(SIZE, SIZE, rgb)), mimeType: 'image/png' };
+};
+
+const GAG_TEMPLATES: ((topic: string) => GagConcept)[] = [
+  (topic) => ({ scene: `A committee of pigeons holding an emergency meeting about ${topic}.`, caption: '"All in favour, coo once."' }),
+  (topic) => ({ scene: `A fortune teller gazing into a crystal ball that only shows ${topic}.`, caption: '"I\'m afraid it\'s more of the same."' }),
+  (topic) => ({ scene: `Two cavemen by a fire, one carving ${topic} into the wall.`, caption: '"Nobody will still care about this in ten thousand years."' }),
+  (topic) => ({ scene: `A therapist's couch occupied by a very tired robot, thinking about ${topic}.`, caption: '"And how does that make you compute?"' }),
+  (topic) => ({ scene: `A desert island castaway whose bottle message is entirely about ${topic}.`, caption: '"Priorities, Gerald."' }),
+  (topic) => ({ scene: `A museum exhibit labelled "${topic}" with a bored guard asleep beside it.`, caption: '"He says it\'s performance art."' }),
+];
+
+/**
+ * Offline provider for development and tests. It needs no server or key and
+ * answers instantly with deterministic placeholder images.
+ */
+export const mockProvider: ImageProvider = {
+  id: 'mock',
+  label: 'Offline mock',
+  models: [{ id: 'mock-placeholder', label: 'Placeholder images' }],
+  defaultModel: 'mock-placeholder',
+
+  checkStatus: async () => ({ available: true }),
+
+  generateCartoon: async ({ model, prompt, images, signal }) => {
+    signal?.throwIfAborted();
+    return { image: renderPlaceholder(images.reduce((hash, image) => hashString(image.data, hash), hashString(`${model}\n${prompt}`))) };
+  },
+
+  editImage: async ({ model, prompt, image, mask, signal }) => {
+    signal?.throwIfAborted();
+    return { image: renderPlaceholder(hashString(image.data + (mask?.data ?? ''), hashString(`edit\n${model}\n${prompt}`))) };
+  },
+
+  writeGags: async ({ prompt, topic, count, signal }) => {
+    signal?.throwIfAborted();
+    const start = hashString(prompt) % GAG_TEMPLATES.length;
+    return { concepts: Array.from({ length: count }, (_, i) => GAG_TEMPLATES[(start + i) % GAG_TEMPLATES.length](topic)) };
+  },
+};
@@ -0,0 +1,43 @@
+import type { ProviderSelection } from '../../types';
+import type { ImageProvider } from './types';
+import { geminiProvider } from './geminiProvider';
+import { mockProvider } from './mockProvider';
+
+const providers = new Map<string, ImageProvider>();
+
+export const registerProvider = (provider: ImageProvider) => {
+  providers.set(provider.id, provider);
+};
+
+registerProvider(geminiProvider);
+registerProvider(mockProvider);
+
+export const listProviders = (): ImageProvider[] => Array.from(providers.values());
+
+export const getProvider = (id: string): ImageProvider => {
+  const provider = providers.get(id);
+  if (!provider) {
+    throw new Error(`Unknown image provider "${id}".`);
+  }
+  return provider;
+};
+
+const pickModel = (provider: ImageProvider, model: string | undefined): string =>
+  provider.models.some(m => m.id === model) ? model! : provider.defaultModel;
+
+// Configured at build time through IMAGE_PROVIDER / IMAGE_MODEL in .env.local.
+const configuredProvider = providers.get(process.env.IMAGE_PROVIDER ?? '') ?? geminiProvider;
+
+export const DEFAULT_SELECTION: ProviderSelection = {
+  providerId: configuredProvider.id,
+  model: pickModel(configuredProvider, process.env.IMAGE_MODEL),
+};
+
+/**
+ * Returns a valid provider/model pair, falling back to the provider's default
+ * model (or the configured provider) when the requested one is not registered.
+ */
+export const resolveSelection = (selection: Partial<ProviderSelection>): ProviderSelection => {
+  const provider = providers.get(selection.providerId ?? '') ?? configuredProvider;
+  return { providerId: provider.id, model: pickModel(provider, selection.model) };
+};
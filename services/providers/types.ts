@@ -0,0 +1,73 @@
+import type { AspectRatio, GagConcept, ImageSize, InlineImage, TokenUsage } from '../../types';
+
+export interface ModelOption {
+  id: string;
+  label: string;
+  // Whether the model can be asked for an aspect ratio or resolution directly.
+  // Otherwise the prompt asks for the shape and the image is fitted afterwards.
+  aspectRatios?: boolean;
+  imageSizes?: boolean;
+}
+
+export interface ProviderStatus {
+  available: boolean;
+  // Explains what to fix when the provider is not available.
+  message?: string;
+}
+
+export interface CartoonRequest {
+  model: string;
+  prompt: string;
+  // Reference images sent alongside the prompt, e.g. a character sheet.
+  images: InlineImage[];
+  // Only passed when the model supports them; see ModelOption.
+  aspectRatio?: AspectRatio;
+  imageSize?: ImageSize;
+  // Cancels the request; it then rejects with an AbortError.
+  signal?: AbortSignal;
+}
+
+export interface EditRequest {
+  model: string;
+  prompt: string;
+  image: InlineImage;
+  mask?: InlineImage;
+  signal?: AbortSignal;
+}
+
+export interface GagRequest {
+  prompt: string;
+  // What the gags are about, as the user typed it; the prompt already includes it.
+  topic: string;
+  count: number;
+  signal?: AbortSignal;
+}
+
+// Usage is left out when the backend does not report token counts.
+export interface ImageResult {
+  image: InlineImage;
+  usage?: TokenUsage;
+}
+
+export interface GagResult {
+  concepts: GagConcept[];
+  usage?: TokenUsage;
+}
+
+/**
+ * A backend that can turn prompts into images. Register implementations in
+ * registry.ts to make them selectable in the UI.
+ */
+export interface ImageProvider {
+  id: string;
+  label: string;
+  models: ModelOption[];
+  defaultModel: string;
+  // The model writeGags uses, when it is not the selected image model.
+  textModel?: string;
+  checkStatus(): Promise<ProviderStatus>;
+  generateCartoon(request: CartoonRequest): Promise<ImageResult>;
+  editImage(request: EditRequest): Promise<ImageResult>;
+  // Suggests cartoon concepts with a text model, before any image is made.
+  writeGags(request: GagRequest): Promise<GagResult>;
+}
@@ -0,0 +1,111 @@
+import type { ActiveTab, AspectFit, AspectRatio, CartoonMode, ColorOption, ImageSize, Language, SignatureMode } from '../types';
+import { isAspectRatio, isImageSize } from './outputFormat';
+import { isLanguage } from './i18n';
+
+export const ROUTES: Record<ActiveTab, string> = {
+  cartoon: '/cartoon',
+  edit: '/editor',
+  restyle: '/restyle',
+  gallery: '/gallery',
+  team: '/team',
+  verify: '/verify',
+  usage: '/usage',
+};
+
+// Generator settings carried in the Cartoon Generator's query string. Anything
+// left out keeps its current value when a link is opened.
+export interface GeneratorLink {
+  mode?: CartoonMode;
+  prompt?: string;
+  caption?: string;
+  // The style's name as a slug, e.g. "roz-chast".
+  style?: string;
+  color?: ColorOption;
+  signature?: string;
+  signatureMode?: SignatureMode;
+  aspect?: AspectRatio;
+  size?: ImageSize;
+  fit?: AspectFit;
+  // The output language for captions and drawn text.
+  lang?: Language;
+  // Values for {placeholder} variables in the prompt.
+  values?: Record<string, string>;
+}
+
+export interface Route {
+  tab: ActiveTab;
+  link: GeneratorLink;
+}
+
+// Placeholder values are sent as var.<name>=<value>.
+const VALUE_PREFIX = 'var.';
+
+export const toStyleSlug = (name: string): string =>
+  name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+/**
+ * Reads the tab and generator settings from a path and query string. Unknown
+ * paths, including "/", open the Cartoon Generator.
+ */
+export const parseRoute = (pathname: string, search: string): Route => {
+  const path = pathname.replace(/\/+$/, '');
+  const tab = (Object.keys(ROUTES) as ActiveTab[]).find(key => ROUTES[key] === path) ?? 'cartoon';
+  if (tab !== 'cartoon') return { tab, link: {} };
+
+  const query = new URLSearchParams(search);
+  const link: GeneratorLink = {};
+  const mode = query.get('mode');
+  if (mode === 'single' || mode === 'strip' || mode === 'animation') link.mode = mode;
+  const prompt = query.get('prompt');
+  if (prompt !== null) link.prompt = prompt;
+  const caption = query.get('caption');
+  if (caption !== null) link.caption = caption;
+  const style = query.get('style');
+  if (style) link.style = toStyleSlug(style);
+  const color = query.get('color');
+  if (color === 'color') link.color = 'color';
+  if (color === 'bw') link.color = 'black_and_white';
+  const signature = query.get('signature');
+  if (signature !== null) link.signature = signature;
+  const signatureMode = query.get('signatureMode');
+  if (signatureMode === 'model' || signatureMode === 'overlay') link.signatureMode = signatureMode;
+  const aspect = query.get('aspect');
+  if (isAspectRatio(aspect)) link.aspect = aspect;
+  const size = query.get('size');
+  if (isImageSize(size)) link.size = size;
+  const fit = query.get('fit');
+  if (fit === 'crop' || fit === 'pad') link.fit = fit;
+  const lang = query.get('lang');
+  if (isLanguage(lang)) link.lang = lang;
+
+  const values: Record<string, string> = {};
+  for (const [key, value] of query) {
+    if (key.startsWith(VALUE_PREFIX)) values[key.slice(VALUE_PREFIX.length)] = value;
+  }
+  if (Object.keys(values).length > 0) link.values = values;
+  return { tab, link };
+};
+
+/**
+ * The path and query string for a tab. Only the Cartoon Generator has settings in its query.
+ */
+export const buildRoute = (tab: ActiveTab, link: GeneratorLink = {}): string => {
+  if (tab !== 'cartoon') return ROUTES[tab];
+  const query = new URLSearchParams();
+  if (link.mode) query.set('mode', link.mode);
+  if (link.prompt) query.set('prompt', link.prompt);
+  if (link.caption) query.set('caption', link.caption);
+  if (link.style) query.set('style', link.style);
+  if (link.color) query.set('color', link.color === 'black_and_white' ? 'bw' : 'color');
+  if (link.signature) query.set('signature', link.signature);
+  if (link.signatureMode) query.set('signatureMode', link.signatureMode);
+  if (link.aspect) query.set('aspect', link.aspect);
+  if (link.size) query.set('size', link.size);
+  if (link.fit) query.set('fit', link.fit);
+  if (link.lang) query.set('lang', link.lang);
+  for (const [name, value] of Object.entries(link.values ?? {})) {
+    if (value) query.set(`${VALUE_PREFIX}${name}`, value);
+  }
+  const search = query.toString();
+  return search ? `${ROUTES.cartoon}?${search}` : ROUTES.cartoon;
+};
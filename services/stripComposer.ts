@@ -0,0 +1,70 @@
+import type { StripLayout } from '../types';
+import { loadImage } from '../utils/image';
+
+export interface StripComposeOptions {
+  gutter: number;
+  borderWidth: number;
+  borderColor: string;
+  background: string;
+}
+
+const DEFAULT_OPTIONS: StripComposeOptions = {
+  gutter: 24,
+  borderWidth: 6,
+  borderColor: '#111111',
+  background: '#ffffff',
+};
+
+export const getGridSize = (layout: StripLayout, panelCount: number): { columns: number; rows: number } => {
+  switch (layout) {
+    case 'horizontal':
+      return { columns: panelCount, rows: 1 };
+    case 'vertical':
+      return { columns: 1, rows: panelCount };
+    case 'grid':
+      return { columns: 2, rows: Math.ceil(panelCount / 2) };
+  }
+};
+
+/**
+ * Lays the panel images out on a single canvas with gutters and a border around
+ * each panel. Every cell takes the size of the first panel; other panels are
+ * scaled to fit their cell and centred.
+ */
+export const composeStrip = async (
+  panelUrls: string[],
+  layout: StripLayout,
+  options: Partial<StripComposeOptions> = {}
+): Promise<string> => {
+  const { gutter, borderWidth, borderColor, background } = { ...DEFAULT_OPTIONS, ...options };
+  const images = await Promise.all(panelUrls.map(loadImage));
+  const cellWidth = images[0].naturalWidth;
+  const cellHeight = images[0].naturalHeight;
+  const { columns, rows } = getGridSize(layout, images.length);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = columns * cellWidth + (columns + 1) * gutter;
+  canvas.height = rows * cellHeight + (rows + 1) * gutter;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not supported in this browser.');
+
+  ctx.fillStyle = background;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  images.forEach((image, i) => {
+    const x = gutter + (i % columns) * (cellWidth + gutter);
+    const y = gutter + Math.floor(i / columns) * (cellHeight + gutter);
+    const scale = Math.min(cellWidth / image.naturalWidth, cellHeight / image.naturalHeight);
+    const width = image.naturalWidth * scale;
+    const height = image.naturalHeight * scale;
+    ctx.drawImage(image, x + (cellWidth - width) / 2, y + (cellHeight - height) / 2, width, height);
+
+    if (borderWidth > 0) {
+      ctx.strokeStyle = borderColor;
+      ctx.lineWidth = borderWidth;
+      ctx.strokeRect(x + borderWidth / 2, y + borderWidth / 2, cellWidth - borderWidth, cellHeight - borderWidth);
+    }
+  });
+
+  return canvas.toDataURL('image/png');
+};
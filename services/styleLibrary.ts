@@ -0,0 +1,236 @@
+import type { StyleDefinition, StyleTraits, StyleType } from '../types';
+import { createId } from './historyStore';
+import { localize } from './i18n';
+import { blobToDataUrl, dataUrlToBlob } from '../utils/blob';
+
+// Keeps requests small; a full cast already sends several images of its own.
+export const MAX_REFERENCE_IMAGES = 2;
+
+const STYLE_FILE_VERSION = 1;
+
+const builtIn = (styleType: StyleType, name: string, traits: StyleTraits, tags: string[]): StyleDefinition => ({
+  id: `builtin:${styleType}:${name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`,
+  name,
+  styleType,
+  traits,
+  referenceImages: [],
+  tags,
+  builtIn: true,
+});
+
+export const BUILT_IN_STYLES: StyleDefinition[] = [
+  builtIn('magazine', 'The New Yorker', {
+    lineWeight: 'confident, economical ink lines with loose wash shading',
+    palette: 'muted watercolour washes or grey tones',
+    composition: 'a single uncluttered scene with generous white space',
+    humour: 'dry, understated and observational',
+  }, ['classic', 'single-panel', 'understated']),
+  builtIn('magazine', 'Punch', {
+    lineWeight: 'fine pen-and-ink hatching in the Victorian engraving tradition',
+    palette: 'black ink on cream paper',
+    composition: 'a detailed, stage-like scene',
+    humour: 'genteel satire of manners and politics',
+  }, ['classic', 'vintage', 'satire']),
+  builtIn('magazine', 'Mad Magazine', {
+    lineWeight: 'busy, energetic brush lines with exaggerated anatomy',
+    palette: 'bold flat colours',
+    composition: 'crowded with background gags and tiny details',
+    humour: 'irreverent, slapstick parody',
+  }, ['parody', 'busy', 'slapstick']),
+  builtIn('magazine', 'Private Eye', {
+    lineWeight: 'scratchy, quick pen lines',
+    palette: 'mostly black and white with spot colour',
+    composition: 'simple staging focused on the characters',
+    humour: 'sharp, cynical political and media satire',
+  }, ['satire', 'political', 'british']),
+  builtIn('magazine', 'Charlie Hebdo', {
+    lineWeight: 'loose, rough brush lines',
+    palette: 'loud flat colours',
+    composition: 'big caricatured figures filling the frame',
+    humour: 'provocative, anti-establishment satire',
+  }, ['satire', 'political', 'french']),
+  builtIn('magazine', 'The Nib', {
+    lineWeight: 'clean digital lines',
+    palette: 'limited modern palette with a single accent colour',
+    composition: 'clear, readable staging like a webcomic panel',
+    humour: 'pointed political and social commentary',
+  }, ['political', 'modern', 'webcomic']),
+  builtIn('magazine', 'American Bystander', {
+    lineWeight: 'varied hand-drawn ink styles',
+    palette: 'understated colour or black and white',
+    composition: 'classic gag-cartoon framing',
+    humour: 'absurd, literate humour',
+  }, ['classic', 'absurd', 'single-panel']),
+  builtIn('magazine', 'Funny Times', {
+    lineWeight: 'friendly, rounded ink lines',
+    palette: 'black and white',
+    composition: 'simple single-panel gag layout',
+    humour: 'gentle, good-natured jokes about everyday life',
+  }, ['gentle', 'everyday', 'single-panel']),
+  builtIn('cartoonist', 'Charles Addams', {
+    lineWeight: 'soft ink drawing with rich grey wash',
+    palette: 'gloomy greys and deep shadows',
+    composition: 'gothic interiors and looming architecture',
+    humour: 'macabre and deadpan',
+  }, ['dark', 'gothic', 'classic']),
+  builtIn('cartoonist', 'Gary Larson', {
+    lineWeight: 'simple, slightly clumsy outlines',
+    palette: 'flat, earthy colours',
+    composition: 'a single panel with a caption beneath, often featuring animals or scientists',
+    humour: 'absurd and surreal',
+  }, ['absurd', 'animals', 'single-panel']),
+  builtIn('cartoonist', 'Bill Watterson', {
+    lineWeight: 'expressive brush lines with lively motion',
+    palette: 'warm, natural watercolour colours',
+    composition: 'dynamic poses and imaginative outdoor settings',
+    humour: 'warm, philosophical and childlike',
+  }, ['warm', 'imaginative', 'comic-strip']),
+  builtIn('cartoonist', 'Roz Chast', {
+    lineWeight: 'wobbly, nervous pen lines with handwritten lettering',
+    palette: 'pastel watercolour washes',
+    composition: 'cluttered domestic interiors and lists',
+    humour: 'anxious, neurotic everyday humour',
+  }, ['anxious', 'domestic', 'handwritten']),
+  builtIn('cartoonist', 'Saul Steinberg', {
+    lineWeight: 'a single continuous, playful line',
+    palette: 'sparse black and white with occasional colour',
+    composition: 'witty visual puns and distorted perspective',
+    humour: 'intellectual and visually playful',
+  }, ['minimal', 'conceptual', 'line-art']),
+  builtIn('cartoonist', 'Gahan Wilson', {
+    lineWeight: 'blobby, textured ink with heavy shading',
+    palette: 'murky, muted colours',
+    composition: 'grotesque creatures in ordinary settings',
+    humour: 'creepy and darkly comic',
+  }, ['dark', 'grotesque', 'horror']),
+  builtIn('cartoonist', 'Matt Groening', {
+    lineWeight: 'clean, even outlines with overbites and bulging eyes',
+    palette: 'bright saturated colours, yellow skin tones',
+    composition: 'flat, front-on sitcom staging',
+    humour: 'satirical family and workplace humour',
+  }, ['bright', 'tv', 'satire']),
+  builtIn('cartoonist', 'Quentin Blake', {
+    lineWeight: 'scratchy, spontaneous pen lines',
+    palette: 'loose, splashy watercolour',
+    composition: 'lively figures in motion with little background',
+    humour: 'joyful, mischievous and energetic',
+  }, ['children', 'loose', 'watercolour']),
+  builtIn('cartoonist', 'Dr. Seuss', {
+    lineWeight: 'bold, curvy outlines',
+    palette: 'limited palette of red, blue and black',
+    composition: 'whimsical creatures and impossible architecture',
+    humour: 'nonsensical, rhyming whimsy',
+  }, ['children', 'whimsical', 'bold']),
+  builtIn('cartoonist', 'R. Crumb', {
+    lineWeight: 'dense cross-hatching with heavy, rounded figures',
+    palette: 'black and white',
+    composition: 'crowded, underground-comix panels',
+    humour: 'raw, satirical counterculture humour',
+  }, ['underground', 'cross-hatching', 'vintage']),
+];
+
+export const EMPTY_TRAITS: StyleTraits = { lineWeight: '', palette: '', composition: '', humour: '' };
+
+export const createStyle = (styleType: StyleType, name = ''): StyleDefinition => ({
+  id: createId(),
+  name,
+  styleType,
+  traits: { ...EMPTY_TRAITS },
+  referenceImages: [],
+  tags: [],
+});
+
+/**
+ * The style a cartoon or strip was made with. Entries saved before the style
+ * library only recorded a name, so the library is searched for it and a bare
+ * style with that name stands in when it is not found (e.g. an "Other..." style).
+ */
+export const resolveStyle = (
+  params: { styleType: StyleType; styleName: string; style?: StyleDefinition },
+  library: StyleDefinition[] = BUILT_IN_STYLES
+): StyleDefinition =>
+  params.style
+  ?? library.find(style => style.styleType === params.styleType && style.name === params.styleName)
+  ?? { ...createStyle(params.styleType, params.styleName), id: `legacy:${params.styleType}:${params.styleName}` };
+
+export const parseTags = (value: string): string[] =>
+  Array.from(new Set(value.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean)));
+
+interface StyleFileEntry {
+  name: string;
+  styleType: StyleType;
+  traits: StyleTraits;
+  tags: string[];
+  // Data URLs.
+  referenceImages: string[];
+}
+
+interface StyleFile {
+  version: number;
+  styles: StyleFileEntry[];
+}
+
+/**
+ * Serialises styles to JSON, embedding reference images as data URLs so the
+ * file can be shared on its own.
+ */
+export const exportStyles = async (styles: StyleDefinition[]): Promise<string> => {
+  const file: StyleFile = {
+    version: STYLE_FILE_VERSION,
+    styles: await Promise.all(styles.map(async (style) => ({
+      name: style.name,
+      styleType: style.styleType,
+      traits: style.traits,
+      tags: style.tags,
+      referenceImages: await Promise.all(style.referenceImages.map(blobToDataUrl)),
+    }))),
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readString = (value: unknown): string => (typeof value === 'string' ? value : '');
+
+/**
+ * Reads a file written by exportStyles. Imported styles get fresh ids so they
+ * never overwrite existing ones.
+ */
+export const importStyles = async (json: string): Promise<StyleDefinition[]> => {
+  let file: unknown;
+  try {
+    file = JSON.parse(json);
+  } catch {
+    throw new Error(localize('styleFile.notJson'));
+  }
+  if (!isRecord(file) || !Array.isArray(file.styles)) {
+    throw new Error(localize('styleFile.noStyles'));
+  }
+  if (typeof file.version === 'number' && file.version > STYLE_FILE_VERSION) {
+    throw new Error(localize('styleFile.newer'));
+  }
+
+  return Promise.all(file.styles.map(async (entry, i) => {
+    if (!isRecord(entry) || !readString(entry.name).trim()) {
+      throw new Error(localize('styleFile.noName', { number: i + 1 }));
+    }
+    const traits = isRecord(entry.traits) ? entry.traits : {};
+    const images = Array.isArray(entry.referenceImages)
+      ? entry.referenceImages.filter((url): url is string => typeof url === 'string' && url.startsWith('data:image/'))
+      : [];
+    return {
+      id: createId(),
+      name: readString(entry.name).trim(),
+      styleType: entry.styleType === 'cartoonist' ? 'cartoonist' : 'magazine',
+      traits: {
+        lineWeight: readString(traits.lineWeight),
+        palette: readString(traits.palette),
+        composition: readString(traits.composition),
+        humour: readString(traits.humour),
+      },
+      tags: Array.isArray(entry.tags) ? parseTags(entry.tags.filter((tag): tag is string => typeof tag === 'string').join(',')) : [],
+      referenceImages: await Promise.all(images.slice(0, MAX_REFERENCE_IMAGES).map(dataUrlToBlob)),
+    } satisfies StyleDefinition;
+  }));
+};
@@ -0,0 +1,26 @@
+import type { StyleDefinition } from '../types';
+import { STYLES_STORE, openDb, requestToPromise, transactionDone } from './db';
+
+/**
+ * Returns the user's own styles, sorted by name. Built-in styles are not stored.
+ */
+export const listStyles = async (): Promise<StyleDefinition[]> => {
+  const db = await openDb();
+  const store = db.transaction(STYLES_STORE, 'readonly').objectStore(STYLES_STORE);
+  const styles = await requestToPromise<StyleDefinition[]>(store.getAll());
+  return styles.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const saveStyle = async (style: StyleDefinition): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(STYLES_STORE, 'readwrite');
+  tx.objectStore(STYLES_STORE).put(style);
+  await transactionDone(tx);
+};
+
+export const deleteStyle = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(STYLES_STORE, 'readwrite');
+  tx.objectStore(STYLES_STORE).delete(id);
+  await transactionDone(tx);
+};
@@ -0,0 +1,62 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { TeamComment } from '../types';
+import { ApiError, NetworkError } from './errors';
+import { describeGalleryError, listTeamToons, threadComments, voteTeamToon } from './teamGallery';
+
+// Answers every fetch with this status and JSON body.
+const respondWith = (status: number, body: unknown) => {
+  const fetch = vi.fn(async () => new Response(JSON.stringify(body), { status }));
+  vi.stubGlobal('fetch', fetch);
+  return fetch;
+};
+
+const comment = (id: string, parentId: string | null): TeamComment => ({ id, parentId, author: 'Ana', body: id, createdAt: 0 });
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('threadComments', () => {
+  it('nests replies under their parents in order', () => {
+    const threads = threadComments([comment('a', null), comment('b', 'a'), comment('c', null), comment('d', 'b'), comment('e', 'a')]);
+    expect(threads.map(thread => thread.id)).toEqual(['a', 'c']);
+    expect(threads[0].replies.map(reply => reply.id)).toEqual(['b', 'e']);
+    expect(threads[0].replies[0].replies.map(reply => reply.id)).toEqual(['d']);
+  });
+
+  it('drops replies to comments that are not there', () => {
+    expect(threadComments([comment('a', 'gone')])).toEqual([]);
+  });
+});
+
+describe('team gallery client', () => {
+  it('sends only the filters that are set', async () => {
+    const fetch = respondWith(200, { toons: [] });
+    await listTeamToons({ status: 'approved', q: 'cat', author: undefined, sort: 'top' });
+    const [url] = fetch.mock.calls[0] as unknown as [string];
+    expect(url).toBe('/api/gallery/toons?status=approved&q=cat&sort=top');
+  });
+
+  it('puts a vote with the voter', async () => {
+    const fetch = respondWith(200, { toon: {}, comments: [] });
+    await voteTeamToon('toon-1', 'Ana', true);
+    const [url, init] = fetch.mock.calls[0] as unknown as [string, RequestInit];
+    expect([url, init.method, JSON.parse(init.body as string)]).toEqual(['/api/gallery/toons/toon-1/vote', 'PUT', { voter: 'Ana', vote: true }]);
+  });
+
+  it('passes on the server message for a rejected change', async () => {
+    respondWith(409, { error: { message: 'A draft toon can only move to: approved.' } });
+    const error = await voteTeamToon('toon-1', 'Ana', true).catch(e => e);
+    expect(error).toBeInstanceOf(ApiError);
+    expect(describeGalleryError(error)).toBe('A draft toon can only move to: approved.');
+  });
+
+  it('says how to start the service when it is not running', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => {
+      throw new TypeError('fetch failed');
+    }));
+    const error = await listTeamToons().catch(e => e);
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(describeGalleryError(error)).toContain('npm run gallery');
+  });
+});
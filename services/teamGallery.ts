@@ -0,0 +1,137 @@
+import type {
+  CommentRequestBody,
+  CreationKind,
+  ErrorResponseBody,
+  PublishToonRequestBody,
+  TeamComment,
+  TeamToon,
+  TeamToonListResponseBody,
+  TeamToonMetadata,
+  TeamToonResponseBody,
+  TeamToonStatus,
+  ToonStatusRequestBody,
+  VoteRequestBody,
+} from '../types';
+import type { MessageKey } from '../locales/en';
+import { NetworkError, toApiError } from './errors';
+import { localize } from './i18n';
+import { blobToDataUrl } from '../utils/blob';
+
+// The team gallery service in server/gallery.ts, proxied here in development.
+const GALLERY_BASE = '/api/gallery';
+const REQUEST_TIMEOUT_MS = 30_000;
+
+export const TEAM_STATUSES: { value: TeamToonStatus; labelKey: MessageKey }[] = [
+  { value: 'draft', labelKey: 'team.status.draft' },
+  { value: 'approved', labelKey: 'team.status.approved' },
+  { value: 'published', labelKey: 'team.status.published' },
+];
+
+// Keep in sync with TRANSITIONS in server/galleryApp.ts.
+export const NEXT_STATUSES: Record<TeamToonStatus, TeamToonStatus[]> = {
+  draft: ['approved'],
+  approved: ['published', 'draft'],
+  published: ['approved'],
+};
+
+export interface TeamToonQuery {
+  status?: TeamToonStatus;
+  kind?: CreationKind;
+  author?: string;
+  q?: string;
+  sort?: 'newest' | 'top';
+  // Whose upvotes to mark as `voted`.
+  voter?: string;
+}
+
+export interface ThreadedComment extends TeamComment {
+  replies: ThreadedComment[];
+}
+
+/**
+ * Sends a request to the team gallery and returns its JSON answer. Failing to
+ * connect or running out of time rejects with a NetworkError; an error answer
+ * rejects with the matching ApiError.
+ */
+const request = async <T>(method: string, route: string, body?: unknown): Promise<T> => {
+  const timeout = AbortSignal.timeout(REQUEST_TIMEOUT_MS);
+  let response: Response;
+  let payload: T | ErrorResponseBody | null;
+  try {
+    response = await fetch(`${GALLERY_BASE}${route}`, {
+      method,
+      headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: timeout,
+    });
+    payload = await response.json().catch(() => null) as T | ErrorResponseBody | null;
+  } catch {
+    if (timeout.aborted) throw new NetworkError(localize('team.timeout'), true);
+    throw new NetworkError(localize('team.unreachable'));
+  }
+
+  if (!response.ok || !payload || 'error' in (payload as object)) {
+    throw toApiError(payload && 'error' in (payload as object) ? payload as ErrorResponseBody : null, response.status, null);
+  }
+  return payload as T;
+};
+
+const toQueryString = (params: Record<string, string | undefined>): string => {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value) query.set(key, value);
+  }
+  const text = query.toString();
+  return text ? `?${text}` : '';
+};
+
+export const teamToonImageUrl = (id: string): string => `${GALLERY_BASE}/toons/${id}/image`;
+
+export const listTeamToons = async (query: TeamToonQuery = {}): Promise<TeamToon[]> =>
+  (await request<TeamToonListResponseBody>('GET', `/toons${toQueryString({ ...query })}`)).toons;
+
+export const getTeamToon = (id: string, voter: string): Promise<TeamToonResponseBody> =>
+  request('GET', `/toons/${id}${toQueryString({ voter })}`);
+
+/**
+ * Publishes an image to the team gallery. It arrives as a draft for the team
+ * to review.
+ */
+export const publishTeamToon = async (
+  image: Blob,
+  title: string,
+  author: string,
+  kind: CreationKind,
+  metadata: TeamToonMetadata
+): Promise<TeamToon> => {
+  const data = (await blobToDataUrl(image)).split(',')[1] ?? '';
+  const body: PublishToonRequestBody = { title, author, kind, metadata, image: { data, mimeType: image.type } };
+  return (await request<TeamToonResponseBody>('POST', '/toons', body)).toon;
+};
+
+export const setTeamToonStatus = (id: string, status: TeamToonStatus, voter: string): Promise<TeamToonResponseBody> =>
+  request('PATCH', `/toons/${id}/status${toQueryString({ voter })}`, { status } satisfies ToonStatusRequestBody);
+
+export const addTeamComment = (id: string, comment: CommentRequestBody, voter: string): Promise<TeamToonResponseBody> =>
+  request('POST', `/toons/${id}/comments${toQueryString({ voter })}`, comment);
+
+export const voteTeamToon = (id: string, voter: string, vote: boolean): Promise<TeamToonResponseBody> =>
+  request('PUT', `/toons/${id}/vote`, { voter, vote } satisfies VoteRequestBody);
+
+/**
+ * Nests replies under the comment they answer, keeping the server's oldest
+ * first order at each level. Replies to a missing comment are dropped.
+ */
+export const threadComments = (comments: TeamComment[]): ThreadedComment[] => {
+  const byId = new Map<string, ThreadedComment>(comments.map(comment => [comment.id, { ...comment, replies: [] }]));
+  const roots: ThreadedComment[] = [];
+  for (const comment of byId.values()) {
+    if (comment.parentId === null) roots.push(comment);
+    else byId.get(comment.parentId)?.replies.push(comment);
+  }
+  return roots;
+};
+
+// Gallery errors carry the server's own message, or say that it is not running.
+export const describeGalleryError = (e: unknown): string =>
+  e instanceof Error ? e.message : localize('team.failed');
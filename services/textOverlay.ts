@@ -0,0 +1,207 @@
+import type { TextLayer, TextLayerKind, TextOverlay } from '../types';
+import type { MessageKey } from '../locales/en';
+import { createId } from './historyStore';
+import { loadImage } from '../utils/image';
+
+export const FONT_CHOICES: { labelKey: MessageKey; value: string }[] = [
+  { labelKey: 'font.comic', value: '"Comic Neue", "Comic Sans MS", cursive' },
+  { labelKey: 'font.serif', value: 'Georgia, "Times New Roman", serif' },
+  { labelKey: 'font.sans', value: '"Helvetica Neue", Arial, sans-serif' },
+  { labelKey: 'font.typewriter', value: '"Courier New", Courier, monospace' },
+  { labelKey: 'font.handwritten', value: '"Brush Script MT", "Segoe Script", cursive' },
+];
+
+// Where a layer ended up on the canvas, in canvas pixels, for hit testing.
+export interface LayerBounds {
+  id: string;
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  tail: { x: number; y: number } | null;
+}
+
+const INK = '#111111';
+const PAPER = '#ffffff';
+const BUBBLE_TEXT_WIDTH = 0.3;
+const CAPTION_FONT_SIZE = 0.035;
+
+export const createDefaultOverlay = (signature?: string): TextOverlay => ({
+  caption: '',
+  captionFont: FONT_CHOICES[1].value,
+  layers: signature ? [createLayer('signature', signature)] : [],
+});
+
+export const createLayer = (kind: TextLayerKind, text = ''): TextLayer => {
+  if (kind === 'signature') {
+    return { id: createId(), kind, text, x: 0.85, y: 0.95, tailX: 0, tailY: 0, fontFamily: FONT_CHOICES[4].value, fontSize: 0.035 };
+  }
+  return {
+    id: createId(),
+    kind,
+    text: text || (kind === 'speech' ? 'Say something!' : 'Hmm...'),
+    x: 0.3,
+    y: 0.2,
+    tailX: 0.4,
+    tailY: 0.45,
+    fontFamily: FONT_CHOICES[0].value,
+    fontSize: 0.035,
+  };
+};
+
+/**
+ * Keeps the overlay's signature layer in step with the signature setting: adds
+ * one when needed, updates its text, or drops it.
+ */
+export const syncSignatureLayer = (overlay: TextOverlay, signature: string | null): TextOverlay => {
+  const existing = overlay.layers.find(layer => layer.kind === 'signature');
+  if (!signature) {
+    return existing ? { ...overlay, layers: overlay.layers.filter(layer => layer !== existing) } : overlay;
+  }
+  if (!existing) return { ...overlay, layers: [...overlay.layers, createLayer('signature', signature)] };
+  if (existing.text === signature) return overlay;
+  return { ...overlay, layers: overlay.layers.map(layer => (layer === existing ? { ...layer, text: signature } : layer)) };
+};
+
+export const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && ctx.measureText(candidate).width > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+};
+
+const measureLines = (ctx: CanvasRenderingContext2D, lines: string[]) =>
+  Math.max(1, ...lines.map(line => ctx.measureText(line).width));
+
+const layoutCaption = (ctx: CanvasRenderingContext2D, overlay: TextOverlay, width: number) => {
+  const fontPx = CAPTION_FONT_SIZE * width;
+  ctx.font = `italic ${fontPx}px ${overlay.captionFont}`;
+  const lines = overlay.caption.trim() ? wrapText(ctx, overlay.caption.trim(), width * 0.9) : [];
+  const lineHeight = fontPx * 1.3;
+  const padding = width * 0.04;
+  return { fontPx, lines, lineHeight, padding, height: lines.length ? lines.length * lineHeight + padding * 2 : 0 };
+};
+
+const drawTextLines = (ctx: CanvasRenderingContext2D, lines: string[], cx: number, cy: number, lineHeight: number) => {
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  const top = cy - ((lines.length - 1) * lineHeight) / 2;
+  lines.forEach((line, i) => ctx.fillText(line, cx, top + i * lineHeight));
+};
+
+const drawBubble = (ctx: CanvasRenderingContext2D, layer: TextLayer, width: number, height: number): LayerBounds => {
+  const fontPx = layer.fontSize * width;
+  ctx.font = `${fontPx}px ${layer.fontFamily}`;
+  const lines = wrapText(ctx, layer.text, BUBBLE_TEXT_WIDTH * width);
+  const lineHeight = fontPx * 1.2;
+  const padding = fontPx * 0.8;
+  const cx = layer.x * width;
+  const cy = layer.y * height;
+  const rx = (measureLines(ctx, lines) / 2) * 1.2 + padding;
+  const ry = ((lines.length * lineHeight) / 2) * 1.3 + padding;
+  const tailX = layer.tailX * width;
+  const tailY = layer.tailY * height;
+  const stroke = Math.max(2, width * 0.003);
+
+  const bodyPath = new Path2D();
+  bodyPath.ellipse(cx, cy, rx, ry, 0, 0, Math.PI * 2);
+
+  const tailPaths: Path2D[] = [];
+  const angle = Math.atan2((tailY - cy) / ry, (tailX - cx) / rx);
+  if (layer.kind === 'speech') {
+    const tail = new Path2D();
+    tail.moveTo(cx + rx * Math.cos(angle - 0.25), cy + ry * Math.sin(angle - 0.25));
+    tail.lineTo(tailX, tailY);
+    tail.lineTo(cx + rx * Math.cos(angle + 0.25), cy + ry * Math.sin(angle + 0.25));
+    tail.closePath();
+    tailPaths.push(tail);
+  } else {
+    // Thought bubbles trail off in shrinking circles towards the thinker.
+    const startX = cx + rx * Math.cos(angle);
+    const startY = cy + ry * Math.sin(angle);
+    [0.3, 0.6, 0.9].forEach((t, i) => {
+      const dot = new Path2D();
+      dot.arc(startX + (tailX - startX) * t, startY + (tailY - startY) * t, fontPx * (0.45 - i * 0.12), 0, Math.PI * 2);
+      tailPaths.push(dot);
+    });
+  }
+
+  // Stroke everything first, then fill, so the joint between body and tail has no seam.
+  ctx.strokeStyle = INK;
+  ctx.lineWidth = stroke * 2;
+  ctx.stroke(bodyPath);
+  tailPaths.forEach(path => ctx.stroke(path));
+  ctx.fillStyle = PAPER;
+  ctx.fill(bodyPath);
+  tailPaths.forEach(path => ctx.fill(path));
+
+  ctx.fillStyle = INK;
+  drawTextLines(ctx, lines, cx, cy, lineHeight);
+
+  return { id: layer.id, left: cx - rx, top: cy - ry, width: rx * 2, height: ry * 2, tail: { x: tailX, y: tailY } };
+};
+
+const drawSignature = (ctx: CanvasRenderingContext2D, layer: TextLayer, width: number, height: number): LayerBounds => {
+  const fontPx = layer.fontSize * width;
+  ctx.font = `${fontPx}px ${layer.fontFamily}`;
+  const textWidth = ctx.measureText(layer.text).width;
+  const cx = layer.x * width;
+  const cy = layer.y * height;
+  ctx.fillStyle = INK;
+  drawTextLines(ctx, [layer.text], cx, cy, fontPx);
+  return { id: layer.id, left: cx - textWidth / 2, top: cy - fontPx / 2, width: textWidth, height: fontPx, tail: null };
+};
+
+/**
+ * Draws the image with its text overlay onto the canvas, resizing the canvas to
+ * fit the caption band. Returns where each layer was drawn.
+ */
+export const renderOverlay = (canvas: HTMLCanvasElement, image: HTMLImageElement, overlay: TextOverlay): LayerBounds[] => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not supported in this browser.');
+  const width = image.naturalWidth;
+  const height = image.naturalHeight;
+
+  const caption = layoutCaption(ctx, overlay, width);
+  canvas.width = width;
+  canvas.height = height + caption.height;
+
+  ctx.fillStyle = PAPER;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(image, 0, 0, width, height);
+
+  if (caption.lines.length) {
+    ctx.font = `italic ${caption.fontPx}px ${overlay.captionFont}`;
+    ctx.fillStyle = INK;
+    drawTextLines(ctx, caption.lines, width / 2, height + caption.height / 2, caption.lineHeight);
+  }
+
+  return overlay.layers
+    .filter(layer => layer.text.trim())
+    .map(layer => (layer.kind === 'signature' ? drawSignature(ctx, layer, width, height) : drawBubble(ctx, layer, width, height)));
+};
+
+export const hasOverlayContent = (overlay: TextOverlay): boolean =>
+  !!overlay.caption.trim() || overlay.layers.some(layer => layer.text.trim());
+
+/**
+ * Bakes the overlay into the image and returns it as a PNG data URL.
+ */
+export const flattenOverlay = async (imageUrl: string, overlay: TextOverlay): Promise<string> => {
+  if (!hasOverlayContent(overlay)) return imageUrl;
+  const image = await loadImage(imageUrl);
+  const canvas = document.createElement('canvas');
+  renderOverlay(canvas, image, overlay);
+  return canvas.toDataURL('image/png');
+};
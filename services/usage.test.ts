@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import type { UsageRecord } from '../types';
+import type { ModelPrice, UsageSettings } from './usage';
+import { estimateCost, getBudgetWarning, getDailyTotals, getInlineImageBytes, getOutcome, toUsageCsv } from './usage';
+import { NetworkError, SafetyBlockError } from './errors';
+import { TEST_USAGE } from '../test/fakes';
+
+const prices: ModelPrice[] = [
+  { model: 'image-model', inputPerMillion: 1, outputPerMillion: 10, perRequest: 0 },
+  { model: 'flat-model', inputPerMillion: 0, outputPerMillion: 0, perRequest: 0.04 },
+];
+
+const at = (day: number, hour = 12) => new Date(2026, 2, day, hour).getTime();
+
+const call = (overrides: Partial<UsageRecord> = {}): UsageRecord => ({
+  id: 'call',
+  createdAt: at(10),
+  operation: 'cartoon',
+  providerId: 'gemini',
+  model: 'image-model',
+  inputBytes: 1000,
+  latencyMs: 2000,
+  outcome: 'success',
+  usage: TEST_USAGE,
+  ...overrides,
+});
+
+describe('estimateCost', () => {
+  it('prices the tokens by model', () => {
+    expect(estimateCost(call(), prices)).toBeCloseTo((100 * 1 + 1290 * 10) / 1_000_000);
+  });
+
+  it('charges the flat amount only for successful calls', () => {
+    expect(estimateCost(call({ model: 'flat-model', usage: null }), prices)).toBe(0.04);
+    expect(estimateCost(call({ model: 'flat-model', usage: null, outcome: 'safety_block' }), prices)).toBe(0);
+  });
+
+  it('returns null for a model without a price', () => {
+    expect(estimateCost(call({ model: 'other' }), prices)).toBeNull();
+  });
+});
+
+describe('getDailyTotals', () => {
+  it('adds up each day, newest first', () => {
+    const totals = getDailyTotals([
+      call({ createdAt: at(9), latencyMs: 1000 }),
+      call({ createdAt: at(10, 9), latencyMs: 1000, outcome: 'refusal', usage: null }),
+      call({ createdAt: at(10, 18), latencyMs: 3000, outcome: 'cancelled', usage: null }),
+      call({ createdAt: at(10, 20), model: 'other' }),
+    ], prices);
+
+    expect(totals.map(total => total.day)).toEqual(['2026-03-10', '2026-03-09']);
+    expect(totals[0]).toMatchObject({ calls: 3, failures: 1, unpriced: 1, inputBytes: 3000, averageLatencyMs: 2000, promptTokens: 100, cost: 0 });
+  });
+});
+
+describe('getBudgetWarning', () => {
+  const settings: UsageSettings = { prices, budget: 0.1, budgetPeriod: 'day' };
+  const flat = (count: number, day: number) =>
+    Array.from({ length: count }, () => call({ model: 'flat-model', usage: null, createdAt: at(day) }));
+
+  it('stays quiet under the budget, or without one', () => {
+    expect(getBudgetWarning(flat(2, 10), settings, at(10, 23))).toBeNull();
+    expect(getBudgetWarning(flat(5, 10), { ...settings, budget: null }, at(10, 23))).toBeNull();
+  });
+
+  it('asks once the period has reached the budget', () => {
+    expect(getBudgetWarning(flat(3, 10), settings, at(10, 23)))
+      .toBe('You have spent about $0.12 of your $0.10 daily budget. Generate anyway?');
+  });
+
+  it('only counts the current period', () => {
+    expect(getBudgetWarning(flat(3, 9), settings, at(10, 23))).toBeNull();
+    expect(getBudgetWarning(flat(3, 9), { ...settings, budgetPeriod: 'month' }, at(10, 23))).toContain('monthly budget');
+  });
+});
+
+describe('getOutcome', () => {
+  it('names the kind of failure', () => {
+    expect(getOutcome(new SafetyBlockError('Blocked.', 422, 'SAFETY'))).toBe('safety_block');
+    expect(getOutcome(new NetworkError('Slow.', true))).toBe('timeout');
+    expect(getOutcome(new DOMException('Aborted.', 'AbortError'))).toBe('cancelled');
+    expect(getOutcome(new Error('?'))).toBe('error');
+  });
+});
+
+describe('getInlineImageBytes', () => {
+  it('measures the decoded data', () => {
+    expect(getInlineImageBytes([{ data: btoa('abcd'), mimeType: 'image/png' }, { data: btoa('abcde'), mimeType: 'image/png' }])).toBe(9);
+  });
+});
+
+describe('toUsageCsv', () => {
+  it('writes one row per call, oldest first, quoting where needed', () => {
+    const csv = toUsageCsv([
+      call({ createdAt: Date.UTC(2026, 2, 10, 12), model: 'other', providerId: 'a,b', usage: null, outcome: 'network' }),
+      call({ createdAt: Date.UTC(2026, 2, 9, 12), latencyMs: 1234.6 }),
+    ], prices);
+
+    expect(csv.split('\r\n')).toEqual([
+      'time,operation,provider,model,input_bytes,latency_ms,outcome,prompt_tokens,output_tokens,total_tokens,estimated_cost_usd',
+      '2026-03-09T12:00:00.000Z,cartoon,gemini,image-model,1000,1235,success,100,1290,1390,0.013000',
+      '2026-03-10T12:00:00.000Z,cartoon,"a,b",other,1000,2000,network,,,,',
+      '',
+    ]);
+  });
+});
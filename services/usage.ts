@@ -0,0 +1,181 @@
+import type { InlineImage, UsageOutcome, UsageRecord } from '../types';
+import type { MessageKey } from '../locales/en';
+import { InvalidImageError, NetworkError, RateLimitError, RefusalError, SafetyBlockError, isAbortError } from './errors';
+import { localize } from './i18n';
+
+// US dollars per million tokens, plus a flat amount per successful call for
+// backends that bill by the image.
+export interface ModelPrice {
+  model: string;
+  inputPerMillion: number;
+  outputPerMillion: number;
+  perRequest: number;
+}
+
+export type BudgetPeriod = 'day' | 'month';
+
+export interface UsageSettings {
+  prices: ModelPrice[];
+  // Spending, in US dollars, past which generating asks for confirmation first.
+  budget: number | null;
+  budgetPeriod: BudgetPeriod;
+}
+
+// Google's list prices when this was written; edit them on the dashboard when they change.
+export const DEFAULT_PRICES: ModelPrice[] = [
+  { model: 'gemini-2.5-flash-image', inputPerMillion: 0.3, outputPerMillion: 30, perRequest: 0 },
+  { model: 'gemini-3-pro-image-preview', inputPerMillion: 2, outputPerMillion: 120, perRequest: 0 },
+  { model: 'gemini-2.5-flash', inputPerMillion: 0.3, outputPerMillion: 2.5, perRequest: 0 },
+  { model: 'mock-placeholder', inputPerMillion: 0, outputPerMillion: 0, perRequest: 0 },
+];
+
+export const DEFAULT_USAGE_SETTINGS: UsageSettings = { prices: DEFAULT_PRICES, budget: null, budgetPeriod: 'month' };
+
+export const OUTCOME_LABELS: Record<UsageOutcome, MessageKey> = {
+  success: 'outcome.success',
+  cancelled: 'outcome.cancelled',
+  safety_block: 'outcome.safetyBlock',
+  refusal: 'outcome.refusal',
+  rate_limited: 'outcome.rateLimited',
+  invalid_image: 'outcome.invalidImage',
+  timeout: 'outcome.timeout',
+  network: 'outcome.network',
+  error: 'outcome.error',
+};
+
+export const getOutcome = (e: unknown): UsageOutcome => {
+  if (isAbortError(e)) return 'cancelled';
+  if (e instanceof SafetyBlockError) return 'safety_block';
+  if (e instanceof RefusalError) return 'refusal';
+  if (e instanceof RateLimitError) return 'rate_limited';
+  if (e instanceof InvalidImageError) return 'invalid_image';
+  if (e instanceof NetworkError) return e.timedOut ? 'timeout' : 'network';
+  return 'error';
+};
+
+// The decoded size of base64 images, without reading them.
+export const getInlineImageBytes = (images: InlineImage[]): number =>
+  images.reduce((total, { data }) => total + Math.floor((data.length * 3) / 4) - (data.endsWith('==') ? 2 : data.endsWith('=') ? 1 : 0), 0);
+
+/**
+ * What a call cost in US dollars, or null when its model has no price.
+ */
+export const estimateCost = (record: UsageRecord, prices: ModelPrice[]): number | null => {
+  const price = prices.find(p => p.model === record.model);
+  if (!price) return null;
+  const tokens = record.usage
+    ? (record.usage.promptTokens * price.inputPerMillion + record.usage.outputTokens * price.outputPerMillion) / 1_000_000
+    : 0;
+  return tokens + (record.outcome === 'success' ? price.perRequest : 0);
+};
+
+// The local calendar day, as YYYY-MM-DD.
+export const getDayKey = (time: number): string => {
+  const date = new Date(time);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+export interface DailyTotal {
+  day: string;
+  calls: number;
+  failures: number;
+  promptTokens: number;
+  outputTokens: number;
+  inputBytes: number;
+  averageLatencyMs: number;
+  cost: number;
+  // Calls whose model has no price, so `cost` leaves them out.
+  unpriced: number;
+}
+
+/**
+ * Totals per local day, newest first. Cancelled calls count as calls but not failures.
+ */
+export const getDailyTotals = (records: UsageRecord[], prices: ModelPrice[]): DailyTotal[] => {
+  const days = new Map<string, DailyTotal & { latency: number }>();
+  for (const record of records) {
+    const day = getDayKey(record.createdAt);
+    const total = days.get(day) ?? {
+      day, calls: 0, failures: 0, promptTokens: 0, outputTokens: 0, inputBytes: 0, averageLatencyMs: 0, cost: 0, unpriced: 0, latency: 0,
+    };
+    const cost = estimateCost(record, prices);
+    total.calls += 1;
+    if (record.outcome !== 'success' && record.outcome !== 'cancelled') total.failures += 1;
+    total.promptTokens += record.usage?.promptTokens ?? 0;
+    total.outputTokens += record.usage?.outputTokens ?? 0;
+    total.inputBytes += record.inputBytes;
+    total.latency += record.latencyMs;
+    if (cost === null) total.unpriced += 1;
+    else total.cost += cost;
+    days.set(day, total);
+  }
+  return Array.from(days.values())
+    .map(({ latency, ...total }) => ({ ...total, averageLatencyMs: latency / total.calls }))
+    .sort((a, b) => b.day.localeCompare(a.day));
+};
+
+// When the budget period containing `now` began, in local time.
+export const getPeriodStart = (period: BudgetPeriod, now: number): number => {
+  const date = new Date(now);
+  return period === 'day'
+    ? new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime()
+    : new Date(date.getFullYear(), date.getMonth(), 1).getTime();
+};
+
+export const getPeriodSpend = (records: UsageRecord[], settings: UsageSettings, now: number): number => {
+  const start = getPeriodStart(settings.budgetPeriod, now);
+  return records
+    .filter(record => record.createdAt >= start)
+    .reduce((total, record) => total + (estimateCost(record, settings.prices) ?? 0), 0);
+};
+
+export const formatCost = (usd: number): string =>
+  `$${usd > 0 && usd < 0.01 ? usd.toFixed(4) : usd.toFixed(2)}`;
+
+/**
+ * The question to ask before generating once this period's spending has
+ * reached the budget, or null when there is no budget or it is not reached.
+ */
+export const getBudgetWarning = (records: UsageRecord[], settings: UsageSettings, now: number): string | null => {
+  if (settings.budget === null) return null;
+  const spent = getPeriodSpend(records, settings, now);
+  if (spent < settings.budget) return null;
+  return localize(settings.budgetPeriod === 'day' ? 'usage.budgetWarningDay' : 'usage.budgetWarningMonth', {
+    spent: formatCost(spent),
+    budget: formatCost(settings.budget),
+  });
+};
+
+const CSV_COLUMNS = [
+  'time', 'operation', 'provider', 'model', 'input_bytes', 'latency_ms', 'outcome',
+  'prompt_tokens', 'output_tokens', 'total_tokens', 'estimated_cost_usd',
+];
+
+const toCsvField = (value: string | number): string => {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * The log as CSV, one row per call, oldest first. The cost is left empty for
+ * models without a price.
+ */
+export const toUsageCsv = (records: UsageRecord[], prices: ModelPrice[]): string => {
+  const rows = [...records].sort((a, b) => a.createdAt - b.createdAt).map((record) => {
+    const cost = estimateCost(record, prices);
+    return [
+      new Date(record.createdAt).toISOString(),
+      record.operation,
+      record.providerId,
+      record.model,
+      record.inputBytes,
+      Math.round(record.latencyMs),
+      record.outcome,
+      record.usage?.promptTokens ?? '',
+      record.usage?.outputTokens ?? '',
+      record.usage?.totalTokens ?? '',
+      cost === null ? '' : cost.toFixed(6),
+    ].map(toCsvField).join(',');
+  });
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+};
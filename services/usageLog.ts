@@ -0,0 +1,53 @@
+import type { UsageRecord } from '../types';
+import { createId } from './historyStore';
+import { clearUsageRecords, listUsageRecords, saveUsageRecord } from './usageStore';
+
+/**
+ * The calls behind the usage dashboard. They are recorded by the generation
+ * service, outside React, so the log keeps its own listeners; subscribe() plus
+ * getSnapshot() plug into useSyncExternalStore.
+ */
+export const createUsageLog = () => {
+  let records: UsageRecord[] = [];
+  let loading: Promise<void> | null = null;
+  const listeners = new Set<() => void>();
+
+  const notify = () => listeners.forEach(listener => listener());
+
+  // Reads the stored log once. Calls recorded before it arrives are kept.
+  const load = (): Promise<void> => {
+    loading ??= listUsageRecords().then((stored) => {
+      const ids = new Set(stored.map(record => record.id));
+      records = [...stored, ...records.filter(record => !ids.has(record.id))];
+      notify();
+    }).catch((e) => {
+      loading = null;
+      throw e;
+    });
+    return loading;
+  };
+
+  const record = async (entry: Omit<UsageRecord, 'id'>): Promise<void> => {
+    const saved: UsageRecord = { id: createId(), ...entry };
+    records = [...records, saved];
+    notify();
+    await saveUsageRecord(saved);
+  };
+
+  const clear = async (): Promise<void> => {
+    await clearUsageRecords();
+    records = [];
+    notify();
+  };
+
+  const subscribe = (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return { load, record, clear, subscribe, getSnapshot: () => records };
+};
+
+export const usageLog = createUsageLog();
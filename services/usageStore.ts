@@ -0,0 +1,25 @@
+import type { UsageRecord } from '../types';
+import { USAGE_STORE, openDb, requestToPromise, transactionDone } from './db';
+
+/**
+ * Returns every recorded call, oldest first.
+ */
+export const listUsageRecords = async (): Promise<UsageRecord[]> => {
+  const db = await openDb();
+  const store = db.transaction(USAGE_STORE, 'readonly').objectStore(USAGE_STORE);
+  return requestToPromise<UsageRecord[]>(store.index('createdAt').getAll());
+};
+
+export const saveUsageRecord = async (record: UsageRecord): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(USAGE_STORE, 'readwrite');
+  tx.objectStore(USAGE_STORE).put(record);
+  await transactionDone(tx);
+};
+
+export const clearUsageRecords = async (): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(USAGE_STORE, 'readwrite');
+  tx.objectStore(USAGE_STORE).clear();
+  await transactionDone(tx);
+};
@@ -0,0 +1,55 @@
+import { vi } from 'vitest';
+import type { GenerateContentResponse, Part } from '@google/genai';
+import type { InlineImage, TokenUsage } from '../types';
+import type { GenAIClient } from '../server/gemini';
+import type { ImageProvider, ModelOption } from '../services/providers/types';
+import { bytesToBase64, encodeRgbPng } from '../utils/png';
+
+// A 2×2 PNG of one colour, so tests can tell images apart by their data.
+export const createTestImage = (rgb: [number, number, number] = [255, 0, 0]): InlineImage => {
+  const pixels = new Uint8Array(2 * 2 * 3);
+  for (let i = 0; i < 4; i++) pixels.set(rgb, i * 3);
+  return { data: bytesToBase64(encodeRgbPng(2, 2, pixels)), mimeType: 'image/png' };
+};
+
+// What the fake provider reports for each image.
+export const TEST_USAGE: TokenUsage = { promptTokens: 100, outputTokens: 1290, totalTokens: 1390 };
+
+export const toDataUrl = (image: InlineImage) => `data:${image.mimeType};base64,${image.data}`;
+
+/**
+ * An image provider whose calls are recorded and answer with test images.
+ * Override a method's mock to make it fail or return something else.
+ */
+export const createFakeProvider = (id = 'fake') => ({
+  id,
+  label: 'Fake provider',
+  models: [{ id: 'fake-model', label: 'Fake model' }] as ModelOption[],
+  defaultModel: 'fake-model',
+  textModel: 'fake-text-model',
+  checkStatus: vi.fn<ImageProvider['checkStatus']>(async () => ({ available: true })),
+  generateCartoon: vi.fn<ImageProvider['generateCartoon']>(async () => ({ image: createTestImage([255, 0, 0]), usage: TEST_USAGE })),
+  editImage: vi.fn<ImageProvider['editImage']>(async () => ({ image: createTestImage([0, 0, 255]), usage: TEST_USAGE })),
+  writeGags: vi.fn<ImageProvider['writeGags']>(async ({ count }) => ({
+    concepts: Array.from({ length: count }, (_, i) => ({ scene: `Scene ${i + 1}`, caption: `Caption ${i + 1}` })),
+  })),
+}) satisfies ImageProvider;
+
+/**
+ * A stand-in for the GenAI client that answers each generateContent call with
+ * the next of `responses`, or throws it when it is an Error.
+ */
+export const createFakeGenAI = (...responses: (Partial<GenerateContentResponse> | Error)[]) => {
+  const generateContent = vi.fn(async () => {
+    const next = responses.shift();
+    if (!next) throw new Error('The fake GenAI client has no more responses.');
+    if (next instanceof Error) throw next;
+    return next as GenerateContentResponse;
+  });
+  return { client: { models: { generateContent } } as unknown as GenAIClient, generateContent };
+};
+
+// A response whose first candidate holds these parts.
+export const answerWith = (...parts: Part[]): Partial<GenerateContentResponse> => ({
+  candidates: [{ content: { role: 'model', parts } }],
+});
@@ -0,0 +1,16 @@
+import '@testing-library/jest-dom/vitest';
+import 'fake-indexeddb/auto';
+import { afterEach } from 'vitest';
+import { cleanup } from '@testing-library/react';
+
+// jsdom has no object URLs; the app only needs them to be unique strings.
+if (typeof window !== 'undefined' && !URL.createObjectURL) {
+  let next = 0;
+  URL.createObjectURL = () => `blob:test/${next++}`;
+  URL.revokeObjectURL = () => {};
+}
+
+afterEach(() => {
+  cleanup();
+  if (typeof localStorage !== 'undefined') localStorage.clear();
+});
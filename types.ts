@@ -1,3 +1,539 @@
-
-export type ActiveTab = 'cartoon' | 'edit';
+export type ActiveTab = 'cartoon' | 'edit' | 'restyle' | 'gallery' | 'team' | 'verify' | 'usage';
 export type StyleType = 'magazine' | 'cartoonist';
+export type ColorOption = 'color' | 'black_and_white';
+
+// A language the interface is translated into, and the one captions and drawn text are written in.
+export type Language = 'en' | 'fr' | 'de';
+
+// What a style looks like, spelled out for the prompt. Empty fields are left out.
+export interface StyleTraits {
+  lineWeight: string;
+  palette: string;
+  composition: string;
+  humour: string;
+}
+
+// An entry in the style library: a built-in preset or one the user created.
+export interface StyleDefinition {
+  id: string;
+  name: string;
+  styleType: StyleType;
+  traits: StyleTraits;
+  // Example artwork sent to the model alongside the prompt.
+  referenceImages: Blob[];
+  tags: string[];
+  builtIn?: boolean;
+}
+
+// Which image provider and model to use for a request.
+export interface ProviderSelection {
+  providerId: string;
+  model: string;
+}
+
+// A reference picture of a character, e.g. "front", "side" or "angry".
+export interface CharacterImage {
+  image: Blob;
+  label: string;
+}
+
+// A recurring character from the roster that can be cast into scenes.
+export interface Character {
+  id: string;
+  name: string;
+  // Appearance and personality notes sent with every scene the character is in.
+  description: string;
+  images: CharacterImage[];
+  createdAt: number;
+}
+
+export type CreationKind = 'cartoon' | 'edit' | 'strip' | 'restyle';
+
+export type CartoonMode = 'single' | 'strip' | 'animation';
+export type StripLayout = 'horizontal' | 'grid' | 'vertical';
+
+// One panel of a comic strip script.
+export interface PanelScript {
+  action: string;
+  // Optional line spoken in the panel.
+  dialogue: string;
+}
+
+// One keyframe of an animated toon.
+export interface KeyframeScript {
+  action: string;
+  // How long the frame stays on screen.
+  durationMs: number;
+}
+
+// The file an animated toon is exported as.
+export type AnimationFormat = 'gif' | 'webp' | 'webm';
+
+// Whether the signature is requested from the model or drawn by the text overlay.
+export type SignatureMode = 'model' | 'overlay';
+
+// The shape of a cartoon as width:height, e.g. '4:5' for an Instagram portrait.
+export type AspectRatio = '1:1' | '4:5' | '3:4' | '2:3' | '9:16' | '5:4' | '4:3' | '3:2' | '16:9' | '21:9';
+
+// The longest side of a cartoon: 1K is 1024 px, 2K 2048 px and 4K 4096 px.
+export type ImageSize = '1K' | '2K' | '4K';
+
+// How an image the model drew in another shape is brought to the aspect ratio.
+export type AspectFit = 'crop' | 'pad';
+
+// The aspect ratio and resolution asked for; null leaves it to the model.
+export interface OutputFormat {
+  aspectRatio: AspectRatio | null;
+  imageSize: ImageSize | null;
+  fit: AspectFit;
+}
+
+// Everything needed to reproduce a cartoon generation.
+export interface CartoonParams {
+  description: string;
+  styleType: StyleType;
+  styleName: string;
+  // The full style as it was when generated; absent on entries saved before the style library.
+  style?: StyleDefinition;
+  signature: string;
+  // Absent on entries saved before the overlay existed, which used 'model'.
+  signatureMode?: SignatureMode;
+  colorOption: ColorOption;
+  characterImage: Blob | null;
+  // Roster characters cast into the scene, as they were when generated.
+  characters?: Character[];
+  // The caption chosen with a gag concept, typeset beneath the cartoon.
+  caption?: string;
+  // The prompt template it was generated with; absent means the default one.
+  template?: string;
+  // Absent on entries saved before output formats, which were left to the model.
+  output?: OutputFormat;
+  // The language of any text drawn in the cartoon; absent on entries saved before it could be chosen, which were English.
+  language?: Language;
+}
+
+// A saved combination of generator settings. The prompt template may contain
+// {placeholder} variables, which are filled in before each generation.
+export interface Preset {
+  id: string;
+  name: string;
+  styleType: StyleType;
+  styleId: string;
+  colorOption: ColorOption;
+  signature: string;
+  signatureMode: SignatureMode;
+  promptTemplate: string;
+  // Absent on presets saved before output formats.
+  output?: OutputFormat;
+  // Absent on presets saved before output languages.
+  language?: Language;
+  createdAt: number;
+}
+
+// A user-written template for the single-cartoon prompt. See
+// services/promptTemplate.ts for the syntax.
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  text: string;
+}
+
+// A cartoon idea from the gag writer: what to draw and the line printed under it.
+export interface GagConcept {
+  scene: string;
+  caption: string;
+}
+
+// Everything needed to reproduce an image edit.
+export interface EditParams {
+  editPrompt: string;
+  // The image the edit was applied to: the upload or an earlier edit.
+  sourceImage: Blob;
+  // Identifies the upload this edit descends from; shared by every edit in a tree.
+  rootId?: string;
+  // The edit this one was applied on top of, or rootId for the upload itself.
+  parentId?: string;
+  // Limits the edit to part of the image.
+  mask?: EditMask;
+}
+
+// Everything needed to redo a style transfer.
+export interface RestyleParams {
+  // The photo that was redrawn.
+  sourceImage: Blob;
+  styleType: StyleType;
+  styleName: string;
+  style: StyleDefinition;
+  colorOption: ColorOption;
+  // 0–100: how closely the cartoon keeps the photo's composition.
+  strength: number;
+}
+
+// A black-and-white PNG the size of the source image: white pixels may change,
+// black pixels are composited back from the source after the edit.
+export interface EditMask {
+  image: Blob;
+  // Blur radius in source pixels, applied only inside the white area.
+  feather: number;
+}
+
+// A painted mask kept for reuse across edits of the same upload.
+export interface SavedMask {
+  id: string;
+  // The edit tree (upload) the mask was painted for.
+  rootId: string;
+  name: string;
+  // The painted strokes; opaque pixels are part of the mask.
+  image: Blob;
+  inverted: boolean;
+  feather: number;
+  createdAt: number;
+}
+
+// Everything needed to reproduce a multi-panel strip.
+export interface StripParams {
+  panels: PanelScript[];
+  layout: StripLayout;
+  styleType: StyleType;
+  styleName: string;
+  // The full style as it was when generated; absent on entries saved before the style library.
+  style?: StyleDefinition;
+  signature: string;
+  signatureMode?: SignatureMode;
+  colorOption: ColorOption;
+  characterImage: Blob | null;
+  // Roster characters cast into the scene, as they were when generated.
+  characters?: Character[];
+  // The language of the dialogue and any other drawn text; absent means English.
+  language?: Language;
+}
+
+// Everything needed to redraw an animated toon's keyframes.
+export interface AnimationParams {
+  keyframes: KeyframeScript[];
+  // Play the animation again from the start when it ends.
+  loop: boolean;
+  styleType: StyleType;
+  styleName: string;
+  style: StyleDefinition;
+  // Always drawn by the model, as animations have no text overlay.
+  signature: string;
+  colorOption: ColorOption;
+  characterImage: Blob | null;
+  characters: Character[];
+  language: Language;
+}
+
+export type TextLayerKind = 'speech' | 'thought' | 'signature';
+
+// A piece of text drawn over a cartoon. Positions are fractions of the image size.
+export interface TextLayer {
+  id: string;
+  kind: TextLayerKind;
+  text: string;
+  x: number;
+  y: number;
+  // Where the bubble's tail points; unused for signatures.
+  tailX: number;
+  tailY: number;
+  fontFamily: string;
+  // Font size as a fraction of the image width, so layers scale with the image.
+  fontSize: number;
+}
+
+// Editable text drawn on top of a generated image and flattened on download.
+export interface TextOverlay {
+  // Printed below the panel, New Yorker style; empty for none.
+  caption: string;
+  captionFont: string;
+  layers: TextLayer[];
+}
+
+// Where an image came from, embedded in exported PNGs and checked by the Verify tab.
+export interface ProvenanceManifest {
+  // Also carried by the invisible watermark, so a file can be matched to its manifest.
+  id: string;
+  generator: string;
+  operation: CreationKind;
+  providerId: string | null;
+  model: string | null;
+  // SHA-256 of the prompt as written, in hex; the prompt itself stays private.
+  promptHash: string;
+  // SHA-256 of each image the model was given, such as the photo being edited.
+  sourceImageHashes: string[];
+  // Manifest IDs of the earlier versions this image was edited from, oldest first.
+  editChain: string[];
+  // Whether the visible badge was stamped on.
+  badge: boolean;
+  createdAt: number;
+}
+
+interface CreationBase {
+  id: string;
+  image: Blob;
+  createdAt: number;
+  // Text layers kept separate from the image so they stay editable.
+  overlay?: TextOverlay;
+  favorite?: boolean;
+  // Absent on entries saved before provider selection existed.
+  provider?: ProviderSelection;
+  // Absent on entries saved before provenance was recorded.
+  provenance?: ProvenanceManifest;
+}
+
+export interface CartoonCreation extends CreationBase {
+  kind: 'cartoon';
+  params: CartoonParams;
+}
+
+export interface EditCreation extends CreationBase {
+  kind: 'edit';
+  params: EditParams;
+}
+
+export interface StripCreation extends CreationBase {
+  kind: 'strip';
+  params: StripParams;
+  // The individual panels, so one can be regenerated without redoing the rest.
+  panelImages: Blob[];
+}
+
+export interface RestyleCreation extends CreationBase {
+  kind: 'restyle';
+  params: RestyleParams;
+}
+
+export type Creation = CartoonCreation | EditCreation | StripCreation | RestyleCreation;
+
+// The generator and editor as they were when a project was saved.
+export interface SessionState {
+  activeTab: ActiveTab;
+  cartoon: {
+    mode: CartoonMode;
+    prompt: string;
+    // Values for {placeholder} variables in the prompt.
+    promptValues: Record<string, string>;
+    caption: string;
+    styleType: StyleType;
+    styleIds: Record<StyleType, string>;
+    signature: string;
+    signatureMode: SignatureMode;
+    colorOption: ColorOption;
+    output: OutputFormat;
+    language: Language;
+    characterImage: Blob | null;
+    castIds: string[];
+    overlay: TextOverlay;
+    // The saved cartoon or strip on show, if any.
+    selectedId: string | null;
+    panels: PanelScript[];
+    layout: StripLayout;
+    // Null for panels not drawn yet.
+    panelImages: (Blob | null)[];
+    keyframes: KeyframeScript[];
+    loop: boolean;
+    // Null for keyframes not drawn yet.
+    frameImages: (Blob | null)[];
+  };
+  restyle: {
+    source: Blob | null;
+    strength: number;
+    // The style transfer on show, if any.
+    selectedId: string | null;
+  };
+  editor: {
+    prompt: string;
+    // The upload the version tree grows from; it is not a creation of its own.
+    root: { id: string; image: Blob; createdAt: number } | null;
+    selectedId: string | null;
+    maskInverted: boolean;
+    maskFeather: number;
+  };
+}
+
+// Everything in a .toons project file, after migration to the current version.
+export interface Project {
+  version: number;
+  savedAt: number;
+  session: SessionState;
+  creations: Creation[];
+  // Only the user's own styles; the built-in ones ship with the app.
+  styles: StyleDefinition[];
+  characters: Character[];
+  masks: SavedMask[];
+  presets: Preset[];
+}
+
+// Which kind of request a usage record is for.
+export type UsageOperation = 'cartoon' | 'panel' | 'frame' | 'restyle' | 'edit' | 'gags';
+
+// How a request ended: 'success', 'cancelled', or the kind of failure.
+export type UsageOutcome =
+  | 'success'
+  | 'cancelled'
+  | 'safety_block'
+  | 'refusal'
+  | 'rate_limited'
+  | 'invalid_image'
+  | 'timeout'
+  | 'network'
+  | 'error';
+
+// One call to an image or text model, as recorded for the usage dashboard.
+export interface UsageRecord {
+  id: string;
+  createdAt: number;
+  operation: UsageOperation;
+  providerId: string;
+  model: string;
+  // Decoded size of the images sent with the request.
+  inputBytes: number;
+  latencyMs: number;
+  outcome: UsageOutcome;
+  // Null when the request failed or the provider does not report tokens.
+  usage: TokenUsage | null;
+}
+
+// Wire format shared by the browser client and the API server in server/.
+export interface InlineImage {
+  data: string;
+  mimeType: string;
+}
+
+export interface CartoonRequestBody {
+  model?: string;
+  prompt: string;
+  images?: InlineImage[];
+  // Left to the model when absent. Only some models accept imageSize.
+  aspectRatio?: AspectRatio;
+  imageSize?: ImageSize;
+}
+
+export interface EditRequestBody {
+  model?: string;
+  prompt: string;
+  image: InlineImage;
+  // Sent after the image; white marks the area the model may change.
+  mask?: InlineImage;
+}
+
+// Token counts from the model's usage metadata.
+export interface TokenUsage {
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+export interface ImageResponseBody {
+  image: InlineImage;
+  usage?: TokenUsage;
+}
+
+export interface GagRequestBody {
+  prompt: string;
+  // How many concepts to ask for.
+  count?: number;
+}
+
+export interface GagResponseBody {
+  concepts: GagConcept[];
+  usage?: TokenUsage;
+}
+
+export interface HealthResponseBody {
+  ok: boolean;
+  // False when the server has no GEMINI_API_KEY.
+  configured: boolean;
+  models: string[];
+}
+
+// The team gallery service in server/gallery.ts, where finished toons are reviewed.
+export type TeamToonStatus = 'draft' | 'approved' | 'published';
+
+// What a toon was made from, recorded when it is published.
+export interface TeamToonMetadata {
+  prompt: string;
+  style: string | null;
+  model: string | null;
+  // When the toon was generated, not when it was published.
+  createdAt: number;
+}
+
+export interface TeamToon {
+  id: string;
+  title: string;
+  author: string;
+  kind: CreationKind;
+  status: TeamToonStatus;
+  metadata: TeamToonMetadata;
+  votes: number;
+  // Whether the voter named in the request has upvoted it.
+  voted: boolean;
+  commentCount: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface TeamComment {
+  id: string;
+  // Null for a top-level comment, otherwise the comment it replies to.
+  parentId: string | null;
+  author: string;
+  body: string;
+  createdAt: number;
+}
+
+export interface TeamToonListResponseBody {
+  toons: TeamToon[];
+}
+
+export interface TeamToonResponseBody {
+  toon: TeamToon;
+  // Oldest first; replies point at their parent.
+  comments: TeamComment[];
+}
+
+export interface PublishToonRequestBody {
+  title: string;
+  author: string;
+  kind: CreationKind;
+  metadata: TeamToonMetadata;
+  image: InlineImage;
+}
+
+export interface ToonStatusRequestBody {
+  status: TeamToonStatus;
+}
+
+export interface CommentRequestBody {
+  author: string;
+  body: string;
+  parentId?: string | null;
+}
+
+export interface VoteRequestBody {
+  voter: string;
+  vote: boolean;
+}
+
+// Why a request failed, so the client can say what to do about it.
+export type ErrorCode =
+  | 'safety_block'
+  | 'refusal'
+  | 'rate_limited'
+  | 'invalid_image'
+  | 'no_image'
+  | 'timeout'
+  | 'upstream_unavailable'
+  | 'bad_request';
+
+export interface ErrorResponseBody {
+  error: {
+    message: string;
+    code?: ErrorCode;
+    // For safety blocks: the block or finish reason the model reported.
+    reason?: string;
+    // For refusals: what the model said instead of drawing.
+    modelText?: string;
+  };
+}
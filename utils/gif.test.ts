@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { buildPalette, encodeGif, lzwEncode } from './gif';
+
+// A plain LZW decoder, written from the GIF specification, to check the encoder against.
+const lzwDecode = (data: Uint8Array, minCodeSize: number): number[] => {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  let table: number[][] = [];
+  let codeSize = minCodeSize + 1;
+  let previous: number[] | null = null;
+  const out: number[] = [];
+  let bitOffset = 0;
+
+  const reset = () => {
+    table = Array.from({ length: endCode + 1 }, (_, i) => [i]);
+    codeSize = minCodeSize + 1;
+    previous = null;
+  };
+  reset();
+
+  while (bitOffset + codeSize <= data.length * 8) {
+    let code = 0;
+    for (let i = 0; i < codeSize; i++, bitOffset++) {
+      code |= ((data[bitOffset >> 3] >> (bitOffset & 7)) & 1) << i;
+    }
+    if (code === clearCode) {
+      reset();
+      continue;
+    }
+    if (code === endCode) break;
+    let entry: number[];
+    if (code < table.length) entry = table[code];
+    else if (previous && code === table.length) entry = [...previous, previous[0]];
+    else throw new Error(`Bad code ${code}.`);
+    out.push(...entry);
+    if (previous && table.length < 4096) {
+      table.push([...previous, entry[0]]);
+      if (table.length === 1 << codeSize && codeSize < 12) codeSize++;
+    }
+    previous = entry;
+  }
+  return out;
+};
+
+// Joins the image data sub-blocks that start at `offset`.
+const readSubBlocks = (bytes: Uint8Array, offset: number): { data: Uint8Array; end: number } => {
+  const parts: number[] = [];
+  while (bytes[offset] !== 0) {
+    parts.push(...bytes.subarray(offset + 1, offset + 1 + bytes[offset]));
+    offset += bytes[offset] + 1;
+  }
+  return { data: Uint8Array.from(parts), end: offset + 1 };
+};
+
+// Reads back the global palette and each frame's delay and palette indices.
+const readGif = (bytes: Uint8Array) => {
+  const header = String.fromCharCode(...bytes.subarray(0, 6));
+  const width = bytes[6] | (bytes[7] << 8);
+  const height = bytes[8] | (bytes[9] << 8);
+  const tableSize = 1 << ((bytes[10] & 7) + 1);
+  const palette = bytes.subarray(13, 13 + tableSize * 3);
+  const frames: { delay: number; indices: number[] }[] = [];
+  let loops = false;
+  let delay = 0;
+  let offset = 13 + tableSize * 3;
+  while (bytes[offset] !== 0x3b) {
+    if (bytes[offset] === 0x21) {
+      const label = bytes[offset + 1];
+      if (label === 0xf9) delay = bytes[offset + 4] | (bytes[offset + 5] << 8);
+      if (label === 0xff) loops = String.fromCharCode(...bytes.subarray(offset + 3, offset + 14)) === 'NETSCAPE2.0';
+      offset = readSubBlocks(bytes, offset + 2).end;
+    } else if (bytes[offset] === 0x2c) {
+      const minCodeSize = bytes[offset + 10];
+      const { data, end } = readSubBlocks(bytes, offset + 11);
+      frames.push({ delay, indices: lzwDecode(data, minCodeSize) });
+      offset = end;
+    } else {
+      throw new Error(`Unexpected byte ${bytes[offset]} at ${offset}.`);
+    }
+  }
+  return { header, width, height, palette, frames, loops };
+};
+
+const solid = (width: number, height: number, rgb: number[]) => {
+  const rgba = new Uint8Array(width * height * 4);
+  for (let i = 0; i < rgba.length; i += 4) rgba.set([...rgb, 255], i);
+  return rgba;
+};
+
+describe('lzwEncode', () => {
+  it('round-trips through a decoder, across table resets', () => {
+    // Pseudo-random indices fill the 4096-entry table several times over.
+    let seed = 7;
+    const indices = Uint8Array.from({ length: 20000 }, () => {
+      seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+      return seed % 16;
+    });
+    expect(lzwDecode(lzwEncode(indices, 4), 4)).toEqual(Array.from(indices));
+  });
+
+  it('compresses runs', () => {
+    const indices = new Uint8Array(10000);
+    expect(lzwEncode(indices, 2).length).toBeLessThan(300);
+    expect(lzwDecode(lzwEncode(indices, 2), 2)).toEqual(Array.from(indices));
+  });
+});
+
+describe('buildPalette', () => {
+  it('keeps the colours of flat artwork exactly', () => {
+    const palette = buildPalette([{ rgba: solid(2, 2, [250, 10, 20]), durationMs: 100 }, { rgba: solid(2, 1, [0, 0, 0]), durationMs: 100 }]);
+    expect(Array.from(palette)).toEqual([250, 10, 20, 0, 0, 0]);
+  });
+});
+
+describe('encodeGif', () => {
+  const width = 3;
+  const height = 2;
+  const red = solid(width, height, [255, 0, 0]);
+  const split = solid(width, height, [0, 0, 255]);
+  split.set([255, 255, 255, 255], 0);
+
+  it('writes every frame with its delay, on a shared palette', () => {
+    const gif = readGif(encodeGif(width, height, [{ rgba: red, durationMs: 500 }, { rgba: split, durationMs: 1234 }], true));
+    expect(gif).toMatchObject({ header: 'GIF89a', width, height, loops: true });
+    expect(gif.frames.map(frame => frame.delay)).toEqual([50, 123]);
+
+    const colorOf = (index: number) => Array.from(gif.palette.subarray(index * 3, index * 3 + 3));
+    expect(gif.frames[0].indices.map(colorOf)).toEqual(Array(6).fill([255, 0, 0]));
+    expect(gif.frames[1].indices.map(colorOf)).toEqual([[255, 255, 255], ...Array(5).fill([0, 0, 255])]);
+  });
+
+  it('leaves out the loop extension to play once', () => {
+    expect(readGif(encodeGif(width, height, [{ rgba: red, durationMs: 100 }], false)).loops).toBe(false);
+  });
+});
@@ -0,0 +1,187 @@
+// Minimal animated GIF (GIF89a) writer for frames drawn on a canvas.
+
+import { concatBytes } from './png';
+
+export interface GifFrame {
+  // RGBA pixels, width * height * 4 bytes, row-major, as in ImageData.
+  rgba: Uint8ClampedArray | Uint8Array;
+  durationMs: number;
+}
+
+const MAX_COLORS = 256;
+const MAX_CODE = 4096;
+
+// Colours are grouped by their top five bits per channel while building the palette.
+const colorKey = (r: number, g: number, b: number) => ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+
+/**
+ * One palette shared by every frame: the 256 most common colour groups, each
+ * the average of its pixels. Cartoons are mostly flat colour, so this keeps
+ * the fills exact and loses only rare anti-aliasing shades. Fully transparent
+ * pixels are left out, as frames are drawn on an opaque background.
+ */
+export const buildPalette = (frames: GifFrame[]): Uint8Array => {
+  const counts = new Uint32Array(1 << 15);
+  const sums = new Float64Array((1 << 15) * 3);
+  for (const { rgba } of frames) {
+    for (let i = 0; i < rgba.length; i += 4) {
+      if (rgba[i + 3] === 0) continue;
+      const key = colorKey(rgba[i], rgba[i + 1], rgba[i + 2]);
+      counts[key]++;
+      sums[key * 3] += rgba[i];
+      sums[key * 3 + 1] += rgba[i + 1];
+      sums[key * 3 + 2] += rgba[i + 2];
+    }
+  }
+  const keys: number[] = [];
+  counts.forEach((count, key) => {
+    if (count > 0) keys.push(key);
+  });
+  keys.sort((a, b) => counts[b] - counts[a]);
+
+  const chosen = keys.slice(0, MAX_COLORS);
+  const palette = new Uint8Array(Math.max(chosen.length, 1) * 3);
+  chosen.forEach((key, i) => {
+    for (let c = 0; c < 3; c++) palette[i * 3 + c] = Math.round(sums[key * 3 + c] / counts[key]);
+  });
+  return palette;
+};
+
+// Maps each pixel to its nearest palette entry, remembering the answer for its colour group.
+const mapToPalette = (rgba: Uint8ClampedArray | Uint8Array, palette: Uint8Array, cache: Int16Array): Uint8Array => {
+  const indices = new Uint8Array(rgba.length / 4);
+  const colors = palette.length / 3;
+  for (let p = 0; p < indices.length; p++) {
+    const r = rgba[p * 4];
+    const g = rgba[p * 4 + 1];
+    const b = rgba[p * 4 + 2];
+    const key = colorKey(r, g, b);
+    let index = cache[key];
+    if (index < 0) {
+      let best = Infinity;
+      for (let i = 0; i < colors; i++) {
+        const dr = palette[i * 3] - r;
+        const dg = palette[i * 3 + 1] - g;
+        const db = palette[i * 3 + 2] - b;
+        const distance = dr * dr * 2 + dg * dg * 4 + db * db * 3;
+        if (distance < best) {
+          best = distance;
+          index = i;
+        }
+      }
+      cache[key] = index;
+    }
+    indices[p] = index;
+  }
+  return indices;
+};
+
+/**
+ * Compresses palette indices with GIF's variable-length LZW. The table is
+ * cleared and restarted when it reaches 4096 codes.
+ */
+export const lzwEncode = (indices: Uint8Array, minCodeSize: number): Uint8Array => {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const out: number[] = [];
+  const table = new Map<number, number>();
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let buffer = 0;
+  let bits = 0;
+
+  const write = (code: number) => {
+    buffer |= code << bits;
+    bits += codeSize;
+    while (bits >= 8) {
+      out.push(buffer & 0xff);
+      buffer >>>= 8;
+      bits -= 8;
+    }
+  };
+
+  write(clearCode);
+  if (indices.length === 0) {
+    write(endCode);
+    if (bits > 0) out.push(buffer & 0xff);
+    return Uint8Array.from(out);
+  }
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const index = indices[i];
+    const key = (prefix << 8) | index;
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    write(prefix);
+    if (nextCode < MAX_CODE) {
+      table.set(key, nextCode++);
+      // The decoder adds each entry one code later, so it widens when the next free code passes the width.
+      if (nextCode > 1 << codeSize && codeSize < 12) codeSize++;
+    } else {
+      write(clearCode);
+      table.clear();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    }
+    prefix = index;
+  }
+  write(prefix);
+  write(endCode);
+  if (bits > 0) out.push(buffer & 0xff);
+  return Uint8Array.from(out);
+};
+
+// Image data is stored as sub-blocks of at most 255 bytes, ended by an empty one.
+const toSubBlocks = (data: Uint8Array): Uint8Array => {
+  const blockCount = Math.ceil(data.length / 255);
+  const out = new Uint8Array(data.length + blockCount + 1);
+  let offset = 0;
+  for (let i = 0; i < data.length; i += 255) {
+    const block = data.subarray(i, i + 255);
+    out[offset] = block.length;
+    out.set(block, offset + 1);
+    offset += block.length + 1;
+  }
+  return out;
+};
+
+const uint16 = (value: number) => [value & 0xff, (value >> 8) & 0xff];
+
+/**
+ * Encodes frames of the same size as an animated GIF. GIF counts time in
+ * hundredths of a second, so durations are rounded to 10 ms. With `loop` the
+ * animation repeats forever; otherwise it stops on the last frame.
+ */
+export const encodeGif = (width: number, height: number, frames: GifFrame[], loop: boolean): Uint8Array => {
+  const palette = buildPalette(frames);
+  // The colour table holds a power of two entries, at least 4 so the LZW minimum code size is valid.
+  let tableBits = 2;
+  while (1 << tableBits < palette.length / 3) tableBits++;
+  const table = new Uint8Array((1 << tableBits) * 3);
+  table.set(palette);
+
+  const parts: Uint8Array[] = [
+    Uint8Array.from('GIF89a', c => c.charCodeAt(0)),
+    // Logical screen: size, then a global colour table of 2^tableBits entries.
+    new Uint8Array([...uint16(width), ...uint16(height), 0xf0 | (tableBits - 1), 0, 0]),
+    table,
+  ];
+  if (loop) {
+    // The NETSCAPE2.0 extension, with a repeat count of 0 for forever.
+    parts.push(new Uint8Array([0x21, 0xff, 11, ...Array.from('NETSCAPE2.0', c => c.charCodeAt(0)), 3, 1, 0, 0, 0]));
+  }
+
+  const cache = new Int16Array(1 << 15).fill(-1);
+  for (const frame of frames) {
+    const delay = Math.max(1, Math.round(frame.durationMs / 10));
+    parts.push(new Uint8Array([0x21, 0xf9, 4, 0, ...uint16(delay), 0, 0]));
+    parts.push(new Uint8Array([0x2c, 0, 0, 0, 0, ...uint16(width), ...uint16(height), 0]));
+    parts.push(new Uint8Array([tableBits]));
+    parts.push(toSubBlocks(lzwEncode(mapToPalette(frame.rgba, table.subarray(0, palette.length), cache), tableBits)));
+  }
+  parts.push(new Uint8Array([0x3b]));
+  return concatBytes(parts);
+};
@@ -0,0 +1,139 @@
+// Minimal PDF writer for pages of JPEG images and single-line Helvetica text.
+// Coordinates are in points (1/72 inch) from the top-left corner of the page.
+import { concatBytes } from './png';
+
+export interface PdfImage {
+  jpeg: Uint8Array;
+  pixelWidth: number;
+  pixelHeight: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PdfText {
+  text: string;
+  // The left end of the baseline.
+  x: number;
+  y: number;
+  size: number;
+}
+
+export interface PdfPage {
+  width: number;
+  height: number;
+  images: PdfImage[];
+  texts: PdfText[];
+}
+
+// Typographic characters that WinAnsiEncoding has but Latin-1 does not.
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94,
+  '–': 0x96, '—': 0x97, '…': 0x85, '€': 0x80,
+};
+
+// Helvetica's average character width, as a fraction of the font size.
+const AVERAGE_CHAR_WIDTH = 0.5;
+
+export const estimateTextWidth = (text: string, size: number): number => text.length * size * AVERAGE_CHAR_WIDTH;
+
+/**
+ * Shortens text with an ellipsis so it fits roughly within the given width.
+ */
+export const fitText = (text: string, size: number, maxWidth: number): string => {
+  const maxChars = Math.floor(maxWidth / (size * AVERAGE_CHAR_WIDTH));
+  return text.length <= maxChars ? text : `${text.slice(0, Math.max(maxChars - 1, 0)).trimEnd()}…`;
+};
+
+// A PDF string literal in WinAnsiEncoding; characters it cannot show become '?'.
+const pdfString = (text: string): string => {
+  let out = '';
+  for (const char of text) {
+    const code = WIN_ANSI_EXTRAS[char] ?? char.charCodeAt(0);
+    const byte = char.length === 1 && (code >= 0x20 && code < 0x7f || code >= 0xa0 && code <= 0xff || char in WIN_ANSI_EXTRAS) ? code : 0x3f;
+    out += byte === 0x28 || byte === 0x29 || byte === 0x5c ? `\\${String.fromCharCode(byte)}` : String.fromCharCode(byte);
+  }
+  return `(${out})`;
+};
+
+const latin1 = (text: string): Uint8Array => Uint8Array.from(text, c => c.charCodeAt(0) & 0xff);
+
+const pdfDate = (date: Date): string => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `D:${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+};
+
+const format = (value: number): string => String(Math.round(value * 100) / 100);
+
+/**
+ * Writes a PDF document with one page per entry.
+ */
+export const createPdf = (pages: PdfPage[], title: string): Uint8Array => {
+  // Object numbers: 1 catalog, 2 page tree, 3 font, 4 info, then per page the
+  // page, its content stream and its images.
+  const objects: Uint8Array[][] = [];
+  const reserve = () => objects.push([]);
+  const set = (id: number, ...parts: (string | Uint8Array)[]) => {
+    objects[id - 1] = parts.map(part => (typeof part === 'string' ? latin1(part) : part));
+  };
+  for (let i = 0; i < 4; i++) reserve();
+
+  const pageIds: number[] = [];
+  for (const page of pages) {
+    const pageId = reserve();
+    const contentId = reserve();
+    const imageIds = page.images.map(() => reserve());
+    pageIds.push(pageId);
+
+    const commands: string[] = [];
+    page.images.forEach((image, i) => {
+      const bottom = page.height - image.y - image.height;
+      commands.push(`q ${format(image.width)} 0 0 ${format(image.height)} ${format(image.x)} ${format(bottom)} cm /Im${i} Do Q`);
+      set(
+        imageIds[i],
+        `${imageIds[i]} 0 obj\n<< /Type /XObject /Subtype /Image /Width ${image.pixelWidth} /Height ${image.pixelHeight} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.jpeg.length} >>\nstream\n`,
+        image.jpeg,
+        '\nendstream\nendobj\n'
+      );
+    });
+    for (const text of page.texts) {
+      commands.push(`BT /F1 ${format(text.size)} Tf ${format(text.x)} ${format(page.height - text.y)} Td ${pdfString(text.text)} Tj ET`);
+    }
+    const content = commands.join('\n');
+    set(contentId, `${contentId} 0 obj\n<< /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj\n`);
+
+    const xObjects = imageIds.map((id, i) => `/Im${i} ${id} 0 R`).join(' ');
+    set(
+      pageId,
+      `${pageId} 0 obj\n<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${format(page.width)} ${format(page.height)}] /Contents ${contentId} 0 R /Resources << /Font << /F1 3 0 R >> /XObject << ${xObjects} >> >> >>\nendobj\n`
+    );
+  }
+
+  set(1, '1 0 obj\n<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+  set(2, `2 0 obj\n<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>\nendobj\n`);
+  set(3, '3 0 obj\n<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>\nendobj\n');
+  set(4, `4 0 obj\n<< /Title ${pdfString(title)} /Producer (ExpressToons) /CreationDate (${pdfDate(new Date())}) >>\nendobj\n`);
+
+  // The binary comment tells transfer tools the file is not plain text.
+  const header = latin1('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+  const offsets: number[] = [];
+  let offset = header.length;
+  for (const parts of objects) {
+    offsets.push(offset);
+    offset += parts.reduce((sum, part) => sum + part.length, 0);
+  }
+  const xref = [
+    'xref',
+    `0 ${objects.length + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.map(value => `${String(value).padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${objects.length + 1} /Root 1 0 R /Info 4 0 R >>`,
+    'startxref',
+    String(offset),
+    '%%EOF',
+  ].join('\n');
+
+  return concatBytes([header, ...objects.flat(), latin1(`${xref}\n`)]);
+};
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { PNG_SIGNATURE, concatBytes, encodeRgbPng, insertPngChunks, pngChunk, readPngText, textChunk } from './png';
+
+const latin1 = (text: string) => Uint8Array.from(text, c => c.charCodeAt(0));
+
+// A signature and the given chunks, with no image header: only the chunk walk is read.
+const pngOf = (...chunks: Uint8Array[]) => concatBytes([PNG_SIGNATURE, ...chunks, pngChunk('IEND', new Uint8Array(0))]);
+
+describe('readPngText', () => {
+  it('reads tEXt and iTXt chunks by keyword', () => {
+    const png = insertPngChunks(encodeRgbPng(1, 1, new Uint8Array(3)), [textChunk('Title', 'Café'), textChunk('Prompt', 'Un chat ☕')]);
+    expect(readPngText(png)).toEqual({ Title: 'Café', Prompt: 'Un chat ☕' });
+  });
+
+  it('passes over image data that only has a NUL near its end', () => {
+    const idat = new Uint8Array(500_000).fill(0x41);
+    idat[idat.length - 1] = 0;
+    expect(readPngText(pngOf(pngChunk('IDAT', idat), textChunk('Title', 'After the image')))).toEqual({ Title: 'After the image' });
+  });
+
+  it('reads long text', () => {
+    const long = 'a'.repeat(200_000);
+    expect(readPngText(pngOf(textChunk('Comment', long))).Comment).toBe(long);
+  });
+
+  it('ignores a keyword longer than 79 bytes', () => {
+    const tooLong = pngChunk('tEXt', concatBytes([latin1('k'.repeat(80)), new Uint8Array([0]), latin1('text')]));
+    expect(readPngText(pngOf(tooLong))).toEqual({});
+  });
+
+  it('returns nothing for a file that is not a PNG', () => {
+    expect(readPngText(latin1('GIF89a'))).toEqual({});
+  });
+});
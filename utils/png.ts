@@ -0,0 +1,195 @@
+// Minimal PNG writer for images built in memory, without needing a canvas.
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export const crc32 = (bytes: Uint8Array, crc = 0): number => {
+  let c = ~crc >>> 0;
+  for (let i = 0; i < bytes.length; i++) {
+    c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+  }
+  return ~c >>> 0;
+};
+
+const adler32 = (bytes: Uint8Array): number => {
+  let a = 1;
+  let b = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    a = (a + bytes[i]) % 65521;
+    b = (b + a) % 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+};
+
+// Wraps raw bytes in a zlib stream made of uncompressed ("stored") deflate blocks.
+const zlibStore = (data: Uint8Array): Uint8Array => {
+  const maxBlock = 0xffff;
+  const blockCount = Math.max(1, Math.ceil(data.length / maxBlock));
+  const out = new Uint8Array(2 + data.length + blockCount * 5 + 4);
+  const view = new DataView(out.buffer);
+  out[0] = 0x78;
+  out[1] = 0x01;
+  let offset = 2;
+  for (let i = 0; i < blockCount; i++) {
+    const block = data.subarray(i * maxBlock, (i + 1) * maxBlock);
+    out[offset] = i === blockCount - 1 ? 1 : 0;
+    view.setUint16(offset + 1, block.length, true);
+    view.setUint16(offset + 3, ~block.length & 0xffff, true);
+    out.set(block, offset + 5);
+    offset += 5 + block.length;
+  }
+  view.setUint32(offset, adler32(data));
+  return out;
+};
+
+export const pngChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+};
+
+export const PNG_SIGNATURE = new Uint8Array([137, 80, 78, 71, 13, 10, 26, 10]);
+
+export const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+/**
+ * Encodes 8-bit RGB pixels (width * height * 3 bytes, row-major) as a PNG file.
+ */
+export const encodeRgbPng = (width: number, height: number, rgb: Uint8Array): Uint8Array => {
+  const header = new Uint8Array(13);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, width);
+  headerView.setUint32(4, height);
+  header[8] = 8; // bit depth
+  header[9] = 2; // colour type: truecolour
+
+  const stride = width * 3;
+  const scanlines = new Uint8Array(height * (stride + 1));
+  for (let y = 0; y < height; y++) {
+    // Each scanline starts with filter type 0 (none).
+    scanlines.set(rgb.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  }
+
+  return concatBytes([
+    PNG_SIGNATURE,
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', zlibStore(scanlines)),
+    pngChunk('IEND', new Uint8Array(0)),
+  ]);
+};
+
+const PNG_HEADER_LENGTH = PNG_SIGNATURE.length + 12 + 13;
+
+/**
+ * A text chunk. tEXt only holds Latin-1, so anything else goes in an
+ * uncompressed UTF-8 iTXt chunk instead.
+ */
+export const textChunk = (keyword: string, text: string): Uint8Array => {
+  const latin1 = /^[\x20-\x7e\xa0-\xff\n]*$/.test(text);
+  const keywordBytes = Uint8Array.from(keyword, c => c.charCodeAt(0));
+  if (latin1) {
+    return pngChunk('tEXt', concatBytes([keywordBytes, new Uint8Array([0]), Uint8Array.from(text, c => c.charCodeAt(0))]));
+  }
+  // Keyword, then compression flag, compression method, and empty language tag and translated keyword.
+  return pngChunk('iTXt', concatBytes([keywordBytes, new Uint8Array([0, 0, 0, 0, 0]), new TextEncoder().encode(text)]));
+};
+
+// The physical pixel density, which print software reads as the image's DPI.
+export const physChunk = (dpi: number): Uint8Array => {
+  const data = new Uint8Array(9);
+  const view = new DataView(data.buffer);
+  const perMetre = Math.round(dpi / 0.0254);
+  view.setUint32(0, perMetre);
+  view.setUint32(4, perMetre);
+  data[8] = 1; // unit: metre
+  return pngChunk('pHYs', data);
+};
+
+/**
+ * Adds chunks to an existing PNG file straight after its header. A pHYs chunk
+ * replaces the one the file had, since only one is allowed.
+ */
+export const insertPngChunks = (png: Uint8Array, chunks: Uint8Array[]): Uint8Array => {
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  const chunkType = (bytes: Uint8Array, at: number) => String.fromCharCode(...bytes.subarray(at + 4, at + 8));
+  const replacesPhys = chunks.some(chunk => chunkType(chunk, 0) === 'pHYs');
+  const kept: Uint8Array[] = [];
+  let offset = PNG_HEADER_LENGTH;
+  while (offset + 12 <= png.length) {
+    const length = view.getUint32(offset);
+    const end = offset + 12 + length;
+    if (!(replacesPhys && chunkType(png, offset) === 'pHYs')) kept.push(png.subarray(offset, end));
+    offset = end;
+  }
+  return concatBytes([png.subarray(0, PNG_HEADER_LENGTH), ...chunks, ...kept]);
+};
+
+const MAX_KEYWORD_LENGTH = 79;
+
+// One character per byte, taken in steps so long runs stay within the argument limit.
+const bytesToLatin1 = (bytes: Uint8Array): string => {
+  let binary = '';
+  const step = 0x8000;
+  for (let i = 0; i < bytes.length; i += step) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + step));
+  }
+  return binary;
+};
+
+/**
+ * Reads the tEXt and uncompressed iTXt chunks of a PNG file, keyed by keyword.
+ * Returns an empty object for anything that is not a PNG.
+ */
+export const readPngText = (png: Uint8Array): Record<string, string> => {
+  const isPng = png.length > PNG_SIGNATURE.length && PNG_SIGNATURE.every((byte, i) => png[i] === byte);
+  if (!isPng) return {};
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  const text: Record<string, string> = {};
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 12 <= png.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...png.subarray(offset + 4, offset + 8));
+    if (type === 'IEND') break;
+    if (type === 'tEXt' || type === 'iTXt') {
+      const data = png.subarray(offset + 8, Math.min(offset + 8 + length, png.length));
+      // Keywords are 1 to 79 bytes, so the NUL after one is within the first 80.
+      const keywordEnd = data.subarray(0, MAX_KEYWORD_LENGTH + 1).indexOf(0);
+      if (keywordEnd > 0) {
+        const keyword = bytesToLatin1(data.subarray(0, keywordEnd));
+        if (type === 'tEXt') {
+          text[keyword] = bytesToLatin1(data.subarray(keywordEnd + 1));
+        } else if (data[keywordEnd + 1] === 0) {
+          // Skip the compression method, then the language tag and translated keyword.
+          const languageEnd = data.indexOf(0, keywordEnd + 3);
+          const translatedEnd = languageEnd < 0 ? -1 : data.indexOf(0, languageEnd + 1);
+          if (translatedEnd >= 0) text[keyword] = new TextDecoder().decode(data.subarray(translatedEnd + 1));
+        }
+      }
+    }
+    offset += 12 + length;
+  }
+  return text;
+};
+
+export const bytesToBase64 = (bytes: Uint8Array): string => btoa(bytesToLatin1(bytes));
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { embedWatermark, readWatermark } from './watermark';
+
+const id = Uint8Array.from([0x12, 0x34, 0x56, 0x78, 0x9a, 0xbc, 0xde, 0xf0]);
+
+// A gradient with some texture, so no two neighbouring pixels are alike.
+const picture = (width: number, height: number) => {
+  const rgba = new Uint8Array(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    rgba.set([(i * 7) & 0xff, (i * 13) & 0xff, (i * 29) & 0xff, 255], i * 4);
+  }
+  return rgba;
+};
+
+// Copies a rectangle out of an RGBA image.
+const crop = (rgba: Uint8Array, width: number, left: number, top: number, cropWidth: number, cropHeight: number) => {
+  const out = new Uint8Array(cropWidth * cropHeight * 4);
+  for (let y = 0; y < cropHeight; y++) {
+    out.set(rgba.subarray(((top + y) * width + left) * 4, ((top + y) * width + left + cropWidth) * 4), y * cropWidth * 4);
+  }
+  return out;
+};
+
+describe('watermark', () => {
+  it('reads back the ID it wrote, changing no channel by more than one', () => {
+    const original = picture(60, 40);
+    const marked = original.slice();
+    embedWatermark(marked, 60, 40, id);
+    expect(readWatermark(marked, 60, 40)).toEqual(id);
+    expect(marked.every((value, i) => Math.abs(value - original[i]) <= 1)).toBe(true);
+  });
+
+  it('finds nothing in an unmarked image', () => {
+    expect(readWatermark(picture(60, 40), 60, 40)).toBeNull();
+    expect(readWatermark(new Uint8Array(60 * 40 * 4).fill(255), 60, 40)).toBeNull();
+  });
+
+  it('survives cropping at any offset', () => {
+    const marked = picture(80, 60);
+    embedWatermark(marked, 80, 60, id);
+    expect(readWatermark(crop(marked, 80, 7, 5, 50, 40), 50, 40)).toEqual(id);
+  });
+
+  it('survives text drawn over part of the image', () => {
+    const marked = picture(96, 64);
+    embedWatermark(marked, 96, 64, id);
+    // Blank out a band a third of the image high, as a caption or badge would.
+    marked.fill(0, 0, 96 * 20 * 4);
+    for (let i = 3; i < marked.length; i += 4) marked[i] = 255;
+    expect(readWatermark(marked, 96, 64)).toEqual(id);
+  });
+
+  it('rejects IDs of the wrong length', () => {
+    expect(() => embedWatermark(picture(12, 8), 12, 8, new Uint8Array(4))).toThrow();
+  });
+});
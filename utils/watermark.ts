@@ -0,0 +1,85 @@
+import { crc32 } from './png';
+
+/**
+ * An invisible watermark in the least significant bit of each colour channel.
+ *
+ * The payload is a 16-bit marker, an 8-byte ID and a 16-bit check, 96 bits in
+ * all, laid out as a 12 × 8 pixel tile repeated over the whole image. Reading
+ * takes a majority vote per tile cell, so text drawn over part of the image
+ * does not erase it, and tries every alignment of the tile, so it survives
+ * cropping and added margins. Scaling and lossy formats such as JPEG destroy it.
+ */
+
+export const WATERMARK_ID_BYTES = 8;
+
+const TILE_WIDTH = 12;
+const TILE_HEIGHT = 8;
+const TILE_BITS = TILE_WIDTH * TILE_HEIGHT;
+const MARKER = 0x5854;
+
+type Pixels = Uint8Array | Uint8ClampedArray;
+
+const checkOf = (id: Uint8Array) => crc32(id) & 0xffff;
+
+const toBits = (id: Uint8Array): number[] => {
+  const bytes = [MARKER >> 8, MARKER & 0xff, ...id, checkOf(id) >> 8, checkOf(id) & 0xff];
+  return bytes.flatMap(byte => Array.from({ length: 8 }, (_, i) => (byte >> (7 - i)) & 1));
+};
+
+const fromBits = (bits: number[]): Uint8Array =>
+  Uint8Array.from({ length: bits.length / 8 }, (_, i) => bits.slice(i * 8, i * 8 + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+
+/**
+ * Writes the ID into RGBA pixels in place. Pixels that are not fully opaque
+ * are skipped, as browsers may round their colours when drawing them.
+ */
+export const embedWatermark = (rgba: Pixels, width: number, height: number, id: Uint8Array): void => {
+  if (id.length !== WATERMARK_ID_BYTES) throw new Error(`A watermark ID is ${WATERMARK_ID_BYTES} bytes.`);
+  const bits = toBits(id);
+  for (let y = 0; y < height; y++) {
+    const row = (y % TILE_HEIGHT) * TILE_WIDTH;
+    for (let x = 0; x < width; x++) {
+      const offset = (y * width + x) * 4;
+      if (rgba[offset + 3] !== 255) continue;
+      const bit = bits[row + (x % TILE_WIDTH)];
+      for (let channel = 0; channel < 3; channel++) {
+        rgba[offset + channel] = (rgba[offset + channel] & 0xfe) | bit;
+      }
+    }
+  }
+};
+
+/**
+ * Reads an ID written by embedWatermark, or returns null when the image
+ * carries none that checks out.
+ */
+export const readWatermark = (rgba: Pixels, width: number, height: number): Uint8Array | null => {
+  // Ones and votes for each cell of the tile, wherever the tile starts.
+  const ones = new Uint32Array(TILE_BITS);
+  const votes = new Uint32Array(TILE_BITS);
+  for (let y = 0; y < height; y++) {
+    const row = (y % TILE_HEIGHT) * TILE_WIDTH;
+    for (let x = 0; x < width; x++) {
+      const offset = (y * width + x) * 4;
+      if (rgba[offset + 3] !== 255) continue;
+      const cell = row + (x % TILE_WIDTH);
+      ones[cell] += (rgba[offset] & 1) + (rgba[offset + 1] & 1) + (rgba[offset + 2] & 1);
+      votes[cell] += 3;
+    }
+  }
+  if (votes.some(count => count === 0)) return null;
+
+  for (let shiftY = 0; shiftY < TILE_HEIGHT; shiftY++) {
+    for (let shiftX = 0; shiftX < TILE_WIDTH; shiftX++) {
+      const bits = Array.from({ length: TILE_BITS }, (_, i) => {
+        const cell = ((Math.floor(i / TILE_WIDTH) + shiftY) % TILE_HEIGHT) * TILE_WIDTH + ((i % TILE_WIDTH) + shiftX) % TILE_WIDTH;
+        return ones[cell] * 2 > votes[cell] ? 1 : 0;
+      });
+      const bytes = fromBits(bits);
+      if (((bytes[0] << 8) | bytes[1]) !== MARKER) continue;
+      const id = bytes.slice(2, 2 + WATERMARK_ID_BYTES);
+      if (((bytes[10] << 8) | bytes[11]) === checkOf(id)) return id;
+    }
+  }
+  return null;
+};
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { concatBytes } from './png';
+import { encodeAnimatedWebp, getImageChunks, riffChunk } from './webp';
+
+const bytes = (...values: number[]) => Uint8Array.from(values);
+
+// A stand-in for a still WebP from the canvas: the bitstream is not decoded, only carried over.
+const stillWebp = (...chunks: Uint8Array[]) => riffChunk('RIFF', concatBytes([Uint8Array.from('WEBP', c => c.charCodeAt(0)), ...chunks]));
+
+// Lists the top-level chunks of a RIFF body, from `offset`.
+const readChunks = (data: Uint8Array, offset: number) => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const chunks: { type: string; data: Uint8Array }[] = [];
+  while (offset + 8 <= data.length) {
+    const size = view.getUint32(offset + 4, true);
+    chunks.push({ type: String.fromCharCode(...data.subarray(offset, offset + 4)), data: data.subarray(offset + 8, offset + 8 + size) });
+    offset += 8 + size + (size % 2);
+  }
+  return chunks;
+};
+
+const uint24 = (data: Uint8Array, at: number) => data[at] | (data[at + 1] << 8) | (data[at + 2] << 16);
+
+describe('getImageChunks', () => {
+  it('keeps the bitstream and alpha chunks and drops the rest', () => {
+    const vp8x = riffChunk('VP8X', new Uint8Array(10));
+    const alph = riffChunk('ALPH', bytes(1, 2, 3));
+    const vp8 = riffChunk('VP8 ', bytes(4, 5, 6, 7));
+    const exif = riffChunk('EXIF', bytes(8));
+    const { chunks, alpha } = getImageChunks(stillWebp(vp8x, alph, vp8, exif));
+    expect(chunks).toEqual([alph, vp8]);
+    expect(alpha).toBe(true);
+  });
+
+  it('rejects other files', () => {
+    expect(() => getImageChunks(Uint8Array.from('not a webp file', c => c.charCodeAt(0)))).toThrow('Not a WebP image.');
+  });
+});
+
+describe('encodeAnimatedWebp', () => {
+  const first = riffChunk('VP8 ', bytes(1, 2, 3));
+  const second = riffChunk('VP8 ', bytes(4, 5, 6, 7));
+
+  it('wraps each frame with its size and duration', () => {
+    const webp = encodeAnimatedWebp(300, 200, [{ webp: stillWebp(first), durationMs: 800 }, { webp: stillWebp(second), durationMs: 1500 }], true);
+    expect(String.fromCharCode(...webp.subarray(0, 4), ...webp.subarray(8, 12))).toBe('RIFFWEBP');
+    expect(new DataView(webp.buffer).getUint32(4, true)).toBe(webp.length - 8);
+
+    const [vp8x, anim, ...frames] = readChunks(webp, 12);
+    expect(vp8x.type).toBe('VP8X');
+    expect(vp8x.data[0]).toBe(0x02);
+    expect([uint24(vp8x.data, 4), uint24(vp8x.data, 7)]).toEqual([299, 199]);
+    expect(anim.type).toBe('ANIM');
+    expect(anim.data[4] | (anim.data[5] << 8)).toBe(0);
+
+    expect(frames.map(frame => frame.type)).toEqual(['ANMF', 'ANMF']);
+    expect(frames.map(frame => uint24(frame.data, 12))).toEqual([800, 1500]);
+    expect([uint24(frames[0].data, 6), uint24(frames[0].data, 9)]).toEqual([299, 199]);
+    expect(frames[0].data.subarray(16)).toEqual(first);
+    expect(frames[1].data.subarray(16)).toEqual(second);
+  });
+
+  it('plays once without a loop', () => {
+    const webp = encodeAnimatedWebp(10, 10, [{ webp: stillWebp(first), durationMs: 100 }], false);
+    const [, anim] = readChunks(webp, 12);
+    expect(anim.data[4] | (anim.data[5] << 8)).toBe(1);
+  });
+});
@@ -0,0 +1,97 @@
+// Minimal animated WebP writer that wraps still WebP images, e.g. from
+// canvas.toBlob(), as the frames of one animation.
+
+import { concatBytes } from './png';
+
+export interface WebpFrame {
+  // A complete still WebP file.
+  webp: Uint8Array;
+  durationMs: number;
+}
+
+const fourCc = (bytes: Uint8Array, at: number) => String.fromCharCode(...bytes.subarray(at, at + 4));
+
+const writeFourCc = (view: DataView, at: number, value: string) => {
+  for (let i = 0; i < 4; i++) view.setUint8(at + i, value.charCodeAt(i));
+};
+
+const setUint24 = (view: DataView, at: number, value: number) => {
+  view.setUint8(at, value & 0xff);
+  view.setUint8(at + 1, (value >> 8) & 0xff);
+  view.setUint8(at + 2, (value >> 16) & 0xff);
+};
+
+// A RIFF chunk: type, little-endian size, then the data padded to an even length.
+export const riffChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(8 + data.length + (data.length % 2));
+  const view = new DataView(chunk.buffer);
+  writeFourCc(view, 0, type);
+  view.setUint32(4, data.length, true);
+  chunk.set(data, 8);
+  return chunk;
+};
+
+/**
+ * The chunks of a still WebP that hold the picture itself: the VP8 or VP8L
+ * bitstream and any ALPH alpha chunk, whole and in order. Headers and
+ * metadata are dropped. Throws if the bytes are not a WebP file.
+ */
+export const getImageChunks = (webp: Uint8Array): { chunks: Uint8Array[]; alpha: boolean } => {
+  if (webp.length < 12 || fourCc(webp, 0) !== 'RIFF' || fourCc(webp, 8) !== 'WEBP') {
+    throw new Error('Not a WebP image.');
+  }
+  const view = new DataView(webp.buffer, webp.byteOffset, webp.byteLength);
+  const chunks: Uint8Array[] = [];
+  let alpha = false;
+  let offset = 12;
+  while (offset + 8 <= webp.length) {
+    const type = fourCc(webp, offset);
+    const size = view.getUint32(offset + 4, true);
+    const end = offset + 8 + size + (size % 2);
+    if (type === 'ALPH' || type === 'VP8 ' || type === 'VP8L') {
+      chunks.push(webp.subarray(offset, Math.min(end, webp.length)));
+      // Lossless frames carry their own alpha.
+      if (type !== 'VP8 ') alpha = true;
+    }
+    offset = end;
+  }
+  if (!chunks.some(chunk => fourCc(chunk, 0) !== 'ALPH')) throw new Error('The WebP image has no picture data.');
+  return { chunks, alpha };
+};
+
+/**
+ * Wraps frames of the same size as one animated WebP. With `loop` it repeats
+ * forever; otherwise it plays once. Frames are not blended, so each replaces
+ * the last in full.
+ */
+export const encodeAnimatedWebp = (width: number, height: number, frames: WebpFrame[], loop: boolean): Uint8Array => {
+  const images = frames.map(frame => getImageChunks(frame.webp));
+
+  const header = new Uint8Array(10);
+  const headerView = new DataView(header.buffer);
+  // Flags: animation, plus alpha if any frame has it.
+  headerView.setUint8(0, 0x02 | (images.some(image => image.alpha) ? 0x10 : 0));
+  setUint24(headerView, 4, width - 1);
+  setUint24(headerView, 7, height - 1);
+
+  const anim = new Uint8Array(6);
+  const animView = new DataView(anim.buffer);
+  // Opaque white behind the frames, then the loop count, where 0 is forever.
+  animView.setUint32(0, 0xffffffff, true);
+  animView.setUint16(4, loop ? 0 : 1, true);
+
+  const anmf = frames.map((frame, i) => {
+    const position = new Uint8Array(16);
+    const view = new DataView(position.buffer);
+    // Frame offset (0, 0), then its size less one.
+    setUint24(view, 6, width - 1);
+    setUint24(view, 9, height - 1);
+    setUint24(view, 12, Math.min(0xffffff, Math.max(1, Math.round(frame.durationMs))));
+    // Do not blend with the previous frame.
+    view.setUint8(15, 0x02);
+    return riffChunk('ANMF', concatBytes([position, ...images[i].chunks]));
+  });
+
+  const body = concatBytes([Uint8Array.from('WEBP', c => c.charCodeAt(0)), riffChunk('VP8X', header), riffChunk('ANIM', anim), ...anmf]);
+  return riffChunk('RIFF', body);
+};
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
@@ -8,16 +9,27 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          // The team gallery (npm run gallery) is its own service; listed first so it wins over /api.
+          '/api/gallery': env.GALLERY_PROXY_TARGET || 'http://localhost:8790',
+          // The API server (npm run server) holds the Gemini key; the browser never sees it.
+          '/api': env.API_PROXY_TARGET || 'http://localhost:8787',
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.IMAGE_PROVIDER': JSON.stringify(env.IMAGE_PROVIDER),
+        'process.env.IMAGE_MODEL': JSON.stringify(env.IMAGE_MODEL)
       },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
+      },
+      test: {
+        // Server tests opt into the node environment with a docblock.
+        environment: 'jsdom',
+        setupFiles: ['./test/setup.ts'],
       }
     };
 });